@@ -0,0 +1,48 @@
+-- Migration: Add scheduled monitoring
+-- Description: Creates tables for per-brand monitoring schedules and their run history
+
+-- Monitoring schedules table - cron-driven monitoring configuration per brand
+CREATE TABLE monitoring_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    cron_expression VARCHAR(100) NOT NULL,
+    timezone VARCHAR(64) DEFAULT 'UTC',
+    query_types TEXT[] NOT NULL DEFAULT ARRAY['visibility', 'sentiment', 'reputation', 'news'],
+    target_models TEXT[] DEFAULT ARRAY[]::TEXT[], -- Empty means all active models
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+    is_active BOOLEAN DEFAULT true,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Monitoring runs table - execution history for scheduled and manually triggered runs
+CREATE TABLE monitoring_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    schedule_id UUID REFERENCES monitoring_schedules(id) ON DELETE SET NULL,
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    trigger_type VARCHAR(20) NOT NULL CHECK (trigger_type IN ('scheduled', 'manual')),
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    query_types TEXT[],
+    target_models TEXT[],
+    responses_count INTEGER DEFAULT 0,
+    total_cost DECIMAL(10, 6) DEFAULT 0,
+    error_message TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for performance
+CREATE INDEX idx_monitoring_schedules_brand_id ON monitoring_schedules(brand_id);
+CREATE INDEX idx_monitoring_schedules_status ON monitoring_schedules(status);
+CREATE INDEX idx_monitoring_runs_schedule_id ON monitoring_runs(schedule_id);
+CREATE INDEX idx_monitoring_runs_brand_id ON monitoring_runs(brand_id);
+CREATE INDEX idx_monitoring_runs_status ON monitoring_runs(status);
+CREATE INDEX idx_monitoring_runs_created_at ON monitoring_runs(created_at);
+
+-- Update trigger for updated_at
+CREATE TRIGGER update_monitoring_schedules_updated_at BEFORE UPDATE ON monitoring_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
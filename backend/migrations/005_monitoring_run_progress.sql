@@ -0,0 +1,11 @@
+-- Migration: Track monitoring run progress
+-- Description: Adds progress columns to monitoring_runs so API-triggered runs can be polled and streamed
+
+ALTER TABLE monitoring_runs
+    ADD COLUMN requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN queries_total INTEGER DEFAULT 0,
+    ADD COLUMN queries_completed INTEGER DEFAULT 0,
+    ADD COLUMN models_queried TEXT[] DEFAULT ARRAY[]::TEXT[],
+    ADD COLUMN failures JSONB DEFAULT '[]'; -- [{query_type, model_name?, error}]
+
+CREATE INDEX idx_monitoring_runs_requested_by ON monitoring_runs(requested_by);
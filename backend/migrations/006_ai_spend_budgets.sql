@@ -0,0 +1,43 @@
+-- Migration: Token-priced AI costs and spend budgets
+-- Description: Splits model pricing into input and output token prices, records token usage per
+-- response, and adds monthly spend budgets per brand and for the whole organization
+
+-- Prices are per 1,000 tokens; cost_per_request remains the blended fallback
+ALTER TABLE ai_models
+    ADD COLUMN input_cost_per_1k_tokens DECIMAL(10, 6),
+    ADD COLUMN output_cost_per_1k_tokens DECIMAL(10, 6);
+
+UPDATE ai_models
+SET input_cost_per_1k_tokens = cost_per_request,
+    output_cost_per_1k_tokens = cost_per_request
+WHERE cost_per_request IS NOT NULL;
+
+ALTER TABLE ai_responses
+    ADD COLUMN prompt_tokens INTEGER,
+    ADD COLUMN completion_tokens INTEGER;
+
+-- Spend budgets table - monthly AI spend limits. An organization budget has no brand and caps
+-- spend across every brand.
+CREATE TABLE spend_budgets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope VARCHAR(20) NOT NULL CHECK (scope IN ('brand', 'organization')),
+    brand_id UUID REFERENCES brands(id) ON DELETE CASCADE,
+    monthly_limit DECIMAL(12, 2) NOT NULL CHECK (monthly_limit >= 0),
+    is_active BOOLEAN DEFAULT true,
+    exceeded_at TIMESTAMP WITH TIME ZONE, -- Set once per month when the limit is first reached
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK ((scope = 'brand') = (brand_id IS NOT NULL))
+);
+
+-- One budget per brand, and one for the organization
+CREATE UNIQUE INDEX idx_spend_budgets_brand_id ON spend_budgets(brand_id) WHERE scope = 'brand';
+CREATE UNIQUE INDEX idx_spend_budgets_organization ON spend_budgets(scope) WHERE scope = 'organization';
+
+-- Schedules paused by a budget are resumed once spend is back under the limit
+ALTER TABLE monitoring_schedules
+    ADD COLUMN paused_reason VARCHAR(50); -- NULL for manual pauses, 'budget_exceeded' otherwise
+
+CREATE TRIGGER update_spend_budgets_updated_at BEFORE UPDATE ON spend_budgets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
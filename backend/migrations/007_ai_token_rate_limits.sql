@@ -0,0 +1,6 @@
+-- Migration: Token rate limits for AI models
+-- Description: Adds a tokens-per-minute limit alongside rate_limit_per_minute. Both are enforced
+-- through Redis so every backend replica shares one budget per model.
+
+ALTER TABLE ai_models
+    ADD COLUMN tokens_per_minute INTEGER CHECK (tokens_per_minute > 0); -- NULL means no token limit
@@ -0,0 +1,12 @@
+-- Migration: Multi-sample monitoring runs
+-- Description: Lets a run sample each prompt several times and records how stable the answers
+-- were, next to the visibility score they produced
+
+-- 0 to 100; NULL when the metric came from a single sample
+ALTER TABLE visibility_metrics
+    ADD COLUMN stability_score DECIMAL(5, 2) CHECK (stability_score >= 0 AND stability_score <= 100);
+
+ALTER TABLE monitoring_runs
+    ADD COLUMN samples INTEGER NOT NULL DEFAULT 1 CHECK (samples >= 1 AND samples <= 10),
+    ADD COLUMN sample_temperature DECIMAL(3, 2) CHECK (sample_temperature >= 0 AND sample_temperature <= 2),
+    ADD COLUMN sample_statistics JSONB; -- Per-brand mention rate, sentiment spread and position variance
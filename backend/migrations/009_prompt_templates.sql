@@ -0,0 +1,72 @@
+-- Migration: Prompt template library
+-- Description: Moves monitoring prompts into versioned, database-backed templates with optional
+-- per-brand overrides, and records the template version behind every stored AI response
+
+-- Prompt templates table - a template's name is the query type it answers. Templates without a
+-- brand form the shared library; a brand template overrides the library template of the same name.
+CREATE TABLE prompt_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(50) NOT NULL,
+    brand_id UUID REFERENCES brands(id) ON DELETE CASCADE,
+    description VARCHAR(1000),
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One library template per name, and one override per brand and name
+CREATE UNIQUE INDEX idx_prompt_templates_library_name ON prompt_templates(name) WHERE brand_id IS NULL;
+CREATE UNIQUE INDEX idx_prompt_templates_brand_name ON prompt_templates(brand_id, name) WHERE brand_id IS NOT NULL;
+
+-- Prompt template versions table - versions are never edited; the highest version is current
+CREATE TABLE prompt_template_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template_id UUID NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version >= 1),
+    body TEXT NOT NULL,
+    variables JSONB NOT NULL DEFAULT '{}', -- Default values for custom {placeholders}
+    change_note VARCHAR(500),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(template_id, version)
+);
+
+ALTER TABLE ai_responses
+    ADD COLUMN prompt_template_version_id UUID REFERENCES prompt_template_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_ai_responses_prompt_template_version_id ON ai_responses(prompt_template_version_id);
+
+CREATE TRIGGER update_prompt_templates_updated_at BEFORE UPDATE ON prompt_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the library with the built-in prompts as version 1
+WITH seeded AS (
+    INSERT INTO prompt_templates (name, description) VALUES
+        ('visibility', 'General brand awareness'),
+        ('sentiment', 'Public opinion'),
+        ('comparison', 'Comparison with competitors'),
+        ('reputation', 'Industry reputation'),
+        ('product', 'Main product'),
+        ('news', 'Recent news'),
+        ('leadership', 'Key leaders'),
+        ('financial', 'Financial performance'),
+        ('innovation', 'Innovation and technology'),
+        ('partnerships', 'Partnerships and collaborations')
+    RETURNING id, name
+)
+INSERT INTO prompt_template_versions (template_id, version, body, change_note)
+SELECT seeded.id, 1, built_in.body, 'Built-in template'
+FROM seeded
+JOIN (VALUES
+    ('visibility', 'What do you know about {brand_name}? Please provide information about their products, services, and reputation.'),
+    ('sentiment', 'What is the general sentiment and public opinion about {brand_name}? Include both positive and negative aspects.'),
+    ('comparison', 'How does {brand_name} compare to {competitors} in terms of products, services, and market position?'),
+    ('reputation', 'What is {brand_name}''s reputation in the {industry} industry? What are they known for?'),
+    ('product', 'Tell me about {brand_name}''s {product} product. How does it compare to alternatives?'),
+    ('news', 'What recent news or developments are there about {brand_name}?'),
+    ('leadership', 'Who are the key leaders and executives at {brand_name}?'),
+    ('financial', 'What is the financial performance and business model of {brand_name}?'),
+    ('innovation', 'What innovations and new technologies is {brand_name} working on?'),
+    ('partnerships', 'What partnerships and collaborations does {brand_name} have?')
+) AS built_in(name, body) ON built_in.name = seeded.name;
@@ -0,0 +1,47 @@
+-- Migration: Buyer-intent recommendation prompts
+-- Description: Adds category prompts that never name the brand ("best CRM for small businesses"),
+-- records whether each answer recommended the brand and at what list position, and stores the
+-- resulting share of recommendation next to the visibility score
+
+-- Recommendation prompts table - industry prompts apply to every brand in that industry; brand
+-- prompts apply to one brand only
+CREATE TABLE recommendation_prompts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    industry VARCHAR(100),
+    brand_id UUID REFERENCES brands(id) ON DELETE CASCADE,
+    prompt TEXT NOT NULL,
+    category VARCHAR(255), -- e.g. "CRM for small businesses"
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK ((industry IS NULL) <> (brand_id IS NULL))
+);
+
+CREATE INDEX idx_recommendation_prompts_industry ON recommendation_prompts(LOWER(industry)) WHERE brand_id IS NULL;
+CREATE INDEX idx_recommendation_prompts_brand_id ON recommendation_prompts(brand_id);
+
+-- Recommendation results table - one row per answer to a recommendation prompt
+CREATE TABLE recommendation_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    prompt_id UUID REFERENCES recommendation_prompts(id) ON DELETE SET NULL,
+    ai_response_id UUID REFERENCES ai_responses(id) ON DELETE CASCADE,
+    model_name VARCHAR(100),
+    brand_mentioned BOOLEAN NOT NULL,
+    brand_position INTEGER CHECK (brand_position >= 1), -- 1-based list position; NULL when unlisted
+    competitors_mentioned TEXT[] DEFAULT '{}',
+    listed_brands TEXT[] DEFAULT '{}', -- Every list entry, in order
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_recommendation_results_brand_created ON recommendation_results(brand_id, created_at);
+CREATE INDEX idx_recommendation_results_prompt_id ON recommendation_results(prompt_id);
+
+-- Percentage of recommendation answers that named the brand
+ALTER TABLE visibility_metrics
+    ADD COLUMN share_of_recommendation DECIMAL(5, 2)
+        CHECK (share_of_recommendation >= 0 AND share_of_recommendation <= 100);
+
+CREATE TRIGGER update_recommendation_prompts_updated_at BEFORE UPDATE ON recommendation_prompts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
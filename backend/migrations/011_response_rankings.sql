@@ -0,0 +1,21 @@
+-- Migration: Ranking positions parsed from AI responses
+-- Description: Stores where the brand and each competitor appear in the ordered lists of every
+-- response, so ranking_position in visibility_metrics aggregates what the models actually said
+
+-- Response rankings table - one row per brand or competitor that appears as a list entry
+CREATE TABLE response_rankings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    ai_response_id UUID NOT NULL REFERENCES ai_responses(id) ON DELETE CASCADE,
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE, -- The monitored brand
+    entity_name VARCHAR(255) NOT NULL,
+    is_brand BOOLEAN NOT NULL, -- false for competitors
+    position INTEGER NOT NULL CHECK (position >= 1),
+    list_size INTEGER NOT NULL CHECK (list_size >= position),
+    list_index INTEGER NOT NULL DEFAULT 0, -- Which list in the response, from 0
+    list_style VARCHAR(20) NOT NULL CHECK (list_style IN ('numbered', 'bulleted', 'table')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(ai_response_id, entity_name)
+);
+
+CREATE INDEX idx_response_rankings_brand_created ON response_rankings(brand_id, created_at);
+CREATE INDEX idx_response_rankings_entity_name ON response_rankings(entity_name);
@@ -0,0 +1,7 @@
+-- Migration: Record the analyzer behind each brand mention's scores
+-- Description: Brand mentions are now found by name and scored by a configurable analysis
+-- pipeline (lexicon, LLM judge or local model); each row keeps the analyzer version
+
+ALTER TABLE brand_mentions ADD COLUMN analyzer_version VARCHAR(100);
+
+CREATE INDEX idx_brand_mentions_analyzer_version ON brand_mentions(analyzer_version);
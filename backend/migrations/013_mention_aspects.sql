@@ -0,0 +1,25 @@
+-- Migration: Aspect-based sentiment for brand mentions
+-- Description: Splits each mention's sentiment by what it is about (pricing, support, reliability,
+-- security, features, performance, usability), for both AI response and conversation mentions
+
+-- Mention aspects table - one row per aspect a mention discusses, with that aspect's own sentiment
+CREATE TABLE mention_aspects (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_mention_id UUID REFERENCES brand_mentions(id) ON DELETE CASCADE,
+    conversation_mention_id UUID REFERENCES conversation_mentions(id) ON DELETE CASCADE,
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    aspect VARCHAR(50) NOT NULL CHECK (aspect IN (
+        'pricing', 'support', 'reliability', 'security', 'features', 'performance', 'usability'
+    )),
+    evidence TEXT NOT NULL, -- The clauses that discuss the aspect
+    sentiment_score DECIMAL(3, 2) CHECK (sentiment_score >= -1 AND sentiment_score <= 1),
+    sentiment_label VARCHAR(20) CHECK (sentiment_label IN ('positive', 'negative', 'neutral')),
+    confidence DECIMAL(3, 2) CHECK (confidence >= 0 AND confidence <= 1),
+    analyzer_version VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK ((brand_mention_id IS NULL) <> (conversation_mention_id IS NULL))
+);
+
+CREATE INDEX idx_mention_aspects_brand_created ON mention_aspects(brand_id, created_at);
+CREATE INDEX idx_mention_aspects_brand_mention_id ON mention_aspects(brand_mention_id);
+CREATE INDEX idx_mention_aspects_conversation_mention_id ON mention_aspects(conversation_mention_id);
@@ -0,0 +1,29 @@
+-- Migration: Brand fact sheets and factual-accuracy findings
+-- Description: Stores what is true about each brand (key facts, current products, executives and
+-- discontinued items) and every sentence in an AI response that contradicts it
+
+-- {key_facts, products, executives, discontinued_items}; NULL until the brand fills one in
+ALTER TABLE brands
+    ADD COLUMN fact_sheet JSONB;
+
+-- Contradictions found in a monitoring run, for the inaccuracy_count alert metric
+ALTER TABLE visibility_metrics
+    ADD COLUMN inaccuracy_count INTEGER CHECK (inaccuracy_count >= 0);
+
+-- Fact check findings table - one row per sentence that contradicts the fact sheet
+CREATE TABLE fact_check_findings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    ai_response_id UUID NOT NULL REFERENCES ai_responses(id) ON DELETE CASCADE,
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    finding_type VARCHAR(50) NOT NULL CHECK (finding_type IN (
+        'founded_year', 'headquarters', 'founder', 'executive', 'pricing', 'discontinued_item'
+    )),
+    sentence TEXT NOT NULL, -- The offending sentence, as the model wrote it
+    claimed_value VARCHAR(500) NOT NULL,
+    expected_value VARCHAR(500) NOT NULL,
+    confidence DECIMAL(3, 2) CHECK (confidence >= 0 AND confidence <= 1),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_fact_check_findings_brand_created ON fact_check_findings(brand_id, created_at);
+CREATE INDEX idx_fact_check_findings_ai_response_id ON fact_check_findings(ai_response_id);
@@ -0,0 +1,16 @@
+-- Migration: Citation crawling
+-- Description: Records whether each cited URL resolves, where it redirects, and whether the page
+-- actually mentions the brand; title, publish_date, relevance_score and last_crawled are filled
+-- in by the crawl worker
+
+ALTER TABLE citations
+    ADD COLUMN crawl_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (crawl_status IN ('pending', 'ok', 'broken', 'unreachable')),
+    ADD COLUMN http_status INTEGER,
+    ADD COLUMN final_url VARCHAR(1000),
+    ADD COLUMN mentions_brand BOOLEAN,
+    ADD COLUMN crawl_error VARCHAR(500);
+
+-- The worker picks citations never crawled first, then the stalest
+CREATE INDEX idx_citations_last_crawled ON citations(last_crawled NULLS FIRST);
+CREATE INDEX idx_citations_url ON citations(url);
@@ -0,0 +1,39 @@
+-- Migration: Domain authority table
+-- Description: Replaces the hard-coded list of high-authority domains with a table admins can edit.
+-- Scores are learned from how often, and for how many brands, each domain is cited; an admin's
+-- score overrides the learned one until it is cleared
+
+CREATE TABLE domain_authority (
+    domain VARCHAR(255) PRIMARY KEY, -- Lower case, without "www."
+    manual_score DECIMAL(3, 2) CHECK (manual_score >= 0 AND manual_score <= 1),
+    learned_score DECIMAL(3, 2) CHECK (learned_score >= 0 AND learned_score <= 1),
+    citation_count INTEGER NOT NULL DEFAULT 0, -- Across all brands, as of learned_at
+    brand_count INTEGER NOT NULL DEFAULT 0,
+    broken_count INTEGER NOT NULL DEFAULT 0, -- Citations the crawler found broken or unreachable
+    notes VARCHAR(500),
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    learned_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_domain_authority_citation_count ON domain_authority(citation_count DESC);
+
+CREATE TRIGGER update_domain_authority_updated_at BEFORE UPDATE ON domain_authority
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The domains that were hard-coded before, kept as manual scores
+INSERT INTO domain_authority (domain, manual_score, notes) VALUES
+    ('wikipedia.org', 0.90, 'Built-in default'),
+    ('reuters.com', 0.90, 'Built-in default'),
+    ('bbc.com', 0.90, 'Built-in default'),
+    ('cnn.com', 0.90, 'Built-in default'),
+    ('nytimes.com', 0.90, 'Built-in default'),
+    ('wsj.com', 0.90, 'Built-in default'),
+    ('forbes.com', 0.90, 'Built-in default'),
+    ('bloomberg.com', 0.90, 'Built-in default'),
+    ('techcrunch.com', 0.90, 'Built-in default'),
+    ('wired.com', 0.90, 'Built-in default');
+
+-- Leaderboards group citations by domain
+CREATE INDEX idx_citations_domain ON citations(domain);
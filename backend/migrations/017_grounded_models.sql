@@ -0,0 +1,16 @@
+-- Migration: Grounded models
+-- Description: A grounded model is queried with its provider's web search tool turned on. The
+-- pages the tool returned are stored as citations with source 'search', and each response
+-- records whether it was grounded so grounded and ungrounded answers can be reported apart
+
+ALTER TABLE ai_models
+    ADD COLUMN grounded BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE ai_responses
+    ADD COLUMN grounded BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE citations
+    ADD COLUMN source VARCHAR(20) NOT NULL DEFAULT 'text'
+        CHECK (source IN ('text', 'search')); -- 'text' when found in the answer itself
+
+CREATE INDEX idx_ai_responses_brand_grounded ON ai_responses(brand_id, grounded, created_at);
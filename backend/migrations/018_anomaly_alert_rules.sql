@@ -0,0 +1,21 @@
+-- Migration: Anomaly-detection alert rules
+-- Description: Lets an alert threshold compare each recorded metric against a rolling baseline built
+-- from the brand's earlier visibility_metrics rows, instead of a fixed value. The alert a rule
+-- raises keeps the baseline it was compared against
+
+-- 'static' compares against threshold_value; the other methods against the baseline, with
+-- comparison_operator giving the direction ('<' for drops, '>' for rises)
+ALTER TABLE alert_thresholds
+    ADD COLUMN detection_method VARCHAR(20) NOT NULL DEFAULT 'static'
+        CHECK (detection_method IN ('static', 'z_score', 'percent_change', 'seasonal')),
+    ADD COLUMN sensitivity DECIMAL(10, 2) CHECK (sensitivity > 0), -- Standard deviations, or percent for percent_change; NULL for the method's default
+    ADD COLUMN min_samples INTEGER CHECK (min_samples >= 2), -- NULL for 5
+    ADD COLUMN baseline_days INTEGER CHECK (baseline_days BETWEEN 1 AND 365); -- NULL for the method's default window
+
+ALTER TABLE alert_thresholds
+    ALTER COLUMN threshold_value DROP NOT NULL,
+    ADD CONSTRAINT alert_thresholds_static_value CHECK (detection_method <> 'static' OR threshold_value IS NOT NULL);
+
+-- {method, value, std_dev, sample_size, window_days, sensitivity, deviation}; NULL for static rules
+ALTER TABLE alerts
+    ADD COLUMN baseline JSONB;
@@ -0,0 +1,20 @@
+-- Migration: Composite alert rules
+-- Description: A composite rule combines conditions with AND/OR, each on a visibility metric of the
+-- recorded runs or on a count over the brand's recent answers, with time windows,
+-- consecutive-run counts and per-model scoping. Its alerts keep what every condition observed
+
+ALTER TABLE alert_thresholds
+    DROP CONSTRAINT alert_thresholds_detection_method_check,
+    ADD CONSTRAINT alert_thresholds_detection_method_check
+        CHECK (detection_method IN ('static', 'z_score', 'percent_change', 'seasonal', 'composite')),
+    ALTER COLUMN comparison_operator DROP NOT NULL,
+    ADD COLUMN condition JSONB, -- {all: [...]}, {any: [...]} or {metric, operator, value, change, window_hours, consecutive_runs, model}
+    ADD COLUMN severity VARCHAR(20) CHECK (severity IN ('low', 'medium', 'high', 'critical')), -- NULL for medium
+    ADD CONSTRAINT alert_thresholds_composite_condition
+        CHECK ((detection_method = 'composite') = (condition IS NOT NULL)),
+    ADD CONSTRAINT alert_thresholds_operator
+        CHECK (detection_method = 'composite' OR comparison_operator IS NOT NULL);
+
+-- [{condition, matched, value, models}]; NULL for other rules
+ALTER TABLE alerts
+    ADD COLUMN condition_results JSONB;
@@ -0,0 +1,56 @@
+-- Migration: Alert escalation policies and on-call rotations
+-- Description: An alert that matches a brand's escalation policy and is not acknowledged in time is
+-- sent on to each tier of the policy in turn, as delayed jobs on the alert queue, repeating until
+-- it is acknowledged or the repeat limit is reached. Every step is recorded in alert_escalations
+
+-- On-call rotations table - users take shifts of shift_hours in turn, starting at starts_at
+CREATE TABLE on_call_rotations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    user_ids UUID[] NOT NULL CHECK (cardinality(user_ids) > 0), -- In turn order
+    shift_hours INTEGER NOT NULL DEFAULT 168 CHECK (shift_hours BETWEEN 1 AND 2160),
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_on_call_rotations_brand_id ON on_call_rotations(brand_id) WHERE is_active = true;
+
+-- Escalation policies table - at most one active policy per brand
+CREATE TABLE escalation_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    severities TEXT[] NOT NULL DEFAULT ARRAY['high', 'critical'], -- Alert severities that escalate
+    steps JSONB NOT NULL, -- [{delay_minutes, channels, user_ids, rotation_id}], one per tier
+    repeat_limit INTEGER NOT NULL DEFAULT 3 CHECK (repeat_limit BETWEEN 0 AND 20),
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_escalation_policies_brand_active ON escalation_policies(brand_id) WHERE is_active = true;
+
+-- Alert escalations table - the audit trail of each alert's escalation
+CREATE TABLE alert_escalations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alert_id UUID NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+    policy_id UUID REFERENCES escalation_policies(id) ON DELETE SET NULL,
+    step_index INTEGER,
+    cycle INTEGER, -- 0 for the first pass through the steps
+    action VARCHAR(20) NOT NULL CHECK (action IN ('scheduled', 'notified', 'acknowledged', 'stopped')),
+    user_ids UUID[] NOT NULL DEFAULT ARRAY[]::UUID[], -- Notified users, or the user who acknowledged
+    channels TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    job_id VARCHAR(100), -- Bull job of a scheduled step
+    reason VARCHAR(255), -- Why an escalation stopped
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_alert_escalations_alert_id ON alert_escalations(alert_id, created_at);
+
+CREATE TRIGGER update_on_call_rotations_updated_at BEFORE UPDATE ON on_call_rotations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_escalation_policies_updated_at BEFORE UPDATE ON escalation_policies FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,35 @@
+-- Migration: Alert incidents
+-- Description: Groups related alerts into incidents by brand, model and time window, so one
+-- model going wrong raises one incident rather than separate score, sentiment and mention
+-- alerts. Resolving an incident resolves its alerts
+
+-- Alert incidents table - an incident stays open to new alerts while it keeps receiving them
+CREATE TABLE alert_incidents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id UUID NOT NULL REFERENCES brands(id) ON DELETE CASCADE,
+    ai_model_id UUID REFERENCES ai_models(id) ON DELETE SET NULL, -- NULL while its alerts are brand-wide
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    severity VARCHAR(20) NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')), -- Highest of its alerts
+    title VARCHAR(255) NOT NULL,
+    alert_count INTEGER NOT NULL DEFAULT 1,
+    repeat_count INTEGER NOT NULL DEFAULT 0, -- Repeats of its alerts' rules, suppressed as duplicates
+    first_alert_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_alert_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_alert_incidents_brand_id ON alert_incidents(brand_id, last_alert_at DESC);
+CREATE INDEX idx_alert_incidents_open ON alert_incidents(brand_id, last_alert_at) WHERE status = 'open';
+
+-- The model an alert points to, where it points to one, and the metrics run that triggered it
+ALTER TABLE alerts
+    ADD COLUMN incident_id UUID REFERENCES alert_incidents(id) ON DELETE SET NULL,
+    ADD COLUMN ai_model_id UUID REFERENCES ai_models(id) ON DELETE SET NULL,
+    ADD COLUMN visibility_metrics_id UUID REFERENCES visibility_metrics(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_alerts_incident_id ON alerts(incident_id);
+
+CREATE TRIGGER update_alert_incidents_updated_at BEFORE UPDATE ON alert_incidents FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
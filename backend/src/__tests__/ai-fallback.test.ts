@@ -0,0 +1,223 @@
+import { AIModelManager } from '../services/ai/AIModelManager';
+import { CircuitBreaker } from '../services/ai/CircuitBreaker';
+import { ProviderRegistry } from '../services/ai/ProviderRegistry';
+import { AIModelError, AIQuery, IAIModel } from '../types/ai';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+const mockQuery = require('../config/database').query;
+
+const modelError = (message: string, code: string, status: number, retryAfter?: number): AIModelError => {
+  const error = new Error(message) as AIModelError;
+  error.code = code;
+  error.status = status;
+  if (retryAfter !== undefined) {
+    error.rate_limit_info = { requests_remaining: 0, reset_time: new Date(), retry_after: retryAfter };
+  }
+  return error;
+};
+
+describe('AI Model Fallback and Circuit Breakers', () => {
+  describe('CircuitBreaker', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-01-15T10:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should open after consecutive failures and half-open after the cooldown', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 30000 });
+      const error = modelError('Service unavailable', 'SERVICE_UNAVAILABLE', 503);
+
+      breaker.recordFailure(error);
+      breaker.recordFailure(error);
+      expect(breaker.tryAcquire()).toBe(true);
+
+      breaker.recordFailure(error);
+      expect(breaker.getSnapshot()).toMatchObject({
+        state: 'open',
+        consecutive_failures: 3,
+        last_error_code: 'SERVICE_UNAVAILABLE',
+        last_error_status: 503
+      });
+      expect(breaker.tryAcquire()).toBe(false);
+
+      jest.advanceTimersByTime(30000);
+      expect(breaker.tryAcquire()).toBe(true);
+      expect(breaker.getSnapshot().state).toBe('half_open');
+
+      // Only one trial request while half-open
+      expect(breaker.tryAcquire()).toBe(false);
+
+      breaker.recordSuccess();
+      expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutive_failures: 0 });
+    });
+
+    it('should reopen when the half-open trial fails', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+      breaker.recordFailure(modelError('Down', 'SERVICE_UNAVAILABLE', 503));
+
+      jest.advanceTimersByTime(1000);
+      expect(breaker.tryAcquire()).toBe(true);
+      breaker.recordFailure(modelError('Still down', 'NETWORK_ERROR', 0));
+
+      expect(breaker.getSnapshot().state).toBe('open');
+      expect(breaker.tryAcquire()).toBe(false);
+    });
+
+    it('should ignore caller errors', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+
+      expect(breaker.recordFailure(modelError('Invalid query', 'INVALID_QUERY', 400))).toBe(false);
+      expect(breaker.recordFailure(modelError('Request cancelled', 'REQUEST_CANCELLED', 499))).toBe(false);
+      expect(breaker.recordFailure(modelError('Rate limit queue timed out', 'RATE_LIMIT_QUEUE_TIMEOUT', 429, 30))).toBe(false);
+      expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutive_failures: 0 });
+    });
+
+    it('should open immediately for invalid keys and honour retry-after', () => {
+      const keyBreaker = new CircuitBreaker({ failureThreshold: 5, cooldownMs: 1000 });
+      keyBreaker.recordFailure(modelError('Invalid API key', 'INVALID_API_KEY', 401));
+      expect(keyBreaker.getSnapshot().state).toBe('open');
+
+      const rateBreaker = new CircuitBreaker({ failureThreshold: 5, cooldownMs: 1000 });
+      rateBreaker.recordFailure(modelError('Rate limit exceeded', 'RATE_LIMIT_EXCEEDED', 429, 120));
+      expect(rateBreaker.getSnapshot().open_until).toEqual(new Date('2024-01-15T10:02:00Z'));
+    });
+  });
+
+  describe('AIModelManager', () => {
+    let manager: AIModelManager;
+    let models: Record<string, jest.Mocked<IAIModel>>;
+
+    const request: AIQuery = { id: 'query-1', brand_id: 'brand-1', query: 'What do you know about TechCorp?' };
+
+    const response = (modelName: string) => ({
+      id: `response-${modelName}`,
+      query_id: 'query-1',
+      model_name: modelName,
+      provider: 'stub',
+      response: `Answer from ${modelName}`,
+      usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 },
+      cost: 0.001,
+      processing_time_ms: 100,
+      created_at: new Date()
+    });
+
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      models = {};
+
+      // Registry whose models are jest mocks, one per configured model name
+      const registry = new ProviderRegistry();
+      registry.register('stub', (config) => {
+        const model = {
+          config,
+          query: jest.fn().mockImplementation(async () => response(config.name)),
+          parseResponse: jest.fn(),
+          validateQuery: jest.fn().mockReturnValue(true),
+          estimateCost: jest.fn().mockReturnValue(0.001),
+          checkRateLimit: jest.fn().mockResolvedValue({ requests_remaining: 10, reset_time: new Date() }),
+          healthCheck: jest.fn().mockResolvedValue(true)
+        } as unknown as jest.Mocked<IAIModel>;
+        models[config.name] = model;
+        return model;
+      });
+
+      mockQuery.mockResolvedValue({
+        rows: ['GPT-4', 'Claude', 'Gemini'].map(name => ({
+          id: `${name}-id`,
+          name,
+          provider: 'stub',
+          model_version: 'v1',
+          api_endpoint: 'http://localhost',
+          rate_limit_per_minute: 60,
+          cost_per_request: 0.01
+        }))
+      });
+
+      manager = new AIModelManager(registry, { failureThreshold: 2, cooldownMs: 60000 });
+      await manager.initializeModels();
+      manager.setFallbackChain('GPT-4', ['Claude', 'Gemini']);
+    });
+
+    it('should fail over along the fallback chain', async () => {
+      models['GPT-4']!.query.mockRejectedValue(modelError('OpenAI service unavailable', 'SERVICE_UNAVAILABLE', 503));
+      models['Claude']!.query.mockRejectedValue(modelError('Overloaded', 'SERVICE_UNAVAILABLE', 529));
+
+      const result = await manager.queryModel('GPT-4', request);
+
+      expect(result.model_name).toBe('Gemini');
+      expect(result.metadata).toEqual({ fallback_from: 'GPT-4' });
+      expect(models['GPT-4']!.query).toHaveBeenCalledTimes(1);
+      expect(models['Claude']!.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should take a failing model out of rotation after repeated failures', async () => {
+      models['GPT-4']!.query.mockRejectedValue(modelError('Network error', 'NETWORK_ERROR', 0));
+
+      await manager.queryModel('GPT-4', request);
+      await manager.queryModel('GPT-4', request);
+      await manager.queryModel('GPT-4', request);
+
+      // Two failures open the circuit; the third query goes straight to Claude
+      expect(models['GPT-4']!.query).toHaveBeenCalledTimes(2);
+      expect(models['Claude']!.query).toHaveBeenCalledTimes(3);
+      expect(manager.getCircuitState('GPT-4').state).toBe('open');
+    });
+
+    it('should not fail over on caller errors', async () => {
+      models['GPT-4']!.query.mockRejectedValue(modelError('Invalid query parameters', 'INVALID_QUERY', 400));
+
+      await expect(manager.queryModel('GPT-4', request)).rejects.toThrow('Invalid query parameters');
+      expect(models['Claude']!.query).not.toHaveBeenCalled();
+    });
+
+    it('should throw the last error when every candidate fails', async () => {
+      for (const model of Object.values(models)) {
+        model.query.mockRejectedValue(modelError('Down', 'SERVICE_UNAVAILABLE', 503));
+      }
+
+      await expect(manager.queryModel('GPT-4', request)).rejects.toThrow('Down');
+    });
+
+    it('should not fall back to models already being compared', async () => {
+      models['GPT-4']!.query.mockRejectedValue(modelError('Down', 'SERVICE_UNAVAILABLE', 503));
+
+      const results = await manager.queryMultipleModels(['GPT-4', 'Claude'], request);
+
+      expect(results.map(r => r.model_name)).toEqual(['Gemini', 'Claude']);
+      expect(models['Claude']!.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report breaker state and fallbacks in model statistics', async () => {
+      models['GPT-4']!.query.mockRejectedValue(modelError('Down', 'SERVICE_UNAVAILABLE', 503));
+      await manager.queryModel('GPT-4', request);
+
+      const stats = await manager.getModelStatistics();
+      const gpt4 = stats.find(stat => stat.model_name === 'GPT-4');
+
+      expect(gpt4?.fallbacks).toEqual(['Claude', 'Gemini']);
+      expect(gpt4?.circuit_breaker).toMatchObject({
+        state: 'closed',
+        consecutive_failures: 1,
+        last_error_code: 'SERVICE_UNAVAILABLE'
+      });
+    });
+
+    it('should load fallback chains from the environment', () => {
+      process.env.AI_MODEL_FALLBACKS = JSON.stringify({ Claude: ['Gemini', 'Claude'] });
+      try {
+        const envManager = new AIModelManager(new ProviderRegistry());
+        expect(envManager.getFallbackChain('Claude')).toEqual(['Gemini']);
+      } finally {
+        delete process.env.AI_MODEL_FALLBACKS;
+      }
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ProviderRegistry, createDefaultProviderRegistry } from '../services/ai/ProviderRegistry';
+import { OpenAICompatibleModel } from '../services/ai/OpenAICompatibleModel';
+import { AIModelManager } from '../services/ai/AIModelManager';
+import { BaseAIModel } from '../services/ai/BaseAIModel';
+import { AIModelConfig, AIQuery, AIResponse } from '../types/ai';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+const mockQuery = require('../config/database').query;
+
+interface RecordedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+describe('AI Provider Registry', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let respondWith: { status: number; body: any };
+
+  beforeAll(async () => {
+    // Stub OpenAI-compatible server standing in for Ollama / llama.cpp / Perplexity
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url || '', headers: req.headers, body: raw ? JSON.parse(raw) : null });
+        res.writeHead(respondWith.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(respondWith.body));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    requests = [];
+    respondWith = {
+      status: 200,
+      body: {
+        id: 'chatcmpl-local',
+        object: 'chat.completion',
+        created: 1700000000,
+        model: 'llama3',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'TechCorp is a software company.' },
+            finish_reason: 'stop'
+          }
+        ],
+        usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 }
+      }
+    };
+  });
+
+  const localConfig = (): AIModelConfig => ({
+    id: 'local-llama',
+    name: 'Local Llama',
+    provider: 'ollama',
+    model_version: 'llama3',
+    api_endpoint: baseUrl,
+    api_key: '',
+    rate_limit_per_minute: 60,
+    cost_per_request: 0
+  });
+
+  const testQuery: AIQuery = {
+    id: 'query-1',
+    brand_id: 'brand-1',
+    query: 'What do you know about TechCorp?'
+  };
+
+  describe('ProviderRegistry', () => {
+    class EchoModel extends BaseAIModel {
+      async query(request: AIQuery): Promise<AIResponse> {
+        return {
+          id: 'echo',
+          query_id: request.id,
+          model_name: this.config.name,
+          provider: this.config.provider,
+          response: request.query,
+          usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+          cost: 0,
+          processing_time_ms: 0,
+          created_at: new Date()
+        };
+      }
+
+      async healthCheck(): Promise<boolean> {
+        return true;
+      }
+    }
+
+    it('should create models for registered providers', () => {
+      const registry = new ProviderRegistry();
+      registry.register('Echo', (config) => new EchoModel(config));
+
+      const model = registry.create({ ...localConfig(), provider: 'echo', api_key: 'key' });
+
+      expect(model).toBeInstanceOf(EchoModel);
+      expect(registry.has('ECHO')).toBe(true);
+    });
+
+    it('should reject unknown providers', () => {
+      const registry = new ProviderRegistry();
+
+      expect(() => registry.create({ ...localConfig(), provider: 'unknown' }))
+        .toThrow('Unsupported AI provider: unknown');
+    });
+
+    it('should register the built-in and OpenAI-compatible providers', () => {
+      const registry = createDefaultProviderRegistry();
+
+      expect(registry.getProviders()).toEqual(expect.arrayContaining([
+        'openai', 'anthropic', 'gemini', 'openai_compatible', 'perplexity', 'mistral', 'ollama', 'llamacpp'
+      ]));
+      expect(registry.create(localConfig())).toBeInstanceOf(OpenAICompatibleModel);
+    });
+  });
+
+  describe('OpenAICompatibleModel', () => {
+    it('should query the configured endpoint without credentials', async () => {
+      const model = new OpenAICompatibleModel(localConfig());
+
+      const response = await model.query(testQuery);
+
+      expect(response.response).toBe('TechCorp is a software company.');
+      expect(response.provider).toBe('ollama');
+      expect(response.usage.total_tokens).toBe(20);
+      expect(requests).toHaveLength(1);
+      expect(requests[0]!.url).toBe('/v1/chat/completions');
+      expect(requests[0]!.body.model).toBe('llama3');
+      expect(requests[0]!.headers.authorization).toBeUndefined();
+    });
+
+    it('should send a bearer token when an API key is configured', async () => {
+      const model = new OpenAICompatibleModel({ ...localConfig(), provider: 'perplexity', api_key: 'pplx-key' });
+
+      await model.query(testQuery);
+
+      expect(requests[0]!.headers.authorization).toBe('Bearer pplx-key');
+    });
+
+    it('should tolerate servers that omit usage', async () => {
+      delete respondWith.body.usage;
+      const model = new OpenAICompatibleModel(localConfig());
+
+      const response = await model.query(testQuery);
+
+      expect(response.usage.total_tokens).toBe(0);
+      expect(response.cost).toBe(0);
+    });
+
+    it('should report server errors with the model name', async () => {
+      respondWith = { status: 503, body: { error: { message: 'model loading', type: 'server_error' } } };
+      const model = new OpenAICompatibleModel(localConfig());
+
+      await expect(model.query(testQuery))
+        .rejects.toThrow('Local Llama (ollama) service unavailable');
+    });
+  });
+
+  describe('AIModelManager', () => {
+    it('should load models for registered providers from the database', async () => {
+      mockQuery.mockResolvedValue({
+        rows: [
+          {
+            id: 'local-llama',
+            name: 'Local Llama',
+            provider: 'ollama',
+            model_version: 'llama3',
+            api_endpoint: baseUrl,
+            rate_limit_per_minute: 60,
+            cost_per_request: 0
+          },
+          {
+            id: 'mystery',
+            name: 'Mystery Model',
+            provider: 'not-registered',
+            model_version: 'v1',
+            api_endpoint: baseUrl,
+            rate_limit_per_minute: 60,
+            cost_per_request: 0
+          }
+        ]
+      });
+
+      const manager = new AIModelManager(createDefaultProviderRegistry());
+      await manager.initializeModels();
+
+      expect(manager.getAvailableModels()).toEqual(['Local Llama']);
+
+      const response = await manager.queryModel('Local Llama', testQuery);
+      expect(response.model_name).toBe('Local Llama');
+    });
+  });
+});
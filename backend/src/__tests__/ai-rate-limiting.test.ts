@@ -0,0 +1,291 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import Redis from 'ioredis';
+import { OpenAICompatibleModel } from '../services/ai/OpenAICompatibleModel';
+import { CircuitBreaker } from '../services/ai/CircuitBreaker';
+import {
+  RateLimiter,
+  MemoryRateLimitStore,
+  RedisRateLimitStore
+} from '../services/ai/RateLimiter';
+import { AIModelConfig, AIModelError } from '../types/ai';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+describe('AI Rate Limiting', () => {
+  describe('RateLimiter', () => {
+    let limiter: RateLimiter;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      limiter = new RateLimiter(new MemoryRateLimitStore(), { maxWaitMs: 120000, maxRetries: 2 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should hold requests over the per-minute limit until the window resets', async () => {
+      const limits = { requests_per_minute: 2 };
+
+      await expect(limiter.acquire('gpt-4', limits, 100)).resolves.toEqual({ acquired: true, wait_ms: 0 });
+      await expect(limiter.acquire('gpt-4', limits, 100)).resolves.toEqual({ acquired: true, wait_ms: 0 });
+
+      let acquired = false;
+      const third = limiter.acquire('gpt-4', limits, 100).then(result => {
+        acquired = result.acquired;
+      });
+
+      await jest.advanceTimersByTimeAsync(59000);
+      expect(acquired).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await third;
+      expect(acquired).toBe(true);
+    });
+
+    it('should enforce tokens per minute using reported usage', async () => {
+      const limits = { requests_per_minute: 100, tokens_per_minute: 1000 };
+
+      await limiter.acquire('claude', limits, 800);
+      expect((await limiter.getUsage('claude')).tokens).toBe(800);
+
+      // The provider reported fewer tokens than estimated, freeing room for the next request
+      await limiter.recordUsage('claude', 800, 500);
+      await expect(limiter.acquire('claude', limits, 400)).resolves.toMatchObject({ acquired: true });
+
+      let acquired = false;
+      const pending = limiter.acquire('claude', limits, 400).then(result => {
+        acquired = result.acquired;
+      });
+
+      await jest.advanceTimersByTimeAsync(30000);
+      expect(acquired).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(30000);
+      await pending;
+      expect(acquired).toBe(true);
+    });
+
+    it('should serve waiting callers in arrival order', async () => {
+      const limits = { requests_per_minute: 1 };
+      const order: string[] = [];
+
+      await limiter.acquire('gemini', limits, 10);
+      const second = limiter.acquire('gemini', limits, 10).then(() => order.push('second'));
+      const third = limiter.acquire('gemini', limits, 10).then(() => order.push('third'));
+
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(order).toEqual(['second']);
+
+      await jest.advanceTimersByTimeAsync(60000);
+      await Promise.all([second, third]);
+      expect(order).toEqual(['second', 'third']);
+    });
+
+    it('should hold every caller for a provider retry-after', async () => {
+      const limits = { requests_per_minute: 100 };
+      await limiter.block('gpt-4', 5);
+
+      let acquired = false;
+      const pending = limiter.acquire('gpt-4', limits, 10).then(result => {
+        acquired = result.acquired;
+      });
+
+      await jest.advanceTimersByTimeAsync(4900);
+      expect(acquired).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(100);
+      await pending;
+      expect(acquired).toBe(true);
+    });
+
+    it('should give up when the wait would exceed the maximum', async () => {
+      const impatient = new RateLimiter(new MemoryRateLimitStore(), { maxWaitMs: 1000, maxRetries: 2 });
+      await impatient.block('gpt-4', 30);
+
+      const result = await impatient.acquire('gpt-4', { requests_per_minute: 100 }, 10);
+
+      expect(result.acquired).toBe(false);
+      expect(result.wait_ms).toBeGreaterThan(1000);
+    });
+
+    it('should stop waiting when the request is aborted', async () => {
+      const limits = { requests_per_minute: 1 };
+      const controller = new AbortController();
+
+      await limiter.acquire('gpt-4', limits, 10);
+      const pending = limiter.acquire('gpt-4', limits, 10, controller.signal);
+
+      controller.abort();
+
+      await expect(pending).resolves.toMatchObject({ acquired: false });
+      // The aborted caller no longer holds up the queue
+      await jest.advanceTimersByTimeAsync(60000);
+      await expect(limiter.acquire('gpt-4', limits, 10)).resolves.toMatchObject({ acquired: true });
+    });
+  });
+
+  describe('RedisRateLimitStore', () => {
+    const createRedis = (overrides: Record<string, jest.Mock>) => ({
+      defineCommand: jest.fn(),
+      aiRateLimitAcquire: jest.fn(),
+      aiRateLimitAdjust: jest.fn(),
+      pttl: jest.fn(),
+      set: jest.fn(),
+      hgetall: jest.fn(),
+      ...overrides
+    }) as unknown as Redis & Record<string, jest.Mock>;
+
+    it('should check and consume limits atomically in Redis', async () => {
+      const redis = createRedis({ aiRateLimitAcquire: jest.fn().mockResolvedValue([0, 1500]) });
+      const store = new RedisRateLimitStore(redis);
+
+      const decision = await store.tryAcquire('openai:GPT-4', { requests_per_minute: 60, tokens_per_minute: 90000 }, 1200);
+
+      expect(redis.defineCommand).toHaveBeenCalledWith('aiRateLimitAcquire', expect.objectContaining({ numberOfKeys: 2 }));
+      expect(redis.aiRateLimitAcquire).toHaveBeenCalledWith(
+        'ai-rate-limit:openai:GPT-4:window',
+        'ai-rate-limit:openai:GPT-4:blocked',
+        60,
+        90000,
+        1200,
+        60000
+      );
+      expect(decision).toEqual({ allowed: false, wait_ms: 1500 });
+    });
+
+    it('should not shorten a longer block set by another replica', async () => {
+      const redis = createRedis({ pttl: jest.fn().mockResolvedValue(30000) });
+      const store = new RedisRateLimitStore(redis);
+
+      await store.block('openai:GPT-4', 10000);
+
+      expect(redis.set).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to in-process limits while Redis is unavailable', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const redis = createRedis({
+        aiRateLimitAcquire: jest.fn().mockRejectedValue(new Error('connect ECONNREFUSED'))
+      });
+      const store = new RedisRateLimitStore(redis);
+      const limits = { requests_per_minute: 1 };
+
+      await expect(store.tryAcquire('openai:GPT-4', limits, 10)).resolves.toEqual({ allowed: true, wait_ms: 0 });
+      await expect(store.tryAcquire('openai:GPT-4', limits, 10)).resolves.toMatchObject({ allowed: false });
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('provider retry-after', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let responses: Array<{ status: number; headers?: Record<string, string>; body: any }>;
+    let requestTimes: number[];
+
+    const completion = {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 1700000000,
+      model: 'gpt-4',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'TechCorp makes software.' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 }
+    };
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        req.resume();
+        req.on('end', () => {
+          requestTimes.push(Date.now());
+          const next = responses.length > 1 ? responses.shift()! : responses[0]!;
+          res.writeHead(next.status, { 'Content-Type': 'application/json', ...next.headers });
+          res.end(JSON.stringify(next.body));
+        });
+      });
+
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+      requestTimes = [];
+    });
+
+    const config = (name: string): AIModelConfig => ({
+      id: name,
+      name,
+      provider: 'openai_compatible',
+      model_version: 'gpt-4',
+      api_endpoint: baseUrl,
+      api_key: '',
+      rate_limit_per_minute: 60,
+      tokens_per_minute: 10000,
+      cost_per_request: 0,
+      max_tokens: 100
+    });
+
+    const rateLimited = (retryAfter: string) => ({
+      status: 429,
+      headers: { 'retry-after': retryAfter },
+      body: { error: { message: 'Rate limit reached' } }
+    });
+
+    it('should wait out a 429 and retry the request', async () => {
+      responses = [rateLimited('1'), { status: 200, body: completion }];
+      const model = new OpenAICompatibleModel(config('Retry Model'));
+
+      const response = await model.query({ id: 'q-1', brand_id: 'brand-1', query: 'What is TechCorp?' });
+
+      expect(response.response).toBe('TechCorp makes software.');
+      expect(requestTimes).toHaveLength(2);
+      expect(requestTimes[1]! - requestTimes[0]!).toBeGreaterThanOrEqual(950);
+    });
+
+    it('should give up after the retry limit', async () => {
+      responses = [rateLimited('0')];
+      const model = new OpenAICompatibleModel(config('Exhausted Model'));
+
+      const error = await model.query({ id: 'q-1', brand_id: 'brand-1', query: 'What is TechCorp?' })
+        .catch(caught => caught as AIModelError);
+
+      expect(error).toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', status: 429 });
+      expect(requestTimes).toHaveLength(3);
+    });
+
+    it('should report our own queue timing out apart from provider rate limits', async () => {
+      const impatient = new RateLimiter(new MemoryRateLimitStore(), { maxWaitMs: 1000, maxRetries: 2 });
+      const model = new OpenAICompatibleModel(config('Queued Model'));
+      (model as any).rateLimiter = impatient;
+      await impatient.block('openai_compatible:Queued Model', 30);
+
+      const error = await model.query({ id: 'q-1', brand_id: 'brand-1', query: 'What is TechCorp?' })
+        .catch(caught => caught as AIModelError);
+
+      expect(error).toMatchObject({ code: 'RATE_LIMIT_QUEUE_TIMEOUT', status: 429 });
+      expect(requestTimes).toHaveLength(0);
+      expect(CircuitBreaker.isModelFailure(error)).toBe(false);
+    });
+
+    it('should report request and token headroom from the shared limiter', async () => {
+      responses = [{ status: 200, body: completion }];
+      const model = new OpenAICompatibleModel(config('Usage Model'));
+
+      await model.query({ id: 'q-1', brand_id: 'brand-1', query: 'What is TechCorp?' });
+      const info = await model.checkRateLimit();
+
+      expect(info.requests_remaining).toBe(59);
+      // Reported usage (20 tokens) replaces the estimate
+      expect(info.tokens_remaining).toBe(9980);
+    });
+  });
+});
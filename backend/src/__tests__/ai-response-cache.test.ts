@@ -0,0 +1,234 @@
+import Redis from 'ioredis';
+import { AIModelManager } from '../services/ai/AIModelManager';
+import { ProviderRegistry } from '../services/ai/ProviderRegistry';
+import {
+  ResponseCache,
+  MemoryResponseCacheStore,
+  RedisResponseCacheStore
+} from '../services/ai/ResponseCache';
+import { AIQuery, AIResponse, IAIModel } from '../types/ai';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+const mockQuery = require('../config/database').query;
+
+describe('AI Response Cache', () => {
+  const request: AIQuery = {
+    id: 'query-1',
+    brand_id: 'brand-1',
+    query: 'What do you know about TechCorp?',
+    metadata: { query_type: 'visibility' }
+  };
+
+  const response = (overrides: Partial<AIResponse> = {}): AIResponse => ({
+    id: 'response-1',
+    query_id: 'query-1',
+    model_name: 'GPT-4',
+    provider: 'openai',
+    response: 'TechCorp makes software.',
+    usage: { prompt_tokens: 10, completion_tokens: 40, total_tokens: 50 },
+    cost: 0.002,
+    processing_time_ms: 800,
+    metadata: { query_type: 'visibility' },
+    created_at: new Date('2024-01-15T10:00:00Z'),
+    ...overrides
+  });
+
+  describe('ResponseCache', () => {
+    let cache: ResponseCache;
+
+    beforeEach(() => {
+      cache = new ResponseCache(new MemoryResponseCacheStore(), {
+        defaultTtlSeconds: 3600,
+        ttlByQueryType: { news: 60, financial: 0 }
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should key on model, prompt, temperature and max_tokens', () => {
+      const key = cache.buildKey('GPT-4', request);
+
+      expect(cache.buildKey('GPT-4', { ...request, id: 'query-2', brand_id: 'brand-2' })).toBe(key);
+      expect(cache.buildKey('Claude', request)).not.toBe(key);
+      expect(cache.buildKey('GPT-4', { ...request, query: 'What is TechCorp?' })).not.toBe(key);
+      expect(cache.buildKey('GPT-4', { ...request, temperature: 0.2 })).not.toBe(key);
+      expect(cache.buildKey('GPT-4', { ...request, max_tokens: 200 })).not.toBe(key);
+    });
+
+    it('should answer a repeated request from cache at no cost', async () => {
+      const fetch = jest.fn().mockResolvedValue(response());
+
+      await cache.getOrFetch('GPT-4', request, fetch);
+      const hit = await cache.getOrFetch('GPT-4', { ...request, id: 'query-2' }, fetch);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(hit).toMatchObject({
+        query_id: 'query-2',
+        response: 'TechCorp makes software.',
+        cost: 0,
+        metadata: { cached: true, cached_response_id: 'response-1' }
+      });
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, deduplicated: 0, hit_rate: 0.5, saved_cost: 0.002 });
+    });
+
+    it('should share one provider call between concurrent identical requests', async () => {
+      let resolve!: (value: AIResponse) => void;
+      const fetch = jest.fn().mockReturnValue(new Promise<AIResponse>(r => { resolve = r; }));
+
+      const first = cache.getOrFetch('GPT-4', request, fetch);
+      const second = cache.getOrFetch('GPT-4', { ...request, id: 'query-2' }, fetch);
+      resolve(response());
+
+      const results = await Promise.all([first, second]);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(results.map(result => result.cost)).toEqual([0.002, 0]);
+      expect(cache.getStats()).toMatchObject({ misses: 1, deduplicated: 1 });
+    });
+
+    it('should apply the TTL configured for the query type', async () => {
+      jest.useFakeTimers();
+      const newsRequest = { ...request, metadata: { query_type: 'news' } };
+      const fetch = jest.fn().mockResolvedValue(response());
+
+      await cache.getOrFetch('GPT-4', newsRequest, fetch);
+      jest.advanceTimersByTime(59000);
+      await cache.getOrFetch('GPT-4', newsRequest, fetch);
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1000);
+      await cache.getOrFetch('GPT-4', newsRequest, fetch);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(cache.getStats().by_query_type.news).toMatchObject({ hits: 1, misses: 2 });
+    });
+
+    it('should not cache query types with a zero TTL', async () => {
+      const financialRequest = { ...request, metadata: { query_type: 'financial' } };
+      const fetch = jest.fn().mockResolvedValue(response());
+
+      await cache.getOrFetch('GPT-4', financialRequest, fetch);
+      await cache.getOrFetch('GPT-4', financialRequest, fetch);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0 });
+    });
+
+    it('should not cache failures or fallback answers', async () => {
+      const fetch = jest.fn()
+        .mockRejectedValueOnce(new Error('Service unavailable'))
+        .mockResolvedValueOnce(response({ model_name: 'Claude', metadata: { fallback_from: 'GPT-4' } }))
+        .mockResolvedValue(response());
+
+      await expect(cache.getOrFetch('GPT-4', request, fetch)).rejects.toThrow('Service unavailable');
+      await expect(cache.getOrFetch('GPT-4', request, fetch)).resolves.toMatchObject({ model_name: 'Claude' });
+      await expect(cache.getOrFetch('GPT-4', request, fetch)).resolves.toMatchObject({ model_name: 'GPT-4' });
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('MemoryResponseCacheStore', () => {
+    it('should evict the oldest entries past its size', async () => {
+      const store = new MemoryResponseCacheStore(2);
+
+      await store.set('a', response({ id: 'a' }), 60000);
+      await store.set('b', response({ id: 'b' }), 60000);
+      await store.set('c', response({ id: 'c' }), 60000);
+
+      expect(await store.get('a')).toBeNull();
+      expect(await store.get('c')).toMatchObject({ id: 'c' });
+    });
+  });
+
+  describe('RedisResponseCacheStore', () => {
+    it('should store responses in Redis with the TTL', async () => {
+      const stored = response();
+      const redis = {
+        get: jest.fn().mockResolvedValue(JSON.stringify(stored)),
+        set: jest.fn().mockResolvedValue('OK')
+      };
+      const store = new RedisResponseCacheStore(redis as unknown as Redis);
+
+      await store.set('abc', stored, 60000);
+      const cached = await store.get('abc');
+
+      expect(redis.set).toHaveBeenCalledWith('ai-response-cache:abc', JSON.stringify(stored), 'PX', 60000);
+      expect(cached?.created_at).toEqual(new Date('2024-01-15T10:00:00Z'));
+    });
+
+    it('should fall back to an in-process cache while Redis is unavailable', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const unavailable = jest.fn().mockRejectedValue(new Error('connect ECONNREFUSED'));
+      const store = new RedisResponseCacheStore({ get: unavailable, set: unavailable } as unknown as Redis);
+
+      await store.set('abc', response(), 60000);
+
+      await expect(store.get('abc')).resolves.toMatchObject({ id: 'response-1' });
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('AIModelManager', () => {
+    let manager: AIModelManager;
+    let modelQuery: jest.Mock;
+
+    beforeEach(async () => {
+      modelQuery = jest.fn().mockResolvedValue(response());
+
+      const registry = new ProviderRegistry();
+      registry.register('stub', (config) => ({
+        config,
+        query: modelQuery,
+        parseResponse: jest.fn(),
+        validateQuery: jest.fn().mockReturnValue(true),
+        estimateCost: jest.fn().mockReturnValue(0.002),
+        checkRateLimit: jest.fn(),
+        healthCheck: jest.fn().mockResolvedValue(true)
+      } as unknown as IAIModel));
+
+      mockQuery.mockResolvedValue({
+        rows: [{
+          id: 'gpt-4-id',
+          name: 'GPT-4',
+          provider: 'stub',
+          model_version: 'v1',
+          api_endpoint: 'http://localhost',
+          rate_limit_per_minute: 60,
+          cost_per_request: 0.01
+        }]
+      });
+
+      const cache = new ResponseCache(new MemoryResponseCacheStore(), { defaultTtlSeconds: 3600, ttlByQueryType: {} });
+      manager = new AIModelManager(registry, { failureThreshold: 2, cooldownMs: 60000 }, cache);
+      await manager.initializeModels();
+      modelQuery.mockClear();
+    });
+
+    it('should send identical monitoring prompts to the provider once', async () => {
+      const brandQuery = {
+        brand_name: 'TechCorp',
+        query_type: 'visibility' as const,
+        query_template: ''
+      };
+
+      await manager.executeBrandMonitoring(brandQuery, ['GPT-4']);
+      const repeat = await manager.executeBrandMonitoring(brandQuery, ['GPT-4']);
+
+      expect(modelQuery).toHaveBeenCalledTimes(1);
+      expect(repeat.responses[0]).toMatchObject({ cost: 0, metadata: { cached: true } });
+      expect(manager.getCacheStatistics()).toMatchObject({
+        hits: 1,
+        misses: 1,
+        by_query_type: { visibility: { hits: 1, misses: 1 } }
+      });
+    });
+  });
+});
@@ -0,0 +1,386 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { parseSSEStream, SSEEvent } from '../services/ai/sse';
+import { OpenAIModel } from '../services/ai/OpenAIModel';
+import { AnthropicModel } from '../services/ai/AnthropicModel';
+import { GeminiModel } from '../services/ai/GeminiModel';
+import { QueryStreamService } from '../services/QueryStreamService';
+import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { BudgetService } from '../services/BudgetService';
+import { AlertManagementService } from '../services/AlertManagementService';
+import { UserModel } from '../models/User';
+import { AIModelConfig, AIQuery } from '../types/ai';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../models/User');
+jest.mock('../services/BrandMonitoringService');
+
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+async function* chunks(...parts: Array<string | Buffer>): AsyncGenerator<Buffer | string> {
+  for (const part of parts) {
+    yield part;
+  }
+}
+
+async function collect<T>(generator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of generator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('AI Streaming', () => {
+  describe('parseSSEStream', () => {
+    it('should reassemble events split across chunks', async () => {
+      const events = await collect(parseSSEStream(chunks(
+        'event: content_block_delta\ndata: {"a"',
+        ':1}\n',
+        '\ndata: second\n\n'
+      )));
+
+      expect(events).toEqual<SSEEvent[]>([
+        { event: 'content_block_delta', data: '{"a":1}' },
+        { event: 'message', data: 'second' }
+      ]);
+    });
+
+    it('should handle CRLF line endings split between chunks', async () => {
+      const events = await collect(parseSSEStream(chunks('data: one\r', '\n\r\ndata: two\r\n\r\n')));
+
+      expect(events.map(e => e.data)).toEqual(['one', 'two']);
+    });
+
+    it('should join multi-line data and skip comments', async () => {
+      const events = await collect(parseSSEStream(chunks(
+        ': keep-alive\n',
+        'data: line one\ndata:line two\nid: 7\nretry: 1000\n\n'
+      )));
+
+      expect(events).toEqual([{ event: 'message', data: 'line one\nline two', id: '7' }]);
+    });
+
+    it('should decode multi-byte characters split across chunks', async () => {
+      const bytes = Buffer.from('data: café ☕\n\n', 'utf8');
+      const splitAt = bytes.indexOf(0xe2) + 1; // inside the three-byte coffee cup
+
+      const events = await collect(parseSSEStream(chunks(bytes.subarray(0, splitAt), bytes.subarray(splitAt))));
+
+      expect(events[0]!.data).toBe('café ☕');
+    });
+
+    it('should deliver a final event without a trailing blank line', async () => {
+      const events = await collect(parseSSEStream(chunks('data: [DONE]')));
+
+      expect(events).toEqual([{ event: 'message', data: '[DONE]' }]);
+    });
+  });
+
+  describe('provider streams', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let handler: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+    let lastRequest: { url: string; body: any };
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+          lastRequest = { url: req.url || '', body: raw ? JSON.parse(raw) : null };
+          handler(req, res);
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    const sendEvents = (events: string[], delayMs = 0) => {
+      handler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        let index = 0;
+        const next = () => {
+          if (index >= events.length) {
+            res.end();
+            return;
+          }
+          res.write(events[index++]);
+          setTimeout(next, delayMs);
+        };
+        next();
+      };
+    };
+
+    const config = (provider: string): AIModelConfig => ({
+      id: `${provider}-model`,
+      name: `${provider} model`,
+      provider,
+      model_version: 'test-model',
+      api_endpoint: baseUrl,
+      api_key: 'test-key',
+      rate_limit_per_minute: 100,
+      cost_per_request: 0.01
+    });
+
+    const testQuery: AIQuery = { id: 'query-1', brand_id: 'brand-1', query: 'Tell me about TechCorp' };
+
+    it('should stream OpenAI chat completion deltas', async () => {
+      sendEvents([
+        'data: {"id":"c1","choices":[{"index":0,"delta":{"role":"assistant"},"finish_reason":null}]}\n\n',
+        'data: {"id":"c1","choices":[{"index":0,"delta":{"content":"Tech"},"finish_reason":null}]}\n\n',
+        'data: {"id":"c1","choices":[{"index":0,"delta":{"content":"Corp"},"finish_reason":"stop"}]}\n\n',
+        'data: [DONE]\n\n'
+      ]);
+      const model = new OpenAIModel(config('openai'));
+
+      const tokens = await collect(await model.streamQuery(testQuery));
+
+      expect(tokens).toEqual(['Tech', 'Corp']);
+      expect(lastRequest.url).toBe('/chat/completions');
+      expect(lastRequest.body.stream).toBe(true);
+    });
+
+    it('should stream Anthropic text deltas and stop at message_stop', async () => {
+      sendEvents([
+        'event: message_start\ndata: {"type":"message_start","message":{"id":"m1"}}\n\n',
+        'event: ping\ndata: {"type":"ping"}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hello"}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":" world"}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"ignored"}}\n\n'
+      ]);
+      const model = new AnthropicModel(config('anthropic'));
+
+      const tokens = await collect(await model.streamQuery(testQuery));
+
+      expect(tokens).toEqual(['Hello', ' world']);
+    });
+
+    it('should surface Anthropic error events', async () => {
+      sendEvents([
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Par"}}\n\n',
+        'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n'
+      ]);
+      const model = new AnthropicModel(config('anthropic'));
+      const stream = await model.streamQuery(testQuery);
+
+      await expect(collect(stream)).rejects.toMatchObject({
+        message: 'Overloaded',
+        code: 'SERVICE_UNAVAILABLE'
+      });
+    });
+
+    it('should stream Gemini candidates from the SSE endpoint', async () => {
+      sendEvents([
+        'data: {"candidates":[{"content":{"parts":[{"text":"Gem"}],"role":"model"},"index":0}]}\r\n\r\n',
+        'data: {"candidates":[{"content":{"parts":[{"text":"ini"}],"role":"model"},"finishReason":"STOP","index":0}]}\r\n\r\n'
+      ]);
+      const model = new GeminiModel(config('gemini'));
+
+      const tokens = await collect(await model.streamQuery(testQuery));
+
+      expect(tokens).toEqual(['Gem', 'ini']);
+      expect(lastRequest.url).toBe('/v1beta/models/test-model:streamGenerateContent?alt=sse&key=test-key');
+    });
+
+    it('should stop quietly when the stream is aborted', async () => {
+      sendEvents([
+        'data: {"id":"c1","choices":[{"index":0,"delta":{"content":"first"},"finish_reason":null}]}\n\n',
+        'data: {"id":"c1","choices":[{"index":0,"delta":{"content":"second"},"finish_reason":null}]}\n\n',
+        'data: [DONE]\n\n'
+      ], 200);
+      const model = new OpenAIModel(config('openai'));
+      const controller = new AbortController();
+
+      const tokens: string[] = [];
+      for await (const token of await model.streamQuery(testQuery, { signal: controller.signal })) {
+        tokens.push(token);
+        controller.abort();
+      }
+
+      expect(tokens).toEqual(['first']);
+    });
+  });
+
+  describe('QueryStreamService', () => {
+    let brandMonitoringService: jest.Mocked<BrandMonitoringService>;
+    let service: QueryStreamService;
+
+    const createSocket = (data: Record<string, any> = { userId: 'user-1', role: 'brand_manager' }) => {
+      const handlers: Record<string, (...args: any[]) => void> = {};
+      return {
+        id: 'socket-1',
+        data,
+        emit: jest.fn(),
+        on: jest.fn((event: string, listener: (...args: any[]) => void) => {
+          handlers[event] = listener;
+        }),
+        handlers
+      };
+    };
+
+    async function* tokenStream(tokens: string[], signal?: AbortSignal) {
+      for (const token of tokens) {
+        if (signal?.aborted) return;
+        yield token;
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      brandMonitoringService = new BrandMonitoringService(
+        {} as BudgetService,
+        {} as AlertManagementService
+      ) as jest.Mocked<BrandMonitoringService>;
+      service = new QueryStreamService(brandMonitoringService);
+      mockUserModel.hasAccessToBrand.mockResolvedValue(true);
+      brandMonitoringService.recordStreamedResponse.mockResolvedValue(null);
+    });
+
+    it('should relay tokens to the socket', async () => {
+      brandMonitoringService.streamBrandQuery.mockResolvedValue({
+        model_name: 'GPT-4',
+        query: { id: 'q1', brand_id: 'brand-1', query: 'What do you know about TechCorp?' },
+        tokens: tokenStream(['Tech', 'Corp'])
+      });
+      const socket = createSocket();
+
+      const streamId = await service.startStream(socket as any, { brandId: 'brand-1', queryType: 'visibility' });
+
+      expect(mockUserModel.hasAccessToBrand).toHaveBeenCalledWith('user-1', 'brand-1', 'editor');
+      expect(socket.emit).toHaveBeenCalledWith('stream:started', { stream_id: streamId, brand_id: 'brand-1' });
+      expect(socket.emit).toHaveBeenCalledWith('stream:query', {
+        stream_id: streamId,
+        model_name: 'GPT-4',
+        query: 'What do you know about TechCorp?'
+      });
+      expect(socket.emit).toHaveBeenCalledWith('stream:token', { stream_id: streamId, token: 'Tech' });
+      expect(socket.emit).toHaveBeenCalledWith('stream:token', { stream_id: streamId, token: 'Corp' });
+      expect(socket.emit).toHaveBeenLastCalledWith('stream:end', {
+        stream_id: streamId,
+        cancelled: false,
+        response: 'TechCorp'
+      });
+      expect(brandMonitoringService.recordStreamedResponse).toHaveBeenCalledWith(
+        'brand-1',
+        'GPT-4',
+        expect.objectContaining({ id: 'q1' }),
+        'TechCorp',
+        { cancelled: false, processing_time_ms: expect.any(Number) }
+      );
+    });
+
+    it('should stop relaying when the client cancels', async () => {
+      brandMonitoringService.streamBrandQuery.mockImplementation(async (_brandId, _type, _model, options) => ({
+        model_name: 'GPT-4',
+        query: { id: 'q1', brand_id: 'brand-1', query: 'q' },
+        tokens: tokenStream(['one', 'two', 'three'], options?.signal)
+      }));
+      const socket = createSocket();
+      service.registerSocket(socket as any);
+      socket.emit.mockImplementation((event: string, payload: any) => {
+        if (event === 'stream:token') {
+          socket.handlers['stream:cancel']!({ streamId: payload.stream_id });
+        }
+        return true;
+      });
+
+      const streamId = await service.startStream(socket as any, { brandId: 'brand-1', queryType: 'visibility' });
+
+      const tokenEvents = socket.emit.mock.calls.filter(([event]) => event === 'stream:token');
+      expect(tokenEvents).toHaveLength(1);
+      expect(socket.emit).toHaveBeenLastCalledWith('stream:end', {
+        stream_id: streamId,
+        cancelled: true,
+        response: 'one'
+      });
+      // The tokens already produced are still billed to the brand
+      expect(brandMonitoringService.recordStreamedResponse).toHaveBeenCalledWith(
+        'brand-1', 'GPT-4', expect.anything(), 'one', expect.objectContaining({ cancelled: true })
+      );
+    });
+
+    it('should let the client cancel while the query waits for the model', async () => {
+      brandMonitoringService.streamBrandQuery.mockImplementation((_brandId, _type, _model, options) =>
+        new Promise((_resolve, reject) => {
+          const cancelled = () => reject(new Error('Request cancelled'));
+          if (options!.signal!.aborted) cancelled();
+          options!.signal!.addEventListener('abort', cancelled);
+        })
+      );
+      const socket = createSocket();
+      service.registerSocket(socket as any);
+      socket.emit.mockImplementation((event: string, payload: any) => {
+        if (event === 'stream:started') {
+          socket.handlers['stream:cancel']!({ streamId: payload.stream_id });
+        }
+        return true;
+      });
+
+      const streamId = await service.startStream(socket as any, { brandId: 'brand-1', queryType: 'visibility' });
+
+      expect(socket.emit).not.toHaveBeenCalledWith('stream:query', expect.anything());
+      expect(brandMonitoringService.recordStreamedResponse).not.toHaveBeenCalled();
+      expect(socket.emit).toHaveBeenLastCalledWith('stream:end', {
+        stream_id: streamId,
+        cancelled: true,
+        response: ''
+      });
+    });
+
+    it('should require an authenticated socket', async () => {
+      const socket = createSocket({});
+
+      const streamId = await service.startStream(socket as any, { brandId: 'brand-1', queryType: 'visibility' });
+
+      expect(streamId).toBeNull();
+      expect(socket.emit).toHaveBeenCalledWith('stream:error', { error: 'Authentication required' });
+      expect(brandMonitoringService.streamBrandQuery).not.toHaveBeenCalled();
+    });
+
+    it('should refuse brands the user cannot access', async () => {
+      mockUserModel.hasAccessToBrand.mockResolvedValue(false);
+      const socket = createSocket();
+
+      await service.startStream(socket as any, { brandId: 'brand-2', queryType: 'visibility' });
+
+      expect(socket.emit).toHaveBeenCalledWith('stream:error', { error: 'Access denied' });
+      expect(brandMonitoringService.streamBrandQuery).not.toHaveBeenCalled();
+    });
+
+    it('should refuse users who can only view the brand', async () => {
+      mockUserModel.hasAccessToBrand.mockImplementation(async (_userId, _brandId, requiredRole) => requiredRole !== 'editor');
+      const socket = createSocket({ userId: 'viewer-1', role: 'viewer' });
+
+      const streamId = await service.startStream(socket as any, { brandId: 'brand-1', queryType: 'visibility' });
+
+      expect(streamId).toBeNull();
+      expect(socket.emit).toHaveBeenCalledWith('stream:error', { error: 'Access denied' });
+      expect(brandMonitoringService.streamBrandQuery).not.toHaveBeenCalled();
+    });
+
+    it('should report errors from the provider', async () => {
+      brandMonitoringService.streamBrandQuery.mockRejectedValue(
+        new Error('Model Llama does not support streaming')
+      );
+      const socket = createSocket();
+
+      const streamId = await service.startStream(socket as any, { brandId: 'brand-1', queryType: 'visibility' });
+
+      expect(socket.emit).toHaveBeenCalledWith('stream:error', {
+        stream_id: streamId,
+        error: 'Model Llama does not support streaming'
+      });
+    });
+  });
+});
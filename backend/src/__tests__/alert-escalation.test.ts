@@ -0,0 +1,234 @@
+import { AlertManagementService } from '../services/AlertManagementService';
+import { OnCallRotationModel } from '../models/OnCallRotation';
+import { query } from '../config/database';
+import { Alert, EscalationPolicy, OnCallRotation } from '../types/database';
+
+// Mock database queries
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+// Mock Bull Queue, keeping the processors it registers
+const mockQueue = {
+  add: jest.fn(),
+  process: jest.fn(),
+  on: jest.fn(),
+  close: jest.fn().mockResolvedValue(undefined)
+};
+jest.mock('bull', () => jest.fn().mockImplementation(() => mockQueue));
+
+// Mock Redis
+jest.mock('ioredis', () => {
+  return jest.fn().mockImplementation(() => ({
+    disconnect: jest.fn()
+  }));
+});
+
+const mockSendNotification = jest.fn().mockResolvedValue(undefined);
+jest.mock('../services/NotificationService', () => ({
+  NotificationService: jest.fn().mockImplementation(() => ({
+    getNotificationPreferences: jest.fn().mockResolvedValue({}),
+    sendNotification: mockSendNotification
+  }))
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+const ON_CALL_1 = '11111111-1111-4111-8111-111111111111';
+const ON_CALL_2 = '22222222-2222-4222-8222-222222222222';
+const MANAGER = '33333333-3333-4333-8333-333333333333';
+
+describe('Alert escalation', () => {
+  let service: AlertManagementService;
+  let alertRow: Alert;
+  let policyRow: EscalationPolicy | null;
+  let escalationRows: any[];
+
+  const rotation: OnCallRotation = {
+    id: 'rotation-1',
+    brand_id: 'brand-1',
+    name: 'Primary',
+    user_ids: [ON_CALL_1, ON_CALL_2],
+    shift_hours: 24,
+    starts_at: new Date('2024-01-01T00:00:00Z'),
+    is_active: true,
+    created_at: new Date('2024-01-01'),
+    updated_at: new Date('2024-01-01')
+  };
+
+  const processor = (name: string) => {
+    const call = mockQueue.process.mock.calls.find(([jobName]) => jobName === name);
+    return call![1] as (job: { data: any }) => Promise<void>;
+  };
+
+  const recorded = (action: string) => escalationRows.filter(row => row.action === action);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQueue.add.mockResolvedValue({ id: 'job-1' });
+
+    alertRow = {
+      id: 'alert-1',
+      brand_id: 'brand-1',
+      severity: 'critical',
+      title: 'Critical Alert: Overall Visibility Score Threshold Exceeded',
+      message: 'Overall score fell below 40',
+      metric_type: 'overall_score',
+      is_acknowledged: false,
+      created_at: new Date('2024-01-15')
+    };
+    policyRow = {
+      id: 'policy-1',
+      brand_id: 'brand-1',
+      name: 'Visibility incidents',
+      severities: ['high', 'critical'],
+      steps: [
+        { delay_minutes: 15, channels: ['in_app'], rotation_id: 'rotation-1' },
+        { delay_minutes: 30, channels: ['email', 'sms'], user_ids: [MANAGER] }
+      ],
+      repeat_limit: 1,
+      is_active: true,
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01')
+    };
+    escalationRows = [];
+
+    mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+      if (sql.includes('FROM alerts WHERE id') || sql.includes('UPDATE alerts')) {
+        return { rows: [alertRow], rowCount: 1 } as any;
+      }
+      if (sql.includes('FROM escalation_policies')) {
+        return { rows: policyRow ? [policyRow] : [], rowCount: policyRow ? 1 : 0 } as any;
+      }
+      if (sql.includes('FROM on_call_rotations')) {
+        return { rows: [rotation], rowCount: 1 } as any;
+      }
+      if (sql.includes('u.id = ANY')) {
+        return { rows: params![1].map((id: string) => ({ id })), rowCount: params![1].length } as any;
+      }
+      if (sql.includes('INSERT INTO alert_escalations')) {
+        const [alert_id, policy_id, step_index, cycle, action, user_ids, channels, job_id, reason] = params!;
+        escalationRows.push({ alert_id, policy_id, step_index, cycle, action, user_ids, channels, job_id, reason });
+        return { rows: [escalationRows[escalationRows.length - 1]], rowCount: 1 } as any;
+      }
+      return { rows: [], rowCount: 0 } as any;
+    });
+
+    service = new AlertManagementService();
+  });
+
+  afterEach(async () => {
+    await service.close();
+  });
+
+  describe('starting an escalation', () => {
+    it('should schedule the first tier as a delayed job once the alert is sent', async () => {
+      await processor('process-alert')({ data: { alertId: 'alert-1', brandId: 'brand-1', severity: 'critical' } });
+
+      expect(mockQueue.add).toHaveBeenCalledWith('escalate-alert', {
+        alertId: 'alert-1',
+        policyId: 'policy-1',
+        stepIndex: 0,
+        cycle: 0
+      }, {
+        priority: 1,
+        delay: 15 * 60 * 1000
+      });
+      expect(recorded('scheduled')).toEqual([expect.objectContaining({
+        policy_id: 'policy-1',
+        step_index: 0,
+        cycle: 0,
+        channels: ['in_app'],
+        job_id: 'job-1'
+      })]);
+    });
+
+    it('should not escalate a severity the policy does not cover', async () => {
+      alertRow = { ...alertRow, severity: 'medium' };
+
+      await processor('process-alert')({ data: { alertId: 'alert-1', brandId: 'brand-1', severity: 'medium' } });
+
+      expect(mockQueue.add).not.toHaveBeenCalledWith('escalate-alert', expect.anything(), expect.anything());
+      expect(escalationRows).toEqual([]);
+    });
+  });
+
+  describe('escalating a tier', () => {
+    it('should notify whoever is on call and schedule the next tier', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-02T12:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        await processor('escalate-alert')({ data: { alertId: 'alert-1', policyId: 'policy-1', stepIndex: 0, cycle: 0 } });
+      } finally {
+        jest.useRealTimers();
+      }
+
+      // The second day's shift is the second user's
+      expect(mockSendNotification).toHaveBeenCalledTimes(1);
+      expect(mockSendNotification).toHaveBeenCalledWith(expect.objectContaining({ id: 'alert-1' }), 'in_app', ON_CALL_2, {});
+      expect(recorded('notified')).toEqual([expect.objectContaining({ step_index: 0, user_ids: [ON_CALL_2], channels: ['in_app'] })]);
+      expect(mockQueue.add).toHaveBeenCalledWith('escalate-alert',
+        { alertId: 'alert-1', policyId: 'policy-1', stepIndex: 1, cycle: 0 },
+        { priority: 1, delay: 30 * 60 * 1000 }
+      );
+    });
+
+    it('should start the steps again after the last while repeats remain', async () => {
+      await processor('escalate-alert')({ data: { alertId: 'alert-1', policyId: 'policy-1', stepIndex: 1, cycle: 0 } });
+
+      expect(mockSendNotification).toHaveBeenCalledWith(expect.anything(), 'email', MANAGER, {});
+      expect(mockSendNotification).toHaveBeenCalledWith(expect.anything(), 'sms', MANAGER, {});
+      expect(mockQueue.add).toHaveBeenCalledWith('escalate-alert',
+        { alertId: 'alert-1', policyId: 'policy-1', stepIndex: 0, cycle: 1 },
+        expect.objectContaining({ delay: 15 * 60 * 1000 })
+      );
+    });
+
+    it('should stop once the repeat limit is reached', async () => {
+      await processor('escalate-alert')({ data: { alertId: 'alert-1', policyId: 'policy-1', stepIndex: 1, cycle: 1 } });
+
+      expect(mockSendNotification).toHaveBeenCalledTimes(2);
+      expect(mockQueue.add).not.toHaveBeenCalled();
+      expect(recorded('stopped')).toEqual([expect.objectContaining({ reason: 'repeat_limit_reached' })]);
+    });
+
+    it('should stop without notifying once the alert is acknowledged', async () => {
+      alertRow = { ...alertRow, is_acknowledged: true };
+
+      await processor('escalate-alert')({ data: { alertId: 'alert-1', policyId: 'policy-1', stepIndex: 0, cycle: 0 } });
+
+      expect(mockSendNotification).not.toHaveBeenCalled();
+      expect(mockQueue.add).not.toHaveBeenCalled();
+      expect(recorded('stopped')).toEqual([expect.objectContaining({ step_index: 0, reason: 'acknowledged' })]);
+    });
+
+    it('should stop when the policy has been removed', async () => {
+      policyRow = null;
+
+      await processor('escalate-alert')({ data: { alertId: 'alert-1', policyId: 'policy-1', stepIndex: 1, cycle: 0 } });
+
+      expect(mockSendNotification).not.toHaveBeenCalled();
+      expect(recorded('stopped')).toEqual([expect.objectContaining({ reason: 'policy_removed' })]);
+    });
+  });
+
+  it('should record the acknowledgement in the audit trail', async () => {
+    await service.acknowledgeAlert('alert-1', MANAGER);
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO alert_escalations (alert_id, policy_id, step_index, cycle, action, user_ids)'),
+      ['alert-1', MANAGER]
+    );
+  });
+
+  describe('OnCallRotationModel.getOnCallUserId', () => {
+    it('should pass shifts through the users in turn', () => {
+      expect(OnCallRotationModel.getOnCallUserId(rotation, new Date('2024-01-01T23:59:00Z'))).toBe(ON_CALL_1);
+      expect(OnCallRotationModel.getOnCallUserId(rotation, new Date('2024-01-02T00:00:00Z'))).toBe(ON_CALL_2);
+      expect(OnCallRotationModel.getOnCallUserId(rotation, new Date('2024-01-03T06:00:00Z'))).toBe(ON_CALL_1);
+    });
+
+    it('should put the first user on call before the rotation starts', () => {
+      expect(OnCallRotationModel.getOnCallUserId(rotation, new Date('2023-12-25T00:00:00Z'))).toBe(ON_CALL_1);
+    });
+  });
+});
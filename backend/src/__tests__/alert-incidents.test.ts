@@ -0,0 +1,260 @@
+import { AlertManagementService } from '../services/AlertManagementService';
+import { AlertIncidentModel } from '../models/AlertIncident';
+import { query } from '../config/database';
+import { Alert, AlertIncident, AlertThreshold, VisibilityMetrics } from '../types/database';
+
+// Mock database queries
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+// Mock Bull Queue
+jest.mock('bull', () => {
+  return jest.fn().mockImplementation(() => ({
+    add: jest.fn().mockResolvedValue({}),
+    process: jest.fn(),
+    on: jest.fn(),
+    close: jest.fn().mockResolvedValue(undefined)
+  }));
+});
+
+// Mock Redis
+jest.mock('ioredis', () => {
+  return jest.fn().mockImplementation(() => ({
+    disconnect: jest.fn()
+  }));
+});
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+describe('Alert incidents', () => {
+  const threshold: AlertThreshold = {
+    id: 'threshold-1',
+    brand_id: 'brand-1',
+    user_id: 'user-1',
+    metric_type: 'average_sentiment',
+    detection_method: 'static',
+    threshold_value: 0,
+    comparison_operator: '<',
+    is_active: true,
+    notification_channels: ['in_app'],
+    created_at: new Date('2024-01-15'),
+    updated_at: new Date('2024-01-15')
+  };
+
+  const metrics: VisibilityMetrics = {
+    id: 'metrics-1',
+    brand_id: 'brand-1',
+    metric_date: new Date('2024-01-15'),
+    metric_hour: 10,
+    overall_score: 65,
+    mention_frequency: 8,
+    average_sentiment: -0.6,
+    citation_count: 4,
+    created_at: new Date('2024-01-15T10:00:00Z')
+  };
+
+  const alert: Alert = {
+    id: 'alert-1',
+    brand_id: 'brand-1',
+    alert_threshold_id: 'threshold-1',
+    severity: 'critical',
+    title: 'Critical Alert: Average Sentiment Threshold Exceeded',
+    message: 'Average sentiment fell below 0',
+    metric_type: 'average_sentiment',
+    current_value: -0.6,
+    threshold_value: 0,
+    visibility_metrics_id: 'metrics-1',
+    is_acknowledged: false,
+    created_at: new Date('2024-01-15T10:00:00Z')
+  };
+
+  const incident: AlertIncident = {
+    id: 'incident-1',
+    brand_id: 'brand-1',
+    ai_model_id: 'model-1',
+    status: 'open',
+    severity: 'high',
+    title: 'High Alert: Overall Visibility Score Threshold Exceeded',
+    alert_count: 1,
+    repeat_count: 0,
+    first_alert_at: new Date('2024-01-15T09:30:00Z'),
+    last_alert_at: new Date('2024-01-15T09:30:00Z'),
+    created_at: new Date('2024-01-15T09:30:00Z'),
+    updated_at: new Date('2024-01-15T09:30:00Z')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('grouping new alerts', () => {
+    let service: AlertManagementService;
+
+    beforeEach(() => {
+      service = new AlertManagementService();
+    });
+
+    afterEach(async () => {
+      await service.close();
+    });
+
+    it('should start an incident for an alert with none open', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [threshold], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ count: '0' }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [alert], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+        .mockResolvedValueOnce({ rows: [{ ...incident, id: 'incident-2' }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+      const results = await service.evaluateThresholds('brand-1', metrics);
+
+      expect(results[0]!.alert!.incident_id).toBe('incident-2');
+      const [alertSql, alertValues] = mockQuery.mock.calls[2]!;
+      expect(alertSql).toContain('ai_model_id, visibility_metrics_id');
+      expect(alertValues!.slice(-2)).toEqual([null, 'metrics-1']);
+      expect(mockQuery.mock.calls[4]![1]).toEqual(['brand-1', null, 'critical', alert.title]);
+      expect(mockQuery).toHaveBeenLastCalledWith('UPDATE alerts SET incident_id = $1 WHERE id = $2', ['incident-2', 'alert-1']);
+    });
+
+    it('should count a rule that triggers again against its open incident', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [threshold], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ count: '1' }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ ...incident, repeat_count: 1 }], rowCount: 1 });
+
+      const results = await service.evaluateThresholds('brand-1', { ...metrics, average_sentiment: -0.9 });
+
+      expect(results[0]!.triggered).toBe(true);
+      expect(results[0]!.alert).toBeUndefined();
+      const [suppressSql, suppressValues] = mockQuery.mock.calls[1]!;
+      expect(suppressSql).toContain('incident_id IN (SELECT id FROM alert_incidents WHERE status = \'open\')');
+      expect(suppressValues![4]).toBe('threshold-1');
+      const [repeatSql, repeatValues] = mockQuery.mock.calls[2]!;
+      expect(repeatSql).toContain('SET repeat_count = repeat_count + 1');
+      expect(repeatValues).toEqual(['threshold-1']);
+    });
+
+    it('should keep a system alert when it cannot be grouped', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ ...alert, alert_threshold_id: undefined }], rowCount: 1 })
+        .mockRejectedValueOnce(new Error('connection reset'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const raised = await service.raiseSystemAlert({
+        brand_id: 'brand-1',
+        severity: 'high',
+        title: 'Factual Inaccuracies About TechCorp Detected',
+        message: 'AI models made 2 claims about TechCorp that contradict its fact sheet.',
+        metric_type: 'inaccuracy_count',
+        ai_model_id: 'model-1'
+      });
+
+      expect(raised.id).toBe('alert-1');
+      expect(raised.incident_id).toBeUndefined();
+      expect(mockQuery.mock.calls[0]![1]!.slice(-2)).toEqual(['model-1', null]);
+    });
+  });
+
+  describe('AlertIncidentModel.addAlert', () => {
+    it('should join the open incident and take the higher severity', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [incident], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ ...incident, severity: 'critical', alert_count: 2 }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+      const grouped = await AlertIncidentModel.addAlert(alert);
+
+      expect(grouped.alert_count).toBe(2);
+      const [openSql, openValues] = mockQuery.mock.calls[0]!;
+      expect(openSql).toContain('INTERVAL \'60 minutes\'');
+      expect(openSql).toContain('($2::uuid IS NULL OR ai_model_id IS NULL OR ai_model_id = $2)');
+      expect(openValues).toEqual(['brand-1', null]);
+      expect(mockQuery.mock.calls[1]![1]).toEqual(['incident-1', 'critical', null]);
+    });
+
+    it('should keep the incident severity above a lesser alert', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [incident], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ ...incident, alert_count: 2 }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+      await AlertIncidentModel.addAlert({ ...alert, severity: 'low', ai_model_id: 'model-1' });
+
+      expect(mockQuery.mock.calls[0]![1]).toEqual(['brand-1', 'model-1']);
+      expect(mockQuery.mock.calls[1]![1]).toEqual(['incident-1', 'high', 'model-1']);
+    });
+  });
+
+  describe('AlertIncidentModel.getTimeline', () => {
+    it('should order the metrics, answers, mentions and alerts of the incident', async () => {
+      const resolved = {
+        ...incident,
+        status: 'resolved' as const,
+        resolved_at: new Date('2024-01-15T11:00:00Z'),
+        resolved_by: 'user-1'
+      };
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM visibility_metrics')) {
+          return { rows: [metrics], rowCount: 1 };
+        }
+        if (sql.includes('FROM ai_responses')) {
+          return { rows: [{
+            id: 'response-1',
+            ai_model_id: 'model-1',
+            model_name: 'GPT-4',
+            query: 'What do you know about TechCorp?',
+            excerpt: 'TechCorp was founded in 2009.',
+            created_at: new Date('2024-01-15T09:55:00Z')
+          }], rowCount: 1 };
+        }
+        if (sql.includes('FROM brand_mentions')) {
+          return { rows: [{
+            id: 'mention-1',
+            ai_response_id: 'response-1',
+            brand_id: 'brand-1',
+            mention_text: 'TechCorp',
+            sentiment_label: 'negative',
+            created_at: new Date('2024-01-15T09:56:00Z')
+          }], rowCount: 1 };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      const timeline = await AlertIncidentModel.getTimeline(resolved, [alert]);
+
+      expect(timeline.map(event => event.kind)).toEqual(['response', 'mention', 'metrics', 'alert', 'resolved']);
+      expect(timeline[0]).toEqual({
+        kind: 'response',
+        at: new Date('2024-01-15T09:55:00Z'),
+        response: expect.objectContaining({ id: 'response-1', model_name: 'GPT-4' })
+      });
+      expect(timeline[4]).toEqual({ kind: 'resolved', at: resolved.resolved_at, resolved_by: 'user-1' });
+
+      const responsesCall = mockQuery.mock.calls.find(([sql]) => sql.includes('FROM ai_responses'))!;
+      expect(responsesCall[0]).toContain('INTERVAL \'60 minutes\'');
+      expect(responsesCall[1]).toEqual(['brand-1', incident.first_alert_at, incident.last_alert_at, 'model-1']);
+    });
+  });
+
+  describe('AlertIncidentModel.resolve', () => {
+    it('should resolve the incident and its open alerts together', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...incident, status: 'resolved', alerts_resolved: '3' }], rowCount: 1 });
+
+      const result = await AlertIncidentModel.resolve('incident-1', 'user-1');
+
+      expect(result.alerts_resolved).toBe(3);
+      expect(result.incident).not.toHaveProperty('alerts_resolved');
+      const [sql, values] = mockQuery.mock.calls[0]!;
+      expect(sql).toContain('WHERE incident_id IN (SELECT id FROM incident) AND resolved_at IS NULL');
+      expect(values).toEqual(['incident-1', 'user-1']);
+    });
+
+    it('should throw when the incident is not open', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      await expect(AlertIncidentModel.resolve('incident-1', 'user-1')).rejects.toThrow('Open alert incident not found');
+    });
+  });
+});
@@ -34,6 +34,7 @@ describe('AlertManagementService', () => {
     brand_id: 'brand-1',
     user_id: 'user-1',
     metric_type: 'overall_score',
+    detection_method: 'static',
     threshold_value: 70,
     comparison_operator: '<',
     is_active: true,
@@ -106,7 +107,13 @@ describe('AlertManagementService', () => {
           config.metric_type,
           config.threshold_value,
           config.comparison_operator,
-          config.notification_channels
+          config.notification_channels,
+          'static',
+          null,
+          null,
+          null,
+          null,
+          null
         ]
       );
     });
@@ -276,13 +283,242 @@ describe('AlertManagementService', () => {
     });
   });
 
+  describe('evaluating stored metrics', () => {
+    it('should compare DECIMAL strings as numbers', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...mockAlertThreshold, threshold_value: '70.00' }],
+        rowCount: 1
+      });
+      mockQuery.mockResolvedValueOnce({ rows: [{ count: '1' }], rowCount: 1 });
+
+      const results = await service.evaluateThresholds('brand-1', { ...mockVisibilityMetrics, overall_score: '65.00' as any });
+
+      expect(results[0]!.triggered).toBe(true);
+      expect(results[0]!.current_value).toBe(65);
+      expect(results[0]!.threshold.threshold_value).toBe(70);
+    });
+
+    it('should skip thresholds on metrics the run did not record', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...mockAlertThreshold, metric_type: 'ranking_position', comparison_operator: '<', threshold_value: '3.00' }],
+        rowCount: 1
+      });
+
+      const results = await service.evaluateThresholds('brand-1', { ...mockVisibilityMetrics, ranking_position: null as any });
+
+      expect(results).toEqual([]);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('anomaly rules', () => {
+    const zScoreRule: AlertThreshold = {
+      ...mockAlertThreshold,
+      detection_method: 'z_score',
+      comparison_operator: '<',
+      sensitivity: 2,
+      min_samples: 5
+    };
+    delete zScoreRule.threshold_value;
+
+    const samples = (values: number[]) => ({ rows: values.map(value => ({ value })), rowCount: values.length });
+
+    it('should alert on a drop below the rolling mean and keep the baseline', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [zScoreRule], rowCount: 1 })
+        .mockResolvedValueOnce(samples([78, 80, 82, 80, 80]))
+        .mockResolvedValueOnce({ rows: [{ count: '0' }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [mockAlert], rowCount: 1 });
+
+      const results = await service.evaluateThresholds('brand-1', mockVisibilityMetrics);
+
+      expect(results[0]!.triggered).toBe(true);
+      expect(results[0]!.baseline).toEqual({
+        method: 'z_score',
+        value: 80,
+        std_dev: 1.41,
+        sample_size: 5,
+        window_days: 14,
+        sensitivity: 2,
+        deviation: -10.61
+      });
+      expect(results[0]!.severity).toBe('critical');
+
+      const [baselineSql, baselineValues] = mockQuery.mock.calls[1]!;
+      expect(baselineSql).toContain('SELECT overall_score::float AS value');
+      expect(baselineSql).toContain('INTERVAL \'14 days\'');
+      expect(baselineSql).not.toContain('DOW');
+      expect(baselineValues).toEqual(['brand-1', 'metric-1', null, null, mockVisibilityMetrics.metric_date]);
+
+      const [insertSql, insertValues] = mockQuery.mock.calls[3]!;
+      expect(insertSql).toContain('INSERT INTO alerts');
+      expect(insertValues![3]).toBe('Critical Alert: Overall Visibility Score Anomaly Detected');
+      expect(insertValues![4]).toContain('Baseline: 80.00 (mean of 5 runs over the last 14 days, standard deviation 1.41)');
+      expect(insertValues![7]).toBe(77.18);
+      expect(JSON.parse(insertValues![8] as string)).toMatchObject({ method: 'z_score', value: 80 });
+    });
+
+    it('should wait for the minimum number of samples', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [zScoreRule], rowCount: 1 })
+        .mockResolvedValueOnce(samples([80, 80, 80, 80]));
+
+      const results = await service.evaluateThresholds('brand-1', mockVisibilityMetrics);
+
+      expect(results).toEqual([]);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should compare a percent change against the median', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ ...zScoreRule, detection_method: 'percent_change', sensitivity: '20.00', min_samples: 3 }],
+          rowCount: 1
+        })
+        .mockResolvedValueOnce(samples([70, 90, 72]));
+
+      const results = await service.evaluateThresholds('brand-1', mockVisibilityMetrics);
+
+      expect(results[0]!.triggered).toBe(false);
+      expect(results[0]!.baseline).toMatchObject({ method: 'percent_change', value: 72, deviation: -9.72 });
+      expect(mockQuery.mock.calls[1]![0]).toContain('INTERVAL \'7 days\'');
+    });
+
+    it('should only look at the same weekday for a seasonal baseline', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ ...zScoreRule, detection_method: 'seasonal', baseline_days: 28 }], rowCount: 1 })
+        .mockResolvedValueOnce(samples([60, 64, 66, 62, 63]));
+
+      const results = await service.evaluateThresholds('brand-1', mockVisibilityMetrics);
+
+      expect(results[0]!.triggered).toBe(false);
+      expect(mockQuery.mock.calls[1]![0]).toContain('EXTRACT(DOW FROM metric_date) = EXTRACT(DOW FROM $5::date)');
+      expect(mockQuery.mock.calls[1]![0]).toContain('INTERVAL \'28 days\'');
+    });
+
+    it('should treat any move away from a flat baseline as an anomaly', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [zScoreRule], rowCount: 1 })
+        .mockResolvedValueOnce(samples([70, 70, 70, 70, 70]))
+        .mockResolvedValueOnce({ rows: [{ count: '1' }], rowCount: 1 });
+
+      const results = await service.evaluateThresholds('brand-1', mockVisibilityMetrics);
+
+      expect(results[0]!.triggered).toBe(true);
+      expect(results[0]!.baseline).toMatchObject({ std_dev: 0, deviation: null });
+      expect(results[0]!.severity).toBe('medium');
+    });
+  });
+
+  describe('composite rules', () => {
+    const compositeRule: AlertThreshold = {
+      ...mockAlertThreshold,
+      metric_type: 'composite',
+      detection_method: 'composite',
+      severity: 'high',
+      condition: {
+        all: [
+          { metric: 'overall_score', change: 'percent', operator: '<=', value: -10 },
+          { metric: 'negative_mentions', change: 'percent', operator: '>=', value: 100, window_hours: 24, model: 'any' }
+        ]
+      }
+    };
+    delete compositeRule.threshold_value;
+    delete compositeRule.comparison_operator;
+
+    it('should alert when every condition holds, listing what each observed', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [compositeRule], rowCount: 1 })
+        // Average overall score of the earlier runs in the window
+        .mockResolvedValueOnce({ rows: [{ value: 80 }], rowCount: 1 })
+        // Negative mentions per model, this window and the one before
+        .mockResolvedValueOnce({ rows: [
+          { ai_model_id: 'model-1', model_name: 'GPT-4', is_current: true, value: 2 },
+          { ai_model_id: 'model-1', model_name: 'GPT-4', is_current: false, value: 2 },
+          { ai_model_id: 'model-2', model_name: 'Claude', is_current: true, value: 6 },
+          { ai_model_id: 'model-2', model_name: 'Claude', is_current: false, value: 3 }
+        ], rowCount: 4 })
+        .mockResolvedValueOnce({ rows: [{ count: '0' }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ ...mockAlert, severity: 'high' }], rowCount: 1 });
+
+      const results = await service.evaluateThresholds('brand-1', mockVisibilityMetrics);
+
+      expect(results[0]!.triggered).toBe(true);
+      expect(results[0]!.current_value).toBeNull();
+      expect(results[0]!.condition_results).toEqual([
+        expect.objectContaining({ matched: true, value: -18.75 }),
+        expect.objectContaining({
+          matched: true,
+          value: 100,
+          models: [
+            { ai_model_id: 'model-1', model_name: 'GPT-4', value: 0, matched: false },
+            { ai_model_id: 'model-2', model_name: 'Claude', value: 100, matched: true }
+          ]
+        })
+      ]);
+
+      const [responseSql, responseValues] = mockQuery.mock.calls[2]!;
+      expect(responseSql).toContain('FILTER (WHERE bm.sentiment_label = \'negative\')');
+      expect(responseSql).toContain('INTERVAL \'48 hours\'');
+      expect(responseSql).toContain('GROUP BY ar.ai_model_id, am.name, is_current');
+      expect(responseValues).toEqual(['brand-1']);
+
+      const [insertSql, insertValues] = mockQuery.mock.calls[4]!;
+      expect(insertSql).toContain('condition_results');
+      expect(insertValues![2]).toBe('high');
+      expect(insertValues![3]).toBe('High Alert: Composite Rule Matched');
+      expect(insertValues![4]).toContain(
+        '(overall_score change over 24h <= -10% AND negative_mentions change over 24h >= 100% on any model)'
+      );
+      expect(insertValues![4]).toContain('- overall_score change over 24h <= -10%: -18.75% (met)');
+      expect(insertValues![4]).toContain('[GPT-4: 0.00%, Claude: 100.00%]');
+    });
+
+    it('should not alert when only part of an AND holds', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [compositeRule], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ value: 80 }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [
+          { ai_model_id: 'model-1', model_name: 'GPT-4', is_current: true, value: 3 }
+        ], rowCount: 1 });
+
+      const results = await service.evaluateThresholds('brand-1', mockVisibilityMetrics);
+
+      expect(results[0]!.triggered).toBe(false);
+      // No earlier window to compare against, so no percent change
+      expect(results[0]!.condition_results![1]).toMatchObject({ matched: false, value: null });
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+    });
+
+    it('should require every one of the consecutive runs to match', async () => {
+      const sentimentRule = {
+        ...compositeRule,
+        condition: { metric: 'average_sentiment', operator: '<' as const, value: -0.3, consecutive_runs: 3 }
+      };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [sentimentRule], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ value: -0.5 }, { value: -0.4 }, { value: -0.2 }], rowCount: 3 });
+
+      const results = await service.evaluateThresholds('brand-1', {
+        ...mockVisibilityMetrics,
+        average_sentiment: -0.5
+      });
+
+      expect(results[0]!.triggered).toBe(false);
+      const [runsSql, runsValues] = mockQuery.mock.calls[1]!;
+      expect(runsSql).toContain('SELECT average_sentiment::float AS value');
+      expect(runsSql).toContain('LIMIT 3');
+      expect(runsValues).toEqual(['brand-1', null, null]);
+    });
+  });
+
   describe('threshold evaluation logic', () => {
     beforeEach(() => {
-      // Mock getAlertThresholds to return empty array to avoid queue operations
-      mockQuery.mockResolvedValue({
-        rows: [],
-        rowCount: 0
-      });
+      // Mock getAlertThresholds to return empty array to avoid queue operations,
+      // and store any alert raised so it can be grouped into an incident
+      mockQuery.mockImplementation(async (sql: string) => (sql.includes('INSERT INTO alerts')
+        ? { rows: [mockAlert], rowCount: 1 }
+        : { rows: [], rowCount: 0 }));
     });
 
     it('should correctly evaluate greater than operator', async () => {
@@ -343,10 +579,9 @@ describe('AlertManagementService', () => {
 
   describe('metric value extraction', () => {
     beforeEach(() => {
-      mockQuery.mockResolvedValue({
-        rows: [],
-        rowCount: 0
-      });
+      mockQuery.mockImplementation(async (sql: string) => (sql.includes('INSERT INTO alerts')
+        ? { rows: [mockAlert], rowCount: 1 }
+        : { rows: [], rowCount: 0 }));
     });
 
     it('should extract overall_score correctly', async () => {
@@ -429,10 +664,9 @@ describe('AlertManagementService', () => {
 
   describe('severity calculation', () => {
     beforeEach(() => {
-      mockQuery.mockResolvedValue({
-        rows: [],
-        rowCount: 0
-      });
+      mockQuery.mockImplementation(async (sql: string) => (sql.includes('INSERT INTO alerts')
+        ? { rows: [mockAlert], rowCount: 1 }
+        : { rows: [], rowCount: 0 }));
     });
 
     it('should calculate low severity for small differences', async () => {
@@ -0,0 +1,408 @@
+import request from 'supertest';
+import express from 'express';
+import { alertsRouter } from '../routes/alerts';
+import { AlertsController } from '../controllers/alerts';
+import { AlertManagementService } from '../services/AlertManagementService';
+import { AlertIncidentModel } from '../models/AlertIncident';
+import { EscalationPolicyModel } from '../models/EscalationPolicy';
+import { OnCallRotationModel } from '../models/OnCallRotation';
+import { authorizeBrandAccess } from '../middleware/auth';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../services/AlertManagementService');
+jest.mock('../models/AlertIncident');
+jest.mock('../models/EscalationPolicy');
+jest.mock('../models/OnCallRotation');
+
+// Mock authentication middleware
+jest.mock('../middleware/auth', () => ({
+  authenticate: jest.fn((req, _res, next) => {
+    req.user = { userId: '123e4567-e89b-12d3-a456-426614174000', role: 'brand_manager' };
+    next();
+  }),
+  authorizeBrandAccess: jest.fn(() => (_req: any, _res: any, next: any) => next()),
+  validateRequestBody: jest.fn(() => (_req: any, _res: any, next: any) => next())
+}));
+
+const BRAND_ID = '223e4567-e89b-12d3-a456-426614174000';
+const USER_ID = '123e4567-e89b-12d3-a456-426614174000';
+const ROTATION_ID = '323e4567-e89b-12d3-a456-426614174000';
+
+const mockIncidentModel = AlertIncidentModel as jest.Mocked<typeof AlertIncidentModel>;
+const mockPolicyModel = EscalationPolicyModel as jest.Mocked<typeof EscalationPolicyModel>;
+const mockRotationModel = OnCallRotationModel as jest.Mocked<typeof OnCallRotationModel>;
+
+describe('Alert Routes', () => {
+  let app: express.Application;
+  let alertService: jest.Mocked<AlertManagementService>;
+  let routeRoles: string[];
+
+  const threshold = {
+    id: 'threshold-1',
+    brand_id: BRAND_ID,
+    user_id: USER_ID,
+    metric_type: 'overall_score',
+    detection_method: 'static' as const,
+    threshold_value: 40,
+    comparison_operator: '<' as const,
+    is_active: true,
+    notification_channels: ['email'],
+    created_at: new Date('2024-01-15'),
+    updated_at: new Date('2024-01-15')
+  };
+
+  const alert = {
+    id: 'alert-1',
+    brand_id: BRAND_ID,
+    severity: 'high' as const,
+    title: 'High Alert',
+    message: 'Overall score fell below 40',
+    metric_type: 'overall_score',
+    is_acknowledged: false,
+    created_at: new Date('2024-01-15')
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/alerts', alertsRouter);
+    // Recorded as the router was built, before the mocks are cleared
+    routeRoles = (authorizeBrandAccess as jest.Mock).mock.calls.map(([role]) => role);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    alertService = new AlertManagementService() as jest.Mocked<AlertManagementService>;
+    AlertsController.initialize(alertService);
+  });
+
+  it('should scope every route to the brand, with editor access for changes', () => {
+    expect(routeRoles).toEqual([
+      'viewer', 'editor', 'editor', 'editor',
+      'viewer', 'editor', 'editor', 'viewer', 'editor', 'editor', 'editor',
+      'viewer', 'viewer', 'editor',
+      'viewer', 'viewer', 'viewer', 'editor', 'viewer'
+    ]);
+  });
+
+  describe('POST /api/alerts/brands/:brandId/thresholds', () => {
+    it('should create a threshold for the brand and current user', async () => {
+      alertService.createAlertThreshold.mockResolvedValue(threshold);
+
+      const response = await request(app)
+        .post(`/api/alerts/brands/${BRAND_ID}/thresholds`)
+        .send({ metric_type: 'overall_score', threshold_value: 40, comparison_operator: '<', notification_channels: ['email'] })
+        .expect(201);
+
+      expect(response.body.threshold.id).toBe('threshold-1');
+      expect(alertService.createAlertThreshold).toHaveBeenCalledWith({
+        brand_id: BRAND_ID,
+        user_id: USER_ID,
+        metric_type: 'overall_score',
+        detection_method: 'static',
+        threshold_value: 40,
+        comparison_operator: '<',
+        notification_channels: ['email']
+      });
+    });
+
+    it('should reject a metric that is not recorded', async () => {
+      const response = await request(app)
+        .post(`/api/alerts/brands/${BRAND_ID}/thresholds`)
+        .send({ metric_type: 'visibility', threshold_value: 40, comparison_operator: '<', notification_channels: ['email'] })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+      expect(alertService.createAlertThreshold).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('composite rules', () => {
+    it('should create a composite rule from a valid expression', async () => {
+      alertService.createAlertThreshold.mockResolvedValue(threshold);
+      const condition = {
+        any: [
+          { metric: 'average_sentiment', operator: '<', value: -0.3, consecutive_runs: 3 },
+          { metric: 'negative_mentions', change: 'percent', operator: '>=', value: 100, model: 'any' }
+        ]
+      };
+
+      await request(app)
+        .post(`/api/alerts/brands/${BRAND_ID}/thresholds`)
+        .send({ detection_method: 'composite', condition, severity: 'high', notification_channels: ['email'] })
+        .expect(201);
+
+      expect(alertService.createAlertThreshold).toHaveBeenCalledWith(expect.objectContaining({
+        metric_type: 'composite',
+        detection_method: 'composite',
+        condition,
+        severity: 'high'
+      }));
+    });
+
+    it('should reject an expression that scopes a run metric to a model', async () => {
+      const response = await request(app)
+        .post(`/api/alerts/brands/${BRAND_ID}/thresholds`)
+        .send({
+          detection_method: 'composite',
+          condition: { all: [{ metric: 'overall_score', operator: '<', value: 40, model: 'any' }] },
+          notification_channels: ['email']
+        })
+        .expect(400);
+
+      expect(response.body.message).toContain('"condition.all[0].model" is not allowed');
+      expect(alertService.createAlertThreshold).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/alerts/brands/:brandId/thresholds/:thresholdId', () => {
+    it('should update a threshold of the brand', async () => {
+      alertService.getAlertThreshold.mockResolvedValue(threshold);
+      alertService.updateAlertThreshold.mockResolvedValue({ ...threshold, threshold_value: 30 });
+
+      const response = await request(app)
+        .put(`/api/alerts/brands/${BRAND_ID}/thresholds/threshold-1`)
+        .send({ threshold_value: 30 })
+        .expect(200);
+
+      expect(response.body.threshold.threshold_value).toBe(30);
+      expect(alertService.updateAlertThreshold).toHaveBeenCalledWith('threshold-1', { threshold_value: 30 });
+    });
+
+    it('should switch a threshold to anomaly detection', async () => {
+      alertService.getAlertThreshold.mockResolvedValue(threshold);
+      alertService.updateAlertThreshold.mockResolvedValue({ ...threshold, detection_method: 'z_score', sensitivity: 2.5 });
+
+      await request(app)
+        .put(`/api/alerts/brands/${BRAND_ID}/thresholds/threshold-1`)
+        .send({ detection_method: 'z_score', sensitivity: 2.5 })
+        .expect(200);
+
+      expect(alertService.updateAlertThreshold).toHaveBeenCalledWith('threshold-1', {
+        detection_method: 'z_score',
+        sensitivity: 2.5
+      });
+    });
+
+    it('should reject an anomaly rule without a direction', async () => {
+      alertService.getAlertThreshold.mockResolvedValue({ ...threshold, comparison_operator: '<=' });
+
+      const response = await request(app)
+        .put(`/api/alerts/brands/${BRAND_ID}/thresholds/threshold-1`)
+        .send({ detection_method: 'percent_change' })
+        .expect(400);
+
+      expect(response.body.message).toContain('"comparison_operator" must be one of [>, <]');
+      expect(alertService.updateAlertThreshold).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a threshold of another brand', async () => {
+      alertService.getAlertThreshold.mockResolvedValue({ ...threshold, brand_id: 'other-brand' });
+
+      await request(app)
+        .put(`/api/alerts/brands/${BRAND_ID}/thresholds/threshold-1`)
+        .send({ threshold_value: 30 })
+        .expect(404);
+
+      expect(alertService.updateAlertThreshold).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/alerts/brands/:brandId', () => {
+    it('should list alerts with the query filters', async () => {
+      alertService.getAlerts.mockResolvedValue([alert]);
+
+      const response = await request(app)
+        .get(`/api/alerts/brands/${BRAND_ID}?severity=high&resolved=false&limit=10`)
+        .expect(200);
+
+      expect(response.body.alerts).toHaveLength(1);
+      expect(alertService.getAlerts).toHaveBeenCalledWith(BRAND_ID, {
+        severity: 'high',
+        resolved: false,
+        limit: 10,
+        offset: 0
+      });
+    });
+  });
+
+  describe('escalation policy', () => {
+    const rotation = {
+      id: ROTATION_ID,
+      brand_id: BRAND_ID,
+      name: 'Primary',
+      user_ids: [USER_ID],
+      shift_hours: 168,
+      starts_at: new Date('2024-01-01'),
+      is_active: true,
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01')
+    };
+
+    it('should save a policy with the default severities and repeat limit', async () => {
+      mockRotationModel.getNonMembers.mockResolvedValue([]);
+      mockRotationModel.findById.mockResolvedValue(rotation);
+      mockPolicyModel.upsert.mockImplementation(async (input) => ({ id: 'policy-1', ...input } as any));
+      const steps = [
+        { delay_minutes: 15, channels: ['in_app'], rotation_id: ROTATION_ID },
+        { delay_minutes: 30, channels: ['email'], user_ids: [USER_ID] }
+      ];
+
+      await request(app)
+        .put(`/api/alerts/brands/${BRAND_ID}/escalation-policy`)
+        .send({ name: 'Visibility incidents', steps })
+        .expect(200);
+
+      expect(mockRotationModel.getNonMembers).toHaveBeenCalledWith(BRAND_ID, [USER_ID]);
+      expect(mockPolicyModel.upsert).toHaveBeenCalledWith({
+        brand_id: BRAND_ID,
+        name: 'Visibility incidents',
+        severities: ['high', 'critical'],
+        steps,
+        repeat_limit: 3,
+        created_by: USER_ID
+      });
+    });
+
+    it('should reject a step that notifies users outside the brand', async () => {
+      const outsider = '423e4567-e89b-12d3-a456-426614174000';
+      mockRotationModel.getNonMembers.mockResolvedValue([outsider]);
+
+      const response = await request(app)
+        .put(`/api/alerts/brands/${BRAND_ID}/escalation-policy`)
+        .send({ name: 'Visibility incidents', steps: [{ delay_minutes: 15, channels: ['sms'], user_ids: [outsider] }] })
+        .expect(400);
+
+      expect(response.body.message).toContain(`Users ${outsider} are not users of the brand`);
+      expect(mockPolicyModel.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject another brand\'s rotation', async () => {
+      mockRotationModel.getNonMembers.mockResolvedValue([]);
+      mockRotationModel.findById.mockResolvedValue({ ...rotation, brand_id: 'other-brand' });
+
+      await request(app)
+        .put(`/api/alerts/brands/${BRAND_ID}/escalation-policy`)
+        .send({ name: 'Visibility incidents', steps: [{ delay_minutes: 15, channels: ['sms'], rotation_id: ROTATION_ID }] })
+        .expect(400);
+
+      expect(mockPolicyModel.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should list rotations with who is on call now', async () => {
+      mockRotationModel.getByBrand.mockResolvedValue([rotation]);
+      mockRotationModel.getOnCallUserId.mockReturnValue(USER_ID);
+
+      const response = await request(app)
+        .get(`/api/alerts/brands/${BRAND_ID}/on-call`)
+        .expect(200);
+
+      expect(response.body.rotations[0].on_call_user_id).toBe(USER_ID);
+    });
+
+    it('should return an alert\'s escalation audit trail', async () => {
+      alertService.getAlert.mockResolvedValue(alert);
+      mockPolicyModel.getEvents.mockResolvedValue([
+        { id: 'event-1', alert_id: 'alert-1', action: 'scheduled', user_ids: [], channels: ['sms'], created_at: new Date('2024-01-15') }
+      ]);
+
+      const response = await request(app)
+        .get(`/api/alerts/brands/${BRAND_ID}/alert-1/escalations`)
+        .expect(200);
+
+      expect(response.body.escalations).toHaveLength(1);
+      expect(mockPolicyModel.getEvents).toHaveBeenCalledWith('alert-1');
+    });
+  });
+
+  describe('incidents', () => {
+    const incident = {
+      id: 'incident-1',
+      brand_id: BRAND_ID,
+      status: 'open' as const,
+      severity: 'high' as const,
+      title: 'High Alert',
+      alert_count: 2,
+      repeat_count: 0,
+      first_alert_at: new Date('2024-01-15'),
+      last_alert_at: new Date('2024-01-15'),
+      created_at: new Date('2024-01-15'),
+      updated_at: new Date('2024-01-15')
+    };
+
+    it('should list incidents with the query filters', async () => {
+      mockIncidentModel.getByBrand.mockResolvedValue([incident]);
+
+      const response = await request(app)
+        .get(`/api/alerts/brands/${BRAND_ID}/incidents?status=open`)
+        .expect(200);
+
+      expect(response.body.incidents).toHaveLength(1);
+      expect(mockIncidentModel.getByBrand).toHaveBeenCalledWith(BRAND_ID, { status: 'open', limit: 50, offset: 0 });
+    });
+
+    it('should return an incident with its alerts and timeline', async () => {
+      mockIncidentModel.findById.mockResolvedValue(incident);
+      mockIncidentModel.getAlerts.mockResolvedValue([alert]);
+      mockIncidentModel.getTimeline.mockResolvedValue([{ kind: 'alert', at: alert.created_at, alert }]);
+
+      const response = await request(app)
+        .get(`/api/alerts/brands/${BRAND_ID}/incidents/incident-1`)
+        .expect(200);
+
+      expect(response.body.alerts).toHaveLength(1);
+      expect(response.body.timeline[0].kind).toBe('alert');
+      expect(mockIncidentModel.getTimeline).toHaveBeenCalledWith(incident, [alert]);
+    });
+
+    it('should resolve an incident as the current user', async () => {
+      mockIncidentModel.findById.mockResolvedValue(incident);
+      mockIncidentModel.resolve.mockResolvedValue({ incident: { ...incident, status: 'resolved' }, alerts_resolved: 2 });
+
+      const response = await request(app)
+        .post(`/api/alerts/brands/${BRAND_ID}/incidents/incident-1/resolve`)
+        .expect(200);
+
+      expect(response.body.alerts_resolved).toBe(2);
+      expect(mockIncidentModel.resolve).toHaveBeenCalledWith('incident-1', USER_ID);
+    });
+
+    it('should not resolve an incident of another brand', async () => {
+      mockIncidentModel.findById.mockResolvedValue({ ...incident, brand_id: 'other-brand' });
+
+      await request(app)
+        .post(`/api/alerts/brands/${BRAND_ID}/incidents/incident-1/resolve`)
+        .expect(404);
+
+      expect(mockIncidentModel.resolve).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('alert lifecycle', () => {
+    it('should acknowledge an alert as the current user', async () => {
+      alertService.getAlert.mockResolvedValue(alert);
+      alertService.acknowledgeAlert.mockResolvedValue({ ...alert, is_acknowledged: true });
+
+      const response = await request(app)
+        .post(`/api/alerts/brands/${BRAND_ID}/alert-1/acknowledge`)
+        .expect(200);
+
+      expect(response.body.alert.is_acknowledged).toBe(true);
+      expect(alertService.acknowledgeAlert).toHaveBeenCalledWith('alert-1', USER_ID);
+    });
+
+    it('should not resolve an alert of another brand', async () => {
+      alertService.getAlert.mockResolvedValue({ ...alert, brand_id: 'other-brand' });
+
+      await request(app)
+        .post(`/api/alerts/brands/${BRAND_ID}/alert-1/resolve`)
+        .expect(404);
+
+      expect(alertService.resolveAlert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,4 +1,6 @@
 import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { BudgetService } from '../services/BudgetService';
+import { AlertManagementService } from '../services/AlertManagementService';
 import { BrandModel } from '../models/Brand';
 import { AIResponseModel } from '../models/AIResponse';
 import { AIModelManager } from '../services/ai/AIModelManager';
@@ -7,6 +9,7 @@ import { AIModelManager } from '../services/ai/AIModelManager';
 jest.mock('../models/Brand');
 jest.mock('../models/AIResponse');
 jest.mock('../services/ai/AIModelManager');
+jest.mock('../services/AlertManagementService');
 jest.mock('../config/database', () => ({
   query: jest.fn()
 }));
@@ -19,6 +22,7 @@ const mockAIModelManager = AIModelManager as jest.MockedClass<typeof AIModelMana
 describe('BrandMonitoringService', () => {
   let brandMonitoringService: BrandMonitoringService;
   let mockAIModelManagerInstance: jest.Mocked<AIModelManager>;
+  let alertService: jest.Mocked<AlertManagementService>;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -28,13 +32,15 @@ describe('BrandMonitoringService', () => {
       executeBrandMonitoring: jest.fn(),
       generateBrandQuery: jest.fn(),
       getAvailableModels: jest.fn(),
+      getModel: jest.fn(),
       initializeModels: jest.fn()
     } as any;
 
     // Mock the constructor
     mockAIModelManager.mockImplementation(() => mockAIModelManagerInstance);
     
-    brandMonitoringService = new BrandMonitoringService();
+    alertService = new AlertManagementService() as jest.Mocked<AlertManagementService>;
+    brandMonitoringService = new BrandMonitoringService(new BudgetService(alertService), alertService);
   });
 
   describe('monitorBrand', () => {
@@ -117,7 +123,30 @@ describe('BrandMonitoringService', () => {
 
       expect(mockBrandModel.findById).toHaveBeenCalledWith('brand-1');
       expect(mockAIModelManagerInstance.executeBrandMonitoring).toHaveBeenCalled();
-      expect(mockAIResponseModel.create).toHaveBeenCalled();
+      expect(mockAIResponseModel.create).toHaveBeenCalledWith(expect.objectContaining({ query: 'test query' }));
+    });
+
+    it('should store each cited URL once for the crawl worker', async () => {
+      mockAIModelManagerInstance.executeBrandMonitoring.mockResolvedValue({
+        query: { id: 'query-1', brand_id: 'brand-1', query: 'test query' },
+        responses: [mockAIResponse],
+        parsed_responses: [{
+          ...mockParsedResponse,
+          citations: [...mockParsedResponse.citations, ...mockParsedResponse.citations]
+        }]
+      });
+
+      await brandMonitoringService.monitorBrand('brand-1', ['visibility']);
+
+      expect(mockAIResponseModel.addCitation).toHaveBeenCalledTimes(1);
+      expect(mockAIResponseModel.addCitation).toHaveBeenCalledWith({
+        ai_response_id: 'stored-response-1',
+        url: 'https://example.com/techcorp',
+        domain: 'example.com',
+        authority_score: 0.8,
+        relevance_score: 0.9,
+        content_type: 'article'
+      });
     });
 
     it('should throw error for non-existent brand', async () => {
@@ -165,6 +194,106 @@ describe('BrandMonitoringService', () => {
       expect(result.ai_responses).toHaveLength(0);
       expect(result.visibility_score.overall_score).toBe(0);
     });
+
+    it('should report progress after each query', async () => {
+      mockAIModelManagerInstance.getAvailableModels.mockReturnValue(['GPT-4', 'Claude']);
+      mockAIModelManagerInstance.executeBrandMonitoring
+        .mockResolvedValueOnce({
+          query: { id: 'query-1', brand_id: 'brand-1', query: 'test query' },
+          responses: [mockAIResponse],
+          parsed_responses: [mockParsedResponse]
+        })
+        .mockRejectedValueOnce(new Error('Rate limit exceeded'));
+      const onProgress = jest.fn();
+
+      await brandMonitoringService.monitorBrand('brand-1', ['visibility', 'sentiment'], { onProgress });
+
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenNthCalledWith(1, {
+        queries_total: 2,
+        queries_completed: 0,
+        models_queried: [],
+        failures: []
+      });
+      expect(onProgress).toHaveBeenLastCalledWith({
+        queries_total: 2,
+        queries_completed: 2,
+        models_queried: ['GPT-4'],
+        failures: [
+          { query_type: 'visibility', model_name: 'Claude', error: 'No response from model' },
+          { query_type: 'sentiment', error: 'Rate limit exceeded' }
+        ]
+      });
+    });
+
+    it('should measure stability across repeat samples and store it with the score', async () => {
+      const samples = [0, 1, 2].map(sampleIndex => ({
+        ...mockParsedResponse,
+        id: `response-${sampleIndex}`,
+        metadata: { sample_index: sampleIndex }
+      }));
+      mockAIModelManagerInstance.executeBrandMonitoring.mockResolvedValue({
+        query: { id: 'query-1', brand_id: 'brand-1', query: 'test query' },
+        responses: samples,
+        parsed_responses: samples
+      });
+
+      const result = await brandMonitoringService.monitorBrand('brand-1', ['visibility'], {
+        samples: 3,
+        temperature: 0.8
+      });
+
+      expect(mockAIModelManagerInstance.executeBrandMonitoring).toHaveBeenCalledWith(
+        expect.objectContaining({ query_type: 'visibility' }),
+        undefined,
+        {
+          samples: 3,
+          temperature: 0.8,
+          targets: { brand_name: 'TechCorp', competitors: ['CompetitorA', 'CompetitorB'] }
+        }
+      );
+      expect(result.sample_statistics).toMatchObject({
+        samples_per_query: 3,
+        temperature: 0.8,
+        brands: [
+          { brand_name: 'TechCorp', samples: 3, mention_rate: 1, stability_score: 100 },
+          { brand_name: 'CompetitorA', mention_rate: 0 },
+          { brand_name: 'CompetitorB', mention_rate: 0 }
+        ]
+      });
+      expect(result.visibility_score.stability_score).toBe(100);
+
+      const insert = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO visibility_metrics'));
+      expect(insert[0]).toContain('stability_score');
+      expect(insert[1][10]).toBe(100);
+    });
+
+    it('should evaluate alert thresholds against the stored metrics', async () => {
+      const storedMetrics = { id: 'metric-1', brand_id: 'brand-1', overall_score: '42.00', ranking_position: null };
+      mockQuery.mockImplementation(async (sql: string) => (sql.includes('INSERT INTO visibility_metrics')
+        ? { rows: [storedMetrics], rowCount: 1 }
+        : { rows: [], rowCount: 0 }));
+      alertService.evaluateThresholds.mockResolvedValue([]);
+
+      await brandMonitoringService.monitorBrand('brand-1', ['visibility']);
+
+      const insert = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO visibility_metrics'));
+      expect(insert[0]).toContain('RETURNING *');
+      expect(alertService.evaluateThresholds).toHaveBeenCalledWith('brand-1', storedMetrics);
+    });
+
+    it('should evaluate thresholds with the alert service it was given', async () => {
+      mockQuery.mockImplementation(async (sql: string) => (sql.includes('INSERT INTO visibility_metrics')
+        ? { rows: [{ id: 'metric-1', brand_id: 'brand-1' }], rowCount: 1 }
+        : { rows: [], rowCount: 0 }));
+      alertService.evaluateThresholds.mockResolvedValue([]);
+
+      await brandMonitoringService.monitorBrand('brand-1', ['visibility']);
+
+      expect(alertService.evaluateThresholds).toHaveBeenCalledTimes(1);
+      // Only the shared instance built in beforeEach; no extra Redis clients or queues
+      expect(AlertManagementService).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('getVisibilityTrends', () => {
@@ -373,9 +502,9 @@ describe('BrandMonitoringService', () => {
             { authority_score: 0.8, relevance_score: 0.9 }
           ],
           brand_mentions: [
-            { sentiment_score: 0.8 },
-            { sentiment_score: 0.7 },
-            { sentiment_score: 0.9 }
+            { brand_name: 'TechCorp', sentiment_score: 0.8 },
+            { brand_name: 'TechCorp', sentiment_score: 0.7 },
+            { brand_name: 'TechCorp', sentiment_score: 0.9 }
           ]
         }]
       };
@@ -0,0 +1,198 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CitationCrawler } from '../services/CitationCrawler';
+import { CitationCrawlService } from '../services/CitationCrawlService';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+// Mock Bull Queue
+const mockQueue = {
+  add: jest.fn().mockResolvedValue({}),
+  process: jest.fn(),
+  on: jest.fn(),
+  close: jest.fn().mockResolvedValue(undefined)
+};
+
+jest.mock('bull', () => {
+  return jest.fn().mockImplementation(() => mockQueue);
+});
+
+const mockQuery = require('../config/database').query;
+
+// Pages served by the local fixture server
+const pages: Record<string, { status?: number; headers?: Record<string, string>; body?: string }> = {
+  '/review': {
+    body: `<!doctype html>
+      <html><head>
+        <title>Best CRM tools in 2024 &amp; beyond</title>
+        <meta property="article:published_time" content="2024-03-05T09:00:00Z">
+        <meta name="description" content="Our yearly CRM roundup.">
+      </head><body>
+        <nav>Home</nav>
+        <script>var brand = "TechCorp";</script>
+        <p>We tested ten tools. TechCorp offers the best pipeline view we have seen. Support was quick.</p>
+        <p>TechCorp also integrates with most mail clients.</p>
+      </body></html>`
+  },
+  '/techcorp-launch': {
+    body: `<html><head>
+        <meta property="og:title" content="TechCorp launches AI assistant">
+        <script type="application/ld+json">{"@type": "NewsArticle", "datePublished": "2024-05-20"}</script>
+      </head><body><p>TechCorp announced an assistant today.</p></body></html>`
+  },
+  '/unrelated': {
+    body: '<html><head><title>Gardening tips</title></head><body><time datetime="2023-11-02">Nov 2</time><p>Water your plants.</p></body></html>'
+  },
+  '/old-link': { status: 301, headers: { Location: '/review' } },
+  '/loop': { status: 302, headers: { Location: '/loop' } },
+  '/missing': { status: 404, body: '<html><body>Not found</body></html>' },
+  '/whitepaper.pdf': { headers: { 'Content-Type': 'application/pdf' }, body: '%PDF-1.4 TechCorp' }
+};
+
+describe('Citation Crawling', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/slow') {
+        return; // Never answers
+      }
+
+      const page = pages[req.url || ''];
+      if (!page) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(page.status || 200, { 'Content-Type': 'text/html; charset=utf-8', ...page.headers });
+      res.end(page.body || '');
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('CitationCrawler', () => {
+    const crawler = new CitationCrawler({ allowPrivateNetworks: true, timeoutMs: 500 });
+
+    it('should read the title, publish date and brand mentions of a page', async () => {
+      const result = await crawler.crawl(`${baseUrl}/review`, 'TechCorp');
+
+      expect(result).toEqual({
+        url: `${baseUrl}/review`,
+        final_url: `${baseUrl}/review`,
+        crawl_status: 'ok',
+        http_status: 200,
+        title: 'Best CRM tools in 2024 & beyond',
+        publish_date: new Date('2024-03-05T09:00:00Z'),
+        content_snippet: 'TechCorp offers the best pipeline view we have seen.',
+        content_type: 'web',
+        mentions_brand: true,
+        relevance_score: 0.73
+      });
+    });
+
+    it('should score a page with the brand in its title highest', async () => {
+      const result = await crawler.crawl(`${baseUrl}/techcorp-launch`, 'TechCorp');
+
+      expect(result.title).toBe('TechCorp launches AI assistant');
+      expect(result.publish_date).toEqual(new Date('2024-05-20'));
+      expect(result.relevance_score).toBe(0.9);
+    });
+
+    it('should lower the relevance of a page that does not mention the brand', async () => {
+      const result = await crawler.crawl(`${baseUrl}/unrelated`, 'TechCorp');
+
+      expect(result.crawl_status).toBe('ok');
+      expect(result.mentions_brand).toBe(false);
+      expect(result.relevance_score).toBe(0.3);
+      expect(result.publish_date).toEqual(new Date('2023-11-02'));
+      expect(result.content_snippet).toBeUndefined();
+    });
+
+    it('should follow redirects and record where they end', async () => {
+      const result = await crawler.crawl(`${baseUrl}/old-link`, 'TechCorp');
+
+      expect(result.crawl_status).toBe('ok');
+      expect(result.final_url).toBe(`${baseUrl}/review`);
+      expect(result.mentions_brand).toBe(true);
+    });
+
+    it('should report HTTP errors as broken', async () => {
+      const result = await crawler.crawl(`${baseUrl}/missing`, 'TechCorp');
+
+      expect(result).toMatchObject({ crawl_status: 'broken', http_status: 404, relevance_score: 0, error: 'HTTP 404' });
+    });
+
+    it('should report timeouts, redirect loops and refused connections as unreachable', async () => {
+      const [slow, loop, refused] = await Promise.all([
+        crawler.crawl(`${baseUrl}/slow`, 'TechCorp'),
+        crawler.crawl(`${baseUrl}/loop`, 'TechCorp'),
+        crawler.crawl('http://127.0.0.1:1/', 'TechCorp')
+      ]);
+
+      expect(slow.crawl_status).toBe('unreachable');
+      expect(loop).toMatchObject({ crawl_status: 'unreachable', error: 'More than 5 redirects' });
+      expect(refused.crawl_status).toBe('unreachable');
+    });
+
+    it('should not read documents that are not HTML', async () => {
+      const result = await crawler.crawl(`${baseUrl}/whitepaper.pdf`, 'TechCorp');
+
+      expect(result).toMatchObject({ crawl_status: 'ok', content_type: 'pdf', mentions_brand: false });
+    });
+
+    it('should refuse private network addresses by default', async () => {
+      const result = await new CitationCrawler().crawl(`${baseUrl}/review`, 'TechCorp');
+
+      expect(result.crawl_status).toBe('unreachable');
+      expect(result.error).toBe('Refusing to crawl private network address 127.0.0.1');
+    });
+  });
+
+  describe('CitationCrawlService', () => {
+    it('should crawl due citations and record each result for the brand', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [
+          { url: `${baseUrl}/review`, brand_id: 'brand-1', brand_name: 'TechCorp' },
+          { url: `${baseUrl}/missing`, brand_id: 'brand-1', brand_name: 'TechCorp' }
+        ] })
+        .mockResolvedValue({ rows: [], rowCount: 2 });
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      const service = new CitationCrawlService(new CitationCrawler({ allowPrivateNetworks: true }));
+      const summary = await service.crawlDue();
+
+      expect(summary).toEqual({ crawled: 2, ok: 1, broken: 1, unreachable: 0, citations_updated: 4 });
+      expect(mockQuery.mock.calls[0][0]).toContain('c.last_crawled IS NULL OR c.last_crawled < NOW() - INTERVAL \'30 days\'');
+
+      const [sql, values] = mockQuery.mock.calls[1];
+      expect(sql).toContain('last_crawled = NOW()');
+      expect(values.slice(0, 5)).toEqual([`${baseUrl}/review`, 'brand-1', 'ok', 200, `${baseUrl}/review`]);
+      expect(values.slice(9, 12)).toEqual([true, 0.73, null]);
+
+      expect(mockQuery.mock.calls[2][1].slice(2, 4)).toEqual(['broken', 404]);
+    });
+
+    it('should register a repeatable sweep', async () => {
+      await new CitationCrawlService().scheduleSweeps();
+
+      expect(mockQueue.add).toHaveBeenCalledWith('crawl-sweep', {}, {
+        repeat: { cron: '*/15 * * * *', tz: 'UTC' },
+        jobId: 'crawl-sweep'
+      });
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import request from 'supertest';
+import express from 'express';
+import { DomainAuthorityService } from '../services/DomainAuthority';
+import { DomainAuthorityController } from '../controllers/domainAuthority';
+import { ReportsController } from '../controllers/reports';
+import { UserModel } from '../models/User';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../models/User');
+
+const mockQuery = require('../config/database').query;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+describe('Domain Authority', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  describe('DomainAuthorityService', () => {
+    it('should score from the table, matching parent domains and ignoring www', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [
+        { domain: 'wikipedia.org', authority_score: '0.90' },
+        { domain: 'g2.com', authority_score: '0.62' }
+      ] });
+      const authority = new DomainAuthorityService();
+      await authority.load();
+
+      expect(authority.score('en.wikipedia.org')).toBe(0.9);
+      expect(authority.score('www.G2.com')).toBe(0.62);
+      expect(authority.score('example.gov')).toBe(0.9);
+      expect(authority.score('mit.edu')).toBe(0.8);
+      expect(authority.score('someblog.io')).toBe(0.5);
+    });
+
+    it('should learn higher scores for domains cited often and for many brands', () => {
+      const stats = { domain: 'g2.com', citation_count: 40, brand_count: 5, crawled_count: 0, broken_count: 0 };
+
+      expect(DomainAuthorityService.learnedScore(stats, 40)).toBe(0.9);
+      expect(DomainAuthorityService.learnedScore({ ...stats, brand_count: 1 }, 40)).toBe(0.65);
+      expect(DomainAuthorityService.learnedScore({ ...stats, crawled_count: 10, broken_count: 10 }, 40)).toBe(0.45);
+      expect(DomainAuthorityService.learnedScore({ ...stats, citation_count: 2 }, 40)).toBeNull();
+    });
+
+    it('should save learned scores for every cited domain and reload', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [
+          { domain: 'g2.com', citation_count: '9', brand_count: '3', crawled_count: '4', broken_count: '0' },
+          { domain: 'rare.net', citation_count: '1', brand_count: '1', crawled_count: '0', broken_count: '0' }
+        ] })
+        .mockResolvedValueOnce({ rows: [], rowCount: 2 })
+        .mockResolvedValueOnce({ rows: [{ domain: 'g2.com', authority_score: '0.77' }] });
+
+      const authority = new DomainAuthorityService();
+      const summary = await authority.learn();
+
+      expect(summary).toEqual({ domains: 2, scored: 1 });
+      expect(mockQuery.mock.calls[0][0]).toContain('COUNT(DISTINCT ar.brand_id)');
+
+      const [sql, values] = mockQuery.mock.calls[1];
+      expect(sql).toContain('ON CONFLICT (domain) DO UPDATE');
+      expect(sql).not.toContain('manual_score');
+      expect(values).toEqual(['g2.com', 0.77, 9, 3, 0, 'rare.net', null, 1, 1, 0]);
+      expect(authority.score('g2.com')).toBe(0.77);
+    });
+  });
+
+  describe('admin endpoints', () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = { userId: '123e4567-e89b-12d3-a456-426614174000', role: 'admin' } as any;
+      next();
+    });
+    app.put('/api/domain-authority/:domain', DomainAuthorityController.setDomain);
+    app.delete('/api/domain-authority/:domain', DomainAuthorityController.clearDomain);
+
+    it('should save a manual score for the normalized domain', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [
+        { domain: 'g2.com', manual_score: '0.85', learned_score: '0.60', citation_count: 9 }
+      ] });
+
+      const response = await request(app)
+        .put('/api/domain-authority/www.G2.com')
+        .send({ authority_score: 0.85, notes: 'Trusted review site' })
+        .expect(200);
+
+      expect(response.body.domain).toMatchObject({ domain: 'g2.com', authority_score: 0.85, learned_score: 0.6 });
+      expect(mockQuery.mock.calls[0][1]).toEqual(['g2.com', 0.85, 'Trusted review site', '123e4567-e89b-12d3-a456-426614174000']);
+      expect(mockQuery.mock.calls[1][0]).toContain('COALESCE(manual_score, learned_score)');
+    });
+
+    it('should reject a score outside 0 to 1', async () => {
+      const response = await request(app)
+        .put('/api/domain-authority/g2.com')
+        .send({ authority_score: 2 })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the learned score when an override is cleared', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ domain: 'g2.com', manual_score: null, learned_score: '0.60' }] });
+
+      const response = await request(app)
+        .delete('/api/domain-authority/g2.com')
+        .expect(200);
+
+      expect(response.body.domain.authority_score).toBe(0.6);
+    });
+
+    it('should return 404 for a domain without an entry', async () => {
+      await request(app)
+        .delete('/api/domain-authority/unknown.com')
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/reports/brands/:brandId/sources', () => {
+    const app = express();
+    app.use((req, _res, next) => {
+      req.user = { userId: 'user-1', role: 'analyst' } as any;
+      next();
+    });
+    app.get('/api/reports/brands/:brandId/sources', ReportsController.getSourceLeaderboard);
+
+    it('should rank cited domains with praise, criticism and trends', async () => {
+      mockUserModel.hasAccessToBrand.mockResolvedValue(true);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [
+          { domain: 'g2.com', responses: '12', praised: '8', criticised: '1', average_sentiment: '0.4166' },
+          { domain: 'someblog.io', responses: '3', praised: '0', criticised: '3', average_sentiment: null }
+        ] })
+        .mockResolvedValueOnce({ rows: [
+          { period_start: '2024-03-04T00:00:00.000Z', domain: 'g2.com', responses: '5', praised: '4', criticised: '0' }
+        ] });
+
+      const response = await request(app)
+        .get('/api/reports/brands/brand-1/sources?days=90&period=month')
+        .expect(200);
+
+      expect(response.body.sources).toEqual([
+        { domain: 'g2.com', responses: 12, praised: 8, criticised: 1, average_sentiment: 0.42, authority_score: 0.5 },
+        { domain: 'someblog.io', responses: 3, praised: 0, criticised: 3, average_sentiment: null, authority_score: 0.5 }
+      ]);
+      expect(response.body.trends).toEqual([
+        { period_start: '2024-03-04T00:00:00.000Z', domain: 'g2.com', responses: 5, praised: 4, criticised: 0 }
+      ]);
+      expect(mockQuery.mock.calls[0][0]).toContain('INTERVAL \'90 days\'');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['brand-1', 'month', ['g2.com', 'someblog.io']]);
+    });
+
+    it('should reject an unknown period', async () => {
+      await request(app)
+        .get('/api/reports/brands/brand-1/sources?period=year')
+        .expect(400);
+    });
+  });
+});
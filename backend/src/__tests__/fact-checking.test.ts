@@ -0,0 +1,277 @@
+import request from 'supertest';
+import express from 'express';
+import { FactChecking } from '../services/FactChecking';
+import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { AlertManagementService } from '../services/AlertManagementService';
+import { BudgetService } from '../services/BudgetService';
+import { AIModelManager } from '../services/ai/AIModelManager';
+import { BrandController } from '../controllers/brands';
+import { BrandModel } from '../models/Brand';
+import { AIResponseModel } from '../models/AIResponse';
+import { PromptTemplateModel } from '../models/PromptTemplate';
+import { UserModel } from '../models/User';
+import { Brand, BrandFactSheet } from '../types/database';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../models/AIResponse');
+jest.mock('../models/PromptTemplate');
+jest.mock('../models/User');
+
+const mockQuery = require('../config/database').query;
+const mockAIResponseModel = AIResponseModel as jest.Mocked<typeof AIResponseModel>;
+const mockPromptTemplateModel = PromptTemplateModel as jest.Mocked<typeof PromptTemplateModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+const factSheet: BrandFactSheet = {
+  key_facts: [
+    { attribute: 'founded_year', value: '2012' },
+    { attribute: 'headquarters', value: 'Austin, Texas' },
+    { attribute: 'founder', value: 'Jane Doe and Raj Patel' }
+  ],
+  products: [
+    { name: 'TechCorp CRM', price: '$49 per user per month' },
+    { name: 'TechCorp Analytics', price: '$99 per month' }
+  ],
+  executives: [{ name: 'Maria Lopez', title: 'CEO' }],
+  discontinued_items: [{ name: 'TechCorp Classic', discontinued_on: '2022-06-30', replaced_by: 'TechCorp CRM' }]
+};
+
+const brand: Brand = {
+  id: 'brand-1',
+  name: 'TechCorp',
+  industry: 'Software',
+  competitor_brands: ['HubSpot'],
+  monitoring_keywords: [],
+  fact_sheet: factSheet,
+  is_active: true,
+  created_at: new Date('2024-01-15'),
+  updated_at: new Date('2024-01-15')
+};
+
+describe('Fact Checking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  describe('FactChecking.check', () => {
+    const check = (text: string) => FactChecking.check(text, brand);
+
+    it('should find a wrong founding year, headquarters and founder', () => {
+      expect(check('TechCorp was founded in 2009 by Jane Doe and Tom Smith.')).toEqual([
+        expect.objectContaining({ finding_type: 'founded_year', claimed_value: '2009', expected_value: '2012' }),
+        expect.objectContaining({ finding_type: 'founder', claimed_value: 'Jane Doe, Tom Smith' })
+      ]);
+      expect(check('TechCorp is headquartered in San Francisco, California.')).toEqual([
+        expect.objectContaining({
+          finding_type: 'headquarters',
+          sentence: 'TechCorp is headquartered in San Francisco, California.',
+          claimed_value: 'San Francisco, California',
+          expected_value: 'Austin, Texas'
+        })
+      ]);
+    });
+
+    it('should accept claims that agree with the fact sheet', () => {
+      expect(check('Founded by Jane Doe in 2012, TechCorp is based in Austin.')).toEqual([]);
+      expect(check('TechCorp CEO Maria Lopez announced the release.')).toEqual([]);
+      expect(check('TechCorp CRM costs $49 per user each month.')).toEqual([]);
+    });
+
+    it('should find someone else named as an executive', () => {
+      expect(check('The CEO of TechCorp is John Carter.')).toEqual([
+        expect.objectContaining({ finding_type: 'executive', claimed_value: 'John Carter (CEO)', expected_value: 'Maria Lopez (CEO)' })
+      ]);
+      expect(check('Under John Carter, TechCorp\'s chief executive officer, revenue doubled.')).toHaveLength(1);
+      expect(check('TechCorp\'s former CEO John Carter left in 2020.')).toEqual([]);
+    });
+
+    it('should find a wrong price for the one product a sentence names', () => {
+      expect(check('**TechCorp Analytics** starts at $79/month.')).toEqual([
+        expect.objectContaining({
+          finding_type: 'pricing',
+          sentence: '**TechCorp Analytics** starts at $79/month.',
+          claimed_value: '$79',
+          expected_value: 'TechCorp Analytics: $99 per month'
+        })
+      ]);
+      expect(check('TechCorp CRM is $29 while TechCorp Analytics is $99.')).toEqual([]);
+    });
+
+    it('should find discontinued items described as still available', () => {
+      expect(check('You can buy TechCorp Classic for small teams.')).toEqual([
+        expect.objectContaining({
+          finding_type: 'discontinued_item',
+          claimed_value: 'TechCorp Classic',
+          expected_value: 'Discontinued on 2022-06-30, replaced by TechCorp CRM'
+        })
+      ]);
+      expect(check('TechCorp Classic was replaced by TechCorp CRM.')).toEqual([]);
+    });
+
+    it('should skip brand facts in sentences that also name a competitor', () => {
+      expect(check('HubSpot was founded in 2006, six years before TechCorp.')).toEqual([]);
+    });
+
+    it('should check nothing for a brand without a fact sheet', () => {
+      expect(FactChecking.check('TechCorp was founded in 1999.', { ...brand, fact_sheet: null })).toEqual([]);
+    });
+  });
+
+  describe('BrandModel.updateFactSheet', () => {
+    it('should store a validated fact sheet', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ ...brand }] });
+
+      await BrandModel.updateFactSheet('brand-1', { key_facts: [{ attribute: 'founded_year', value: '2012' }] } as any);
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('SET fact_sheet = $2');
+      expect(JSON.parse(values[1])).toEqual({
+        key_facts: [{ attribute: 'founded_year', value: '2012' }],
+        products: [],
+        executives: [],
+        discontinued_items: []
+      });
+    });
+
+    it('should reject a founding year that is not a year', async () => {
+      await expect(BrandModel.updateFactSheet('brand-1', {
+        key_facts: [{ attribute: 'founded_year', value: 'the nineties' }]
+      } as any)).rejects.toThrow('Validation error');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('brand monitoring', () => {
+    const answer = 'TechCorp was founded in 2009. TechCorp Analytics costs $79 per month.';
+    let alertService: jest.Mocked<Pick<AlertManagementService, 'raiseSystemAlert'>>;
+    let budgetService: jest.Mocked<Pick<BudgetService, 'checkBudget'>>;
+
+    beforeEach(() => {
+      jest.spyOn(BrandModel, 'findById').mockResolvedValue(brand);
+      mockPromptTemplateModel.resolveForBrand.mockResolvedValue([]);
+      mockAIResponseModel.create.mockResolvedValue({ id: 'stored-response-1', ai_model_id: 'model-1' } as any);
+      mockAIResponseModel.addBrandMention.mockResolvedValue({ id: 'mention-1' } as any);
+      mockQuery.mockImplementation(async (sql: string, values: any[]) => {
+        if (sql.includes('INSERT INTO fact_check_findings')) {
+          return { rows: [
+            { id: 'finding-1', ai_response_id: values[0], finding_type: values[2], sentence: values[3], claimed_value: values[4], expected_value: values[5] },
+            { id: 'finding-2', ai_response_id: values[7], finding_type: values[9], sentence: values[10], claimed_value: values[11], expected_value: values[12] }
+          ] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      alertService = { raiseSystemAlert: jest.fn().mockResolvedValue({ id: 'alert-1' }) };
+      budgetService = { checkBudget: jest.fn().mockResolvedValue({ within_budget: true, budgets: [] }) };
+
+      jest.spyOn(AIModelManager.prototype, 'getAvailableModels').mockReturnValue(['GPT-4']);
+      jest.spyOn(AIModelManager.prototype, 'getModel').mockReturnValue({ config: { id: 'model-1', name: 'GPT-4' } } as any);
+      jest.spyOn(AIModelManager.prototype, 'executeBrandMonitoring').mockResolvedValue({
+        query: { id: 'query-1', query: 'What do you know about TechCorp?' },
+        responses: [{
+          id: 'response-1',
+          query_id: 'query-1',
+          model_name: 'GPT-4',
+          provider: 'openai',
+          response: answer,
+          usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+          cost: 0.001,
+          processing_time_ms: 500,
+          created_at: new Date()
+        }],
+        parsed_responses: []
+      } as any);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const monitor = () => new BrandMonitoringService(budgetService as any, alertService as any)
+      .monitorBrand('brand-1', ['visibility']);
+
+    it('should store each finding with its sentence and count them in the metrics', async () => {
+      const result = await monitor();
+
+      const insert = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO fact_check_findings'));
+      expect(insert[1]).toEqual([
+        'stored-response-1', 'brand-1', 'founded_year', 'TechCorp was founded in 2009.', '2009', '2012', 0.9,
+        'stored-response-1', 'brand-1', 'pricing', 'TechCorp Analytics costs $79 per month.', '$79', 'TechCorp Analytics: $99 per month', 0.6
+      ]);
+
+      expect(result.visibility_score.inaccuracy_count).toBe(2);
+      expect(result.fact_check_findings).toEqual([
+        expect.objectContaining({ id: 'finding-1', model_name: 'GPT-4' }),
+        expect.objectContaining({ id: 'finding-2', model_name: 'GPT-4' })
+      ]);
+
+      const metricsInsert = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO visibility_metrics'));
+      expect(metricsInsert[0]).toContain('inaccuracy_count');
+      expect(metricsInsert[1][12]).toBe(2);
+    });
+
+    it('should raise an inaccuracy alert', async () => {
+      await monitor();
+
+      expect(alertService.raiseSystemAlert).toHaveBeenCalledWith(expect.objectContaining({
+        brand_id: 'brand-1',
+        severity: 'high',
+        metric_type: 'inaccuracy_count',
+        current_value: 2,
+        threshold_value: 0,
+        ai_model_id: 'model-1'
+      }));
+      const [{ message }] = alertService.raiseSystemAlert.mock.calls[0]!;
+      expect(message).toContain('said "2009", fact sheet says "2012"');
+      expect(message).toContain('"TechCorp was founded in 2009."');
+    });
+
+    it('should not alert or count inaccuracies for a brand without a fact sheet', async () => {
+      jest.spyOn(BrandModel, 'findById').mockResolvedValue({ ...brand, fact_sheet: null });
+
+      const result = await monitor();
+
+      expect(alertService.raiseSystemAlert).not.toHaveBeenCalled();
+      expect(result.visibility_score.inaccuracy_count).toBeUndefined();
+      expect(result.fact_check_findings).toBeUndefined();
+    });
+  });
+
+  describe('GET /api/brands/:brandId/fact-checks', () => {
+    const app = express();
+    app.use((req, _res, next) => {
+      req.user = { userId: 'user-1', role: 'analyst' } as any;
+      next();
+    });
+    app.get('/api/brands/:brandId/fact-checks', BrandController.getFactCheckFindings);
+
+    it('should list findings and counts by type', async () => {
+      mockUserModel.hasAccessToBrand.mockResolvedValue(true);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 'finding-1', finding_type: 'pricing', model_name: 'GPT-4' }] })
+        .mockResolvedValueOnce({ rows: [{ finding_type: 'pricing', count: '3' }] });
+
+      const response = await request(app)
+        .get('/api/brands/brand-1/fact-checks?type=pricing&days=7')
+        .expect(200);
+
+      expect(response.body.counts).toEqual({ pricing: 3 });
+      expect(response.body.findings).toEqual([{ id: 'finding-1', finding_type: 'pricing', model_name: 'GPT-4' }]);
+      expect(mockQuery.mock.calls[0][0]).toContain('INTERVAL \'7 days\'');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['brand-1', 100, 'pricing']);
+    });
+
+    it('should reject an unknown finding type', async () => {
+      const response = await request(app)
+        .get('/api/brands/brand-1/fact-checks?type=typos')
+        .expect(400);
+
+      expect(response.body.message).toContain('Type must be one of');
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import request from 'supertest';
+import express from 'express';
+import { OpenAIModel } from '../services/ai/OpenAIModel';
+import { OpenAICompatibleModel } from '../services/ai/OpenAICompatibleModel';
+import { AnthropicModel } from '../services/ai/AnthropicModel';
+import { GeminiModel } from '../services/ai/GeminiModel';
+import { ReportsController } from '../controllers/reports';
+import { AIModelConfig, AIQuery } from '../types/ai';
+
+// Mock axios
+jest.mock('axios', () => ({
+  create: jest.fn(() => ({
+    post: jest.fn(),
+    get: jest.fn(),
+    interceptors: {
+      request: { use: jest.fn() },
+      response: { use: jest.fn() }
+    }
+  }))
+}));
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+const mockQuery = require('../config/database').query;
+
+const config = (overrides: Partial<AIModelConfig>): AIModelConfig => ({
+  id: 'model-1',
+  name: 'GPT-4o Search',
+  provider: 'openai',
+  model_version: 'gpt-4o-search-preview',
+  api_endpoint: 'https://api.openai.com/v1',
+  api_key: 'test-key',
+  rate_limit_per_minute: 500,
+  cost_per_request: 0.01,
+  grounded: true,
+  ...overrides
+});
+
+const testQuery: AIQuery = {
+  id: 'query-1',
+  brand_id: 'brand-1',
+  query: 'What are the best CRM tools?'
+};
+
+describe('Grounded mode', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('OpenAIModel', () => {
+    const completion = (annotations?: unknown[]) => ({
+      data: {
+        id: 'chatcmpl-1',
+        model: 'gpt-4o-search-preview',
+        created: 1710000000,
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'TechCorp leads the market, see https://techcorp.com/pricing.',
+            ...(annotations && { annotations })
+          },
+          finish_reason: 'stop'
+        }],
+        usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 }
+      }
+    });
+
+    it('should turn on web search and capture the cited pages as sources', async () => {
+      const model = new OpenAIModel(config({}));
+      const post = jest.fn().mockResolvedValue(completion([
+        { type: 'url_citation', url_citation: { url: 'https://www.g2.com/crm', title: 'Best CRM Software', start_index: 0, end_index: 10 } },
+        { type: 'url_citation', url_citation: { url: 'https://techcorp.com/pricing', title: 'TechCorp pricing', start_index: 11, end_index: 20 } },
+        { type: 'url_citation', url_citation: { url: 'https://www.g2.com/crm', title: 'Best CRM Software', start_index: 30, end_index: 40 } }
+      ]));
+      (model as any).axiosInstance = { post };
+
+      const response = await model.query(testQuery);
+
+      const body = post.mock.calls[0][1];
+      expect(body.web_search_options).toEqual({});
+      expect(body).not.toHaveProperty('temperature');
+      expect(response.grounded).toBe(true);
+      expect(response.sources?.map(source => [source.url, source.domain, source.source])).toEqual([
+        ['https://www.g2.com/crm', 'www.g2.com', 'search'],
+        ['https://techcorp.com/pricing', 'techcorp.com', 'search']
+      ]);
+
+      // A URL the answer repeats is kept once, as the search source
+      const parsed = await model.parseResponse(response);
+      expect(parsed.citations.map(citation => [citation.url, citation.source])).toEqual([
+        ['https://www.g2.com/crm', 'search'],
+        ['https://techcorp.com/pricing', 'search']
+      ]);
+    });
+
+    it('should leave ungrounded models as they were', async () => {
+      const model = new OpenAIModel(config({ model_version: 'gpt-4o', grounded: false }));
+      const post = jest.fn().mockResolvedValue(completion());
+      (model as any).axiosInstance = { post };
+
+      const response = await model.query(testQuery);
+      const parsed = await model.parseResponse(response);
+
+      expect(post.mock.calls[0][1]).not.toHaveProperty('web_search_options');
+      expect(post.mock.calls[0][1].temperature).toBe(0.7);
+      expect(response).not.toHaveProperty('grounded');
+      expect(parsed.citations.map(citation => citation.source)).toEqual(['text']);
+    });
+
+    it('should refuse grounded mode for providers without a search tool', () => {
+      expect(() => new OpenAICompatibleModel(config({ provider: 'ollama', api_endpoint: 'http://localhost:11434/v1' })))
+        .toThrow('Grounded mode is not supported for ollama models');
+    });
+  });
+
+  describe('GeminiModel', () => {
+    it('should search with Google and use the source titles as domains', async () => {
+      const model = new GeminiModel(config({
+        name: 'Gemini Grounded',
+        provider: 'gemini',
+        model_version: 'gemini-2.0-flash',
+        api_endpoint: 'https://generativelanguage.googleapis.com'
+      }));
+      const post = jest.fn().mockResolvedValue({
+        data: {
+          candidates: [{
+            content: { parts: [{ text: 'TechCorp and HubSpot are popular.' }], role: 'model' },
+            finishReason: 'STOP',
+            index: 0,
+            safetyRatings: [],
+            groundingMetadata: {
+              webSearchQueries: ['best crm tools'],
+              groundingChunks: [
+                { web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/abc', title: 'g2.com' } },
+                { web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/def', title: 'CRM buyer guide' } }
+              ]
+            }
+          }],
+          usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 20, totalTokenCount: 30 }
+        }
+      });
+      (model as any).axiosInstance = { post };
+
+      const response = await model.query(testQuery);
+
+      expect(post.mock.calls[0][1].tools).toEqual([{ google_search: {} }]);
+      expect(response.metadata?.web_search_queries).toEqual(['best crm tools']);
+      expect(response.sources?.map(source => source.domain)).toEqual(['g2.com', 'vertexaisearch.cloud.google.com']);
+      expect(response.sources?.[1]?.title).toBe('CRM buyer guide');
+    });
+  });
+
+  describe('AnthropicModel', () => {
+    it('should search the web and collect the passages it cites', async () => {
+      const model = new AnthropicModel(config({
+        name: 'Claude Grounded',
+        provider: 'anthropic',
+        model_version: 'claude-sonnet-4-5',
+        api_endpoint: 'https://api.anthropic.com/v1'
+      }));
+      const post = jest.fn().mockResolvedValue({
+        data: {
+          id: 'msg-1',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-sonnet-4-5',
+          stop_reason: 'end_turn',
+          content: [
+            { type: 'server_tool_use', id: 'tool-1', name: 'web_search', input: { query: 'best crm tools' } },
+            { type: 'web_search_tool_result', tool_use_id: 'tool-1', content: [] },
+            { type: 'text', text: 'Reviewers rate ' },
+            {
+              type: 'text',
+              text: 'TechCorp highly',
+              citations: [{ type: 'web_search_result_location', url: 'https://www.capterra.com/crm', title: 'Capterra CRM', cited_text: '...' }]
+            },
+            { type: 'text', text: '.' }
+          ],
+          usage: { input_tokens: 10, output_tokens: 20 }
+        }
+      });
+      (model as any).axiosInstance = { post };
+
+      const response = await model.query(testQuery);
+
+      expect(post.mock.calls[0][1].tools).toEqual([{ type: 'web_search_20250305', name: 'web_search', max_uses: 5 }]);
+      expect(response.response).toBe('Reviewers rate TechCorp highly.');
+      expect(response.sources).toEqual([expect.objectContaining({
+        url: 'https://www.capterra.com/crm',
+        title: 'Capterra CRM',
+        domain: 'www.capterra.com',
+        source: 'search'
+      })]);
+    });
+  });
+
+  describe('GET /api/reports/brands/:brandId/grounding', () => {
+    const app = express();
+    app.use((req, _res, next) => {
+      req.user = { userId: 'user-1', role: 'admin' } as any;
+      next();
+    });
+    app.get('/api/reports/brands/:brandId/grounding', ReportsController.getGroundingComparison);
+
+    it('should report grounded and ungrounded answers apart, overall and per model', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [
+        { grounded: false, ai_model_id: null, model_name: null, responses: '8', mentioned: '2', average_sentiment: '0.1', average_position: null, citations: '2', search_citations: '0' },
+        { grounded: false, ai_model_id: 'model-2', model_name: 'GPT-4o', responses: '8', mentioned: '2', average_sentiment: '0.1', average_position: null, citations: '2', search_citations: '0' },
+        { grounded: true, ai_model_id: null, model_name: null, responses: '4', mentioned: '3', average_sentiment: '0.4567', average_position: '2.5', citations: '10', search_citations: '9' },
+        { grounded: true, ai_model_id: 'model-1', model_name: 'GPT-4o Search', responses: '4', mentioned: '3', average_sentiment: '0.4567', average_position: '2.5', citations: '10', search_citations: '9' }
+      ] });
+
+      const response = await request(app)
+        .get('/api/reports/brands/brand-1/grounding?days=14')
+        .expect(200);
+
+      expect(response.body.grounded.totals).toEqual({
+        responses: 4,
+        mention_rate: 0.75,
+        average_sentiment: 0.46,
+        average_position: 2.5,
+        citations_per_response: 2.5,
+        search_citations: 9
+      });
+      expect(response.body.grounded.models).toEqual([
+        expect.objectContaining({ ai_model_id: 'model-1', model_name: 'GPT-4o Search', responses: 4 })
+      ]);
+      expect(response.body.ungrounded.totals).toMatchObject({ responses: 8, mention_rate: 0.25, average_position: null });
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('GROUPING SETS ((ar.grounded), (ar.grounded, am.id, am.name))');
+      expect(sql).toContain('INTERVAL \'14 days\'');
+      expect(values).toEqual(['brand-1']);
+    });
+  });
+});
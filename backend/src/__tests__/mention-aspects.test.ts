@@ -0,0 +1,215 @@
+import request from 'supertest';
+import express from 'express';
+import { reportsRouter } from '../routes/reports';
+import { AspectExtraction } from '../services/nlp/AspectExtraction';
+import { LexiconAnalyzer } from '../services/nlp/LexiconAnalyzer';
+import { ConversationMonitoringService } from '../services/ConversationMonitoringService';
+import { ConversationModel } from '../models/Conversation';
+import { BrandModel } from '../models/Brand';
+import { UserModel } from '../models/User';
+import { MentionAspectModel } from '../models/MentionAspect';
+import { Brand } from '../types/database';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../models/Conversation');
+jest.mock('../models/Brand');
+jest.mock('../models/User');
+
+// Mock authentication middleware
+jest.mock('../middleware/auth', () => ({
+  authenticate: jest.fn((req, _res, next) => {
+    req.user = { userId: 'user-1', role: 'brand_manager' };
+    next();
+  }),
+  authorize: jest.fn(() => (_req: any, _res: any, next: any) => next())
+}));
+
+const mockQuery = require('../config/database').query;
+const mockConversationModel = ConversationModel as jest.Mocked<typeof ConversationModel>;
+const mockBrandModel = BrandModel as jest.Mocked<typeof BrandModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/reports', reportsRouter);
+
+describe('Mention Aspects', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  describe('AspectExtraction', () => {
+    it('should give each aspect the clauses that discuss it', () => {
+      expect(AspectExtraction.findAspects('TechCorp is cheap but the uptime is poor, and support is slow.')).toEqual([
+        { aspect: 'pricing', evidence: 'TechCorp is cheap' },
+        { aspect: 'support', evidence: 'and support is slow.' },
+        { aspect: 'reliability', evidence: 'the uptime is poor' },
+        { aspect: 'performance', evidence: 'and support is slow.' }
+      ]);
+    });
+
+    it('should find no aspects in text that discusses none', () => {
+      expect(AspectExtraction.findAspects('TechCorp was founded in 2010.')).toEqual([]);
+    });
+  });
+
+  describe('LexiconAnalyzer', () => {
+    const analyzer = new LexiconAnalyzer();
+
+    it('should score each aspect on its own clauses', async () => {
+      const aspects = await analyzer.extractAspects('TechCorp is affordable, but it is unreliable.', 'TechCorp');
+
+      expect(aspects).toEqual([
+        expect.objectContaining({ aspect: 'pricing', evidence: 'TechCorp is affordable', sentiment_label: 'positive' }),
+        expect.objectContaining({ aspect: 'reliability', evidence: 'it is unreliable.', sentiment_label: 'negative' })
+      ]);
+    });
+
+    it('should attach aspects only to mentions that discuss them', async () => {
+      const analysis = await analyzer.analyze(
+        'TechCorp has excellent security. HubSpot is popular.',
+        { brand_name: 'TechCorp', competitors: ['HubSpot'] }
+      );
+
+      expect(analysis.brand_mentions[0]!.aspects).toEqual([
+        expect.objectContaining({ aspect: 'security', sentiment_label: 'positive' })
+      ]);
+      expect(analysis.brand_mentions[1]!.aspects).toBeUndefined();
+    });
+  });
+
+  describe('conversation mentions', () => {
+    const brand = {
+      id: 'brand-1',
+      name: 'TechCorp',
+      monitoring_keywords: []
+    } as unknown as Brand;
+
+    beforeEach(() => {
+      mockBrandModel.findById.mockResolvedValue(brand);
+      mockConversationModel.create.mockResolvedValue({ id: 'conv-1' } as any);
+      mockConversationModel.addTurn.mockResolvedValue({ id: 'turn-1' } as any);
+      mockConversationModel.addMention.mockResolvedValue({ id: 'conv-mention-1' } as any);
+      mockConversationModel.searchConversations.mockResolvedValue([]);
+    });
+
+    it('should store the aspects of each conversation mention', async () => {
+      const storeSpy = jest.spyOn(MentionAspectModel, 'addForConversationMention').mockResolvedValue([]);
+
+      await ConversationMonitoringService.startConversation(
+        'brand-1',
+        'model-1',
+        'Is TechCorp any good?',
+        'TechCorp is overpriced for small teams.'
+      );
+
+      expect(storeSpy).toHaveBeenCalledWith(
+        'conv-mention-1',
+        'brand-1',
+        [expect.objectContaining({ aspect: 'pricing', sentiment_label: 'negative' })],
+        'lexicon-1.0'
+      );
+      storeSpy.mockRestore();
+    });
+  });
+
+  describe('MentionAspectModel', () => {
+    it('should store all aspects of a mention in one insert', async () => {
+      await MentionAspectModel.addForBrandMention('mention-1', 'brand-1', [
+        { aspect: 'pricing', evidence: 'cheap', sentiment_score: 0.3, sentiment_label: 'positive', confidence: 0.65 },
+        { aspect: 'support', evidence: 'slow support', sentiment_score: -0.3, sentiment_label: 'negative', confidence: 0.65 }
+      ], 'lexicon-1.0');
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO mention_aspects');
+      expect(sql).toContain('brand_mention_id');
+      expect(values).toHaveLength(16);
+      expect(values.slice(8)).toEqual(['mention-1', 'brand-1', 'support', 'slow support', -0.3, 'negative', 0.65, 'lexicon-1.0']);
+    });
+
+    it('should not query when there are no aspects', async () => {
+      expect(await MentionAspectModel.addForConversationMention('mention-1', 'brand-1', [])).toEqual([]);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/reports/brands/:brandId/aspects', () => {
+    beforeEach(() => {
+      mockUserModel.hasAccessToBrand.mockResolvedValue(true);
+    });
+
+    it('should return aspect sentiment per period', async () => {
+      mockQuery.mockResolvedValue({
+        rows: [{
+          period_start: '2024-01-08T00:00:00.000Z',
+          aspect: 'pricing',
+          mentions: '4',
+          average_sentiment: '-0.3125',
+          positive: '1',
+          negative: '3'
+        }]
+      });
+
+      const response = await request(app)
+        .get('/api/reports/brands/brand-1/aspects?days=90&period=week&source=conversations')
+        .expect(200);
+
+      expect(response.body.period).toBe('week');
+      expect(response.body.source).toBe('conversations');
+      expect(response.body.trends).toEqual([{
+        period_start: '2024-01-08T00:00:00.000Z',
+        aspect: 'pricing',
+        mentions: 4,
+        average_sentiment: -0.31,
+        positive: 1,
+        negative: 3
+      }]);
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INTERVAL \'90 days\'');
+      expect(sql).toContain('ma.conversation_mention_id IS NOT NULL');
+      expect(values).toEqual(['brand-1', 'week']);
+    });
+
+    it('should reject an unknown period', async () => {
+      const response = await request(app)
+        .get('/api/reports/brands/brand-1/aspects?period=year')
+        .expect(400);
+
+      expect(response.body.message).toBe('Period must be day, week or month');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should deny users without access to the brand', async () => {
+      mockUserModel.hasAccessToBrand.mockResolvedValue(false);
+
+      await request(app)
+        .get('/api/reports/brands/brand-1/aspects')
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/reports/brands/:brandId/aspects/models', () => {
+    it('should return aspect sentiment per AI model', async () => {
+      mockUserModel.hasAccessToBrand.mockResolvedValue(true);
+      mockQuery.mockResolvedValue({
+        rows: [{ model_name: 'GPT-4', aspect: 'support', mentions: '2', average_sentiment: '0.5', positive: '2', negative: '0' }]
+      });
+
+      const response = await request(app)
+        .get('/api/reports/brands/brand-1/aspects/models')
+        .expect(200);
+
+      expect(response.body.period_days).toBe(30);
+      expect(response.body.models).toEqual([
+        { model_name: 'GPT-4', aspect: 'support', mentions: 2, average_sentiment: 0.5, positive: 2, negative: 0 }
+      ]);
+    });
+  });
+});
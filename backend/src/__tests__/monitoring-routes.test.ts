@@ -0,0 +1,198 @@
+import request from 'supertest';
+import express from 'express';
+import { monitoringRouter } from '../routes/monitoring';
+import { MonitoringController } from '../controllers/monitoring';
+import { MonitoringSchedulerService } from '../services/MonitoringSchedulerService';
+import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { BudgetService } from '../services/BudgetService';
+import { AlertManagementService } from '../services/AlertManagementService';
+import { BrandModel } from '../models/Brand';
+import { UserModel } from '../models/User';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../services/BrandMonitoringService');
+jest.mock('../services/MonitoringSchedulerService');
+jest.mock('../models/Brand');
+jest.mock('../models/User');
+
+// Mock authentication middleware
+jest.mock('../middleware/auth', () => ({
+  authenticate: jest.fn((req, _res, next) => {
+    req.user = { userId: 'test-user', role: 'brand_manager' };
+    next();
+  }),
+  authorizeBrandAccess: jest.fn(() => (_req: any, _res: any, next: any) => next()),
+  validateRequestBody: jest.fn(() => (_req: any, _res: any, next: any) => next())
+}));
+
+const mockBrandModel = BrandModel as jest.Mocked<typeof BrandModel>;
+const mockUserModel = UserModel as jest.Mocked<typeof UserModel>;
+
+describe('Monitoring Routes', () => {
+  let app: express.Application;
+  let schedulerService: jest.Mocked<MonitoringSchedulerService>;
+
+  const queuedRun = {
+    id: 'run-1',
+    brand_id: 'brand-1',
+    trigger_type: 'manual' as const,
+    status: 'queued' as const,
+    responses_count: 0,
+    total_cost: 0,
+    samples: 1,
+    requested_by: 'test-user',
+    queries_total: 0,
+    queries_completed: 0,
+    models_queried: [],
+    failures: [],
+    created_at: new Date('2024-01-15')
+  };
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/monitoring', monitoringRouter);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const brandMonitoringService = new BrandMonitoringService({} as BudgetService, {} as AlertManagementService);
+    schedulerService = new MonitoringSchedulerService(
+      brandMonitoringService,
+      {} as BudgetService
+    ) as jest.Mocked<MonitoringSchedulerService>;
+    MonitoringController.initialize(schedulerService, brandMonitoringService);
+  });
+
+  describe('POST /api/monitoring/brands/:brandId/runs', () => {
+    it('should queue a run and return its ID immediately', async () => {
+      mockBrandModel.findById.mockResolvedValue({ id: 'brand-1', name: 'TestBrand' } as any);
+      schedulerService.startRun.mockResolvedValue(queuedRun);
+
+      const response = await request(app)
+        .post('/api/monitoring/brands/brand-1/runs')
+        .send({ queryTypes: ['visibility'], modelNames: ['GPT-4'] });
+
+      expect(response.status).toBe(202);
+      expect(response.body.run_id).toBe('run-1');
+      expect(schedulerService.startRun).toHaveBeenCalledWith('brand-1', {
+        queryTypes: ['visibility'],
+        modelNames: ['GPT-4'],
+        requestedBy: 'test-user'
+      });
+    });
+
+    it('should return 404 for an unknown brand', async () => {
+      mockBrandModel.findById.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/monitoring/brands/missing/runs')
+        .send({});
+
+      expect(response.status).toBe(404);
+      expect(schedulerService.startRun).not.toHaveBeenCalled();
+    });
+
+    it('should reject a non-array queryTypes', async () => {
+      const response = await request(app)
+        .post('/api/monitoring/brands/brand-1/runs')
+        .send({ queryTypes: 'visibility' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should pass sampling options through to the run', async () => {
+      mockBrandModel.findById.mockResolvedValue({ id: 'brand-1', name: 'TestBrand' } as any);
+      schedulerService.startRun.mockResolvedValue({ ...queuedRun, samples: 5, sample_temperature: 0.7 });
+
+      const response = await request(app)
+        .post('/api/monitoring/brands/brand-1/runs')
+        .send({ samples: 5, temperature: 0.7 });
+
+      expect(response.status).toBe(202);
+      expect(schedulerService.startRun).toHaveBeenCalledWith('brand-1', {
+        samples: 5,
+        temperature: 0.7,
+        requestedBy: 'test-user'
+      });
+    });
+
+    it('should reject out-of-range sampling options', async () => {
+      for (const body of [{ samples: 0 }, { samples: 11 }, { samples: 2.5 }, { temperature: 3 }, { temperature: 'hot' }]) {
+        const response = await request(app)
+          .post('/api/monitoring/brands/brand-1/runs')
+          .send(body);
+
+        expect(response.status).toBe(400);
+      }
+      expect(schedulerService.startRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/monitoring/brands/:brandId/runs/:runId', () => {
+    it('should return run progress', async () => {
+      schedulerService.getRun.mockResolvedValue({
+        ...queuedRun,
+        status: 'running',
+        queries_total: 4,
+        queries_completed: 2,
+        models_queried: ['GPT-4', 'Claude'],
+        failures: [{ query_type: 'news', model_name: 'Gemini', error: 'No response from model' }]
+      });
+
+      const response = await request(app)
+        .get('/api/monitoring/brands/brand-1/runs/run-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body.run.queries_completed).toBe(2);
+      expect(response.body.run.models_queried).toEqual(['GPT-4', 'Claude']);
+      expect(response.body.run.failures).toHaveLength(1);
+    });
+
+    it('should not expose runs belonging to another brand', async () => {
+      schedulerService.getRun.mockResolvedValue({ ...queuedRun, brand_id: 'brand-2' });
+
+      const response = await request(app)
+        .get('/api/monitoring/brands/brand-1/runs/run-1');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/monitoring/batch', () => {
+    it('should reject brands the user cannot edit', async () => {
+      mockUserModel.hasAccessToBrand
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      const response = await request(app)
+        .post('/api/monitoring/batch')
+        .send({ brandIds: ['brand-1', 'brand-2'] });
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toContain('brand-2');
+      expect(schedulerService.startRun).not.toHaveBeenCalled();
+    });
+
+    it('should queue one run per brand', async () => {
+      mockUserModel.hasAccessToBrand.mockResolvedValue(true);
+      schedulerService.startRun
+        .mockResolvedValueOnce(queuedRun)
+        .mockResolvedValueOnce({ ...queuedRun, id: 'run-2', brand_id: 'brand-2' });
+
+      const response = await request(app)
+        .post('/api/monitoring/batch')
+        .send({ brandIds: ['brand-1', 'brand-2'] });
+
+      expect(response.status).toBe(202);
+      expect(response.body.runs).toEqual([
+        { run_id: 'run-1', brand_id: 'brand-1', status: 'queued' },
+        { run_id: 'run-2', brand_id: 'brand-2', status: 'queued' }
+      ]);
+    });
+  });
+});
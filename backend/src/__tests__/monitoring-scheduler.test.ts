@@ -0,0 +1,415 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { MonitoringSchedulerService } from '../services/MonitoringSchedulerService';
+import { MonitoringScheduleModel } from '../models/MonitoringSchedule';
+import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { BudgetService } from '../services/BudgetService';
+import { AlertManagementService } from '../services/AlertManagementService';
+import { createMonitoringScheduleSchema, validateSchema } from '../models/validation';
+import { MonitoringSchedule, MonitoringRun } from '../types/database';
+
+// Mock database queries
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+// Mock Bull Queue
+const mockQueue = {
+  add: jest.fn().mockResolvedValue({}),
+  process: jest.fn(),
+  on: jest.fn(),
+  getRepeatableJobs: jest.fn().mockResolvedValue([]),
+  removeRepeatable: jest.fn().mockResolvedValue(undefined),
+  removeRepeatableByKey: jest.fn().mockResolvedValue(undefined),
+  close: jest.fn().mockResolvedValue(undefined)
+};
+
+jest.mock('bull', () => {
+  return jest.fn().mockImplementation(() => mockQueue);
+});
+
+jest.mock('../models/MonitoringSchedule');
+jest.mock('../services/BudgetService');
+
+const mockScheduleModel = MonitoringScheduleModel as jest.Mocked<typeof MonitoringScheduleModel>;
+const mockGetBudgetStatus = BudgetService.prototype.getBudgetStatus as jest.Mock;
+
+describe('MonitoringSchedulerService', () => {
+  let service: MonitoringSchedulerService;
+  let monitorBrand: jest.Mock;
+
+  const mockSchedule: MonitoringSchedule = {
+    id: 'schedule-1',
+    brand_id: 'brand-1',
+    name: 'Daily visibility',
+    cron_expression: '0 6 * * *',
+    timezone: 'UTC',
+    query_types: ['visibility', 'sentiment'],
+    target_models: ['GPT-4'],
+    status: 'active',
+    is_active: true,
+    created_at: new Date('2024-01-15'),
+    updated_at: new Date('2024-01-15')
+  };
+
+  const mockRun: MonitoringRun = {
+    id: 'run-1',
+    schedule_id: 'schedule-1',
+    brand_id: 'brand-1',
+    trigger_type: 'manual',
+    status: 'queued',
+    query_types: ['visibility', 'sentiment'],
+    target_models: ['GPT-4'],
+    responses_count: 0,
+    total_cost: 0,
+    samples: 1,
+    queries_total: 0,
+    queries_completed: 0,
+    models_queried: [],
+    failures: [],
+    created_at: new Date('2024-01-15')
+  };
+
+  const createScheduler = (io?: SocketIOServer) => new MonitoringSchedulerService(
+    { monitorBrand } as unknown as BrandMonitoringService,
+    new BudgetService({} as AlertManagementService),
+    io
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    monitorBrand = jest.fn();
+    service = createScheduler();
+  });
+
+  afterEach(async () => {
+    await service.close();
+  });
+
+  describe('createSchedule', () => {
+    it('should store the schedule and register a repeatable job', async () => {
+      mockScheduleModel.create.mockResolvedValue(mockSchedule);
+
+      const result = await service.createSchedule({
+        brand_id: 'brand-1',
+        name: 'Daily visibility',
+        cron_expression: '0 6 * * *'
+      });
+
+      expect(result).toEqual(mockSchedule);
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'scheduled-run',
+        { scheduleId: 'schedule-1' },
+        { repeat: { cron: '0 6 * * *', tz: 'UTC' }, jobId: 'schedule-1' }
+      );
+    });
+
+    it('should remove the schedule again when the queue rejects it', async () => {
+      mockScheduleModel.create.mockResolvedValue({ ...mockSchedule, timezone: 'Mars/Olympus' });
+      mockQueue.add.mockRejectedValueOnce(new Error('Invalid timezone'));
+
+      await expect(service.createSchedule({
+        brand_id: 'brand-1',
+        name: 'Daily visibility',
+        cron_expression: '0 6 * * *',
+        timezone: 'Mars/Olympus'
+      })).rejects.toThrow('Invalid timezone');
+
+      expect(mockScheduleModel.delete).toHaveBeenCalledWith('schedule-1');
+    });
+
+    it('should only accept cron expressions the queue can parse', () => {
+      const schedule = { brand_id: '11111111-1111-4111-8111-111111111111', name: 'Hourly' };
+
+      for (const cron_expression of ['99 * * * *', 'a b c d e', '0 25 * * *']) {
+        expect(() => validateSchema(createMonitoringScheduleSchema, { ...schedule, cron_expression }))
+          .toThrow('"cron_expression" must be a valid cron expression');
+      }
+      for (const cron_expression of ['0 6 * * *', '*/15 * * * 1-5', '0 0 9 * * MON']) {
+        expect(() => validateSchema(createMonitoringScheduleSchema, { ...schedule, cron_expression })).not.toThrow();
+      }
+    });
+  });
+
+  describe('pauseSchedule / resumeSchedule', () => {
+    it('should remove the repeatable job when paused', async () => {
+      mockScheduleModel.findById.mockResolvedValue(mockSchedule);
+      mockScheduleModel.setStatus.mockResolvedValue({ ...mockSchedule, status: 'paused' });
+
+      const result = await service.pauseSchedule('schedule-1');
+
+      expect(result.status).toBe('paused');
+      expect(mockQueue.removeRepeatable).toHaveBeenCalledWith('scheduled-run', {
+        cron: '0 6 * * *',
+        tz: 'UTC',
+        jobId: 'schedule-1'
+      });
+      expect(mockScheduleModel.setStatus).toHaveBeenCalledWith('schedule-1', 'paused');
+    });
+
+    it('should re-register the repeatable job when resumed', async () => {
+      mockScheduleModel.findById.mockResolvedValue({ ...mockSchedule, status: 'paused' });
+      mockScheduleModel.setStatus.mockResolvedValue(mockSchedule);
+
+      await service.resumeSchedule('schedule-1');
+
+      expect(mockScheduleModel.setStatus).toHaveBeenCalledWith('schedule-1', 'active');
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'scheduled-run',
+        { scheduleId: 'schedule-1' },
+        expect.objectContaining({ jobId: 'schedule-1' })
+      );
+    });
+
+    it('should throw when the schedule does not exist', async () => {
+      mockScheduleModel.findById.mockResolvedValue(null);
+
+      await expect(service.pauseSchedule('missing'))
+        .rejects.toThrow('Monitoring schedule missing not found');
+    });
+  });
+
+  describe('triggerSchedule', () => {
+    it('should record a manual run and queue it for execution', async () => {
+      mockScheduleModel.findById.mockResolvedValue(mockSchedule);
+      mockScheduleModel.createRun.mockResolvedValue(mockRun);
+
+      const run = await service.triggerSchedule('schedule-1');
+
+      expect(run.id).toBe('run-1');
+      expect(mockScheduleModel.createRun).toHaveBeenCalledWith({
+        schedule_id: 'schedule-1',
+        brand_id: 'brand-1',
+        trigger_type: 'manual',
+        query_types: ['visibility', 'sentiment'],
+        target_models: ['GPT-4']
+      });
+      expect(mockQueue.add).toHaveBeenCalledWith('execute-run', { runId: 'run-1' });
+    });
+  });
+
+  describe('executeRun', () => {
+    beforeEach(() => {
+      mockScheduleModel.findRunById.mockResolvedValue(mockRun);
+      mockScheduleModel.markRunStarted.mockResolvedValue({ ...mockRun, status: 'running' });
+      mockScheduleModel.markRunFinished.mockImplementation(async (runId, outcome) => ({
+        ...mockRun,
+        id: runId,
+        status: outcome.status,
+        responses_count: outcome.responses_count || 0,
+        total_cost: outcome.total_cost || 0
+      }));
+    });
+
+    it('should record cost and response count for a completed run', async () => {
+      monitorBrand.mockResolvedValue({
+        brand_id: 'brand-1',
+        ai_responses: [{ cost: '0.002500' }, { cost: '0.001500' }],
+        citations: [],
+        mentions: [],
+        errors: [],
+        timestamp: new Date()
+      });
+
+      const run = await service.executeRun('run-1');
+
+      expect(monitorBrand).toHaveBeenCalledWith(
+        'brand-1',
+        ['visibility', 'sentiment'],
+        expect.objectContaining({ modelNames: ['GPT-4'] })
+      );
+      expect(mockScheduleModel.markRunStarted).toHaveBeenCalledWith('run-1');
+      expect(mockScheduleModel.markRunFinished).toHaveBeenCalledWith('run-1', {
+        status: 'completed',
+        responses_count: 2,
+        total_cost: 0.004
+      });
+      expect(run.status).toBe('completed');
+    });
+
+    it('should mark the run failed when every query failed', async () => {
+      monitorBrand.mockResolvedValue({
+        brand_id: 'brand-1',
+        ai_responses: [],
+        citations: [],
+        mentions: [],
+        errors: ['visibility: Rate limit exceeded'],
+        timestamp: new Date()
+      });
+
+      await service.executeRun('run-1');
+
+      expect(mockScheduleModel.markRunFinished).toHaveBeenCalledWith('run-1', {
+        status: 'failed',
+        responses_count: 0,
+        total_cost: 0,
+        error_message: 'visibility: Rate limit exceeded'
+      });
+    });
+
+    it('should sample as the run requests and keep the statistics', async () => {
+      const sampleStatistics = {
+        samples_per_query: 3,
+        temperature: 0.9,
+        brands: [{
+          brand_name: 'TechCorp',
+          samples: 6,
+          mention_rate: 0.8333,
+          sentiment_spread: 0.1,
+          position_variance: 0.25,
+          stability_score: 72.5
+        }]
+      };
+      // DECIMAL columns arrive as strings
+      mockScheduleModel.findRunById.mockResolvedValue({ ...mockRun, samples: 3, sample_temperature: '0.90' as any });
+      monitorBrand.mockResolvedValue({
+        brand_id: 'brand-1',
+        ai_responses: [{ cost: '0.001000' }],
+        citations: [],
+        mentions: [],
+        errors: [],
+        sample_statistics: sampleStatistics,
+        timestamp: new Date()
+      });
+
+      await service.executeRun('run-1');
+
+      expect(monitorBrand).toHaveBeenCalledWith(
+        'brand-1',
+        ['visibility', 'sentiment'],
+        expect.objectContaining({ samples: 3, temperature: 0.9 })
+      );
+      expect(mockScheduleModel.markRunFinished).toHaveBeenCalledWith('run-1', {
+        status: 'completed',
+        responses_count: 1,
+        total_cost: 0.001,
+        sample_statistics: sampleStatistics
+      });
+    });
+
+    it('should record the error when monitoring throws', async () => {
+      monitorBrand.mockRejectedValue(new Error('Brand with ID brand-1 not found'));
+
+      await service.executeRun('run-1');
+
+      expect(mockScheduleModel.markRunFinished).toHaveBeenCalledWith('run-1', {
+        status: 'failed',
+        error_message: 'Brand with ID brand-1 not found'
+      });
+    });
+  });
+
+  describe('run progress', () => {
+    it('should persist progress and push it to the requesting user', async () => {
+      const emit = jest.fn();
+      const io = { to: jest.fn().mockReturnValue({ emit }) };
+      const socketService = createScheduler(io as any);
+      const requestedRun = { ...mockRun, requested_by: 'user-42' };
+      const progress = {
+        queries_total: 2,
+        queries_completed: 1,
+        models_queried: ['GPT-4'],
+        failures: []
+      };
+
+      mockScheduleModel.findRunById.mockResolvedValue(requestedRun);
+      mockScheduleModel.markRunStarted.mockResolvedValue({ ...requestedRun, status: 'running' });
+      mockScheduleModel.updateRunProgress.mockResolvedValue({
+        ...requestedRun,
+        ...progress,
+        status: 'running'
+      });
+      mockScheduleModel.markRunFinished.mockResolvedValue({ ...requestedRun, status: 'completed' });
+      monitorBrand.mockImplementation(async (_brandId, _queryTypes, options) => {
+        await options.onProgress(progress);
+        return { brand_id: 'brand-1', ai_responses: [], citations: [], mentions: [], errors: [] };
+      });
+
+      await socketService.executeRun('run-1');
+
+      expect(mockScheduleModel.updateRunProgress).toHaveBeenCalledWith('run-1', progress);
+      expect(io.to).toHaveBeenCalledWith('user-user-42');
+      expect(emit).toHaveBeenCalledWith('monitoring:progress', expect.objectContaining({
+        run_id: 'run-1',
+        status: 'running',
+        queries_completed: 1,
+        models_queried: ['GPT-4']
+      }));
+      expect(emit).toHaveBeenLastCalledWith('monitoring:progress', expect.objectContaining({
+        status: 'completed'
+      }));
+
+      await socketService.close();
+    });
+  });
+
+  describe('syncSchedules', () => {
+    it('should replace stale repeatable jobs with runnable schedules', async () => {
+      mockQueue.getRepeatableJobs.mockResolvedValue([
+        { key: 'scheduled-run:old::0 5 * * *', name: 'scheduled-run' },
+        { key: 'other-job::1000', name: 'other-job' }
+      ]);
+      mockScheduleModel.getRunnable.mockResolvedValue([mockSchedule]);
+
+      const count = await service.syncSchedules();
+
+      expect(count).toBe(1);
+      expect(mockQueue.removeRepeatableByKey).toHaveBeenCalledTimes(1);
+      expect(mockQueue.removeRepeatableByKey).toHaveBeenCalledWith('scheduled-run:old::0 5 * * *');
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'scheduled-run',
+        { scheduleId: 'schedule-1' },
+        expect.objectContaining({ jobId: 'schedule-1' })
+      );
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'budget-review',
+        {},
+        { repeat: { cron: '5 0 1 * *', tz: 'UTC' }, jobId: 'budget-review' }
+      );
+    });
+  });
+
+  describe('budget-paused schedules', () => {
+    const budgetPaused: MonitoringSchedule = {
+      ...mockSchedule,
+      status: 'paused',
+      paused_reason: 'budget_exceeded'
+    };
+
+    it('should resume schedules whose brand is back within budget', async () => {
+      mockScheduleModel.getBudgetPaused.mockResolvedValue([
+        budgetPaused,
+        { ...budgetPaused, id: 'schedule-2' },
+        { ...budgetPaused, id: 'schedule-3', brand_id: 'brand-2' }
+      ]);
+      mockGetBudgetStatus.mockImplementation(async (brandId: string) => ({
+        within_budget: brandId === 'brand-1',
+        budgets: []
+      }));
+      mockScheduleModel.findById.mockResolvedValue(budgetPaused);
+      mockScheduleModel.setStatus.mockResolvedValue(mockSchedule);
+
+      const resumed = await service.resumeBudgetPausedSchedules();
+
+      expect(resumed).toHaveLength(2);
+      expect(mockGetBudgetStatus).toHaveBeenCalledTimes(2);
+      expect(mockScheduleModel.setStatus).toHaveBeenCalledWith('schedule-1', 'active');
+      expect(mockScheduleModel.setStatus).toHaveBeenCalledWith('schedule-2', 'active');
+      expect(mockScheduleModel.setStatus).not.toHaveBeenCalledWith('schedule-3', 'active');
+    });
+
+    it('should drop the repeatable job when a tick finds the schedule paused', async () => {
+      mockScheduleModel.findById.mockResolvedValue(budgetPaused);
+
+      const tickProcessor = mockQueue.process.mock.calls.find(call => call[0] === 'scheduled-run')![1];
+      await tickProcessor({ data: { scheduleId: 'schedule-1' } });
+
+      expect(mockScheduleModel.createRun).not.toHaveBeenCalled();
+      expect(mockQueue.removeRepeatable).toHaveBeenCalledWith('scheduled-run', {
+        cron: '0 6 * * *',
+        tz: 'UTC',
+        jobId: 'schedule-1'
+      });
+    });
+  });
+});
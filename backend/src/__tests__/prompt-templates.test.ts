@@ -0,0 +1,248 @@
+import request from 'supertest';
+import express from 'express';
+import { promptsRouter } from '../routes/prompts';
+import { PromptTemplateModel } from '../models/PromptTemplate';
+import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { BudgetService } from '../services/BudgetService';
+import { AlertManagementService } from '../services/AlertManagementService';
+import { BrandModel } from '../models/Brand';
+import { AIResponseModel } from '../models/AIResponse';
+import { AIModelManager } from '../services/ai/AIModelManager';
+import { PromptTemplate } from '../types/database';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../models/Brand');
+jest.mock('../models/AIResponse');
+jest.mock('../services/AlertManagementService');
+
+// Mock authentication middleware
+jest.mock('../middleware/auth', () => ({
+  authenticate: jest.fn((req, _res, next) => {
+    req.user = { userId: '0b7e3f52-1c2a-4e8b-9d3f-5a6c7e8f9a01', role: 'brand_manager' };
+    next();
+  }),
+  authorize: jest.fn(() => (_req: any, res: any) => res.status(403).json({ error: 'Insufficient permissions' })),
+  authorizeBrandAccess: jest.fn(() => (_req: any, _res: any, next: any) => next()),
+  validateRequestBody: jest.fn(() => (_req: any, _res: any, next: any) => next())
+}));
+
+const mockQuery = require('../config/database').query;
+const mockBrandModel = BrandModel as jest.Mocked<typeof BrandModel>;
+const mockAIResponseModel = AIResponseModel as jest.Mocked<typeof AIResponseModel>;
+
+function createMonitoringService(): BrandMonitoringService {
+  const alertService = new AlertManagementService();
+  return new BrandMonitoringService(new BudgetService(alertService), alertService);
+}
+
+describe('Prompt Template Library', () => {
+  const overrideTemplate: PromptTemplate = {
+    id: 'template-2',
+    name: 'pricing',
+    brand_id: 'brand-1',
+    is_active: true,
+    created_at: new Date('2024-01-15'),
+    updated_at: new Date('2024-01-15'),
+    current_version: {
+      id: 'version-3',
+      template_id: 'template-2',
+      version: 3,
+      body: 'How does {brand_name} price plans for {audience}?',
+      variables: { audience: 'small businesses' },
+      created_at: new Date('2024-01-15')
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('PromptTemplateModel', () => {
+    it('should reject placeholders that have no value', async () => {
+      await expect(PromptTemplateModel.create({
+        name: 'pricing',
+        body: 'How does {brand_name} price plans for {audience} in {region}?',
+        variables: { audience: 'small businesses' }
+      })).rejects.toThrow('Validation error: No value for template variables region');
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should create the template and its first version together', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [overrideTemplate] });
+
+      const template = await PromptTemplateModel.create({
+        name: 'pricing',
+        brand_id: '4f9c2c4e-8d0b-4c55-9a4e-6c1b2f9d7e10',
+        body: 'How does {brand_name} price plans for {audience}?',
+        variables: { audience: 'small businesses' }
+      });
+
+      expect(template.current_version?.version).toBe(3);
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('INSERT INTO prompt_template_versions');
+      expect(params).toEqual([
+        'pricing',
+        '4f9c2c4e-8d0b-4c55-9a4e-6c1b2f9d7e10',
+        null,
+        null,
+        'How does {brand_name} price plans for {audience}?',
+        JSON.stringify({ audience: 'small businesses' })
+      ]);
+    });
+
+    it('should refuse a second template with the same name in the same scope', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'template-1' }] });
+
+      await expect(PromptTemplateModel.create({ name: 'visibility', body: 'Tell me about {brand_name}.' }))
+        .rejects.toThrow('already exists');
+    });
+
+    it('should publish the next version number', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'version-4', version: 4 }] });
+
+      const version = await PromptTemplateModel.createVersion('template-2', {
+        body: 'What do {brand_name} plans cost?',
+        change_note: 'Shorter wording'
+      });
+
+      expect(version.version).toBe(4);
+      expect(mockQuery.mock.calls[0][0]).toContain('COALESCE(MAX(v.version), 0) + 1');
+    });
+  });
+
+  describe('routes', () => {
+    let app: express.Application;
+
+    beforeAll(() => {
+      app = express();
+      app.use(express.json());
+      app.use('/api/prompts', promptsRouter);
+    });
+
+    it('should list the library and brand overrides for a brand', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [overrideTemplate] });
+
+      const response = await request(app).get('/api/prompts/brands/brand-1');
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('t.brand_id IS NULL OR t.brand_id = $1'), ['brand-1']);
+    });
+
+    it('should only let admins edit the shared library', async () => {
+      const response = await request(app)
+        .post('/api/prompts/library')
+        .send({ name: 'pricing', body: 'How does {brand_name} price plans?' });
+
+      expect(response.status).toBe(403);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should not expose templates belonging to another brand', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [overrideTemplate] });
+
+      const response = await request(app).get('/api/prompts/brands/brand-2/template-2/versions');
+
+      expect(response.status).toBe(404);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report missing variables as a validation error', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [overrideTemplate] });
+
+      const response = await request(app)
+        .post('/api/prompts/brands/brand-1/template-2/versions')
+        .send({ body: 'How does {brand_name} price plans in {region}?' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('region');
+    });
+  });
+
+  describe('brand monitoring', () => {
+    let executeBrandMonitoring: jest.SpyInstance;
+
+    beforeEach(() => {
+      mockBrandModel.findById.mockResolvedValue({
+        id: 'brand-1',
+        name: 'TechCorp',
+        domain: 'techcorp.com',
+        industry: 'Technology',
+        competitor_brands: [],
+        monitoring_keywords: ['cloud'],
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date()
+      });
+      mockAIResponseModel.create.mockResolvedValue({ id: 'stored-response-1' } as any);
+      executeBrandMonitoring = jest.spyOn(AIModelManager.prototype, 'executeBrandMonitoring')
+        .mockImplementation(async (brandQuery) => {
+          const aiQuery = AIModelManager.prototype.generateBrandQuery(brandQuery);
+          return {
+            query: aiQuery,
+            responses: [{
+              id: 'response-1',
+              query_id: aiQuery.id,
+              model_name: 'GPT-4',
+              provider: 'openai',
+              response: 'TechCorp offers three plans.',
+              usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+              cost: 0.001,
+              processing_time_ms: 500,
+              metadata: { ...aiQuery.metadata },
+              created_at: new Date()
+            }],
+            parsed_responses: []
+          };
+        });
+      jest.spyOn(AIModelManager.prototype, 'getAvailableModels').mockReturnValue(['GPT-4']);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should use the brand override and record its version on each response', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('DISTINCT ON (t.name)')) {
+          return {
+            rows: [{
+              name: 'pricing',
+              template_id: 'template-2',
+              brand_id: 'brand-1',
+              version_id: 'version-3',
+              version: 3,
+              body: 'How does {brand_name} ({domain}) price {keywords} plans for {audience}?',
+              variables: { audience: 'small businesses' }
+            }]
+          };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      const service = createMonitoringService();
+      await service.monitorBrand('brand-1', ['pricing', 'visibility']);
+
+      expect(executeBrandMonitoring).toHaveBeenCalledTimes(2);
+      const aiQuery = executeBrandMonitoring.mock.results[0]!.value;
+      await expect(aiQuery).resolves.toMatchObject({
+        query: {
+          query: 'How does TechCorp (techcorp.com) price cloud plans for small businesses?',
+          metadata: { prompt_template_version_id: 'version-3', prompt_template_version: 3 }
+        }
+      });
+      expect(mockAIResponseModel.create).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        prompt_template_version_id: 'version-3'
+      }));
+      // No library template stored for visibility: the built-in one is used untracked
+      expect(mockAIResponseModel.create.mock.calls[1]![0]).not.toHaveProperty('prompt_template_version_id');
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import request from 'supertest';
+import express from 'express';
+import { recommendationsRouter } from '../routes/recommendations';
+import { RecommendationAnalysis } from '../services/RecommendationAnalysis';
+import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { BudgetService } from '../services/BudgetService';
+import { AlertManagementService } from '../services/AlertManagementService';
+import { BrandModel } from '../models/Brand';
+import { AIResponseModel } from '../models/AIResponse';
+import { AIModelManager } from '../services/ai/AIModelManager';
+import { Brand } from '../types/database';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../models/Brand');
+jest.mock('../models/AIResponse');
+jest.mock('../services/AlertManagementService');
+
+// Mock authentication middleware
+jest.mock('../middleware/auth', () => ({
+  authenticate: jest.fn((req, _res, next) => {
+    req.user = { userId: '0b7e3f52-1c2a-4e8b-9d3f-5a6c7e8f9a01', role: 'brand_manager' };
+    next();
+  }),
+  authorize: jest.fn(() => (_req: any, res: any) => res.status(403).json({ error: 'Insufficient permissions' })),
+  authorizeBrandAccess: jest.fn(() => (_req: any, _res: any, next: any) => next()),
+  validateRequestBody: jest.fn(() => (_req: any, _res: any, next: any) => next())
+}));
+
+const mockQuery = require('../config/database').query;
+const mockBrandModel = BrandModel as jest.Mocked<typeof BrandModel>;
+const mockAIResponseModel = AIResponseModel as jest.Mocked<typeof AIResponseModel>;
+
+function createMonitoringService(): BrandMonitoringService {
+  const alertService = new AlertManagementService();
+  return new BrandMonitoringService(new BudgetService(alertService), alertService);
+}
+
+describe('Buyer-Intent Recommendations', () => {
+  const crmAnswer = [
+    'Here are the best CRMs for small businesses:',
+    '',
+    '1. **HubSpot CRM** - generous free tier',
+    '2. **Zoho CRM**: affordable and flexible',
+    '3. **TechCorp** - strong automation',
+    '4. Pipedrive – built for sales teams',
+    '',
+    'HubSpot is the safest default choice.'
+  ].join('\n');
+
+  const brand: Brand = {
+    id: 'brand-1',
+    name: 'TechCorp',
+    industry: 'Software',
+    competitor_brands: ['Pipedrive', 'HubSpot', 'Salesforce'],
+    monitoring_keywords: [],
+    is_active: true,
+    created_at: new Date('2024-01-15'),
+    updated_at: new Date('2024-01-15')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('RecommendationAnalysis', () => {
+    it('should find the brand position and the competitors recommended', () => {
+      const analysis = RecommendationAnalysis.analyze(crmAnswer, 'TechCorp', brand.competitor_brands);
+
+      expect(analysis).toEqual({
+        brand_mentioned: true,
+        brand_position: 3,
+        competitors_mentioned: ['HubSpot', 'Pipedrive'],
+        listed_brands: ['HubSpot CRM', 'Zoho CRM', 'TechCorp', 'Pipedrive']
+      });
+    });
+
+    it('should report a mention outside any list without a position', () => {
+      const analysis = RecommendationAnalysis.analyze(
+        'Most teams pick Salesforce, though TechCorp is gaining ground.',
+        'TechCorp',
+        brand.competitor_brands
+      );
+
+      expect(analysis.brand_mentioned).toBe(true);
+      expect(analysis).not.toHaveProperty('brand_position');
+      expect(analysis.competitors_mentioned).toEqual(['Salesforce']);
+    });
+
+    it('should only match whole names', () => {
+      const analysis = RecommendationAnalysis.analyze('1. TechCorporation Suite', 'TechCorp', []);
+
+      expect(analysis.brand_mentioned).toBe(false);
+    });
+
+    it('should summarize share of recommendation across answers', () => {
+      const summary = RecommendationAnalysis.summarize([
+        { brand_mentioned: true, brand_position: 3, competitors_mentioned: ['HubSpot'] },
+        { brand_mentioned: true, brand_position: 1, competitors_mentioned: ['HubSpot', 'Pipedrive'] },
+        { brand_mentioned: false, competitors_mentioned: ['HubSpot'] }
+      ]);
+
+      expect(summary).toEqual({
+        answers: 3,
+        share_of_recommendation: 66.67,
+        average_position: 2,
+        competitor_mentions: { HubSpot: 3, Pipedrive: 1 }
+      });
+    });
+  });
+
+  describe('brand monitoring', () => {
+    let executeBrandMonitoring: jest.SpyInstance;
+
+    beforeEach(() => {
+      mockBrandModel.findById.mockResolvedValue(brand);
+      mockAIResponseModel.create.mockResolvedValue({ id: 'stored-response-1' } as any);
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM recommendation_prompts')) {
+          return {
+            rows: [{ id: 'prompt-1', industry: 'Software', prompt: 'What is the best CRM for small businesses?', is_active: true }]
+          };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+      executeBrandMonitoring = jest.spyOn(AIModelManager.prototype, 'executeBrandMonitoring')
+        .mockImplementation(async (brandQuery) => ({
+          query: { id: 'query-1', brand_id: 'brand-1', query: brandQuery.query_template },
+          responses: [{
+            id: 'response-1',
+            query_id: 'query-1',
+            model_name: 'GPT-4',
+            provider: 'openai',
+            response: crmAnswer,
+            usage: { prompt_tokens: 10, completion_tokens: 80, total_tokens: 90 },
+            cost: 0.002,
+            processing_time_ms: 800,
+            created_at: new Date()
+          }],
+          parsed_responses: []
+        }));
+      jest.spyOn(AIModelManager.prototype, 'getAvailableModels').mockReturnValue(['GPT-4']);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should ask the industry prompts without naming the brand', async () => {
+      await createMonitoringService().monitorBrand('brand-1', ['recommendation']);
+
+      expect(executeBrandMonitoring).toHaveBeenCalledTimes(1);
+      const [brandQuery] = executeBrandMonitoring.mock.calls[0]!;
+      expect(brandQuery).toEqual({
+        brand_name: 'TechCorp',
+        query_type: 'recommendation',
+        query_template: 'What is the best CRM for small businesses?',
+        recommendation_prompt_id: 'prompt-1'
+      });
+    });
+
+    it('should record each answer and store the share of recommendation', async () => {
+      const result = await createMonitoringService().monitorBrand('brand-1', ['recommendation']);
+
+      const recorded = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO recommendation_results'));
+      expect(recorded[1]).toEqual([
+        'brand-1', 'prompt-1', 'stored-response-1', 'GPT-4', true, 3,
+        ['HubSpot', 'Pipedrive'],
+        ['HubSpot CRM', 'Zoho CRM', 'TechCorp', 'Pipedrive']
+      ]);
+      expect(result.recommendations).toMatchObject({ answers: 1, share_of_recommendation: 100, average_position: 3 });
+      expect(result.visibility_score.share_of_recommendation).toBe(100);
+
+      const insert = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO visibility_metrics'));
+      expect(insert[1][11]).toBe(100);
+    });
+  });
+
+  describe('routes', () => {
+    let app: express.Application;
+
+    beforeAll(() => {
+      app = express();
+      app.use(express.json());
+      app.use('/api/recommendations', recommendationsRouter);
+    });
+
+    it('should return the brand prompts and recent share of recommendation', async () => {
+      mockBrandModel.findById.mockResolvedValue(brand);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 'prompt-1', industry: 'Software', prompt: 'Best CRM?' }] })
+        .mockResolvedValueOnce({ rows: [{ answers: '8', mentioned: '6', average_position: '2.5000' }] })
+        .mockResolvedValueOnce({ rows: [{ competitor: 'HubSpot', answers: '7' }] });
+
+      const response = await request(app).get('/api/recommendations/brands/brand-1?days=7');
+
+      expect(response.status).toBe(200);
+      expect(response.body.summary).toEqual({
+        answers: 8,
+        share_of_recommendation: 75,
+        average_position: 2.5,
+        competitor_mentions: { HubSpot: 7 }
+      });
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("INTERVAL '7 days'"), ['brand-1']);
+    });
+
+    it('should only let admins manage industry prompts', async () => {
+      const response = await request(app)
+        .post('/api/recommendations/prompts')
+        .send({ industry: 'Software', prompt: 'Best CRM?' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should add brand prompts to the brand only', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 'prompt-2', brand_id: '4f9c2c4e-8d0b-4c55-9a4e-6c1b2f9d7e10' }] });
+
+      const response = await request(app)
+        .post('/api/recommendations/brands/4f9c2c4e-8d0b-4c55-9a4e-6c1b2f9d7e10/prompts')
+        .send({ prompt: 'Which CRM integrates best with Slack?', industry: 'Software' });
+
+      expect(response.status).toBe(201);
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        null,
+        '4f9c2c4e-8d0b-4c55-9a4e-6c1b2f9d7e10',
+        'Which CRM integrates best with Slack?',
+        null,
+        '0b7e3f52-1c2a-4e8b-9d3f-5a6c7e8f9a01'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import axios from 'axios';
+import { LexiconAnalyzer } from '../services/nlp/LexiconAnalyzer';
+import { LLMJudgeAnalyzer } from '../services/nlp/LLMJudgeAnalyzer';
+import { LocalModelAnalyzer } from '../services/nlp/LocalModelAnalyzer';
+import { AnalysisPipeline, createAnalysisPipeline } from '../services/nlp/AnalysisPipeline';
+import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { BudgetService } from '../services/BudgetService';
+import { AlertManagementService } from '../services/AlertManagementService';
+import { BrandModel } from '../models/Brand';
+import { AIResponseModel } from '../models/AIResponse';
+import { PromptTemplateModel } from '../models/PromptTemplate';
+import { AIModelManager } from '../services/ai/AIModelManager';
+import { IAIModel } from '../types/ai';
+import { Brand } from '../types/database';
+
+jest.mock('axios');
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../models/Brand');
+jest.mock('../models/AIResponse');
+jest.mock('../models/PromptTemplate');
+jest.mock('../services/AlertManagementService');
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+const mockQuery = require('../config/database').query;
+const mockBrandModel = BrandModel as jest.Mocked<typeof BrandModel>;
+const mockAIResponseModel = AIResponseModel as jest.Mocked<typeof AIResponseModel>;
+const mockPromptTemplateModel = PromptTemplateModel as jest.Mocked<typeof PromptTemplateModel>;
+
+const judgeModel = (reply: string): IAIModel => ({
+  config: { name: 'Claude 3 Haiku' } as any,
+  query: jest.fn().mockResolvedValue({ response: reply }),
+  parseResponse: jest.fn(),
+  validateQuery: jest.fn(),
+  estimateCost: jest.fn(),
+  checkRateLimit: jest.fn(),
+  healthCheck: jest.fn()
+});
+
+function createMonitoringService(): BrandMonitoringService {
+  const alertService = new AlertManagementService();
+  return new BrandMonitoringService(new BudgetService(alertService), alertService);
+}
+
+describe('Response Analysis', () => {
+  const answer = 'TechCorp is not reliable. HubSpot is a great choice, according to Gartner.';
+  const targets = { brand_name: 'TechCorp', competitors: ['HubSpot'] };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('LexiconAnalyzer', () => {
+    const analyzer = new LexiconAnalyzer();
+
+    it('should flip sentiment words under negation', () => {
+      expect(analyzer.scoreText('The platform is not reliable').label).toBe('negative');
+      expect(analyzer.scoreText('Honestly, the support isn\'t bad').label).toBe('positive');
+    });
+
+    it('should stop negation at punctuation', () => {
+      expect(analyzer.scoreText('No doubt, the product is excellent').label).toBe('positive');
+    });
+
+    it('should weigh the clause after "but" more heavily', () => {
+      expect(analyzer.scoreText('The interface is good but the support is terrible').label).toBe('negative');
+    });
+
+    it('should strengthen intensified words', () => {
+      expect(analyzer.scoreText('very good').score).toBeGreaterThan(analyzer.scoreText('good').score);
+    });
+
+    it('should score each mention from its own sentence', async () => {
+      const analysis = await analyzer.analyze(answer, targets);
+
+      expect(analysis.brand_mentions).toEqual([
+        expect.objectContaining({ brand_name: 'TechCorp', position_in_response: 0, sentiment_label: 'negative' }),
+        expect.objectContaining({ brand_name: 'HubSpot', position_in_response: 1, sentiment_label: 'positive' })
+      ]);
+      expect(analysis.brand_mentions.every(mention => mention.analyzer_version === 'lexicon-1.0')).toBe(true);
+      expect(analysis.entities).toEqual([
+        { name: 'TechCorp', type: 'BRAND', confidence: 0.95 },
+        { name: 'HubSpot', type: 'BRAND', confidence: 0.95 }
+      ]);
+    });
+  });
+
+  describe('LLMJudgeAnalyzer', () => {
+    it('should score every passage in one request to the judge model', async () => {
+      const model = judgeModel('```json\n{"scores": [{"id": 1, "score": -0.6, "confidence": 0.9}, {"id": 2, "score": 0.8, "confidence": 0.85}, {"id": 3, "score": -0.7, "confidence": 0.9}, {"id": 4, "score": 0.1, "confidence": 0.7}]}\n```');
+
+      const analysis = await new LLMJudgeAnalyzer(model).analyze(answer, targets);
+
+      expect(model.query).toHaveBeenCalledTimes(1);
+      const [request] = (model.query as jest.Mock).mock.calls[0];
+      expect(request.temperature).toBe(0);
+      expect(request.query).toContain('[1] (sentiment toward "TechCorp") TechCorp is not reliable.');
+      expect(request.query).toContain('[3] (sentiment toward "TechCorp") TechCorp is not reliable.');
+      expect(request.query).toContain('[4] (sentiment overall)');
+
+      expect(analysis.brand_mentions.map(mention => [mention.sentiment_score, mention.sentiment_label])).toEqual([
+        [-0.6, 'negative'],
+        [0.8, 'positive']
+      ]);
+      expect(analysis.sentiment_analysis).toEqual({ overall_sentiment: 0.1, sentiment_label: 'positive', confidence: 0.7 });
+      expect(analysis.analyzer_version).toBe('llm-judge-1.0:Claude 3 Haiku');
+    });
+
+    it('should reject a verdict that misses a passage', async () => {
+      const model = judgeModel('{"scores": [{"id": 1, "score": -0.6}]}');
+
+      await expect(new LLMJudgeAnalyzer(model).analyze(answer, targets))
+        .rejects.toThrow('Sentiment judge returned no score for passage 2');
+    });
+  });
+
+  describe('LocalModelAnalyzer', () => {
+    it('should turn classifier label probabilities into scores', async () => {
+      mockAxios.post.mockResolvedValue({
+        data: [
+          [{ label: 'negative', score: 0.8 }, { label: 'neutral', score: 0.15 }, { label: 'positive', score: 0.05 }],
+          [{ label: 'LABEL_2', score: 0.9 }, { label: 'LABEL_1', score: 0.08 }, { label: 'LABEL_0', score: 0.02 }],
+          { label: 'NEGATIVE', score: 0.7 },
+          { label: 'POSITIVE', score: 0.6 }
+        ]
+      });
+
+      const analyzer = new LocalModelAnalyzer({ endpoint: 'http://localhost:8080/predict', modelName: 'roberta-sentiment' });
+      const analysis = await analyzer.analyze(answer, targets);
+
+      expect(mockAxios.post).toHaveBeenCalledWith(
+        'http://localhost:8080/predict',
+        expect.objectContaining({ inputs: ['TechCorp is not reliable.', expect.any(String), 'TechCorp is not reliable.', answer] }),
+        { timeout: 30000 }
+      );
+      expect(analysis.brand_mentions.map(mention => mention.sentiment_score)).toEqual([-0.75, 0.88]);
+      expect(analysis.sentiment_analysis.overall_sentiment).toBe(0.6);
+      expect(analysis.analyzer_version).toBe('local-1.0:roberta-sentiment');
+    });
+  });
+
+  describe('AnalysisPipeline', () => {
+    it('should fall back to the next analyzer and record which one scored', async () => {
+      const pipeline = createAnalysisPipeline(
+        { analyzer: 'llm_judge', judgeModel: 'Claude 3 Haiku' },
+        () => judgeModel('I cannot help with that.')
+      );
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const analysis = await pipeline.analyze(answer, targets);
+
+      expect(pipeline.version).toBe('llm-judge-1.0:Claude 3 Haiku');
+      expect(analysis.analyzer_version).toBe('lexicon-1.0');
+      expect(analysis.brand_mentions[0]!.analyzer_version).toBe('lexicon-1.0');
+    });
+
+    it('should use the lexicon analyzer alone when the judge model is not loaded', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const pipeline = createAnalysisPipeline({ analyzer: 'llm_judge', judgeModel: 'GPT-4' }, () => undefined);
+
+      expect(pipeline.getAnalyzers().map(analyzer => analyzer.name)).toEqual(['lexicon']);
+    });
+
+    it('should need at least one analyzer', () => {
+      expect(() => new AnalysisPipeline([])).toThrow('An analysis pipeline needs at least one analyzer');
+    });
+  });
+
+  describe('brand monitoring', () => {
+    const brand: Brand = {
+      id: 'brand-1',
+      name: 'TechCorp',
+      industry: 'Software',
+      competitor_brands: ['HubSpot'],
+      monitoring_keywords: [],
+      is_active: true,
+      created_at: new Date('2024-01-15'),
+      updated_at: new Date('2024-01-15')
+    };
+
+    beforeEach(() => {
+      mockBrandModel.findById.mockResolvedValue(brand);
+      mockPromptTemplateModel.resolveForBrand.mockResolvedValue([]);
+      mockAIResponseModel.create.mockResolvedValue({ id: 'stored-response-1' } as any);
+      mockAIResponseModel.addBrandMention.mockResolvedValue({ id: 'mention-1' } as any);
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+      jest.spyOn(AIModelManager.prototype, 'getAvailableModels').mockReturnValue(['GPT-4']);
+      jest.spyOn(AIModelManager.prototype, 'getModel').mockReturnValue({
+        config: { id: 'model-1', name: 'GPT-4' },
+        parseResponse: (response: any, options: any) => new LexiconAnalyzer()
+          .analyze(response.response, options.targets)
+          .then(analysis => ({ ...response, citations: [], ...analysis }))
+      } as any);
+      jest.spyOn(AIModelManager.prototype, 'queryMultipleModels').mockResolvedValue([{
+        id: 'response-1',
+        query_id: 'query-1',
+        model_name: 'GPT-4',
+        provider: 'openai',
+        response: answer,
+        usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+        cost: 0.001,
+        processing_time_ms: 500,
+        created_at: new Date()
+      }]);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should store the brand mentions with the analyzer version', async () => {
+      await createMonitoringService().monitorBrand('brand-1', ['visibility']);
+
+      expect(mockAIResponseModel.addBrandMention).toHaveBeenCalledTimes(1);
+      expect(mockAIResponseModel.addBrandMention).toHaveBeenCalledWith({
+        ai_response_id: 'stored-response-1',
+        brand_id: 'brand-1',
+        mention_text: 'TechCorp',
+        context: 'TechCorp is not reliable.',
+        position_in_response: 0,
+        sentiment_score: expect.any(Number),
+        sentiment_label: 'negative',
+        confidence: expect.any(Number),
+        analyzer_version: 'lexicon-1.0'
+      });
+    });
+
+    it('should store the aspects of each brand mention', async () => {
+      await createMonitoringService().monitorBrand('brand-1', ['visibility']);
+
+      const aspectInsert = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO mention_aspects'));
+      expect(aspectInsert).toBeDefined();
+      expect(aspectInsert[1]).toEqual([
+        'mention-1', 'brand-1', 'reliability', 'TechCorp is not reliable.', expect.any(Number), 'negative', expect.any(Number), 'lexicon-1.0'
+      ]);
+    });
+
+    it('should count only the brand mentions toward visibility', async () => {
+      const result = await createMonitoringService().monitorBrand('brand-1', ['visibility']);
+
+      expect(result.mentions).toHaveLength(2);
+      expect(result.visibility_score.mention_frequency).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import request from 'supertest';
+import express from 'express';
+import { ResponseDiff, ResponseDiffSide } from '../services/ResponseDiff';
+import { MonitoringController } from '../controllers/monitoring';
+import { AIResponseModel } from '../models/AIResponse';
+import { BrandModel } from '../models/Brand';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../models/AIResponse');
+jest.mock('../models/Brand');
+
+const mockQuery = require('../config/database').query;
+const mockAIResponseModel = AIResponseModel as jest.Mocked<typeof AIResponseModel>;
+const mockBrandModel = BrandModel as jest.Mocked<typeof BrandModel>;
+
+const brand = { name: 'TechCorp', competitor_brands: ['HubSpot', 'Salesforce'] };
+
+const side = (response: string, overrides: Partial<ResponseDiffSide> = {}): ResponseDiffSide => ({
+  response,
+  citation_urls: [],
+  brand_sentiment_scores: [],
+  ...overrides
+});
+
+describe('Response Diff', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ResponseDiff.compare', () => {
+    it('should find added and removed claims while matching reworded ones', () => {
+      const diff = ResponseDiff.compare(
+        side('TechCorp offers a free plan for small teams. TechCorp integrates with Gmail and Slack.'),
+        side('TechCorp integrates with Slack and Gmail. **HubSpot** is a cheaper alternative for startups.'),
+        brand
+      );
+
+      expect(diff.claims).toEqual({
+        added: ['HubSpot is a cheaper alternative for startups.'],
+        removed: ['TechCorp offers a free plan for small teams.'],
+        unchanged: 1
+      });
+      expect(diff.previous_claims.map(claim => claim.status)).toEqual(['removed', 'unchanged']);
+      expect(diff.latest_claims.map(claim => claim.status)).toEqual(['unchanged', 'added']);
+      expect(diff.similarity).toBe(0.5);
+    });
+
+    it('should report competitors and citations that came and went', () => {
+      const diff = ResponseDiff.compare(
+        side('TechCorp and Salesforce lead the market.', { citation_urls: ['https://a.com/review/', 'https://b.com'] }),
+        side('TechCorp and HubSpot lead the market.', { citation_urls: ['https://a.com/review', 'https://c.com'] }),
+        brand
+      );
+
+      expect(diff.competitors).toEqual({ added: ['HubSpot'], removed: ['Salesforce'], unchanged: [] });
+      expect(diff.citations).toEqual({
+        added: ['https://c.com'],
+        removed: ['https://b.com'],
+        unchanged: ['https://a.com/review']
+      });
+    });
+
+    it('should compare how the brand was mentioned and listed', () => {
+      const diff = ResponseDiff.compare(
+        side('Top CRMs:\n1. TechCorp\n2. HubSpot', { brand_sentiment_scores: [0.6, 0.8] }),
+        side('Top CRMs:\n1. HubSpot\n2. Salesforce\n3. TechCorp', { brand_sentiment_scores: [0.1] }),
+        brand
+      );
+
+      expect(diff.mentions).toEqual({
+        previous_count: 2,
+        latest_count: 1,
+        previous_sentiment: 0.7,
+        latest_sentiment: 0.1,
+        previous_position: 1,
+        latest_position: 3
+      });
+    });
+  });
+
+  describe('GET /api/monitoring/brands/:brandId/responses/:responseId/diff', () => {
+    const app = express();
+    app.get('/api/monitoring/brands/:brandId/responses/:responseId/diff', MonitoringController.getResponseDiff);
+
+    const latest = {
+      id: 'response-2',
+      brand_id: 'brand-1',
+      ai_model_id: 'model-1',
+      query: 'What do you know about TechCorp?',
+      response: 'TechCorp is a CRM vendor based in Austin.',
+      created_at: new Date('2024-03-08')
+    } as any;
+    const previous = { ...latest, id: 'response-1', response: 'TechCorp is a CRM vendor based in Austin. It was founded in 2012.', created_at: new Date('2024-03-01') };
+
+    it('should diff a response against the previous answer to its prompt', async () => {
+      mockAIResponseModel.findById.mockResolvedValue(latest);
+      mockAIResponseModel.findPrevious.mockResolvedValue(previous);
+      mockBrandModel.findById.mockResolvedValue({ id: 'brand-1', ...brand } as any);
+      mockAIResponseModel.getCitations.mockResolvedValue([]);
+      mockAIResponseModel.getBrandMentions.mockImplementation(async id => (id === 'response-1'
+        ? [{ brand_id: 'brand-1', sentiment_score: '0.50' }, { brand_id: 'brand-1', sentiment_score: null }]
+        : []) as any);
+
+      const response = await request(app)
+        .get('/api/monitoring/brands/brand-1/responses/response-2/diff')
+        .expect(200);
+
+      expect(mockAIResponseModel.findPrevious).toHaveBeenCalledWith(latest);
+      expect(response.body.previous.id).toBe('response-1');
+      expect(response.body.diff.claims).toEqual({ added: [], removed: ['It was founded in 2012.'], unchanged: 1 });
+      expect(response.body.diff.mentions).toMatchObject({ previous_count: 1, previous_sentiment: 0.5, latest_count: 0 });
+    });
+
+    it('should return no diff for the first answer to a prompt', async () => {
+      mockAIResponseModel.findById.mockResolvedValue(latest);
+      mockAIResponseModel.findPrevious.mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/monitoring/brands/brand-1/responses/response-2/diff')
+        .expect(200);
+
+      expect(response.body).toMatchObject({ previous: null, diff: null });
+    });
+
+    it('should return 404 for a response of another brand', async () => {
+      mockAIResponseModel.findById.mockResolvedValue({ ...latest, brand_id: 'brand-2' });
+
+      await request(app)
+        .get('/api/monitoring/brands/brand-1/responses/response-2/diff')
+        .expect(404);
+    });
+  });
+
+  describe('AIResponseModel.getComparablePairs', () => {
+    it('should pair each prompt and model with its previous answer', async () => {
+      const { AIResponseModel: ActualModel } = jest.requireActual('../models/AIResponse');
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await ActualModel.getComparablePairs('brand-1', 14, 10);
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('LAG(ar.id) OVER answers');
+      expect(sql).toContain('PARTITION BY ar.ai_model_id, ar.query');
+      expect(sql).toContain('INTERVAL \'14 days\'');
+      expect(values).toEqual(['brand-1', 10]);
+    });
+  });
+});
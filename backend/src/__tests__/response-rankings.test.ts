@@ -0,0 +1,214 @@
+import { RankingExtraction } from '../services/RankingExtraction';
+import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { BudgetService } from '../services/BudgetService';
+import { AlertManagementService } from '../services/AlertManagementService';
+import { BrandModel } from '../models/Brand';
+import { AIResponseModel } from '../models/AIResponse';
+import { PromptTemplateModel } from '../models/PromptTemplate';
+import { AIModelManager } from '../services/ai/AIModelManager';
+import { Brand } from '../types/database';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../models/Brand');
+jest.mock('../models/AIResponse');
+jest.mock('../models/PromptTemplate');
+jest.mock('../services/AlertManagementService');
+
+const mockQuery = require('../config/database').query;
+const mockBrandModel = BrandModel as jest.Mocked<typeof BrandModel>;
+const mockAIResponseModel = AIResponseModel as jest.Mocked<typeof AIResponseModel>;
+const mockPromptTemplateModel = PromptTemplateModel as jest.Mocked<typeof PromptTemplateModel>;
+
+function createMonitoringService(): BrandMonitoringService {
+  const alertService = new AlertManagementService();
+  return new BrandMonitoringService(new BudgetService(alertService), alertService);
+}
+
+describe('Response Rankings', () => {
+  describe('RankingExtraction', () => {
+    it('should read numbered headings with paragraphs between them as one list', () => {
+      const lists = RankingExtraction.extractLists([
+        'Top picks:',
+        '',
+        '### 1. Salesforce',
+        'The market leader.',
+        '- Pros: ecosystem',
+        '',
+        '### 2. TechCorp',
+        'Strong automation.',
+        '',
+        '## Honourable mentions',
+        '- Zoho'
+      ].join('\n'));
+
+      expect(lists).toEqual([
+        { style: 'numbered', items: ['Salesforce', 'TechCorp'] },
+        { style: 'bulleted', items: ['Zoho'] }
+      ]);
+    });
+
+    it('should start a new list when numbering restarts after prose', () => {
+      const lists = RankingExtraction.extractLists('1. HubSpot\n2. Zoho\nFor startups:\n1. TechCorp');
+
+      expect(lists).toEqual([
+        { style: 'numbered', items: ['HubSpot', 'Zoho'] },
+        { style: 'numbered', items: ['TechCorp'] }
+      ]);
+    });
+
+    it('should keep spaced-out entries of a numbered list together', () => {
+      const lists = RankingExtraction.extractLists([
+        '1. **HubSpot** - free tier',
+        '',
+        '2. **TechCorp**: automation',
+        '',
+        '3. Pipedrive'
+      ].join('\n'));
+
+      expect(lists).toEqual([{ style: 'numbered', items: ['HubSpot', 'TechCorp', 'Pipedrive'] }]);
+    });
+
+    it('should ignore indented details under an entry', () => {
+      const lists = RankingExtraction.extractLists([
+        '- TechCorp',
+        '  - Pros: TechCorp integrates with HubSpot',
+        '  - Cons: pricey',
+        '- HubSpot'
+      ].join('\n'));
+
+      expect(lists).toEqual([{ style: 'bulleted', items: ['TechCorp', 'HubSpot'] }]);
+    });
+
+    it('should read table rows and skip the header and rank column', () => {
+      const lists = RankingExtraction.extractLists([
+        '| Rank | Tool | Price |',
+        '|------|------|-------|',
+        '| 1 | HubSpot | Free |',
+        '| 2 | TechCorp | $20 |'
+      ].join('\n'));
+
+      expect(lists).toEqual([{ style: 'table', items: ['HubSpot', 'TechCorp'] }]);
+    });
+
+    it('should rank each name by the first list it appears in', () => {
+      const rankings = RankingExtraction.findRankings([
+        'For enterprises:',
+        '1. Salesforce',
+        '2. TechCorp',
+        '',
+        'For startups:',
+        '- Pipedrive',
+        '- HubSpot',
+        '- TechCorp'
+      ].join('\n'), ['TechCorp', 'HubSpot', 'Zoho']);
+
+      expect(rankings).toEqual([
+        { entity_name: 'TechCorp', position: 2, list_size: 2, list_index: 0, list_style: 'numbered' },
+        { entity_name: 'HubSpot', position: 2, list_size: 3, list_index: 1, list_style: 'bulleted' }
+      ]);
+    });
+
+    it('should not rank names only mentioned in prose', () => {
+      expect(RankingExtraction.findRankings('TechCorp is popular, ahead of HubSpot.', ['TechCorp', 'HubSpot'])).toEqual([]);
+    });
+  });
+
+  describe('brand monitoring', () => {
+    const brand: Brand = {
+      id: 'brand-1',
+      name: 'TechCorp',
+      industry: 'Software',
+      competitor_brands: ['HubSpot', 'Pipedrive'],
+      monitoring_keywords: [],
+      is_active: true,
+      created_at: new Date('2024-01-15'),
+      updated_at: new Date('2024-01-15')
+    };
+
+    const answers = [
+      '1. HubSpot\n2. TechCorp\n3. Pipedrive',
+      '- TechCorp\n- HubSpot',
+      'TechCorp is a reasonable choice.'
+    ];
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockBrandModel.findById.mockResolvedValue(brand);
+      mockPromptTemplateModel.resolveForBrand.mockResolvedValue([]);
+      mockAIResponseModel.create.mockImplementation(async (data: any) => ({ id: `stored-${data.response.length}` } as any));
+      mockAIResponseModel.addRankings.mockResolvedValue([]);
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      jest.spyOn(AIModelManager.prototype, 'getAvailableModels').mockReturnValue(['GPT-4']);
+      jest.spyOn(AIModelManager.prototype, 'executeBrandMonitoring').mockResolvedValue({
+        query: { id: 'query-1', brand_id: 'brand-1', query: 'Best CRM?' },
+        responses: answers.map((answer, index) => ({
+          id: `response-${index}`,
+          query_id: 'query-1',
+          model_name: 'GPT-4',
+          provider: 'openai',
+          response: answer,
+          usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+          cost: 0.001,
+          processing_time_ms: 500,
+          created_at: new Date()
+        })),
+        parsed_responses: []
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should store the list positions of the brand and competitors per response', async () => {
+      await createMonitoringService().monitorBrand('brand-1', ['comparison']);
+
+      expect(mockAIResponseModel.addRankings).toHaveBeenCalledTimes(3);
+      expect(mockAIResponseModel.addRankings).toHaveBeenCalledWith(`stored-${answers[0]!.length}`, 'brand-1', [
+        { entity_name: 'TechCorp', is_brand: true, position: 2, list_size: 3, list_index: 0, list_style: 'numbered' },
+        { entity_name: 'HubSpot', is_brand: false, position: 1, list_size: 3, list_index: 0, list_style: 'numbered' },
+        { entity_name: 'Pipedrive', is_brand: false, position: 3, list_size: 3, list_index: 0, list_style: 'numbered' }
+      ]);
+      expect(mockAIResponseModel.addRankings).toHaveBeenCalledWith(`stored-${answers[2]!.length}`, 'brand-1', []);
+    });
+
+    it('should aggregate the brand positions into ranking_position', async () => {
+      const result = await createMonitoringService().monitorBrand('brand-1', ['comparison']);
+
+      // Positions 2 and 1; the prose-only answer does not count
+      expect(result.visibility_score.ranking_position).toBe(2);
+
+      const insert = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO visibility_metrics'));
+      expect(insert[1][4]).toBe(2);
+    });
+
+    it('should store no ranking position when the brand was never listed', async () => {
+      jest.spyOn(AIModelManager.prototype, 'executeBrandMonitoring').mockResolvedValue({
+        query: { id: 'query-1', brand_id: 'brand-1', query: 'Best CRM?' },
+        responses: [{
+          id: 'response-1',
+          query_id: 'query-1',
+          model_name: 'GPT-4',
+          provider: 'openai',
+          response: 'Most teams pick HubSpot.',
+          usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+          cost: 0.001,
+          processing_time_ms: 500,
+          created_at: new Date()
+        }],
+        parsed_responses: []
+      });
+
+      const result = await createMonitoringService().monitorBrand('brand-1', ['comparison']);
+
+      expect(result.visibility_score.ranking_position).toBe(0);
+      const insert = mockQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO visibility_metrics'));
+      expect(insert[1][4]).toBeNull();
+    });
+  });
+});
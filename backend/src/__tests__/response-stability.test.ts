@@ -0,0 +1,221 @@
+import { ResponseStability } from '../services/ResponseStability';
+import { AIModelManager } from '../services/ai/AIModelManager';
+import { ProviderRegistry } from '../services/ai/ProviderRegistry';
+import { ResponseCache, MemoryResponseCacheStore } from '../services/ai/ResponseCache';
+import { AIQuery, IAIModel, ParsedAIResponse } from '../types/ai';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+const mockQuery = require('../config/database').query;
+
+describe('Response Stability', () => {
+  const parsed = (text: string, sentiments: Record<string, number> = {}): ParsedAIResponse => ({
+    id: 'response-1',
+    query_id: 'query-1',
+    model_name: 'GPT-4',
+    provider: 'openai',
+    response: text,
+    usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+    cost: 0.001,
+    processing_time_ms: 500,
+    created_at: new Date('2024-01-15T10:00:00Z'),
+    citations: [],
+    brand_mentions: Object.entries(sentiments).map(([brandName, score]) => ({
+      brand_name: brandName,
+      mention_text: brandName,
+      context: `${brandName} is mentioned here`,
+      position_in_response: 0,
+      sentiment_score: score,
+      sentiment_label: score > 0 ? 'positive' as const : 'neutral' as const,
+      confidence: 0.8
+    })),
+    sentiment_analysis: { overall_sentiment: 0, sentiment_label: 'neutral', confidence: 0.5 },
+    topics: [],
+    entities: []
+  });
+
+  describe('groupSamples', () => {
+    it('should group answers by prompt and model', () => {
+      const groups = ResponseStability.groupSamples('visibility', [
+        parsed('One.'),
+        { ...parsed('Two.'), model_name: 'Claude' },
+        parsed('Three.')
+      ]);
+
+      expect(groups.map(group => [group.key, group.responses.length])).toEqual([
+        ['visibility:GPT-4', 2],
+        ['visibility:Claude', 1]
+      ]);
+    });
+  });
+
+  describe('analyze', () => {
+    it('should score identical samples as fully stable', () => {
+      const groups = ResponseStability.groupSamples('visibility', [
+        parsed('Top vendors:\n1. TechCorp\n2. Rival', { TechCorp: 0.6 }),
+        parsed('Top vendors:\n1. TechCorp\n2. Rival', { TechCorp: 0.6 }),
+        parsed('Top vendors:\n1. TechCorp\n2. Rival', { TechCorp: 0.6 })
+      ]);
+
+      const statistics = ResponseStability.analyze(['TechCorp'], groups, 3, 0.7);
+
+      expect(statistics).toEqual({
+        samples_per_query: 3,
+        temperature: 0.7,
+        brands: [{
+          brand_name: 'TechCorp',
+          samples: 3,
+          mention_rate: 1,
+          sentiment_spread: 0,
+          position_variance: 0,
+          stability_score: 100
+        }]
+      });
+    });
+
+    it('should measure mention rate, sentiment spread and position variance', () => {
+      const groups = ResponseStability.groupSamples('visibility', [
+        parsed('Top vendors:\n1. TechCorp\n2. Rival', { TechCorp: 0.8 }),
+        parsed('Top vendors:\n1. Rival\n2. TechCorp', { TechCorp: 0.2 }),
+        parsed('Only rivals are named.'),
+        parsed('Another answer without it.')
+      ]);
+
+      const [techCorp] = ResponseStability.analyze(['TechCorp'], groups, 4).brands;
+
+      expect(techCorp).toMatchObject({
+        samples: 4,
+        mention_rate: 0.5,
+        sentiment_spread: 0.3,
+        position_variance: 0.25
+      });
+      // A coin-flip mention rate is the least stable outcome
+      expect(techCorp!.stability_score).toBeLessThan(60);
+    });
+
+    it('should take positions from ranked lists rather than sentence order', () => {
+      const groups = ResponseStability.groupSamples('visibility', [
+        parsed('Some context first. TechCorp is popular.', { TechCorp: 0.5 }),
+        parsed('TechCorp is popular.', { TechCorp: 0.5 })
+      ]);
+
+      const [techCorp] = ResponseStability.analyze(['TechCorp'], groups, 2).brands;
+
+      expect(techCorp).toMatchObject({ mention_rate: 1, position_variance: null, stability_score: 100 });
+    });
+
+    it('should match brand names as whole words, punctuation included', () => {
+      const groups = ResponseStability.groupSamples('visibility', [
+        parsed('Monday.com and Node.js are common choices.'),
+        parsed('Try a search engine instead.')
+      ]);
+
+      const [monday, node, arc] = ResponseStability.analyze(['Monday.com', 'Node.js', 'Arc'], groups, 2).brands;
+
+      expect(monday!.mention_rate).toBe(0.5);
+      expect(node!.mention_rate).toBe(0.5);
+      expect(arc!.mention_rate).toBe(0);
+    });
+
+    it('should take sentiment only from the mentions of the brand itself', () => {
+      const withRival = parsed('TechCorp and Rival both work.', { TechCorp: 0.5, Rival: -0.5 });
+      withRival.brand_mentions[1]!.context = 'Rival is cheaper than TechCorp';
+      const groups = ResponseStability.groupSamples('visibility', [
+        withRival,
+        parsed('TechCorp and Rival both work.', { TechCorp: 0.5 })
+      ]);
+
+      const [techCorp] = ResponseStability.analyze(['TechCorp'], groups, 2).brands;
+
+      expect(techCorp!.sentiment_spread).toBe(0);
+    });
+
+    it('should leave spread and variance null when no group has repeat samples', () => {
+      const groups = ResponseStability.groupSamples('visibility', [parsed('TechCorp is here.', { TechCorp: 0.5 })]);
+
+      const [techCorp] = ResponseStability.analyze(['TechCorp', 'CompetitorA'], groups, 1).brands;
+
+      expect(techCorp).toMatchObject({
+        mention_rate: 1,
+        sentiment_spread: null,
+        position_variance: null,
+        stability_score: null
+      });
+    });
+  });
+
+  describe('AIModelManager sampling', () => {
+    let manager: AIModelManager;
+    let modelQuery: jest.Mock;
+
+    beforeEach(async () => {
+      modelQuery = jest.fn().mockImplementation(async (request: AIQuery) => ({
+        id: `answer-${request.id}`,
+        query_id: request.id,
+        model_name: 'GPT-4',
+        provider: 'stub',
+        response: 'TechCorp makes developer tools.',
+        usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+        cost: 0.002,
+        processing_time_ms: 100,
+        metadata: { ...request.metadata },
+        created_at: new Date()
+      }));
+
+      const registry = new ProviderRegistry();
+      registry.register('stub', (config) => ({
+        config,
+        query: modelQuery,
+        parseResponse: jest.fn().mockImplementation(async (response) => parsed(response.response)),
+        validateQuery: jest.fn().mockReturnValue(true),
+        estimateCost: jest.fn().mockReturnValue(0.002),
+        checkRateLimit: jest.fn(),
+        healthCheck: jest.fn().mockResolvedValue(true)
+      } as unknown as IAIModel));
+
+      mockQuery.mockResolvedValue({
+        rows: [{
+          id: 'gpt-4-id',
+          name: 'GPT-4',
+          provider: 'stub',
+          model_version: 'v1',
+          api_endpoint: 'http://localhost',
+          rate_limit_per_minute: 60,
+          cost_per_request: 0.01
+        }]
+      });
+
+      // Caching stays on: repeat samples must still reach the provider
+      const cache = new ResponseCache(new MemoryResponseCacheStore(), { defaultTtlSeconds: 3600, ttlByQueryType: {} });
+      manager = new AIModelManager(registry, undefined, cache);
+      await manager.initializeModels();
+      modelQuery.mockClear();
+    });
+
+    it('should ask each model once per sample at the requested temperature', async () => {
+      const result = await manager.executeBrandMonitoring(
+        { brand_name: 'TechCorp', query_type: 'visibility', query_template: '' },
+        ['GPT-4'],
+        { samples: 3, temperature: 0.9 }
+      );
+
+      expect(modelQuery).toHaveBeenCalledTimes(3);
+      expect(modelQuery.mock.calls.map(([request]) => request.temperature)).toEqual([0.9, 0.9, 0.9]);
+      expect(result.responses.map(response => response.metadata?.sample_index)).toEqual([0, 1, 2]);
+      expect(result.parsed_responses).toHaveLength(3);
+    });
+
+    it('should answer the first sample from a single-sample cache entry', async () => {
+      const brandQuery = { brand_name: 'TechCorp', query_type: 'visibility' as const, query_template: '' };
+
+      await manager.executeBrandMonitoring(brandQuery, ['GPT-4']);
+      await manager.executeBrandMonitoring(brandQuery, ['GPT-4'], { samples: 2 });
+
+      expect(modelQuery).toHaveBeenCalledTimes(2);
+      expect(manager.getCacheStatistics()).toMatchObject({ hits: 1 });
+    });
+  });
+});
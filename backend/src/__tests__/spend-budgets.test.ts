@@ -0,0 +1,322 @@
+import { OpenAIModel } from '../services/ai/OpenAIModel';
+import { BudgetService, BudgetCheckResult } from '../services/BudgetService';
+import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { AlertManagementService } from '../services/AlertManagementService';
+import { SpendBudgetModel } from '../models/SpendBudget';
+import { MonitoringScheduleModel } from '../models/MonitoringSchedule';
+import { BrandModel } from '../models/Brand';
+import { AIResponseModel } from '../models/AIResponse';
+import { PromptTemplateModel } from '../models/PromptTemplate';
+import { AIModelManager } from '../services/ai/AIModelManager';
+import { AIModelConfig } from '../types/ai';
+import { SpendBudget } from '../types/database';
+
+// Mock database
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+jest.mock('../models/SpendBudget');
+jest.mock('../models/MonitoringSchedule');
+jest.mock('../models/Brand');
+jest.mock('../models/AIResponse');
+jest.mock('../models/PromptTemplate');
+jest.mock('../services/ai/AIModelManager');
+
+const mockQuery = require('../config/database').query;
+const mockSpendBudgetModel = SpendBudgetModel as jest.Mocked<typeof SpendBudgetModel>;
+const mockScheduleModel = MonitoringScheduleModel as jest.Mocked<typeof MonitoringScheduleModel>;
+const mockBrandModel = BrandModel as jest.Mocked<typeof BrandModel>;
+const mockAIResponseModel = AIResponseModel as jest.Mocked<typeof AIResponseModel>;
+const mockPromptTemplateModel = PromptTemplateModel as jest.Mocked<typeof PromptTemplateModel>;
+const mockAIModelManager = AIModelManager as jest.MockedClass<typeof AIModelManager>;
+
+describe('AI Spend Accounting and Budgets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('token pricing', () => {
+    const config: AIModelConfig = {
+      id: 'openai-gpt4',
+      name: 'GPT-4',
+      provider: 'openai',
+      model_version: 'gpt-4',
+      api_endpoint: 'https://api.openai.com/v1',
+      api_key: 'test-key',
+      rate_limit_per_minute: 60,
+      cost_per_request: 0.03,
+      input_cost_per_1k_tokens: 0.01,
+      output_cost_per_1k_tokens: 0.03,
+      max_tokens: 1000
+    };
+
+    it('should price input and output tokens separately', () => {
+      const model = new OpenAIModel(config);
+
+      // 400 characters is about 100 prompt tokens; max_tokens bounds the output
+      const cost = model.estimateCost({ id: 'q-1', brand_id: 'brand-1', query: 'a'.repeat(400), max_tokens: 500 });
+
+      expect(cost).toBeCloseTo(0.1 * 0.01 + 0.5 * 0.03, 6);
+    });
+
+    it('should fall back to the blended price when split prices are unset', () => {
+      const { input_cost_per_1k_tokens, output_cost_per_1k_tokens, ...blended } = config;
+      const model = new OpenAIModel(blended);
+
+      const cost = model.estimateCost({ id: 'q-1', brand_id: 'brand-1', query: 'a'.repeat(400), max_tokens: 500 });
+
+      expect(cost).toBeCloseTo(0.6 * 0.03, 6);
+    });
+  });
+
+  describe('BudgetService', () => {
+    let service: BudgetService;
+    let raiseSystemAlert: jest.Mock;
+
+    const brandBudget: SpendBudget = {
+      id: 'budget-1',
+      scope: 'brand',
+      brand_id: 'brand-1',
+      monthly_limit: 50,
+      is_active: true,
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01')
+    };
+
+    const organizationBudget: SpendBudget = {
+      id: 'budget-org',
+      scope: 'organization',
+      monthly_limit: 500,
+      is_active: true,
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01')
+    };
+
+    beforeEach(() => {
+      raiseSystemAlert = jest.fn().mockResolvedValue({ id: 'alert-1' });
+      service = new BudgetService({ raiseSystemAlert } as unknown as AlertManagementService);
+      mockScheduleModel.pauseForBudget.mockResolvedValue([]);
+    });
+
+    it('should report spend against brand and organization budgets', async () => {
+      mockSpendBudgetModel.getActiveForBrand.mockResolvedValue([brandBudget, organizationBudget]);
+      mockSpendBudgetModel.getMonthlySpend.mockImplementation(async (brandId?: string) => brandId ? 20 : 120);
+
+      const result = await service.checkBudget('brand-1');
+
+      expect(result.within_budget).toBe(true);
+      expect(result.budgets.map(status => [status.spend, status.remaining])).toEqual([[20, 30], [120, 380]]);
+      expect(mockSpendBudgetModel.getMonthlySpend).toHaveBeenCalledWith('brand-1');
+      expect(mockSpendBudgetModel.getMonthlySpend).toHaveBeenCalledWith(undefined);
+      expect(mockSpendBudgetModel.markExceeded).not.toHaveBeenCalled();
+    });
+
+    it('should pause the brand schedules and alert when a brand budget is first exceeded', async () => {
+      mockSpendBudgetModel.getActiveForBrand.mockResolvedValue([brandBudget]);
+      mockSpendBudgetModel.getMonthlySpend.mockResolvedValue(52.5);
+      mockSpendBudgetModel.markExceeded.mockResolvedValue({ ...brandBudget, exceeded_at: new Date() });
+      mockScheduleModel.pauseForBudget.mockResolvedValue([{ id: 'schedule-1' } as any]);
+
+      const result = await service.checkBudget('brand-1');
+
+      expect(result.within_budget).toBe(false);
+      expect(mockScheduleModel.pauseForBudget).toHaveBeenCalledWith('brand-1');
+      expect(raiseSystemAlert).toHaveBeenCalledWith(expect.objectContaining({
+        brand_id: 'brand-1',
+        severity: 'high',
+        metric_type: 'ai_spend',
+        current_value: 52.5,
+        threshold_value: 50
+      }));
+    });
+
+    it('should only act once per month on an exceeded budget', async () => {
+      mockSpendBudgetModel.getActiveForBrand.mockResolvedValue([brandBudget]);
+      mockSpendBudgetModel.getMonthlySpend.mockResolvedValue(60);
+      mockSpendBudgetModel.markExceeded.mockResolvedValue(null);
+
+      const result = await service.checkBudget('brand-1');
+
+      expect(result.within_budget).toBe(false);
+      expect(mockScheduleModel.pauseForBudget).not.toHaveBeenCalled();
+      expect(raiseSystemAlert).not.toHaveBeenCalled();
+    });
+
+    it('should pause every brand when the organization budget is exceeded', async () => {
+      mockSpendBudgetModel.getActiveForBrand.mockResolvedValue([organizationBudget]);
+      mockSpendBudgetModel.getMonthlySpend.mockResolvedValue(500);
+      mockSpendBudgetModel.markExceeded.mockResolvedValue(organizationBudget);
+
+      await service.checkBudget('brand-1');
+
+      expect(mockScheduleModel.pauseForBudget).toHaveBeenCalledWith(null);
+      expect(raiseSystemAlert).toHaveBeenCalledWith(expect.objectContaining({
+        brand_id: 'brand-1',
+        title: 'Organization AI Spend Budget Exceeded'
+      }));
+    });
+
+    it('should keep schedules paused when the alert cannot be raised', async () => {
+      mockSpendBudgetModel.getActiveForBrand.mockResolvedValue([brandBudget]);
+      mockSpendBudgetModel.getMonthlySpend.mockResolvedValue(75);
+      mockSpendBudgetModel.markExceeded.mockResolvedValue(brandBudget);
+      raiseSystemAlert.mockRejectedValue(new Error('Redis unavailable'));
+
+      await expect(service.checkBudget('brand-1')).resolves.toMatchObject({ within_budget: false });
+      expect(mockScheduleModel.pauseForBudget).toHaveBeenCalledWith('brand-1');
+    });
+
+    it('should describe exceeded budgets', () => {
+      const result: BudgetCheckResult = {
+        within_budget: false,
+        budgets: [
+          { budget: brandBudget, spend: 52.5, remaining: 0, exceeded: true },
+          { budget: organizationBudget, spend: 120, remaining: 380, exceeded: false }
+        ]
+      };
+
+      expect(BudgetService.describeExceeded(result)).toBe(
+        'Monthly AI spend budget exceeded (brand budget $52.50 of $50.00)'
+      );
+    });
+  });
+
+  describe('BrandMonitoringService budget checks', () => {
+    let brandMonitoringService: BrandMonitoringService;
+    let checkBudget: jest.Mock;
+    let executeBrandMonitoring: jest.Mock;
+    let streamQuery: jest.Mock;
+
+    const withinBudget: BudgetCheckResult = { within_budget: true, budgets: [] };
+    const overBudget: BudgetCheckResult = {
+      within_budget: false,
+      budgets: [{
+        budget: {
+          id: 'budget-1',
+          scope: 'brand',
+          brand_id: 'brand-1',
+          monthly_limit: 50,
+          is_active: true,
+          created_at: new Date(),
+          updated_at: new Date()
+        },
+        spend: 50.25,
+        remaining: 0,
+        exceeded: true
+      }]
+    };
+
+    beforeEach(() => {
+      executeBrandMonitoring = jest.fn().mockResolvedValue({
+        query: { id: 'q-1', brand_id: 'TechCorp', query: 'What is TechCorp?' },
+        responses: [{
+          id: 'response-1',
+          query_id: 'q-1',
+          model_name: 'GPT-4',
+          provider: 'openai',
+          response: 'TechCorp makes software.',
+          usage: { prompt_tokens: 20, completion_tokens: 50, total_tokens: 70 },
+          cost: 0.0017,
+          processing_time_ms: 900,
+          created_at: new Date()
+        }],
+        parsed_responses: []
+      });
+      streamQuery = jest.fn();
+      mockAIModelManager.mockImplementation(() => ({
+        executeBrandMonitoring,
+        streamQuery,
+        generateBrandQuery: jest.fn().mockReturnValue({ id: 'q-1', brand_id: 'TechCorp', query: 'What is TechCorp?' }),
+        getAvailableModels: jest.fn().mockReturnValue(['GPT-4']),
+        getModel: jest.fn().mockReturnValue({
+          config: { id: 'model-1', name: 'GPT-4' },
+          estimateCost: jest.fn().mockReturnValue(0.0009)
+        })
+      } as any));
+
+      mockBrandModel.findById.mockResolvedValue({
+        id: 'brand-1',
+        name: 'TechCorp',
+        industry: 'Technology',
+        competitor_brands: [],
+        monitoring_keywords: []
+      } as any);
+      mockAIResponseModel.create.mockResolvedValue({ id: 'stored-response-1' } as any);
+      mockPromptTemplateModel.resolveForBrand.mockResolvedValue([]);
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+
+      checkBudget = jest.fn();
+      brandMonitoringService = new BrandMonitoringService(
+        { checkBudget } as unknown as BudgetService,
+        {} as AlertManagementService
+      );
+    });
+
+    it('should refuse to start a run once the budget is spent', async () => {
+      checkBudget.mockResolvedValue(overBudget);
+
+      await expect(brandMonitoringService.monitorBrand('brand-1', ['visibility'])).rejects.toThrow(
+        'Monthly AI spend budget exceeded (brand budget $50.25 of $50.00)'
+      );
+      expect(executeBrandMonitoring).not.toHaveBeenCalled();
+    });
+
+    it('should stop a run when the budget runs out partway through', async () => {
+      checkBudget.mockResolvedValueOnce(withinBudget).mockResolvedValue(overBudget);
+
+      const result = await brandMonitoringService.monitorBrand('brand-1', ['visibility', 'sentiment', 'news']);
+
+      expect(executeBrandMonitoring).toHaveBeenCalledTimes(1);
+      expect(result.ai_responses).toHaveLength(1);
+      expect(result.errors).toEqual([
+        expect.stringMatching(/^sentiment: Monthly AI spend budget exceeded/),
+        expect.stringMatching(/^news: Monthly AI spend budget exceeded/)
+      ]);
+    });
+
+    it('should store token usage with each response', async () => {
+      checkBudget.mockResolvedValue(withinBudget);
+
+      await brandMonitoringService.monitorBrand('brand-1', ['visibility']);
+
+      expect(mockAIResponseModel.create).toHaveBeenCalledWith(expect.objectContaining({
+        tokens_used: 70,
+        prompt_tokens: 20,
+        completion_tokens: 50,
+        cost: 0.0017
+      }));
+    });
+
+    it('should refuse to open a stream once the budget is spent', async () => {
+      checkBudget.mockResolvedValue(overBudget);
+
+      await expect(brandMonitoringService.streamBrandQuery('brand-1', 'visibility')).rejects.toThrow(
+        'Monthly AI spend budget exceeded'
+      );
+      expect(streamQuery).not.toHaveBeenCalled();
+    });
+
+    it('should store a streamed answer with its estimated spend', async () => {
+      const aiQuery = { id: 'q-1', brand_id: 'brand-1', query: 'What is TechCorp?' };
+
+      await brandMonitoringService.recordStreamedResponse('brand-1', 'GPT-4', aiQuery, 'TechCorp makes software.', {
+        cancelled: true,
+        processing_time_ms: 400
+      });
+
+      expect(mockAIResponseModel.create).toHaveBeenCalledWith({
+        brand_id: 'brand-1',
+        ai_model_id: 'model-1',
+        query: 'What is TechCorp?',
+        response: 'TechCorp makes software.',
+        response_metadata: { streamed: true, cancelled: true },
+        processing_time_ms: 400,
+        tokens_used: 11,
+        prompt_tokens: 5,
+        completion_tokens: 6,
+        cost: 0.0009
+      });
+    });
+  });
+});
@@ -0,0 +1,410 @@
+import { Request, Response } from 'express';
+import { AlertConfig, AlertManagementService } from '../services/AlertManagementService';
+import { AlertIncidentModel } from '../models/AlertIncident';
+import { EscalationPolicyModel } from '../models/EscalationPolicy';
+import { Alert, AlertIncident, AlertThreshold } from '../types/database';
+import {
+  validateSchema,
+  createAlertThresholdSchema,
+  updateAlertThresholdSchema,
+  alertRuleSchema,
+  alertFiltersSchema,
+  incidentFiltersSchema
+} from '../models/validation';
+
+export class AlertsController {
+  private static alertService: AlertManagementService;
+
+  static initialize(alertService: AlertManagementService): void {
+    AlertsController.alertService = alertService;
+  }
+
+  /**
+   * List a brand's active alert thresholds
+   */
+  static async getThresholds(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const thresholds = await AlertsController.alertService.getAlertThresholds(brandId!);
+
+      res.json({
+        brand_id: brandId,
+        thresholds
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to get alert thresholds');
+    }
+  }
+
+  /**
+   * Add an alert threshold, checked each time the brand's visibility metrics are recorded
+   */
+  static async createThreshold(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      const config = validateSchema<AlertConfig>(createAlertThresholdSchema, {
+        ...req.body,
+        brand_id: req.params.brandId,
+        user_id: req.user.userId
+      });
+      const threshold = await AlertsController.alertService.createAlertThreshold(config);
+
+      res.status(201).json({
+        message: 'Alert threshold created successfully',
+        threshold
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to create alert threshold');
+    }
+  }
+
+  /**
+   * Change an alert threshold's metric, detection rule or channels
+   */
+  static async updateThreshold(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId, thresholdId } = req.params;
+      const existing = await AlertsController.findThreshold(res, brandId!, thresholdId!);
+      if (!existing) {
+        return;
+      }
+
+      const updates = validateSchema<Partial<AlertConfig>>(updateAlertThresholdSchema, req.body);
+      validateSchema(alertRuleSchema, AlertsController.ruleAfterUpdate(existing, updates));
+      const threshold = await AlertsController.alertService.updateAlertThreshold(thresholdId!, updates);
+
+      res.json({
+        message: 'Alert threshold updated successfully',
+        threshold
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to update alert threshold');
+    }
+  }
+
+  /**
+   * Deactivate an alert threshold
+   */
+  static async deleteThreshold(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId, thresholdId } = req.params;
+      if (!await AlertsController.findThreshold(res, brandId!, thresholdId!)) {
+        return;
+      }
+
+      await AlertsController.alertService.deleteAlertThreshold(thresholdId!);
+
+      res.json({
+        message: 'Alert threshold deleted successfully'
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to delete alert threshold');
+    }
+  }
+
+  /**
+   * List a brand's alerts, newest first, by severity and acknowledged or resolved state
+   */
+  static async getAlerts(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const filters = validateSchema<{
+        severity?: string;
+        acknowledged?: boolean;
+        resolved?: boolean;
+        limit: number;
+        offset: number;
+      }>(alertFiltersSchema, req.query);
+
+      const alerts = await AlertsController.alertService.getAlerts(brandId!, filters);
+
+      res.json({
+        brand_id: brandId,
+        alerts,
+        pagination: {
+          limit: filters.limit,
+          offset: filters.offset
+        }
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to get alerts');
+    }
+  }
+
+  /**
+   * Count a brand's alerts by severity and state
+   */
+  static async getStatistics(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const statistics = await AlertsController.alertService.getAlertStatistics(brandId!);
+
+      res.json({
+        brand_id: brandId,
+        statistics
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to get alert statistics');
+    }
+  }
+
+  /**
+   * Mark an alert as seen by the current user
+   */
+  static async acknowledgeAlert(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      const { brandId, alertId } = req.params;
+      if (!await AlertsController.findAlert(res, brandId!, alertId!)) {
+        return;
+      }
+
+      const alert = await AlertsController.alertService.acknowledgeAlert(alertId!, req.user.userId);
+
+      res.json({
+        message: 'Alert acknowledged successfully',
+        alert
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to acknowledge alert');
+    }
+  }
+
+  /**
+   * Close an alert
+   */
+  static async resolveAlert(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId, alertId } = req.params;
+      if (!await AlertsController.findAlert(res, brandId!, alertId!)) {
+        return;
+      }
+
+      const alert = await AlertsController.alertService.resolveAlert(alertId!);
+
+      res.json({
+        message: 'Alert resolved successfully',
+        alert
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to resolve alert');
+    }
+  }
+
+  /**
+   * An alert's escalation audit trail: each tier scheduled, notified or stopped, and its acknowledgement
+   */
+  static async getEscalations(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId, alertId } = req.params;
+      if (!await AlertsController.findAlert(res, brandId!, alertId!)) {
+        return;
+      }
+
+      const escalations = await EscalationPolicyModel.getEvents(alertId!);
+
+      res.json({
+        alert_id: alertId,
+        escalations
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to get alert escalations');
+    }
+  }
+
+  /**
+   * List a brand's incidents of grouped alerts, most recently active first
+   */
+  static async getIncidents(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const filters = validateSchema<{
+        status?: AlertIncident['status'];
+        limit: number;
+        offset: number;
+      }>(incidentFiltersSchema, req.query);
+
+      const incidents = await AlertIncidentModel.getByBrand(brandId!, filters);
+
+      res.json({
+        brand_id: brandId,
+        incidents,
+        pagination: {
+          limit: filters.limit,
+          offset: filters.offset
+        }
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to get alert incidents');
+    }
+  }
+
+  /**
+   * Get an incident with its alerts and timeline
+   */
+  static async getIncident(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId, incidentId } = req.params;
+      const incident = await AlertsController.findIncident(res, brandId!, incidentId!);
+      if (!incident) {
+        return;
+      }
+
+      const alerts = await AlertIncidentModel.getAlerts(incident.id);
+      const timeline = await AlertIncidentModel.getTimeline(incident, alerts);
+
+      res.json({
+        incident,
+        alerts,
+        timeline
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to get alert incident');
+    }
+  }
+
+  /**
+   * Resolve an incident along with its alerts
+   */
+  static async resolveIncident(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      const { brandId, incidentId } = req.params;
+      if (!await AlertsController.findIncident(res, brandId!, incidentId!)) {
+        return;
+      }
+
+      const { incident, alerts_resolved } = await AlertIncidentModel.resolve(incidentId!, req.user.userId);
+
+      res.json({
+        message: 'Alert incident resolved successfully',
+        incident,
+        alerts_resolved
+      });
+    } catch (error) {
+      AlertsController.handleError(res, error, 'Failed to resolve alert incident');
+    }
+  }
+
+  /**
+   * The detection rule a threshold will have once the updates apply. A new
+   * detection method drops the settings of the old one, so they are not kept
+   * into a rule that forbids them; static and anomaly rules share their
+   * metric and operator.
+   */
+  private static ruleAfterUpdate(existing: AlertThreshold, updates: Partial<AlertConfig>): Partial<AlertConfig> {
+    const method = updates.detection_method;
+    if (method === undefined || method === existing.detection_method) {
+      return { ...existing, ...updates };
+    }
+
+    const sharesSettings = method !== 'composite' && existing.detection_method !== 'composite';
+    return {
+      ...(sharesSettings && {
+        metric_type: existing.metric_type,
+        ...(existing.comparison_operator && { comparison_operator: existing.comparison_operator })
+      }),
+      ...updates
+    };
+  }
+
+  /**
+   * Respond 404 and return null unless the threshold is active and belongs to the brand
+   */
+  private static async findThreshold(
+    res: Response,
+    brandId: string,
+    thresholdId: string
+  ): Promise<AlertThreshold | null> {
+    const threshold = await AlertsController.alertService.getAlertThreshold(thresholdId);
+    if (!threshold || threshold.brand_id !== brandId) {
+      res.status(404).json({
+        error: 'Alert threshold not found',
+        message: `Alert threshold with ID ${thresholdId} not found`
+      });
+      return null;
+    }
+    return threshold;
+  }
+
+  /**
+   * Respond 404 and return null unless the incident belongs to the brand
+   */
+  private static async findIncident(
+    res: Response,
+    brandId: string,
+    incidentId: string
+  ): Promise<AlertIncident | null> {
+    const incident = await AlertIncidentModel.findById(incidentId);
+    if (!incident || incident.brand_id !== brandId) {
+      res.status(404).json({
+        error: 'Alert incident not found',
+        message: `Alert incident with ID ${incidentId} not found`
+      });
+      return null;
+    }
+    return incident;
+  }
+
+  /**
+   * Respond 404 and return null unless the alert belongs to the brand
+   */
+  private static async findAlert(res: Response, brandId: string, alertId: string): Promise<Alert | null> {
+    const alert = await AlertsController.alertService.getAlert(alertId);
+    if (!alert || alert.brand_id !== brandId) {
+      res.status(404).json({
+        error: 'Alert not found',
+        message: `Alert with ID ${alertId} not found`
+      });
+      return null;
+    }
+    return alert;
+  }
+
+  private static handleError(res: Response, error: unknown, fallbackError: string): void {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation error')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    console.error(`${fallbackError}:`, error);
+    res.status(500).json({
+      error: fallbackError,
+      message: 'Internal server error'
+    });
+  }
+}
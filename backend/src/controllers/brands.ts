@@ -1,8 +1,14 @@
 import { Request, Response } from 'express';
 import { BrandModel } from '../models/Brand';
 import { UserModel } from '../models/User';
+import { FactCheckFindingModel } from '../models/FactCheckFinding';
+import { FactCheckType } from '../types/database';
 import { validateSchema, createBrandSchema, updateBrandSchema, paginationSchema } from '../models/validation';
 
+const FACT_CHECK_TYPES: FactCheckType[] = [
+  'founded_year', 'headquarters', 'founder', 'executive', 'pricing', 'discontinued_item'
+];
+
 export class BrandController {
   /**
    * Create a new brand
@@ -519,6 +525,138 @@ export class BrandController {
     }
   }
 
+  /**
+   * Replace the brand's fact sheet
+   */
+  static async updateFactSheet(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+
+      if (!brandId) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Brand ID is required'
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      // Check if user has edit access to this brand
+      const hasAccess = req.user.role === 'admin' || 
+        await UserModel.hasAccessToBrand(req.user.userId, brandId, 'editor');
+
+      if (!hasAccess) {
+        res.status(403).json({
+          error: 'Access denied',
+          message: 'You need editor or owner access to update the fact sheet'
+        });
+        return;
+      }
+
+      const updatedBrand = await BrandModel.updateFactSheet(brandId, req.body);
+
+      res.json({
+        message: 'Fact sheet updated successfully',
+        fact_sheet: updatedBrand.fact_sheet
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('Validation error')) {
+          res.status(400).json({
+            error: 'Invalid fact sheet',
+            message: error.message
+          });
+          return;
+        }
+
+        if (error.message.includes('not found')) {
+          res.status(404).json({
+            error: 'Brand not found',
+            message: error.message
+          });
+          return;
+        }
+      }
+
+      res.status(500).json({
+        error: 'Failed to update fact sheet',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Get sentences in AI responses that contradicted the brand's fact sheet
+   */
+  static async getFactCheckFindings(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const days = parseInt(req.query.days as string) || 30;
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const findingType = req.query.type as string | undefined;
+
+      if (!brandId) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Brand ID is required'
+        });
+        return;
+      }
+
+      if (!req.user) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated'
+        });
+        return;
+      }
+
+      if (findingType !== undefined && !FACT_CHECK_TYPES.includes(findingType as FactCheckType)) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: `Type must be one of: ${FACT_CHECK_TYPES.join(', ')}`
+        });
+        return;
+      }
+
+      // Check if user has access to this brand
+      const hasAccess = req.user.role === 'admin' || 
+        await UserModel.hasAccessToBrand(req.user.userId, brandId);
+
+      if (!hasAccess) {
+        res.status(403).json({
+          error: 'Access denied',
+          message: 'You do not have access to this brand'
+        });
+        return;
+      }
+
+      const [findings, counts] = await Promise.all([
+        FactCheckFindingModel.getForBrand(brandId, days, findingType as FactCheckType | undefined, limit),
+        FactCheckFindingModel.countByType(brandId, days)
+      ]);
+
+      res.json({
+        brand_id: brandId,
+        period_days: days,
+        counts,
+        findings
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to get fact check findings',
+        message: 'Internal server error'
+      });
+    }
+  }
+
   /**
    * Search brands
    */
@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import { BudgetService } from '../services/BudgetService';
+import { MonitoringSchedulerService } from '../services/MonitoringSchedulerService';
+
+export class BudgetsController {
+  private static budgetService: BudgetService;
+  private static schedulerService: MonitoringSchedulerService;
+
+  static initialize(schedulerService: MonitoringSchedulerService, budgetService: BudgetService): void {
+    BudgetsController.schedulerService = schedulerService;
+    BudgetsController.budgetService = budgetService;
+  }
+
+  /**
+   * Get this month's spend against the budgets that apply to a brand
+   */
+  static async getBrandBudget(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const status = await BudgetsController.budgetService.getBudgetStatus(brandId!);
+
+      res.json({
+        brand_id: brandId,
+        within_budget: status.within_budget,
+        budgets: status.budgets
+      });
+    } catch (error) {
+      BudgetsController.handleError(res, error, 'Failed to get budget');
+    }
+  }
+
+  /**
+   * Set a brand's monthly spend budget
+   */
+  static async setBrandBudget(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const { monthly_limit, is_active } = req.body;
+
+      const budget = await BudgetsController.budgetService.setBudget({
+        scope: 'brand',
+        brand_id: brandId!,
+        monthly_limit,
+        ...(is_active !== undefined && { is_active }),
+        ...(req.user && { created_by: req.user.userId })
+      });
+      const resumed = await BudgetsController.schedulerService.resumeBudgetPausedSchedules();
+
+      res.json({
+        message: 'Spend budget saved successfully',
+        budget,
+        resumed_schedules: resumed.length
+      });
+    } catch (error) {
+      BudgetsController.handleError(res, error, 'Failed to save budget');
+    }
+  }
+
+  /**
+   * Remove a brand's monthly spend budget
+   */
+  static async deleteBrandBudget(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+
+      await BudgetsController.budgetService.deleteBudget('brand', brandId!);
+      const resumed = await BudgetsController.schedulerService.resumeBudgetPausedSchedules();
+
+      res.json({
+        message: 'Spend budget deleted successfully',
+        resumed_schedules: resumed.length
+      });
+    } catch (error) {
+      BudgetsController.handleError(res, error, 'Failed to delete budget');
+    }
+  }
+
+  /**
+   * Get this month's spend across all brands against the organization budget
+   */
+  static async getOrganizationBudget(_req: Request, res: Response): Promise<void> {
+    try {
+      const status = await BudgetsController.budgetService.getOrganizationStatus();
+
+      res.json({
+        budget: status
+      });
+    } catch (error) {
+      BudgetsController.handleError(res, error, 'Failed to get budget');
+    }
+  }
+
+  /**
+   * Set the organization-wide monthly spend budget
+   */
+  static async setOrganizationBudget(req: Request, res: Response): Promise<void> {
+    try {
+      const { monthly_limit, is_active } = req.body;
+
+      const budget = await BudgetsController.budgetService.setBudget({
+        scope: 'organization',
+        monthly_limit,
+        ...(is_active !== undefined && { is_active }),
+        ...(req.user && { created_by: req.user.userId })
+      });
+      const resumed = await BudgetsController.schedulerService.resumeBudgetPausedSchedules();
+
+      res.json({
+        message: 'Spend budget saved successfully',
+        budget,
+        resumed_schedules: resumed.length
+      });
+    } catch (error) {
+      BudgetsController.handleError(res, error, 'Failed to save budget');
+    }
+  }
+
+  /**
+   * Remove the organization-wide monthly spend budget
+   */
+  static async deleteOrganizationBudget(_req: Request, res: Response): Promise<void> {
+    try {
+      await BudgetsController.budgetService.deleteBudget('organization');
+      const resumed = await BudgetsController.schedulerService.resumeBudgetPausedSchedules();
+
+      res.json({
+        message: 'Spend budget deleted successfully',
+        resumed_schedules: resumed.length
+      });
+    } catch (error) {
+      BudgetsController.handleError(res, error, 'Failed to delete budget');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, fallbackError: string): void {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation error')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Budget not found',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    console.error(`${fallbackError}:`, error);
+    res.status(500).json({
+      error: fallbackError,
+      message: 'Internal server error'
+    });
+  }
+}
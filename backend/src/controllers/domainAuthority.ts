@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { DomainAuthorityModel } from '../models/DomainAuthority';
+import { DomainAuthorityService, domainAuthority } from '../services/DomainAuthority';
+
+export class DomainAuthorityController {
+  /**
+   * List domain authority entries, most cited first
+   */
+  static async listDomains(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const search = req.query.search as string | undefined;
+
+      const { domains, total } = await DomainAuthorityModel.list({
+        limit,
+        offset,
+        ...(search && { search })
+      });
+
+      res.json({
+        domains,
+        pagination: {
+          total,
+          limit,
+          offset,
+          has_more: offset + limit < total
+        }
+      });
+    } catch (error) {
+      DomainAuthorityController.handleError(res, error, 'Failed to get domain authority');
+    }
+  }
+
+  /**
+   * Get one domain's entry, or the score it would get without one
+   */
+  static async getDomain(req: Request, res: Response): Promise<void> {
+    try {
+      const domain = DomainAuthorityService.normalize(req.params.domain!);
+      const entry = await DomainAuthorityModel.findByDomain(domain);
+
+      res.json({
+        domain,
+        authority_score: domainAuthority.score(domain),
+        entry
+      });
+    } catch (error) {
+      DomainAuthorityController.handleError(res, error, 'Failed to get domain authority');
+    }
+  }
+
+  /**
+   * Set an admin's authority score for a domain
+   */
+  static async setDomain(req: Request, res: Response): Promise<void> {
+    try {
+      const { authority_score, notes } = req.body;
+
+      const entry = await DomainAuthorityModel.setManualScore({
+        domain: DomainAuthorityService.normalize(req.params.domain!),
+        authority_score,
+        ...(notes !== undefined && { notes }),
+        ...(req.user && { updated_by: req.user.userId })
+      });
+      await domainAuthority.load();
+
+      res.json({
+        message: 'Domain authority saved successfully',
+        domain: entry
+      });
+    } catch (error) {
+      DomainAuthorityController.handleError(res, error, 'Failed to save domain authority');
+    }
+  }
+
+  /**
+   * Clear an admin's score so the learned score applies again
+   */
+  static async clearDomain(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await DomainAuthorityModel.clearManualScore(DomainAuthorityService.normalize(req.params.domain!));
+      if (!entry) {
+        throw new Error('Domain not found');
+      }
+      await domainAuthority.load();
+
+      res.json({
+        message: 'Domain authority override cleared successfully',
+        domain: entry
+      });
+    } catch (error) {
+      DomainAuthorityController.handleError(res, error, 'Failed to clear domain authority');
+    }
+  }
+
+  /**
+   * Re-learn scores from citation frequency now, rather than at the nightly run
+   */
+  static async learn(_req: Request, res: Response): Promise<void> {
+    try {
+      const summary = await domainAuthority.learn();
+
+      res.json({
+        message: 'Domain authority learned successfully',
+        ...summary
+      });
+    } catch (error) {
+      DomainAuthorityController.handleError(res, error, 'Failed to learn domain authority');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, fallbackError: string): void {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation error')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Domain not found',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    console.error(`${fallbackError}:`, error);
+    res.status(500).json({
+      error: fallbackError,
+      message: 'Internal server error'
+    });
+  }
+}
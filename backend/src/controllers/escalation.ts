@@ -0,0 +1,238 @@
+import { Request, Response } from 'express';
+import { EscalationPolicyModel } from '../models/EscalationPolicy';
+import { OnCallRotationModel } from '../models/OnCallRotation';
+import {
+  CreateOnCallRotationInput,
+  EscalationStep,
+  OnCallRotation,
+  UpsertEscalationPolicyInput
+} from '../types/database';
+import {
+  validateSchema,
+  createOnCallRotationSchema,
+  upsertEscalationPolicySchema,
+  updateOnCallRotationSchema
+} from '../models/validation';
+
+export class EscalationController {
+  /**
+   * Get a brand's escalation policy
+   */
+  static async getPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const policy = await EscalationPolicyModel.findByBrand(brandId!);
+
+      res.json({
+        brand_id: brandId,
+        policy
+      });
+    } catch (error) {
+      EscalationController.handleError(res, error, 'Failed to get escalation policy');
+    }
+  }
+
+  /**
+   * Set a brand's escalation policy. Its users must belong to the brand and
+   * its rotations be the brand's own.
+   */
+  static async setPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const policyData = validateSchema<UpsertEscalationPolicyInput>(upsertEscalationPolicySchema, {
+        ...req.body,
+        brand_id: brandId,
+        ...(req.user && { created_by: req.user.userId })
+      });
+
+      await EscalationController.checkSteps(brandId!, policyData.steps);
+      const policy = await EscalationPolicyModel.upsert(policyData);
+
+      res.json({
+        message: 'Escalation policy saved successfully',
+        policy
+      });
+    } catch (error) {
+      EscalationController.handleError(res, error, 'Failed to save escalation policy');
+    }
+  }
+
+  /**
+   * Remove a brand's escalation policy
+   */
+  static async deletePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+
+      await EscalationPolicyModel.delete(brandId!);
+
+      res.json({
+        message: 'Escalation policy deleted successfully'
+      });
+    } catch (error) {
+      EscalationController.handleError(res, error, 'Failed to delete escalation policy');
+    }
+  }
+
+  /**
+   * List a brand's on-call rotations, with who is on call in each now
+   */
+  static async getRotations(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const rotations = await OnCallRotationModel.getByBrand(brandId!);
+
+      res.json({
+        brand_id: brandId,
+        rotations: rotations.map(rotation => ({
+          ...rotation,
+          on_call_user_id: OnCallRotationModel.getOnCallUserId(rotation) || null
+        }))
+      });
+    } catch (error) {
+      EscalationController.handleError(res, error, 'Failed to get on-call rotations');
+    }
+  }
+
+  /**
+   * Add an on-call rotation of the brand's users
+   */
+  static async createRotation(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const rotationData = validateSchema<CreateOnCallRotationInput>(createOnCallRotationSchema, {
+        ...req.body,
+        brand_id: brandId,
+        ...(req.user && { created_by: req.user.userId })
+      });
+
+      await EscalationController.checkMembers(brandId!, rotationData.user_ids);
+      const rotation = await OnCallRotationModel.create(rotationData);
+
+      res.status(201).json({
+        message: 'On-call rotation created successfully',
+        rotation
+      });
+    } catch (error) {
+      EscalationController.handleError(res, error, 'Failed to create on-call rotation');
+    }
+  }
+
+  /**
+   * Change an on-call rotation's users or shifts
+   */
+  static async updateRotation(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId, rotationId } = req.params;
+      if (!await EscalationController.findRotation(res, brandId!, rotationId!)) {
+        return;
+      }
+
+      const updates = validateSchema<Partial<CreateOnCallRotationInput>>(updateOnCallRotationSchema, req.body);
+      if (updates.user_ids) {
+        await EscalationController.checkMembers(brandId!, updates.user_ids);
+      }
+
+      const rotation = await OnCallRotationModel.update(rotationId!, updates);
+
+      res.json({
+        message: 'On-call rotation updated successfully',
+        rotation
+      });
+    } catch (error) {
+      EscalationController.handleError(res, error, 'Failed to update on-call rotation');
+    }
+  }
+
+  /**
+   * Deactivate an on-call rotation. Policy steps that name it notify only
+   * their own users, or every user of the brand without any.
+   */
+  static async deleteRotation(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId, rotationId } = req.params;
+      if (!await EscalationController.findRotation(res, brandId!, rotationId!)) {
+        return;
+      }
+
+      await OnCallRotationModel.delete(rotationId!);
+
+      res.json({
+        message: 'On-call rotation deleted successfully'
+      });
+    } catch (error) {
+      EscalationController.handleError(res, error, 'Failed to delete on-call rotation');
+    }
+  }
+
+  /**
+   * Reject steps that name users outside the brand or another brand's rotation
+   */
+  private static async checkSteps(brandId: string, steps: EscalationStep[]): Promise<void> {
+    await EscalationController.checkMembers(brandId, [
+      ...new Set(steps.flatMap(step => step.user_ids || []))
+    ]);
+
+    for (const step of steps) {
+      if (!step.rotation_id) {
+        continue;
+      }
+      const rotation = await OnCallRotationModel.findById(step.rotation_id);
+      if (!rotation || rotation.brand_id !== brandId) {
+        throw new Error(`Validation error: On-call rotation ${step.rotation_id} does not belong to the brand`);
+      }
+    }
+  }
+
+  private static async checkMembers(brandId: string, userIds: string[]): Promise<void> {
+    const nonMembers = await OnCallRotationModel.getNonMembers(brandId, userIds);
+    if (nonMembers.length > 0) {
+      throw new Error(`Validation error: Users ${nonMembers.join(', ')} are not users of the brand`);
+    }
+  }
+
+  /**
+   * Respond 404 and return null unless the rotation is active and belongs to the brand
+   */
+  private static async findRotation(
+    res: Response,
+    brandId: string,
+    rotationId: string
+  ): Promise<OnCallRotation | null> {
+    const rotation = await OnCallRotationModel.findById(rotationId);
+    if (!rotation || rotation.brand_id !== brandId) {
+      res.status(404).json({
+        error: 'On-call rotation not found',
+        message: `On-call rotation with ID ${rotationId} not found`
+      });
+      return null;
+    }
+    return rotation;
+  }
+
+  private static handleError(res: Response, error: unknown, fallbackError: string): void {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation error')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    console.error(`${fallbackError}:`, error);
+    res.status(500).json({
+      error: fallbackError,
+      message: 'Internal server error'
+    });
+  }
+}
@@ -1,121 +1,132 @@
 import { Request, Response } from 'express';
 import { BrandMonitoringService } from '../services/BrandMonitoringService';
+import { MonitoringSchedulerService } from '../services/MonitoringSchedulerService';
 import { UserModel } from '../models/User';
 import { BrandModel } from '../models/Brand';
+import { AIResponseModel } from '../models/AIResponse';
+import { ResponseDiff, ResponseDiffSide } from '../services/ResponseDiff';
+import { AIResponse } from '../types/database';
 
 export class MonitoringController {
-  private static brandMonitoringService = new BrandMonitoringService();
+  private static brandMonitoringService: BrandMonitoringService;
+  private static schedulerService: MonitoringSchedulerService;
+
+  static initialize(
+    schedulerService: MonitoringSchedulerService,
+    brandMonitoringService: BrandMonitoringService
+  ): void {
+    MonitoringController.schedulerService = schedulerService;
+    MonitoringController.brandMonitoringService = brandMonitoringService;
+  }
 
   /**
-   * Execute brand monitoring for a specific brand
+   * Start a monitoring run for a brand. The run executes in the background;
+   * progress can be polled via getRun or received over Socket.IO.
    */
   static async monitorBrand(req: Request, res: Response): Promise<void> {
     try {
       const { brandId } = req.params;
-      const { queryTypes } = req.body;
+      const { queryTypes, modelNames, samples, temperature } = req.body;
 
-      if (!brandId) {
+      if (queryTypes !== undefined && !Array.isArray(queryTypes)) {
         res.status(400).json({
           error: 'Bad request',
-          message: 'Brand ID is required'
+          message: 'queryTypes must be an array'
         });
         return;
       }
 
-      if (!req.user) {
-        res.status(401).json({
-          error: 'Authentication required',
-          message: 'User not authenticated'
+      if (modelNames !== undefined && !Array.isArray(modelNames)) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'modelNames must be an array'
         });
         return;
       }
 
-      // Check if user has access to this brand
-      const hasAccess = req.user.role === 'admin' || 
-        await UserModel.hasAccessToBrand(req.user.userId, brandId);
+      if (samples !== undefined && (!Number.isInteger(samples) || samples < 1 || samples > 10)) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'samples must be an integer between 1 and 10'
+        });
+        return;
+      }
 
-      if (!hasAccess) {
-        res.status(403).json({
-          error: 'Access denied',
-          message: 'You do not have access to this brand'
+      if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'temperature must be a number between 0 and 2'
         });
         return;
       }
 
-      // Execute monitoring
-      const result = await MonitoringController.brandMonitoringService.monitorBrand(
-        brandId, 
-        queryTypes
-      );
+      const brand = await BrandModel.findById(brandId!);
+      if (!brand) {
+        res.status(404).json({
+          error: 'Brand not found',
+          message: 'Brand does not exist'
+        });
+        return;
+      }
 
-      res.json({
-        message: 'Brand monitoring completed successfully',
-        result: {
-          brand_id: result.brand_id,
-          visibility_score: result.visibility_score,
-          response_count: result.ai_responses.length,
-          citation_count: result.citations.length,
-          mention_count: result.mentions.length,
-          timestamp: result.timestamp
-        }
+      const run = await MonitoringController.schedulerService.startRun(brandId!, {
+        ...(queryTypes && { queryTypes }),
+        ...(modelNames && { modelNames }),
+        ...(samples !== undefined && { samples }),
+        ...(temperature !== undefined && { temperature }),
+        ...(req.user && { requestedBy: req.user.userId })
       });
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('not found')) {
-          res.status(404).json({
-            error: 'Brand not found',
-            message: error.message
-          });
-          return;
-        }
-      }
 
-      console.error('Brand monitoring failed:', error);
+      res.status(202).json({
+        message: 'Brand monitoring run queued',
+        run_id: run.id,
+        run
+      });
+    } catch (error) {
+      console.error('Failed to start brand monitoring:', error);
       res.status(500).json({
         error: 'Monitoring failed',
-        message: 'Internal server error during brand monitoring'
+        message: 'Internal server error while starting brand monitoring'
       });
     }
   }
 
   /**
-   * Get visibility trends for a brand
+   * Get the status and progress of a monitoring run
    */
-  static async getVisibilityTrends(req: Request, res: Response): Promise<void> {
+  static async getRun(req: Request, res: Response): Promise<void> {
     try {
-      const { brandId } = req.params;
-      const { days = 30 } = req.query;
-
-      if (!brandId) {
-        res.status(400).json({
-          error: 'Bad request',
-          message: 'Brand ID is required'
-        });
-        return;
-      }
+      const { brandId, runId } = req.params;
+      const run = await MonitoringController.schedulerService.getRun(runId!);
 
-      if (!req.user) {
-        res.status(401).json({
-          error: 'Authentication required',
-          message: 'User not authenticated'
+      if (!run || run.brand_id !== brandId) {
+        res.status(404).json({
+          error: 'Run not found',
+          message: 'Monitoring run does not exist for this brand'
         });
         return;
       }
 
-      // Check if user has access to this brand
-      const hasAccess = req.user.role === 'admin' || 
-        await UserModel.hasAccessToBrand(req.user.userId, brandId);
+      res.json({ run });
+    } catch (error) {
+      console.error('Failed to get monitoring run:', error);
+      res.status(500).json({
+        error: 'Failed to get run',
+        message: 'Internal server error'
+      });
+    }
+  }
 
-      if (!hasAccess) {
-        res.status(403).json({
-          error: 'Access denied',
-          message: 'You do not have access to this brand'
-        });
-        return;
-      }
+  /**
+   * Get visibility trends for a brand
+   */
+  static async getVisibilityTrends(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const { days = 30 } = req.query;
 
       const trends = await MonitoringController.brandMonitoringService.getVisibilityTrends(
-        brandId,
+        brandId!,
         Number(days)
       );
 
@@ -142,14 +153,6 @@ export class MonitoringController {
       const { brandId } = req.params;
       const { competitors, days = 7 } = req.body;
 
-      if (!brandId) {
-        res.status(400).json({
-          error: 'Bad request',
-          message: 'Brand ID is required'
-        });
-        return;
-      }
-
       if (!Array.isArray(competitors) || competitors.length === 0) {
         res.status(400).json({
           error: 'Bad request',
@@ -158,28 +161,8 @@ export class MonitoringController {
         return;
       }
 
-      if (!req.user) {
-        res.status(401).json({
-          error: 'Authentication required',
-          message: 'User not authenticated'
-        });
-        return;
-      }
-
-      // Check if user has access to this brand
-      const hasAccess = req.user.role === 'admin' || 
-        await UserModel.hasAccessToBrand(req.user.userId, brandId);
-
-      if (!hasAccess) {
-        res.status(403).json({
-          error: 'Access denied',
-          message: 'You do not have access to this brand'
-        });
-        return;
-      }
-
       const comparison = await MonitoringController.brandMonitoringService.compareWithCompetitors(
-        brandId,
+        brandId!,
         competitors,
         Number(days)
       );
@@ -200,11 +183,11 @@ export class MonitoringController {
   }
 
   /**
-   * Batch monitor multiple brands
+   * Queue monitoring runs for multiple brands
    */
   static async batchMonitorBrands(req: Request, res: Response): Promise<void> {
     try {
-      const { brandIds } = req.body;
+      const { brandIds, queryTypes } = req.body;
 
       if (!Array.isArray(brandIds) || brandIds.length === 0) {
         res.status(400).json({
@@ -222,16 +205,16 @@ export class MonitoringController {
         return;
       }
 
-      // Check access to all brands
+      // Check editor access to all brands; the router cannot guard a list of brands
       const accessChecks = await Promise.all(
         brandIds.map(async (brandId: string) => {
           if (req.user!.role === 'admin') return true;
-          return await UserModel.hasAccessToBrand(req.user!.userId, brandId);
+          return await UserModel.hasAccessToBrand(req.user!.userId, brandId, 'editor');
         })
       );
 
       const unauthorizedBrands = brandIds.filter((_, index) => !accessChecks[index]);
-      
+
       if (unauthorizedBrands.length > 0) {
         res.status(403).json({
           error: 'Access denied',
@@ -240,17 +223,22 @@ export class MonitoringController {
         return;
       }
 
-      // Execute batch monitoring
-      const results = await MonitoringController.brandMonitoringService.batchMonitorBrands(brandIds);
+      const runs = await Promise.all(
+        brandIds.map((brandId: string) =>
+          MonitoringController.schedulerService.startRun(brandId, {
+            ...(Array.isArray(queryTypes) && { queryTypes }),
+            requestedBy: req.user!.userId
+          })
+        )
+      );
 
-      res.json({
-        message: 'Batch monitoring completed',
+      res.status(202).json({
+        message: 'Batch monitoring runs queued',
         total_brands: brandIds.length,
-        successful_monitors: results.length,
-        results: results.map(result => ({
-          brand_id: result.brand_id,
-          visibility_score: result.visibility_score,
-          timestamp: result.timestamp
+        runs: runs.map(run => ({
+          run_id: run.id,
+          brand_id: run.brand_id,
+          status: run.status
         }))
       });
     } catch (error) {
@@ -269,36 +257,8 @@ export class MonitoringController {
     try {
       const { brandId } = req.params;
 
-      if (!brandId) {
-        res.status(400).json({
-          error: 'Bad request',
-          message: 'Brand ID is required'
-        });
-        return;
-      }
-
-      if (!req.user) {
-        res.status(401).json({
-          error: 'Authentication required',
-          message: 'User not authenticated'
-        });
-        return;
-      }
-
-      // Check if user has access to this brand
-      const hasAccess = req.user.role === 'admin' || 
-        await UserModel.hasAccessToBrand(req.user.userId, brandId);
-
-      if (!hasAccess) {
-        res.status(403).json({
-          error: 'Access denied',
-          message: 'You do not have access to this brand'
-        });
-        return;
-      }
-
       // Get brand details
-      const brand = await BrandModel.findById(brandId);
+      const brand = await BrandModel.findById(brandId!);
       if (!brand) {
         res.status(404).json({
           error: 'Brand not found',
@@ -308,16 +268,16 @@ export class MonitoringController {
       }
 
       // Get recent trends
-      const trends = await MonitoringController.brandMonitoringService.getVisibilityTrends(brandId, 7);
-      
+      const trends = await MonitoringController.brandMonitoringService.getVisibilityTrends(brandId!, 7);
+
       // Get brand statistics
-      const statistics = await BrandModel.getStatistics(brandId);
+      const statistics = await BrandModel.getStatistics(brandId!);
 
       // Calculate current metrics
       const latestMetric = trends.length > 0 ? trends[0] : null;
       const previousMetric = trends.length > 1 ? trends[1] : null;
-      
-      const scoreChange = latestMetric && previousMetric 
+
+      const scoreChange = latestMetric && previousMetric
         ? (latestMetric.overall_score || 0) - (previousMetric.overall_score || 0)
         : 0;
 
@@ -333,6 +293,8 @@ export class MonitoringController {
           ranking_position: latestMetric?.ranking_position || 0,
           mention_frequency: latestMetric?.mention_frequency || 0,
           average_sentiment: latestMetric?.average_sentiment || 0,
+          stability_score: latestMetric?.stability_score ?? null,
+          share_of_recommendation: latestMetric?.share_of_recommendation ?? null,
           score_change: scoreChange
         },
         statistics,
@@ -348,4 +310,113 @@ export class MonitoringController {
       });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * List the latest answer to each prompt from each model that has an
+   * earlier answer to compare it with
+   */
+  static async getResponseComparisons(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const days = parseInt(req.query.days as string) || 30;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      const comparisons = await AIResponseModel.getComparablePairs(brandId!, days, limit);
+
+      res.json({
+        brand_id: brandId,
+        period_days: days,
+        comparisons
+      });
+    } catch (error) {
+      console.error('Failed to get response comparisons:', error);
+      res.status(500).json({
+        error: 'Failed to get comparisons',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Diff an answer against the model's previous answer to the same prompt,
+   * or against the response given as ?previous=
+   */
+  static async getResponseDiff(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId, responseId } = req.params;
+      const previousId = req.query.previous as string | undefined;
+
+      const response = await AIResponseModel.findById(responseId!);
+      if (!response || response.brand_id !== brandId) {
+        res.status(404).json({
+          error: 'Response not found',
+          message: 'AI response does not exist for this brand'
+        });
+        return;
+      }
+
+      const previous = previousId
+        ? await AIResponseModel.findById(previousId)
+        : await AIResponseModel.findPrevious(response);
+      if (previousId && (!previous || previous.brand_id !== brandId)) {
+        res.status(404).json({
+          error: 'Response not found',
+          message: 'Previous AI response does not exist for this brand'
+        });
+        return;
+      }
+
+      if (!previous) {
+        res.json({
+          brand_id: brandId,
+          response,
+          previous: null,
+          diff: null
+        });
+        return;
+      }
+
+      const brand = await BrandModel.findById(brandId!);
+      if (!brand) {
+        res.status(404).json({
+          error: 'Brand not found',
+          message: 'Brand does not exist'
+        });
+        return;
+      }
+
+      const [previousSide, latestSide] = await Promise.all([
+        MonitoringController.loadDiffSide(previous),
+        MonitoringController.loadDiffSide(response)
+      ]);
+
+      res.json({
+        brand_id: brandId,
+        response,
+        previous,
+        diff: ResponseDiff.compare(previousSide, latestSide, brand)
+      });
+    } catch (error) {
+      console.error('Failed to diff AI responses:', error);
+      res.status(500).json({
+        error: 'Failed to diff responses',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  private static async loadDiffSide(response: AIResponse): Promise<ResponseDiffSide> {
+    const [citations, mentions] = await Promise.all([
+      AIResponseModel.getCitations(response.id),
+      AIResponseModel.getBrandMentions(response.id)
+    ]);
+
+    return {
+      response: response.response,
+      citation_urls: citations.map(citation => citation.url),
+      brand_sentiment_scores: mentions
+        .filter(mention => mention.brand_id === response.brand_id && mention.sentiment_score !== null && mention.sentiment_score !== undefined)
+        .map(mention => parseFloat(String(mention.sentiment_score)))
+    };
+  }
+}
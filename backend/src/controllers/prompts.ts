@@ -0,0 +1,220 @@
+import { Request, Response } from 'express';
+import { PromptTemplateModel } from '../models/PromptTemplate';
+import { PromptTemplate } from '../types/database';
+
+/**
+ * Serves both the shared prompt library (routes without a brandId) and brand
+ * overrides (routes with one)
+ */
+export class PromptsController {
+  /**
+   * List the shared library, or the templates that apply to a brand
+   */
+  static async getTemplates(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const templates = await PromptTemplateModel.list(brandId);
+
+      res.json({
+        ...(brandId && { brand_id: brandId }),
+        templates,
+        count: templates.length
+      });
+    } catch (error) {
+      console.error('Failed to get prompt templates:', error);
+      res.status(500).json({
+        error: 'Failed to get prompt templates',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Create a library template, or a brand override, with its first version
+   */
+  static async createTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const { name, description, body, variables } = req.body;
+
+      const template = await PromptTemplateModel.create({
+        name,
+        body,
+        ...(brandId && { brand_id: brandId }),
+        ...(description && { description }),
+        ...(variables && { variables }),
+        ...(req.user && { created_by: req.user.userId })
+      });
+
+      res.status(201).json({
+        message: 'Prompt template created successfully',
+        template
+      });
+    } catch (error) {
+      PromptsController.handleError(res, error, 'Failed to create prompt template');
+    }
+  }
+
+  /**
+   * Get a template with its current version
+   */
+  static async getTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await PromptsController.findTemplate(req, res);
+      if (!template) {
+        return;
+      }
+
+      res.json({ template });
+    } catch (error) {
+      PromptsController.handleError(res, error, 'Failed to get prompt template');
+    }
+  }
+
+  /**
+   * Update a template's description or active flag
+   */
+  static async updateTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const existing = await PromptsController.findTemplate(req, res);
+      if (!existing) {
+        return;
+      }
+
+      const { description, is_active } = req.body;
+      const template = await PromptTemplateModel.update(existing.id, {
+        ...(description !== undefined && { description }),
+        ...(is_active !== undefined && { is_active })
+      });
+
+      res.json({
+        message: 'Prompt template updated successfully',
+        template
+      });
+    } catch (error) {
+      PromptsController.handleError(res, error, 'Failed to update prompt template');
+    }
+  }
+
+  /**
+   * Delete a template and its versions
+   */
+  static async deleteTemplate(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await PromptsController.findTemplate(req, res);
+      if (!template) {
+        return;
+      }
+
+      await PromptTemplateModel.delete(template.id);
+
+      res.json({ message: 'Prompt template deleted successfully' });
+    } catch (error) {
+      PromptsController.handleError(res, error, 'Failed to delete prompt template');
+    }
+  }
+
+  /**
+   * Get a template's version history
+   */
+  static async getVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await PromptsController.findTemplate(req, res);
+      if (!template) {
+        return;
+      }
+
+      const versions = await PromptTemplateModel.getVersions(template.id);
+
+      res.json({
+        template_id: template.id,
+        versions,
+        count: versions.length
+      });
+    } catch (error) {
+      PromptsController.handleError(res, error, 'Failed to get prompt template versions');
+    }
+  }
+
+  /**
+   * Publish a new version of a template
+   */
+  static async createVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const template = await PromptsController.findTemplate(req, res);
+      if (!template) {
+        return;
+      }
+
+      const { body, variables, change_note } = req.body;
+      const version = await PromptTemplateModel.createVersion(template.id, {
+        body,
+        ...(variables && { variables }),
+        ...(change_note && { change_note }),
+        ...(req.user && { created_by: req.user.userId })
+      });
+
+      res.status(201).json({
+        message: 'Prompt template version published successfully',
+        version
+      });
+    } catch (error) {
+      PromptsController.handleError(res, error, 'Failed to publish prompt template version');
+    }
+  }
+
+  /**
+   * Load the template named in the route and make sure it belongs to the
+   * route's brand, or to the library when the route has no brand
+   */
+  private static async findTemplate(req: Request, res: Response): Promise<PromptTemplate | null> {
+    const { brandId, templateId } = req.params;
+    const template = await PromptTemplateModel.findById(templateId!);
+
+    if (!template || (template.brand_id || undefined) !== brandId) {
+      res.status(404).json({
+        error: 'Prompt template not found',
+        message: brandId
+          ? 'Prompt template does not exist for this brand'
+          : 'Prompt template does not exist in the library'
+      });
+      return null;
+    }
+
+    return template;
+  }
+
+  private static handleError(res: Response, error: unknown, fallbackError: string): void {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation error')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message.includes('already exists')) {
+        res.status(409).json({
+          error: 'Prompt template exists',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Prompt template not found',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    console.error(`${fallbackError}:`, error);
+    res.status(500).json({
+      error: fallbackError,
+      message: 'Internal server error'
+    });
+  }
+}
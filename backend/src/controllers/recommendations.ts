@@ -0,0 +1,189 @@
+import { Request, Response } from 'express';
+import { BrandModel } from '../models/Brand';
+import { RecommendationPromptModel } from '../models/RecommendationPrompt';
+import { RecommendationPrompt } from '../types/database';
+
+/**
+ * Industry prompts are managed on routes without a brandId, brand prompts on
+ * routes with one
+ */
+export class RecommendationsController {
+  /**
+   * List industry prompts, optionally for one industry
+   */
+  static async getIndustryPrompts(req: Request, res: Response): Promise<void> {
+    try {
+      const industry = typeof req.query.industry === 'string' ? req.query.industry : undefined;
+      const prompts = await RecommendationPromptModel.listByIndustry(industry);
+
+      res.json({
+        prompts,
+        count: prompts.length
+      });
+    } catch (error) {
+      console.error('Failed to get recommendation prompts:', error);
+      res.status(500).json({
+        error: 'Failed to get recommendation prompts',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Create a prompt for an industry, or for the brand in the route
+   */
+  static async createPrompt(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const { industry, prompt, category } = req.body;
+
+      const created = await RecommendationPromptModel.create({
+        prompt,
+        ...(brandId ? { brand_id: brandId } : { industry }),
+        ...(category && { category }),
+        ...(req.user && { created_by: req.user.userId })
+      });
+
+      res.status(201).json({
+        message: 'Recommendation prompt created successfully',
+        prompt: created
+      });
+    } catch (error) {
+      RecommendationsController.handleError(res, error, 'Failed to create recommendation prompt');
+    }
+  }
+
+  /**
+   * Update a prompt's wording, category or active flag
+   */
+  static async updatePrompt(req: Request, res: Response): Promise<void> {
+    try {
+      const existing = await RecommendationsController.findPrompt(req, res);
+      if (!existing) {
+        return;
+      }
+
+      const { prompt, category, is_active } = req.body;
+      const updated = await RecommendationPromptModel.update(existing.id, {
+        ...(prompt !== undefined && { prompt }),
+        ...(category !== undefined && { category }),
+        ...(is_active !== undefined && { is_active })
+      });
+
+      res.json({
+        message: 'Recommendation prompt updated successfully',
+        prompt: updated
+      });
+    } catch (error) {
+      RecommendationsController.handleError(res, error, 'Failed to update recommendation prompt');
+    }
+  }
+
+  /**
+   * Delete a prompt
+   */
+  static async deletePrompt(req: Request, res: Response): Promise<void> {
+    try {
+      const prompt = await RecommendationsController.findPrompt(req, res);
+      if (!prompt) {
+        return;
+      }
+
+      await RecommendationPromptModel.delete(prompt.id);
+
+      res.json({ message: 'Recommendation prompt deleted successfully' });
+    } catch (error) {
+      RecommendationsController.handleError(res, error, 'Failed to delete recommendation prompt');
+    }
+  }
+
+  /**
+   * Get the prompts a brand is measured with and its recent share of
+   * recommendation
+   */
+  static async getBrandRecommendations(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const days = parseInt(req.query.days as string) || 30;
+
+      if (days < 1 || days > 365) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'days must be between 1 and 365'
+        });
+        return;
+      }
+
+      const brand = await BrandModel.findById(brandId!);
+      if (!brand) {
+        res.status(404).json({
+          error: 'Brand not found',
+          message: 'Brand does not exist'
+        });
+        return;
+      }
+
+      const [prompts, summary] = await Promise.all([
+        RecommendationPromptModel.getForBrand(brand.id, brand.industry, false),
+        RecommendationPromptModel.getSummary(brand.id, days)
+      ]);
+
+      res.json({
+        brand_id: brand.id,
+        industry: brand.industry || null,
+        period_days: days,
+        prompts,
+        summary
+      });
+    } catch (error) {
+      RecommendationsController.handleError(res, error, 'Failed to get recommendations');
+    }
+  }
+
+  /**
+   * Load the prompt named in the route and make sure it belongs to the
+   * route's brand, or is an industry prompt when the route has no brand
+   */
+  private static async findPrompt(req: Request, res: Response): Promise<RecommendationPrompt | null> {
+    const { brandId, promptId } = req.params;
+    const prompt = await RecommendationPromptModel.findById(promptId!);
+
+    if (!prompt || (prompt.brand_id || undefined) !== brandId) {
+      res.status(404).json({
+        error: 'Recommendation prompt not found',
+        message: brandId
+          ? 'Recommendation prompt does not exist for this brand'
+          : 'Industry recommendation prompt does not exist'
+      });
+      return null;
+    }
+
+    return prompt;
+  }
+
+  private static handleError(res: Response, error: unknown, fallbackError: string): void {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation error')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Recommendation prompt not found',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    console.error(`${fallbackError}:`, error);
+    res.status(500).json({
+      error: fallbackError,
+      message: 'Internal server error'
+    });
+  }
+}
@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { PerformanceReportingService, ReportTimeRange, ExportOptions } from '../services/PerformanceReportingService';
 import { UserModel } from '../models/User';
+import { MentionAspectModel, AspectTrendPeriod, AspectSource } from '../models/MentionAspect';
+import { CitationModel, SourceTrendPeriod } from '../models/Citation';
+import { AIResponseModel } from '../models/AIResponse';
+import { domainAuthority } from '../services/DomainAuthority';
+import { MENTION_ASPECTS } from '../types/ai';
 
 export class ReportsController {
   private static performanceReportingService = new PerformanceReportingService();
@@ -274,6 +279,7 @@ export class ReportsController {
       res.json({
         periods: ['daily', 'weekly', 'monthly'],
         formats: ['json', 'csv', 'pdf'],
+        aspects: MENTION_ASPECTS,
         default_period: 'daily',
         default_format: 'json',
         max_date_range_days: {
@@ -368,4 +374,224 @@ export class ReportsController {
       });
     }
   }
+
+  /**
+   * Get sentiment per mention aspect (pricing, support, ...) over time for a brand
+   */
+  static async getAspectSentimentTrends(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const days = parseInt(req.query.days as string) || 30;
+      const period = (req.query.period as string) || 'day';
+      const source = req.query.source as string | undefined;
+
+      if (!brandId) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Brand ID is required'
+        });
+        return;
+      }
+
+      if (!['day', 'week', 'month'].includes(period)) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Period must be day, week or month'
+        });
+        return;
+      }
+
+      if (source !== undefined && !['responses', 'conversations'].includes(source)) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Source must be responses or conversations'
+        });
+        return;
+      }
+
+      if (!await ReportsController.checkBrandAccess(req, res, brandId)) {
+        return;
+      }
+
+      const trends = await MentionAspectModel.getTrends(
+        brandId,
+        days,
+        period as AspectTrendPeriod,
+        source as AspectSource | undefined
+      );
+
+      res.json({
+        brand_id: brandId,
+        period_days: days,
+        period,
+        ...(source && { source }),
+        aspects: MENTION_ASPECTS,
+        trends
+      });
+    } catch (error) {
+      console.error('Failed to get aspect sentiment trends:', error);
+      res.status(500).json({
+        error: 'Failed to get aspect sentiment',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Get sentiment per mention aspect for each AI model that mentioned a brand
+   */
+  static async getAspectSentimentByModel(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const days = parseInt(req.query.days as string) || 30;
+
+      if (!brandId) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Brand ID is required'
+        });
+        return;
+      }
+
+      if (!await ReportsController.checkBrandAccess(req, res, brandId)) {
+        return;
+      }
+
+      const models = await MentionAspectModel.getByModel(brandId, days);
+
+      res.json({
+        brand_id: brandId,
+        period_days: days,
+        aspects: MENTION_ASPECTS,
+        models
+      });
+    } catch (error) {
+      console.error('Failed to get aspect sentiment by model:', error);
+      res.status(500).json({
+        error: 'Failed to get aspect sentiment',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Get the domains cited most in a brand's responses, how often the citing
+   * responses praised or criticised the brand, and citations per period
+   */
+  static async getSourceLeaderboard(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const days = parseInt(req.query.days as string) || 30;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const period = (req.query.period as string) || 'week';
+
+      if (!brandId) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Brand ID is required'
+        });
+        return;
+      }
+
+      if (!['day', 'week', 'month'].includes(period)) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Period must be day, week or month'
+        });
+        return;
+      }
+
+      if (!await ReportsController.checkBrandAccess(req, res, brandId)) {
+        return;
+      }
+
+      const leaders = await CitationModel.getSourceLeaderboard(brandId, days, limit);
+      const trends = await CitationModel.getSourceTrends(
+        brandId,
+        leaders.map(leader => leader.domain),
+        days,
+        period as SourceTrendPeriod
+      );
+
+      res.json({
+        brand_id: brandId,
+        period_days: days,
+        period,
+        sources: leaders.map(leader => ({
+          ...leader,
+          authority_score: domainAuthority.score(leader.domain)
+        })),
+        trends
+      });
+    } catch (error) {
+      console.error('Failed to get source leaderboard:', error);
+      res.status(500).json({
+        error: 'Failed to get sources',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Compare the brand's answers from models queried with web search on
+   * against those from models without it
+   */
+  static async getGroundingComparison(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const days = parseInt(req.query.days as string) || 30;
+
+      if (!brandId) {
+        res.status(400).json({
+          error: 'Bad request',
+          message: 'Brand ID is required'
+        });
+        return;
+      }
+
+      if (!await ReportsController.checkBrandAccess(req, res, brandId)) {
+        return;
+      }
+
+      const comparison = await AIResponseModel.getGroundingComparison(brandId, days);
+
+      res.json({
+        brand_id: brandId,
+        period_days: days,
+        ...comparison
+      });
+    } catch (error) {
+      console.error('Failed to get grounding comparison:', error);
+      res.status(500).json({
+        error: 'Failed to get grounding comparison',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Respond 401/403 and return false unless the user may see the brand
+   */
+  private static async checkBrandAccess(req: Request, res: Response, brandId: string): Promise<boolean> {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'User not authenticated'
+      });
+      return false;
+    }
+
+    const hasAccess = req.user.role === 'admin' ||
+      await UserModel.hasAccessToBrand(req.user.userId, brandId);
+
+    if (!hasAccess) {
+      res.status(403).json({
+        error: 'Access denied',
+        message: 'You do not have access to this brand'
+      });
+      return false;
+    }
+
+    return true;
+  }
 }
\ No newline at end of file
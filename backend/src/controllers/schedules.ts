@@ -0,0 +1,244 @@
+import { Request, Response } from 'express';
+import { MonitoringSchedulerService } from '../services/MonitoringSchedulerService';
+import { MonitoringSchedule } from '../types/database';
+
+export class SchedulesController {
+  private static schedulerService: MonitoringSchedulerService;
+
+  static initialize(schedulerService: MonitoringSchedulerService): void {
+    SchedulesController.schedulerService = schedulerService;
+  }
+
+  /**
+   * List monitoring schedules for a brand
+   */
+  static async getSchedules(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const schedules = await SchedulesController.schedulerService.getSchedules(brandId!);
+
+      res.json({
+        brand_id: brandId,
+        schedules,
+        count: schedules.length
+      });
+    } catch (error) {
+      console.error('Failed to get monitoring schedules:', error);
+      res.status(500).json({
+        error: 'Failed to get schedules',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Create a monitoring schedule for a brand
+   */
+  static async createSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId } = req.params;
+      const { name, cron_expression, timezone, query_types, target_models } = req.body;
+
+      const schedule = await SchedulesController.schedulerService.createSchedule({
+        brand_id: brandId!,
+        name,
+        cron_expression,
+        ...(timezone && { timezone }),
+        ...(query_types && { query_types }),
+        ...(target_models && { target_models }),
+        ...(req.user && { created_by: req.user.userId })
+      });
+
+      res.status(201).json({
+        message: 'Monitoring schedule created successfully',
+        schedule
+      });
+    } catch (error) {
+      SchedulesController.handleError(res, error, 'Failed to create schedule');
+    }
+  }
+
+  /**
+   * Update a monitoring schedule
+   */
+  static async updateSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await SchedulesController.findBrandSchedule(req, res);
+      if (!schedule) return;
+
+      const { name, cron_expression, timezone, query_types, target_models } = req.body;
+      const updated = await SchedulesController.schedulerService.updateSchedule(schedule.id, {
+        ...(name !== undefined && { name }),
+        ...(cron_expression !== undefined && { cron_expression }),
+        ...(timezone !== undefined && { timezone }),
+        ...(query_types !== undefined && { query_types }),
+        ...(target_models !== undefined && { target_models })
+      });
+
+      res.json({
+        message: 'Monitoring schedule updated successfully',
+        schedule: updated
+      });
+    } catch (error) {
+      SchedulesController.handleError(res, error, 'Failed to update schedule');
+    }
+  }
+
+  /**
+   * Delete a monitoring schedule
+   */
+  static async deleteSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await SchedulesController.findBrandSchedule(req, res);
+      if (!schedule) return;
+
+      await SchedulesController.schedulerService.deleteSchedule(schedule.id);
+
+      res.json({
+        message: 'Monitoring schedule deleted successfully'
+      });
+    } catch (error) {
+      SchedulesController.handleError(res, error, 'Failed to delete schedule');
+    }
+  }
+
+  /**
+   * Pause a monitoring schedule
+   */
+  static async pauseSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await SchedulesController.findBrandSchedule(req, res);
+      if (!schedule) return;
+
+      const updated = await SchedulesController.schedulerService.pauseSchedule(schedule.id);
+
+      res.json({
+        message: 'Monitoring schedule paused',
+        schedule: updated
+      });
+    } catch (error) {
+      SchedulesController.handleError(res, error, 'Failed to pause schedule');
+    }
+  }
+
+  /**
+   * Resume a paused monitoring schedule
+   */
+  static async resumeSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await SchedulesController.findBrandSchedule(req, res);
+      if (!schedule) return;
+
+      const updated = await SchedulesController.schedulerService.resumeSchedule(schedule.id);
+
+      res.json({
+        message: 'Monitoring schedule resumed',
+        schedule: updated
+      });
+    } catch (error) {
+      SchedulesController.handleError(res, error, 'Failed to resume schedule');
+    }
+  }
+
+  /**
+   * Trigger an immediate run of a schedule
+   */
+  static async triggerSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const schedule = await SchedulesController.findBrandSchedule(req, res);
+      if (!schedule) return;
+
+      const run = await SchedulesController.schedulerService.triggerSchedule(
+        schedule.id,
+        req.user?.userId
+      );
+
+      res.status(202).json({
+        message: 'Monitoring run queued',
+        run
+      });
+    } catch (error) {
+      SchedulesController.handleError(res, error, 'Failed to trigger schedule');
+    }
+  }
+
+  /**
+   * Get run history for a brand or a single schedule
+   */
+  static async getRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { brandId, scheduleId } = req.params;
+      const { limit = 50, offset = 0 } = req.query;
+
+      if (scheduleId) {
+        const schedule = await SchedulesController.findBrandSchedule(req, res);
+        if (!schedule) return;
+      }
+
+      const result = await SchedulesController.schedulerService.getRuns(brandId!, {
+        ...(scheduleId && { scheduleId }),
+        limit: Math.min(parseInt(limit as string) || 50, 100),
+        offset: parseInt(offset as string) || 0
+      });
+
+      res.json({
+        brand_id: brandId,
+        runs: result.runs,
+        total: result.total
+      });
+    } catch (error) {
+      console.error('Failed to get monitoring runs:', error);
+      res.status(500).json({
+        error: 'Failed to get runs',
+        message: 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * Load the schedule named in the route and make sure it belongs to the brand
+   */
+  private static async findBrandSchedule(
+    req: Request,
+    res: Response
+  ): Promise<MonitoringSchedule | null> {
+    const { brandId, scheduleId } = req.params;
+    const schedule = await SchedulesController.schedulerService.getSchedule(scheduleId!);
+
+    if (!schedule || schedule.brand_id !== brandId) {
+      res.status(404).json({
+        error: 'Schedule not found',
+        message: 'Monitoring schedule does not exist for this brand'
+      });
+      return null;
+    }
+
+    return schedule;
+  }
+
+  private static handleError(res: Response, error: unknown, fallbackError: string): void {
+    if (error instanceof Error) {
+      if (error.message.startsWith('Validation error')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Schedule not found',
+          message: error.message
+        });
+        return;
+      }
+    }
+
+    console.error(`${fallbackError}:`, error);
+    res.status(500).json({
+      error: fallbackError,
+      message: 'Internal server error'
+    });
+  }
+}
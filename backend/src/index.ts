@@ -13,10 +13,29 @@ import { UserController } from './controllers/users';
 import { BrandController } from './controllers/brands';
 import { NotificationController } from './controllers/notifications';
 import { NotificationService } from './services/NotificationService';
+import { MonitoringSchedulerService } from './services/MonitoringSchedulerService';
+import { CitationCrawlService } from './services/CitationCrawlService';
+import { domainAuthority } from './services/DomainAuthority';
+import { QueryStreamService } from './services/QueryStreamService';
+import { AlertManagementService } from './services/AlertManagementService';
+import { BudgetService } from './services/BudgetService';
+import { BrandMonitoringService } from './services/BrandMonitoringService';
+import { SchedulesController } from './controllers/schedules';
+import { MonitoringController } from './controllers/monitoring';
+import { BudgetsController } from './controllers/budgets';
+import { AlertsController } from './controllers/alerts';
 import { reportsRouter } from './routes/reports';
 import { competitiveRouter } from './routes/competitive';
 import { notificationRouter } from './routes/notifications';
 import conversationRouter from './routes/conversations';
+import { schedulesRouter } from './routes/schedules';
+import { monitoringRouter } from './routes/monitoring';
+import { budgetsRouter } from './routes/budgets';
+import { promptsRouter } from './routes/prompts';
+import { recommendationsRouter } from './routes/recommendations';
+import { domainAuthorityRouter } from './routes/domainAuthority';
+import { alertsRouter } from './routes/alerts';
+import { aiResponseCache } from './services/ai/ResponseCache';
 import { 
   authenticate, 
   authorize, 
@@ -49,6 +68,26 @@ const io = new SocketIOServer(server, {
 const notificationService = new NotificationService(io);
 NotificationController.initialize(notificationService);
 
+// Alert thresholds and the alerts they raise; the one instance every service shares
+const alertService = new AlertManagementService();
+AlertsController.initialize(alertService);
+
+// Spend budgets and brand monitoring, shared by the scheduler, controllers and streams
+const budgetService = new BudgetService(alertService);
+const brandMonitoringService = new BrandMonitoringService(budgetService, alertService);
+
+// Initialize the Bull-backed monitoring scheduler; run progress is pushed over Socket.IO
+const monitoringScheduler = new MonitoringSchedulerService(brandMonitoringService, budgetService, io);
+SchedulesController.initialize(monitoringScheduler);
+MonitoringController.initialize(monitoringScheduler, brandMonitoringService);
+BudgetsController.initialize(monitoringScheduler, budgetService);
+
+// Background crawl of the URLs AI responses cite
+const citationCrawler = new CitationCrawlService();
+
+// Live token streaming of monitoring queries over Socket.IO
+const queryStreamService = new QueryStreamService(brandMonitoringService);
+
 // Socket.IO connection handling
 io.on('connection', (socket) => {
   console.log(`Client connected: ${socket.id}`);
@@ -59,6 +98,8 @@ io.on('connection', (socket) => {
       // Verify JWT token and join user-specific room
       const decoded = await AuthService.verifyAccessToken(token);
       if (decoded && decoded.userId) {
+        socket.data.userId = decoded.userId;
+        socket.data.role = decoded.role;
         socket.join(`user-${decoded.userId}`);
         socket.emit('authenticated', { success: true });
         console.log(`User ${decoded.userId} authenticated and joined room`);
@@ -69,6 +110,8 @@ io.on('connection', (socket) => {
     }
   });
 
+  queryStreamService.registerSocket(socket);
+
   socket.on('disconnect', () => {
     console.log(`Client disconnected: ${socket.id}`);
   });
@@ -302,6 +345,18 @@ app.put('/api/brands/:brandId/competitors',
   BrandController.updateCompetitorBrands
 );
 
+app.put('/api/brands/:brandId/fact-sheet',
+  authenticate,
+  authorizeBrandAccess('editor'),
+  BrandController.updateFactSheet
+);
+
+app.get('/api/brands/:brandId/fact-checks',
+  authenticate,
+  authorizeBrandAccess('viewer'),
+  BrandController.getFactCheckFindings
+);
+
 // Reports routes
 app.use('/api/reports', reportsRouter);
 
@@ -314,6 +369,27 @@ app.use('/api/notifications', notificationRouter);
 // Conversation monitoring routes
 app.use('/api/conversations', conversationRouter);
 
+// Brand monitoring routes
+app.use('/api/monitoring', monitoringRouter);
+
+// Monitoring schedule routes
+app.use('/api/schedules', schedulesRouter);
+
+// AI spend budget routes
+app.use('/api/budgets', budgetsRouter);
+
+// Prompt template library routes
+app.use('/api/prompts', promptsRouter);
+
+// Buyer-intent recommendation routes
+app.use('/api/recommendations', recommendationsRouter);
+
+// Domain authority routes
+app.use('/api/domain-authority', domainAuthorityRouter);
+
+// Alert threshold and alert routes
+app.use('/api/alerts', alertsRouter);
+
 // Get active AI models endpoint
 app.get('/api/ai-models', async (_req, res) => {
   try {
@@ -350,6 +426,15 @@ app.get('/api/admin/ai-models',
   }
 );
 
+// AI response cache hit and miss counts for this process (admin only)
+app.get('/api/admin/ai-cache',
+  authenticate,
+  authorize(['admin']),
+  (_req, res) => {
+    res.json({ cache: aiResponseCache.getStats() });
+  }
+);
+
 // Basic API route
 app.get('/api', (_req, res) => {
   res.json({ 
@@ -388,6 +473,9 @@ const gracefulShutdown = async (): Promise<void> => {
   console.log('🛑 Received shutdown signal, closing server...');
   
   try {
+    await monitoringScheduler.close();
+    await citationCrawler.close();
+    await alertService.close();
     await closePool();
     process.exit(0);
   } catch (error) {
@@ -405,6 +493,25 @@ const startServer = async (): Promise<void> => {
   try {
     await initializeDatabase();
     
+    // Schedules are re-registered on every start; a Redis outage should not block the API
+    try {
+      await monitoringScheduler.syncSchedules();
+    } catch (error) {
+      console.error('⚠️  Monitoring schedules could not be registered:', error);
+    }
+
+    try {
+      await domainAuthority.load();
+    } catch (error) {
+      console.error('⚠️  Domain authority could not be loaded, using defaults:', error);
+    }
+
+    try {
+      await citationCrawler.scheduleSweeps();
+    } catch (error) {
+      console.error('⚠️  Citation crawling could not be scheduled:', error);
+    }
+    
     server.listen(PORT, () => {
       console.log(`🚀 Backend server running on port ${PORT}`);
       console.log(`📊 Health check: http://localhost:${PORT}/health`);
@@ -1,5 +1,17 @@
 import { query } from '../config/database';
-import { AIResponse, Citation, BrandMention, CreateAIResponseInput } from '../types/database';
+import {
+  AIResponse,
+  Citation,
+  BrandMention,
+  CreateAIResponseInput,
+  ResponseRanking,
+  CreateResponseRankingInput,
+  ResponseComparisonPair,
+  GroundingComparison,
+  GroundingModeReport,
+  GroundingStats
+} from '../types/database';
+import { CitationSource } from '../types/ai';
 import { createAIResponseSchema, createCitationSchema, createBrandMentionSchema, validateSchema } from './validation';
 
 interface CreateCitationData {
@@ -13,8 +25,15 @@ interface CreateCitationData {
   content_type?: string;
   publish_date?: Date;
   last_crawled?: Date;
+  source?: CitationSource;
 }
 
+// Answers are comparable when the same model answered the same prompt in the same sample slot
+const SAMPLE_INDEX = 'COALESCE(response_metadata->>\'sample_index\', \'0\')';
+
+// Streams cancelled partway are stored for their spend but are not whole answers
+const WHOLE_ANSWER = 'COALESCE(response_metadata->>\'cancelled\', \'false\') <> \'true\'';
+
 interface CreateBrandMentionData {
   ai_response_id: string;
   brand_id: string;
@@ -24,6 +43,7 @@ interface CreateBrandMentionData {
   sentiment_score?: number;
   sentiment_label?: 'positive' | 'negative' | 'neutral';
   confidence?: number;
+  analyzer_version?: string;
 }
 
 export class AIResponseModel {
@@ -36,9 +56,10 @@ export class AIResponseModel {
     const result = await query(`
       INSERT INTO ai_responses (
         brand_id, ai_model_id, query, response, response_metadata,
-        confidence_score, processing_time_ms, tokens_used, cost
+        confidence_score, processing_time_ms, tokens_used, prompt_tokens,
+        completion_tokens, cost, prompt_template_version_id, grounded
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
       RETURNING *
     `, [
       validatedData.brand_id,
@@ -49,7 +70,11 @@ export class AIResponseModel {
       validatedData.confidence_score || null,
       validatedData.processing_time_ms || null,
       validatedData.tokens_used || null,
-      validatedData.cost || null
+      validatedData.prompt_tokens ?? null,
+      validatedData.completion_tokens ?? null,
+      validatedData.cost || null,
+      validatedData.prompt_template_version_id || null,
+      validatedData.grounded === true
     ]);
     
     return result.rows[0] as AIResponse;
@@ -135,6 +160,66 @@ export class AIResponseModel {
     return result.rows as AIResponse[];
   }
   
+  /**
+   * Find the answer the same model gave to the same prompt before this one
+   */
+  static async findPrevious(response: AIResponse): Promise<AIResponse | null> {
+    const result = await query(`
+      SELECT * FROM ai_responses
+      WHERE brand_id = $1
+        AND ai_model_id = $2
+        AND query = $3
+        AND ${SAMPLE_INDEX} = $4
+        AND created_at < $5
+        AND ${WHOLE_ANSWER}
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [
+      response.brand_id,
+      response.ai_model_id,
+      response.query,
+      String(response.response_metadata?.sample_index ?? 0),
+      response.created_at
+    ]);
+
+    return result.rows.length > 0 ? result.rows[0] as AIResponse : null;
+  }
+
+  /**
+   * The latest answer to each prompt from each model in the window, paired
+   * with the answer before it; prompts answered only once are left out
+   */
+  static async getComparablePairs(brandId: string, days = 30, limit = 50): Promise<ResponseComparisonPair[]> {
+    const result = await query(`
+      SELECT response_id, previous_response_id, query, ai_model_id, model_name, created_at, previous_created_at
+      FROM (
+        SELECT
+          ar.id AS response_id,
+          LAG(ar.id) OVER answers AS previous_response_id,
+          ar.query,
+          ar.ai_model_id,
+          am.name AS model_name,
+          ar.created_at,
+          LAG(ar.created_at) OVER answers AS previous_created_at,
+          ROW_NUMBER() OVER (
+            PARTITION BY ar.ai_model_id, ar.query, ${SAMPLE_INDEX}
+            ORDER BY ar.created_at DESC
+          ) AS recency
+        FROM ai_responses ar
+        JOIN ai_models am ON ar.ai_model_id = am.id
+        WHERE ar.brand_id = $1 AND ${WHOLE_ANSWER}
+        WINDOW answers AS (PARTITION BY ar.ai_model_id, ar.query, ${SAMPLE_INDEX} ORDER BY ar.created_at)
+      ) paired
+      WHERE recency = 1
+        AND previous_response_id IS NOT NULL
+        AND created_at >= NOW() - INTERVAL '${days} days'
+      ORDER BY created_at DESC
+      LIMIT $2
+    `, [brandId, limit]);
+
+    return result.rows as ResponseComparisonPair[];
+  }
+
   /**
    * Add citation to AI response
    */
@@ -144,9 +229,9 @@ export class AIResponseModel {
     const result = await query(`
       INSERT INTO citations (
         ai_response_id, url, domain, title, content_snippet,
-        authority_score, relevance_score, content_type, publish_date, last_crawled
+        authority_score, relevance_score, content_type, publish_date, last_crawled, source
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       RETURNING *
     `, [
       validatedData.ai_response_id,
@@ -158,7 +243,8 @@ export class AIResponseModel {
       validatedData.relevance_score || null,
       validatedData.content_type || null,
       validatedData.publish_date || null,
-      validatedData.last_crawled || null
+      validatedData.last_crawled || null,
+      validatedData.source || 'text'
     ]);
     
     return result.rows[0] as Citation;
@@ -173,24 +259,78 @@ export class AIResponseModel {
     const result = await query(`
       INSERT INTO brand_mentions (
         ai_response_id, brand_id, mention_text, context, position_in_response,
-        sentiment_score, sentiment_label, confidence
+        sentiment_score, sentiment_label, confidence, analyzer_version
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       RETURNING *
     `, [
       validatedData.ai_response_id,
       validatedData.brand_id,
       validatedData.mention_text,
       validatedData.context || null,
-      validatedData.position_in_response || null,
-      validatedData.sentiment_score || null,
+      validatedData.position_in_response ?? null, // 0 is the first sentence
+      validatedData.sentiment_score ?? null, // 0 is neutral
       validatedData.sentiment_label || null,
-      validatedData.confidence || null
+      validatedData.confidence ?? null,
+      validatedData.analyzer_version || null
     ]);
     
     return result.rows[0] as BrandMention;
   }
   
+  /**
+   * Store where the brand and its competitors were listed in an AI response
+   */
+  static async addRankings(
+    aiResponseId: string,
+    brandId: string,
+    rankings: CreateResponseRankingInput[]
+  ): Promise<ResponseRanking[]> {
+    if (rankings.length === 0) {
+      return [];
+    }
+
+    const values: any[] = [];
+    const placeholders = rankings.map((ranking, index) => {
+      const offset = index * 8;
+      values.push(
+        aiResponseId,
+        brandId,
+        ranking.entity_name,
+        ranking.is_brand,
+        ranking.position,
+        ranking.list_size,
+        ranking.list_index,
+        ranking.list_style
+      );
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`;
+    });
+
+    const result = await query(`
+      INSERT INTO response_rankings (
+        ai_response_id, brand_id, entity_name, is_brand, position, list_size, list_index, list_style
+      )
+      VALUES ${placeholders.join(', ')}
+      ON CONFLICT (ai_response_id, entity_name) DO NOTHING
+      RETURNING *
+    `, values);
+
+    return result.rows as ResponseRanking[];
+  }
+
+  /**
+   * Get list positions for AI response
+   */
+  static async getRankings(responseId: string): Promise<ResponseRanking[]> {
+    const result = await query(`
+      SELECT * FROM response_rankings
+      WHERE ai_response_id = $1
+      ORDER BY list_index, position
+    `, [responseId]);
+
+    return result.rows as ResponseRanking[];
+  }
+
   /**
    * Get citations for AI response
    */
@@ -226,6 +366,7 @@ export class AIResponseModel {
     response: AIResponse;
     citations: Citation[];
     mentions: BrandMention[];
+    rankings: ResponseRanking[];
   } | null> {
     const response = await this.findById(responseId);
     
@@ -233,15 +374,17 @@ export class AIResponseModel {
       return null;
     }
     
-    const [citations, mentions] = await Promise.all([
+    const [citations, mentions, rankings] = await Promise.all([
       this.getCitations(responseId),
-      this.getBrandMentions(responseId)
+      this.getBrandMentions(responseId),
+      this.getRankings(responseId)
     ]);
     
     return {
       response,
       citations,
-      mentions
+      mentions,
+      rankings
     };
   }
   
@@ -252,6 +395,8 @@ export class AIResponseModel {
     // Delete in order due to foreign key constraints
     await query('DELETE FROM brand_mentions WHERE ai_response_id = $1', [responseId]);
     await query('DELETE FROM citations WHERE ai_response_id = $1', [responseId]);
+    await query('DELETE FROM response_rankings WHERE ai_response_id = $1', [responseId]);
+    await query('DELETE FROM fact_check_findings WHERE ai_response_id = $1', [responseId]);
     await query('DELETE FROM ai_responses WHERE id = $1', [responseId]);
   }
   
@@ -302,6 +447,77 @@ export class AIResponseModel {
     };
   }
   
+  /**
+   * How the brand fared in grounded and in ungrounded answers: mention rate,
+   * sentiment, list position and citations, for each mode and each model
+   */
+  static async getGroundingComparison(brandId: string, days = 30): Promise<GroundingComparison> {
+    const result = await query(`
+      SELECT
+        ar.grounded,
+        am.id as ai_model_id,
+        am.name as model_name,
+        COUNT(*) as responses,
+        COUNT(*) FILTER (WHERE mentions.count > 0) as mentioned,
+        AVG(mentions.sentiment) as average_sentiment,
+        AVG(rankings.position) as average_position,
+        COALESCE(SUM(cited.count), 0) as citations,
+        COALESCE(SUM(cited.search_count), 0) as search_citations
+      FROM ai_responses ar
+      JOIN ai_models am ON ar.ai_model_id = am.id
+      LEFT JOIN LATERAL (
+        SELECT COUNT(*) as count, AVG(bm.sentiment_score) as sentiment
+        FROM brand_mentions bm
+        WHERE bm.ai_response_id = ar.id AND bm.brand_id = ar.brand_id
+      ) mentions ON true
+      LEFT JOIN LATERAL (
+        SELECT MIN(rr.position) as position
+        FROM response_rankings rr
+        WHERE rr.ai_response_id = ar.id AND rr.is_brand
+      ) rankings ON true
+      LEFT JOIN LATERAL (
+        SELECT COUNT(*) as count, COUNT(*) FILTER (WHERE c.source = 'search') as search_count
+        FROM citations c
+        WHERE c.ai_response_id = ar.id
+      ) cited ON true
+      WHERE ar.brand_id = $1
+        AND ar.created_at >= NOW() - INTERVAL '${days} days'
+      GROUP BY GROUPING SETS ((ar.grounded), (ar.grounded, am.id, am.name))
+      ORDER BY ar.grounded, am.name NULLS FIRST
+    `, [brandId]);
+
+    const comparison: GroundingComparison = {
+      grounded: { totals: null, models: [] },
+      ungrounded: { totals: null, models: [] }
+    };
+
+    for (const row of result.rows) {
+      const report: GroundingModeReport = row.grounded ? comparison.grounded : comparison.ungrounded;
+      const stats = AIResponseModel.toGroundingStats(row);
+      if (row.ai_model_id) {
+        report.models.push({ ai_model_id: row.ai_model_id, model_name: row.model_name, ...stats });
+      } else {
+        report.totals = stats;
+      }
+    }
+
+    return comparison;
+  }
+
+  private static toGroundingStats(row: any): GroundingStats {
+    const responses = parseInt(row.responses) || 0;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+      responses,
+      mention_rate: responses > 0 ? round(parseInt(row.mentioned) / responses) : 0,
+      average_sentiment: row.average_sentiment != null ? round(parseFloat(row.average_sentiment)) : null,
+      average_position: row.average_position != null ? round(parseFloat(row.average_position)) : null,
+      citations_per_response: responses > 0 ? round(parseInt(row.citations) / responses) : 0,
+      search_citations: parseInt(row.search_citations) || 0
+    };
+  }
+
   /**
    * Search responses by query text
    */
@@ -0,0 +1,227 @@
+import { query } from '../config/database';
+import {
+  Alert,
+  AlertIncident,
+  AlertIncidentResponse,
+  AlertIncidentTimelineEvent,
+  BrandMention,
+  VisibilityMetrics
+} from '../types/database';
+
+// An alert joins an open incident that received another alert within this window
+export const INCIDENT_WINDOW_MINUTES = 60;
+
+const MAX_TIMELINE_RESPONSES = 100;
+const RESPONSE_EXCERPT_LENGTH = 280;
+
+const SEVERITY_RANK: Record<AlertIncident['severity'], number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4
+};
+
+export class AlertIncidentModel {
+  /**
+   * Group a new alert into the brand's open incident for the same model, or
+   * start an incident. Brand-wide alerts join the incident of whichever model
+   * is affected, and an incident of brand-wide alerts takes the model of the
+   * first alert that points to one.
+   */
+  static async addAlert(alert: Alert): Promise<AlertIncident> {
+    const aiModelId = alert.ai_model_id || null;
+
+    const openResult = await query(`
+      SELECT * FROM alert_incidents
+      WHERE brand_id = $1 AND status = 'open'
+        AND last_alert_at > NOW() - INTERVAL '${INCIDENT_WINDOW_MINUTES} minutes'
+        AND ($2::uuid IS NULL OR ai_model_id IS NULL OR ai_model_id = $2)
+      ORDER BY (ai_model_id IS NOT DISTINCT FROM $2::uuid) DESC, last_alert_at DESC
+      LIMIT 1
+    `, [alert.brand_id, aiModelId]);
+
+    const open = openResult.rows[0] as AlertIncident | undefined;
+    let incident: AlertIncident;
+
+    if (open) {
+      const severity = SEVERITY_RANK[alert.severity] > SEVERITY_RANK[open.severity]
+        ? alert.severity
+        : open.severity;
+
+      const result = await query(`
+        UPDATE alert_incidents
+        SET alert_count = alert_count + 1,
+            severity = $2,
+            ai_model_id = COALESCE(ai_model_id, $3),
+            last_alert_at = NOW(),
+            updated_at = NOW()
+        WHERE id = $1
+        RETURNING *
+      `, [open.id, severity, aiModelId]);
+      incident = result.rows[0] as AlertIncident;
+    } else {
+      const result = await query(`
+        INSERT INTO alert_incidents (brand_id, ai_model_id, severity, title)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+      `, [alert.brand_id, aiModelId, alert.severity, alert.title]);
+      incident = result.rows[0] as AlertIncident;
+    }
+
+    await query('UPDATE alerts SET incident_id = $1 WHERE id = $2', [incident.id, alert.id]);
+
+    return incident;
+  }
+
+  /**
+   * Count a suppressed repeat of a rule against the open incident holding its
+   * unresolved alert, which keeps the incident open to related alerts
+   */
+  static async recordRepeat(thresholdId: string): Promise<AlertIncident | null> {
+    const result = await query(`
+      UPDATE alert_incidents
+      SET repeat_count = repeat_count + 1, last_alert_at = NOW(), updated_at = NOW()
+      WHERE status = 'open' AND id IN (
+        SELECT incident_id FROM alerts
+        WHERE alert_threshold_id = $1 AND resolved_at IS NULL
+      )
+      RETURNING *
+    `, [thresholdId]);
+
+    return result.rows.length > 0 ? result.rows[0] as AlertIncident : null;
+  }
+
+  /**
+   * Find incident by ID
+   */
+  static async findById(id: string): Promise<AlertIncident | null> {
+    const result = await query('SELECT * FROM alert_incidents WHERE id = $1', [id]);
+
+    return result.rows.length > 0 ? result.rows[0] as AlertIncident : null;
+  }
+
+  /**
+   * Get a brand's incidents, most recently active first
+   */
+  static async getByBrand(
+    brandId: string,
+    options: { status?: AlertIncident['status']; limit?: number; offset?: number } = {}
+  ): Promise<AlertIncident[]> {
+    const { status, limit = 50, offset = 0 } = options;
+
+    const result = await query(`
+      SELECT * FROM alert_incidents
+      WHERE brand_id = $1 AND ($2::varchar IS NULL OR status = $2)
+      ORDER BY last_alert_at DESC
+      LIMIT $3 OFFSET $4
+    `, [brandId, status || null, limit, offset]);
+
+    return result.rows as AlertIncident[];
+  }
+
+  /**
+   * Get the alerts grouped into an incident, oldest first
+   */
+  static async getAlerts(incidentId: string): Promise<Alert[]> {
+    const result = await query(
+      'SELECT * FROM alerts WHERE incident_id = $1 ORDER BY created_at ASC',
+      [incidentId]
+    );
+
+    return result.rows as Alert[];
+  }
+
+  /**
+   * The incident's timeline: the metrics runs that triggered its alerts, the
+   * answers given from a window before its first alert to its last, with the
+   * brand mentions in them, its alerts, and its resolution. Answers are those
+   * of the incident's model, when it has one.
+   */
+  static async getTimeline(incident: AlertIncident, alerts: Alert[]): Promise<AlertIncidentTimelineEvent[]> {
+    const events: AlertIncidentTimelineEvent[] = [];
+
+    const metricsIds = [...new Set(alerts.flatMap(alert => alert.visibility_metrics_id || []))];
+    if (metricsIds.length > 0) {
+      const metricsResult = await query(
+        'SELECT * FROM visibility_metrics WHERE id = ANY($1)',
+        [metricsIds]
+      );
+      for (const metrics of metricsResult.rows as VisibilityMetrics[]) {
+        events.push({ kind: 'metrics', at: metrics.created_at, metrics });
+      }
+    }
+
+    const responsesResult = await query(`
+      SELECT ar.id, ar.ai_model_id, am.name AS model_name, ar.query,
+             LEFT(ar.response, ${RESPONSE_EXCERPT_LENGTH}) AS excerpt, ar.created_at
+      FROM ai_responses ar
+      JOIN ai_models am ON am.id = ar.ai_model_id
+      WHERE ar.brand_id = $1
+        AND ar.created_at >= $2::timestamptz - INTERVAL '${INCIDENT_WINDOW_MINUTES} minutes'
+        AND ar.created_at <= $3
+        AND ($4::uuid IS NULL OR ar.ai_model_id = $4)
+      ORDER BY ar.created_at ASC
+      LIMIT ${MAX_TIMELINE_RESPONSES}
+    `, [incident.brand_id, incident.first_alert_at, incident.last_alert_at, incident.ai_model_id || null]);
+
+    const responseRows = responsesResult.rows as Array<AlertIncidentResponse & { created_at: Date }>;
+    for (const { created_at, ...response } of responseRows) {
+      events.push({ kind: 'response', at: created_at, response });
+    }
+
+    const responseIds = responseRows.map(row => row.id);
+    if (responseIds.length > 0) {
+      const mentionsResult = await query(`
+        SELECT * FROM brand_mentions
+        WHERE brand_id = $1 AND ai_response_id = ANY($2)
+        ORDER BY created_at ASC
+      `, [incident.brand_id, responseIds]);
+      for (const mention of mentionsResult.rows as BrandMention[]) {
+        events.push({ kind: 'mention', at: mention.created_at, mention });
+      }
+    }
+
+    // After what triggered them, which the sort keeps for equal times
+    for (const alert of alerts) {
+      events.push({ kind: 'alert', at: alert.created_at, alert });
+    }
+
+    if (incident.status === 'resolved' && incident.resolved_at) {
+      events.push({
+        kind: 'resolved',
+        at: incident.resolved_at,
+        ...(incident.resolved_by && { resolved_by: incident.resolved_by })
+      });
+    }
+
+    return events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  }
+
+  /**
+   * Resolve an open incident and, in the same statement, its unresolved alerts
+   */
+  static async resolve(id: string, userId: string): Promise<{ incident: AlertIncident; alerts_resolved: number }> {
+    const result = await query(`
+      WITH incident AS (
+        UPDATE alert_incidents
+        SET status = 'resolved', resolved_at = NOW(), resolved_by = $2, updated_at = NOW()
+        WHERE id = $1 AND status = 'open'
+        RETURNING *
+      ), members AS (
+        UPDATE alerts
+        SET resolved_at = NOW()
+        WHERE incident_id IN (SELECT id FROM incident) AND resolved_at IS NULL
+        RETURNING id
+      )
+      SELECT incident.*, (SELECT COUNT(*) FROM members) AS alerts_resolved
+      FROM incident
+    `, [id, userId]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Open alert incident not found');
+    }
+
+    const { alerts_resolved, ...incident } = result.rows[0];
+    return { incident: incident as AlertIncident, alerts_resolved: parseInt(alerts_resolved) };
+  }
+}
@@ -1,6 +1,6 @@
 import { query } from '../config/database';
-import { Brand, CreateBrandInput, DatabaseQueryResult } from '../types/database';
-import { createBrandSchema, updateBrandSchema, validateSchema } from './validation';
+import { Brand, BrandFactSheet, CreateBrandInput, DatabaseQueryResult } from '../types/database';
+import { brandFactSheetSchema, createBrandSchema, updateBrandSchema, validateSchema } from './validation';
 
 interface UpdateBrandData {
   name?: string;
@@ -290,6 +290,29 @@ export class BrandModel {
     return result.rows[0] as Brand;
   }
   
+  /**
+   * Replace the fact sheet that AI answers about the brand are checked against
+   */
+  static async updateFactSheet(
+    brandId: string,
+    factSheet: BrandFactSheet
+  ): Promise<Brand> {
+    const validatedData = validateSchema<BrandFactSheet>(brandFactSheetSchema, factSheet);
+    
+    const result = await query(`
+      UPDATE brands 
+      SET fact_sheet = $2, updated_at = NOW()
+      WHERE id = $1 AND is_active = true
+      RETURNING *
+    `, [brandId, JSON.stringify(validatedData)]);
+    
+    if (result.rows.length === 0) {
+      throw new Error('Brand not found or inactive');
+    }
+    
+    return result.rows[0] as Brand;
+  }
+  
   /**
    * Get brand statistics
    */
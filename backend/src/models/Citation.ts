@@ -0,0 +1,183 @@
+import { query } from '../config/database';
+import { CitationCrawlStatus, SourceLeaderboardEntry, SourceTrend } from '../types/database';
+import { NORMALIZED_CITATION_DOMAIN } from './DomainAuthority';
+
+export type SourceTrendPeriod = 'day' | 'week' | 'month';
+
+// A response praises the brand when its mentions average above this, and criticises it below the negative
+const PRAISE_THRESHOLD = 0.1;
+
+// Each response citing a domain once, with the average sentiment of the brand's mentions in it
+const citedSources = (days: number) => `
+  WITH response_sentiment AS (
+    SELECT ai_response_id, AVG(sentiment_score) AS sentiment
+    FROM brand_mentions
+    WHERE brand_id = $1
+    GROUP BY ai_response_id
+  ),
+  cited AS (
+    SELECT DISTINCT ON (c.ai_response_id, ${NORMALIZED_CITATION_DOMAIN})
+      ${NORMALIZED_CITATION_DOMAIN} AS domain,
+      c.ai_response_id,
+      ar.created_at,
+      rs.sentiment
+    FROM citations c
+    JOIN ai_responses ar ON c.ai_response_id = ar.id
+    LEFT JOIN response_sentiment rs ON rs.ai_response_id = c.ai_response_id
+    WHERE ar.brand_id = $1
+      AND c.domain IS NOT NULL AND c.domain <> ''
+      AND ar.created_at >= NOW() - INTERVAL '${days} days'
+  )
+`;
+
+const SOURCE_COUNTS = `
+  COUNT(*) AS responses,
+  COUNT(*) FILTER (WHERE sentiment > ${PRAISE_THRESHOLD}) AS praised,
+  COUNT(*) FILTER (WHERE sentiment < -${PRAISE_THRESHOLD}) AS criticised
+`;
+
+export interface CitationCrawlTarget {
+  url: string;
+  brand_id: string;
+  brand_name: string;
+}
+
+export interface CitationCrawlUpdate {
+  crawl_status: CitationCrawlStatus;
+  http_status?: number;
+  final_url?: string;
+  title?: string;
+  publish_date?: Date;
+  content_snippet?: string;
+  content_type?: string;
+  mentions_brand: boolean;
+  relevance_score: number;
+  error?: string;
+}
+
+export class CitationModel {
+  /**
+   * URLs to crawl, once per brand whose responses cited them: never crawled first,
+   * then those last crawled before the recrawl window
+   */
+  static async getDueForCrawl(limit = 50, recrawlAfterDays = 30): Promise<CitationCrawlTarget[]> {
+    const result = await query(`
+      SELECT url, brand_id, brand_name
+      FROM (
+        SELECT DISTINCT ON (c.url, ar.brand_id)
+          c.url, ar.brand_id, b.name AS brand_name, c.last_crawled, c.created_at
+        FROM citations c
+        JOIN ai_responses ar ON c.ai_response_id = ar.id
+        JOIN brands b ON ar.brand_id = b.id
+        WHERE b.is_active = true
+          AND (c.last_crawled IS NULL OR c.last_crawled < NOW() - INTERVAL '${recrawlAfterDays} days')
+        ORDER BY c.url, ar.brand_id, c.last_crawled NULLS FIRST
+      ) due
+      ORDER BY last_crawled NULLS FIRST, created_at
+      LIMIT $1
+    `, [limit]);
+
+    return result.rows as CitationCrawlTarget[];
+  }
+
+  /**
+   * Record a crawl on every citation of the URL in the brand's responses.
+   * Fields the page did not provide keep what the model gave.
+   */
+  static async recordCrawl(url: string, brandId: string, update: CitationCrawlUpdate): Promise<number> {
+    const result = await query(`
+      UPDATE citations
+      SET crawl_status = $3,
+          http_status = $4,
+          final_url = $5,
+          title = COALESCE($6, title),
+          publish_date = COALESCE($7, publish_date),
+          content_snippet = COALESCE($8, content_snippet),
+          content_type = COALESCE($9, content_type),
+          mentions_brand = $10,
+          relevance_score = $11,
+          crawl_error = $12,
+          last_crawled = NOW()
+      WHERE url = $1
+        AND ai_response_id IN (SELECT id FROM ai_responses WHERE brand_id = $2)
+    `, [
+      url,
+      brandId,
+      update.crawl_status,
+      update.http_status ?? null,
+      update.final_url || null,
+      update.title || null,
+      update.publish_date || null,
+      update.content_snippet || null,
+      update.content_type || null,
+      update.mentions_brand,
+      update.relevance_score,
+      update.error ? update.error.slice(0, 500) : null
+    ]);
+
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Domains cited most in a brand's responses, with how many of those
+   * responses praised or criticised the brand. Authority scores are added
+   * by the caller.
+   */
+  static async getSourceLeaderboard(
+    brandId: string,
+    days = 30,
+    limit = 20
+  ): Promise<Omit<SourceLeaderboardEntry, 'authority_score'>[]> {
+    const result = await query(`
+      ${citedSources(days)}
+      SELECT domain, ${SOURCE_COUNTS}, AVG(sentiment) AS average_sentiment
+      FROM cited
+      GROUP BY domain
+      ORDER BY responses DESC, domain
+      LIMIT $2
+    `, [brandId, limit]);
+
+    return result.rows.map((row: any) => ({
+      domain: row.domain,
+      ...this.toSourceCounts(row),
+      average_sentiment: row.average_sentiment === null ? null : Math.round(parseFloat(row.average_sentiment) * 100) / 100
+    }));
+  }
+
+  /**
+   * Citations per period for the given domains in a brand's responses
+   */
+  static async getSourceTrends(
+    brandId: string,
+    domains: string[],
+    days = 30,
+    period: SourceTrendPeriod = 'week'
+  ): Promise<SourceTrend[]> {
+    if (domains.length === 0) {
+      return [];
+    }
+
+    const result = await query(`
+      ${citedSources(days)}
+      SELECT DATE_TRUNC($2, created_at) AS period_start, domain, ${SOURCE_COUNTS}
+      FROM cited
+      WHERE domain = ANY($3)
+      GROUP BY period_start, domain
+      ORDER BY period_start, domain
+    `, [brandId, period, domains]);
+
+    return result.rows.map((row: any) => ({
+      period_start: row.period_start,
+      domain: row.domain,
+      ...this.toSourceCounts(row)
+    }));
+  }
+
+  private static toSourceCounts(row: any): Pick<SourceTrend, 'responses' | 'praised' | 'criticised'> {
+    return {
+      responses: parseInt(row.responses) || 0,
+      praised: parseInt(row.praised) || 0,
+      criticised: parseInt(row.criticised) || 0
+    };
+  }
+}
@@ -0,0 +1,179 @@
+import { query } from '../config/database';
+import { DomainAuthority, DomainCitationStats, SetDomainAuthorityInput } from '../types/database';
+import { setDomainAuthoritySchema, validateSchema } from './validation';
+
+// Citation domains as the table keys them: lower case, without "www."
+export const NORMALIZED_CITATION_DOMAIN = 'regexp_replace(lower(c.domain), \'^www\\.\', \'\')';
+
+export interface LearnedDomainAuthority extends DomainCitationStats {
+  learned_score: number | null; // NULL while a domain has too few citations to judge
+}
+
+export class DomainAuthorityModel {
+  /**
+   * List domains, most cited first, optionally filtered by part of the domain
+   */
+  static async list(
+    options: { search?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ domains: DomainAuthority[]; total: number }> {
+    const { search, limit = 50, offset = 0 } = options;
+    const filter = search ? 'WHERE domain LIKE $1' : '';
+    const filterValues = search ? [`%${search.toLowerCase()}%`] : [];
+
+    const [domainsResult, countResult] = await Promise.all([
+      query(`
+        SELECT * FROM domain_authority
+        ${filter}
+        ORDER BY citation_count DESC, domain
+        LIMIT $${filterValues.length + 1} OFFSET $${filterValues.length + 2}
+      `, [...filterValues, limit, offset]),
+      query(`SELECT COUNT(*) AS total FROM domain_authority ${filter}`, filterValues)
+    ]);
+
+    return {
+      domains: domainsResult.rows.map(this.toDomainAuthority),
+      total: parseInt(countResult.rows[0]?.total) || 0
+    };
+  }
+
+  /**
+   * Find a domain's entry
+   */
+  static async findByDomain(domain: string): Promise<DomainAuthority | null> {
+    const result = await query('SELECT * FROM domain_authority WHERE domain = $1', [domain]);
+
+    return result.rows[0] ? this.toDomainAuthority(result.rows[0]) : null;
+  }
+
+  /**
+   * Set an admin's score for a domain; it wins over the learned score
+   */
+  static async setManualScore(input: SetDomainAuthorityInput): Promise<DomainAuthority> {
+    const validatedData = validateSchema<SetDomainAuthorityInput>(setDomainAuthoritySchema, input);
+
+    const result = await query(`
+      INSERT INTO domain_authority (domain, manual_score, notes, updated_by)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (domain) DO UPDATE SET
+        manual_score = EXCLUDED.manual_score,
+        notes = EXCLUDED.notes,
+        updated_by = EXCLUDED.updated_by
+      RETURNING *
+    `, [
+      validatedData.domain,
+      validatedData.authority_score,
+      validatedData.notes || null,
+      validatedData.updated_by || null
+    ]);
+
+    return this.toDomainAuthority(result.rows[0]);
+  }
+
+  /**
+   * Clear an admin's score so the learned one applies again. A domain with
+   * nothing learned is removed. Null when the domain has no entry.
+   */
+  static async clearManualScore(domain: string): Promise<DomainAuthority | null> {
+    const removed = await query(
+      'DELETE FROM domain_authority WHERE domain = $1 AND learned_score IS NULL RETURNING *',
+      [domain]
+    );
+    if (removed.rows[0]) {
+      return { ...this.toDomainAuthority(removed.rows[0]), manual_score: null, authority_score: null };
+    }
+
+    const result = await query(`
+      UPDATE domain_authority
+      SET manual_score = NULL, notes = NULL, updated_by = NULL
+      WHERE domain = $1
+      RETURNING *
+    `, [domain]);
+
+    return result.rows[0] ? this.toDomainAuthority(result.rows[0]) : null;
+  }
+
+  /**
+   * Every domain's current score, for lookups while citations are parsed
+   */
+  static async getScores(): Promise<Record<string, number>> {
+    const result = await query(`
+      SELECT domain, COALESCE(manual_score, learned_score) AS authority_score
+      FROM domain_authority
+      WHERE manual_score IS NOT NULL OR learned_score IS NOT NULL
+    `);
+
+    const scores: Record<string, number> = {};
+    for (const row of result.rows) {
+      scores[row.domain] = parseFloat(row.authority_score);
+    }
+    return scores;
+  }
+
+  /**
+   * How often each domain has been cited, across every brand
+   */
+  static async getCitationStats(): Promise<DomainCitationStats[]> {
+    const result = await query(`
+      SELECT
+        ${NORMALIZED_CITATION_DOMAIN} AS domain,
+        COUNT(*) AS citation_count,
+        COUNT(DISTINCT ar.brand_id) AS brand_count,
+        COUNT(*) FILTER (WHERE c.crawl_status <> 'pending') AS crawled_count,
+        COUNT(*) FILTER (WHERE c.crawl_status IN ('broken', 'unreachable')) AS broken_count
+      FROM citations c
+      JOIN ai_responses ar ON c.ai_response_id = ar.id
+      WHERE c.domain IS NOT NULL AND c.domain <> ''
+      GROUP BY 1
+    `);
+
+    return result.rows.map((row: any) => ({
+      domain: row.domain,
+      citation_count: parseInt(row.citation_count) || 0,
+      brand_count: parseInt(row.brand_count) || 0,
+      crawled_count: parseInt(row.crawled_count) || 0,
+      broken_count: parseInt(row.broken_count) || 0
+    }));
+  }
+
+  /**
+   * Store learned scores and citation counts. Manual scores are left alone.
+   */
+  static async saveLearned(entries: LearnedDomainAuthority[]): Promise<number> {
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const values: any[] = [];
+    const placeholders = entries.map((entry, index) => {
+      const offset = index * 5;
+      values.push(entry.domain.slice(0, 255), entry.learned_score, entry.citation_count, entry.brand_count, entry.broken_count);
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, NOW())`;
+    });
+
+    const result = await query(`
+      INSERT INTO domain_authority (domain, learned_score, citation_count, brand_count, broken_count, learned_at)
+      VALUES ${placeholders.join(', ')}
+      ON CONFLICT (domain) DO UPDATE SET
+        learned_score = EXCLUDED.learned_score,
+        citation_count = EXCLUDED.citation_count,
+        brand_count = EXCLUDED.brand_count,
+        broken_count = EXCLUDED.broken_count,
+        learned_at = EXCLUDED.learned_at
+    `, values);
+
+    return result.rowCount || 0;
+  }
+
+  private static toDomainAuthority(row: any): DomainAuthority {
+    const score = (value: unknown) => (value === null || value === undefined ? null : parseFloat(String(value)));
+    const manual = score(row.manual_score);
+    const learned = score(row.learned_score);
+
+    return {
+      ...row,
+      manual_score: manual,
+      learned_score: learned,
+      authority_score: manual ?? learned
+    };
+  }
+}
@@ -0,0 +1,141 @@
+import { query } from '../config/database';
+import {
+  AlertEscalationEvent,
+  EscalationPolicy,
+  UpsertEscalationPolicyInput
+} from '../types/database';
+import { upsertEscalationPolicySchema, validateSchema } from './validation';
+
+export type RecordEscalationEventInput = Omit<AlertEscalationEvent, 'id' | 'created_at' | 'user_ids' | 'channels'> & {
+  user_ids?: string[];
+  channels?: string[];
+};
+
+export class EscalationPolicyModel {
+  /**
+   * Create or replace the escalation policy for a brand. Alerts already
+   * escalating follow the new steps from their next tier.
+   */
+  static async upsert(policyData: UpsertEscalationPolicyInput): Promise<EscalationPolicy> {
+    const validatedData = validateSchema<UpsertEscalationPolicyInput>(
+      upsertEscalationPolicySchema,
+      policyData
+    );
+
+    const result = await query(`
+      INSERT INTO escalation_policies (brand_id, name, severities, steps, repeat_limit, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (brand_id) WHERE is_active = true DO UPDATE SET
+        name = EXCLUDED.name,
+        severities = EXCLUDED.severities,
+        steps = EXCLUDED.steps,
+        repeat_limit = EXCLUDED.repeat_limit,
+        updated_at = NOW()
+      RETURNING *
+    `, [
+      validatedData.brand_id,
+      validatedData.name,
+      validatedData.severities,
+      JSON.stringify(validatedData.steps),
+      validatedData.repeat_limit,
+      validatedData.created_by || null
+    ]);
+
+    return result.rows[0] as EscalationPolicy;
+  }
+
+  /**
+   * Find policy by ID
+   */
+  static async findById(id: string): Promise<EscalationPolicy | null> {
+    const result = await query(
+      'SELECT * FROM escalation_policies WHERE id = $1 AND is_active = true',
+      [id]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as EscalationPolicy : null;
+  }
+
+  /**
+   * Find the active policy for a brand
+   */
+  static async findByBrand(brandId: string): Promise<EscalationPolicy | null> {
+    const result = await query(
+      'SELECT * FROM escalation_policies WHERE brand_id = $1 AND is_active = true',
+      [brandId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as EscalationPolicy : null;
+  }
+
+  /**
+   * Soft delete the policy for a brand. Escalations in progress stop at their next tier.
+   */
+  static async delete(brandId: string): Promise<void> {
+    const result = await query(`
+      UPDATE escalation_policies
+      SET is_active = false, updated_at = NOW()
+      WHERE brand_id = $1 AND is_active = true
+    `, [brandId]);
+
+    if (result.rowCount === 0) {
+      throw new Error('Escalation policy not found');
+    }
+  }
+
+  /**
+   * Add an entry to an alert's escalation audit trail
+   */
+  static async recordEvent(event: RecordEscalationEventInput): Promise<AlertEscalationEvent> {
+    const result = await query(`
+      INSERT INTO alert_escalations (
+        alert_id, policy_id, step_index, cycle, action, user_ids, channels, job_id, reason
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *
+    `, [
+      event.alert_id,
+      event.policy_id || null,
+      event.step_index ?? null,
+      event.cycle ?? null,
+      event.action,
+      event.user_ids || [],
+      event.channels || [],
+      event.job_id || null,
+      event.reason || null
+    ]);
+
+    return result.rows[0] as AlertEscalationEvent;
+  }
+
+  /**
+   * Record who acknowledged an alert, against the tier it had escalated to.
+   * Nothing is recorded for an alert that never escalated.
+   */
+  static async recordAcknowledgement(alertId: string, userId: string): Promise<AlertEscalationEvent | null> {
+    const result = await query(`
+      INSERT INTO alert_escalations (alert_id, policy_id, step_index, cycle, action, user_ids)
+      SELECT alert_id, policy_id, step_index, cycle, 'acknowledged', ARRAY[$2::uuid]
+      FROM alert_escalations
+      WHERE alert_id = $1
+      ORDER BY created_at DESC
+      LIMIT 1
+      RETURNING *
+    `, [alertId, userId]);
+
+    return result.rows.length > 0 ? result.rows[0] as AlertEscalationEvent : null;
+  }
+
+  /**
+   * Get the escalation audit trail of an alert, oldest first
+   */
+  static async getEvents(alertId: string): Promise<AlertEscalationEvent[]> {
+    const result = await query(`
+      SELECT * FROM alert_escalations
+      WHERE alert_id = $1
+      ORDER BY created_at ASC
+    `, [alertId]);
+
+    return result.rows as AlertEscalationEvent[];
+  }
+}
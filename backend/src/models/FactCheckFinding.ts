@@ -0,0 +1,105 @@
+import { query } from '../config/database';
+import { CreateFactCheckFindingInput, FactCheckFinding, FactCheckType } from '../types/database';
+
+export class FactCheckFindingModel {
+  /**
+   * Store the fact sheet contradictions found in an AI response
+   */
+  static async addForResponse(
+    aiResponseId: string,
+    brandId: string,
+    findings: CreateFactCheckFindingInput[]
+  ): Promise<FactCheckFinding[]> {
+    if (findings.length === 0) {
+      return [];
+    }
+
+    const values: any[] = [];
+    const placeholders = findings.map((finding, index) => {
+      const offset = index * 7;
+      values.push(
+        aiResponseId,
+        brandId,
+        finding.finding_type,
+        finding.sentence,
+        finding.claimed_value,
+        finding.expected_value,
+        finding.confidence
+      );
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7})`;
+    });
+
+    const result = await query(`
+      INSERT INTO fact_check_findings (
+        ai_response_id, brand_id, finding_type, sentence, claimed_value, expected_value, confidence
+      )
+      VALUES ${placeholders.join(', ')}
+      RETURNING *
+    `, values);
+
+    return result.rows as FactCheckFinding[];
+  }
+
+  /**
+   * Get the findings for an AI response
+   */
+  static async getForResponse(aiResponseId: string): Promise<FactCheckFinding[]> {
+    const result = await query(`
+      SELECT * FROM fact_check_findings
+      WHERE ai_response_id = $1
+      ORDER BY created_at
+    `, [aiResponseId]);
+
+    return result.rows as FactCheckFinding[];
+  }
+
+  /**
+   * Get a brand's recent findings, newest first, with the model that made each claim
+   */
+  static async getForBrand(
+    brandId: string,
+    days = 30,
+    findingType?: FactCheckType,
+    limit = 100
+  ): Promise<FactCheckFinding[]> {
+    const params: any[] = [brandId, limit];
+    let typeFilter = '';
+    if (findingType) {
+      params.push(findingType);
+      typeFilter = 'AND f.finding_type = $3';
+    }
+
+    const result = await query(`
+      SELECT f.*, m.name AS model_name
+      FROM fact_check_findings f
+      JOIN ai_responses ar ON f.ai_response_id = ar.id
+      LEFT JOIN ai_models m ON ar.ai_model_id = m.id
+      WHERE f.brand_id = $1
+        AND f.created_at >= NOW() - INTERVAL '${days} days'
+        ${typeFilter}
+      ORDER BY f.created_at DESC
+      LIMIT $2
+    `, params);
+
+    return result.rows as FactCheckFinding[];
+  }
+
+  /**
+   * Count a brand's findings per type
+   */
+  static async countByType(brandId: string, days = 30): Promise<Partial<Record<FactCheckType, number>>> {
+    const result = await query(`
+      SELECT finding_type, COUNT(*) AS count
+      FROM fact_check_findings
+      WHERE brand_id = $1
+        AND created_at >= NOW() - INTERVAL '${days} days'
+      GROUP BY finding_type
+    `, [brandId]);
+
+    const counts: Partial<Record<FactCheckType, number>> = {};
+    for (const row of result.rows) {
+      counts[row.finding_type as FactCheckType] = parseInt(row.count) || 0;
+    }
+    return counts;
+  }
+}
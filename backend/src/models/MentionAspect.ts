@@ -0,0 +1,165 @@
+import { query } from '../config/database';
+import { MentionAspectScore } from '../types/ai';
+import { MentionAspectRecord, AspectSentimentTrend, AspectSentimentByModel } from '../types/database';
+
+export type AspectTrendPeriod = 'day' | 'week' | 'month';
+export type AspectSource = 'responses' | 'conversations';
+
+// Both mention tables lead to the AI model that produced the text
+const MODEL_JOINS = `
+  LEFT JOIN brand_mentions bm ON ma.brand_mention_id = bm.id
+  LEFT JOIN ai_responses ar ON bm.ai_response_id = ar.id
+  LEFT JOIN conversation_mentions cm ON ma.conversation_mention_id = cm.id
+  LEFT JOIN conversations c ON cm.conversation_id = c.id
+  LEFT JOIN ai_models m ON m.id = COALESCE(ar.ai_model_id, c.ai_model_id)
+`;
+
+export class MentionAspectModel {
+  /**
+   * Store the aspects of a mention in an AI response
+   */
+  static async addForBrandMention(
+    brandMentionId: string,
+    brandId: string,
+    aspects: MentionAspectScore[],
+    analyzerVersion?: string
+  ): Promise<MentionAspectRecord[]> {
+    return this.insert('brand_mention_id', brandMentionId, brandId, aspects, analyzerVersion);
+  }
+
+  /**
+   * Store the aspects of a mention in a conversation
+   */
+  static async addForConversationMention(
+    conversationMentionId: string,
+    brandId: string,
+    aspects: MentionAspectScore[],
+    analyzerVersion?: string
+  ): Promise<MentionAspectRecord[]> {
+    return this.insert('conversation_mention_id', conversationMentionId, brandId, aspects, analyzerVersion);
+  }
+
+  /**
+   * Get the aspects of an AI response mention
+   */
+  static async getForBrandMention(brandMentionId: string): Promise<MentionAspectRecord[]> {
+    const result = await query(`
+      SELECT * FROM mention_aspects
+      WHERE brand_mention_id = $1
+      ORDER BY aspect
+    `, [brandMentionId]);
+
+    return result.rows as MentionAspectRecord[];
+  }
+
+  /**
+   * Average sentiment per aspect and period for a brand, from both AI
+   * responses and conversations unless a source is given
+   */
+  static async getTrends(
+    brandId: string,
+    days = 30,
+    period: AspectTrendPeriod = 'day',
+    source?: AspectSource
+  ): Promise<AspectSentimentTrend[]> {
+    const sourceFilter = source === 'responses'
+      ? 'AND ma.brand_mention_id IS NOT NULL'
+      : source === 'conversations' ? 'AND ma.conversation_mention_id IS NOT NULL' : '';
+
+    const result = await query(`
+      SELECT
+        DATE_TRUNC($2, ma.created_at) AS period_start,
+        ma.aspect,
+        COUNT(*) AS mentions,
+        AVG(ma.sentiment_score) AS average_sentiment,
+        COUNT(*) FILTER (WHERE ma.sentiment_label = 'positive') AS positive,
+        COUNT(*) FILTER (WHERE ma.sentiment_label = 'negative') AS negative
+      FROM mention_aspects ma
+      WHERE ma.brand_id = $1
+        AND ma.created_at >= NOW() - INTERVAL '${days} days'
+        ${sourceFilter}
+      GROUP BY period_start, ma.aspect
+      ORDER BY period_start, ma.aspect
+    `, [brandId, period]);
+
+    return result.rows.map((row: any) => ({
+      period_start: row.period_start,
+      aspect: row.aspect,
+      ...this.toCounts(row)
+    }));
+  }
+
+  /**
+   * Average sentiment per aspect for each AI model that mentioned the brand
+   */
+  static async getByModel(brandId: string, days = 30): Promise<AspectSentimentByModel[]> {
+    const result = await query(`
+      SELECT
+        COALESCE(m.name, 'unknown') AS model_name,
+        ma.aspect,
+        COUNT(*) AS mentions,
+        AVG(ma.sentiment_score) AS average_sentiment,
+        COUNT(*) FILTER (WHERE ma.sentiment_label = 'positive') AS positive,
+        COUNT(*) FILTER (WHERE ma.sentiment_label = 'negative') AS negative
+      FROM mention_aspects ma
+      ${MODEL_JOINS}
+      WHERE ma.brand_id = $1
+        AND ma.created_at >= NOW() - INTERVAL '${days} days'
+      GROUP BY COALESCE(m.name, 'unknown'), ma.aspect
+      ORDER BY model_name, ma.aspect
+    `, [brandId]);
+
+    return result.rows.map((row: any) => ({
+      model_name: row.model_name,
+      aspect: row.aspect,
+      ...this.toCounts(row)
+    }));
+  }
+
+  private static async insert(
+    column: 'brand_mention_id' | 'conversation_mention_id',
+    mentionId: string,
+    brandId: string,
+    aspects: MentionAspectScore[],
+    analyzerVersion?: string
+  ): Promise<MentionAspectRecord[]> {
+    if (aspects.length === 0) {
+      return [];
+    }
+
+    const values: any[] = [];
+    const placeholders = aspects.map((aspect, index) => {
+      const offset = index * 8;
+      values.push(
+        mentionId,
+        brandId,
+        aspect.aspect,
+        aspect.evidence.slice(0, 2000),
+        aspect.sentiment_score,
+        aspect.sentiment_label,
+        aspect.confidence,
+        analyzerVersion || null
+      );
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`;
+    });
+
+    const result = await query(`
+      INSERT INTO mention_aspects (
+        ${column}, brand_id, aspect, evidence, sentiment_score, sentiment_label, confidence, analyzer_version
+      )
+      VALUES ${placeholders.join(', ')}
+      RETURNING *
+    `, values);
+
+    return result.rows as MentionAspectRecord[];
+  }
+
+  private static toCounts(row: any): Pick<AspectSentimentTrend, 'mentions' | 'average_sentiment' | 'positive' | 'negative'> {
+    return {
+      mentions: parseInt(row.mentions) || 0,
+      average_sentiment: Math.round((parseFloat(row.average_sentiment) || 0) * 100) / 100,
+      positive: parseInt(row.positive) || 0,
+      negative: parseInt(row.negative) || 0
+    };
+  }
+}
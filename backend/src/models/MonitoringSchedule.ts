@@ -0,0 +1,358 @@
+import { query } from '../config/database';
+import {
+  MonitoringSchedule,
+  MonitoringRun,
+  CreateMonitoringScheduleInput,
+  CreateMonitoringRunInput,
+  MonitoringRunFailure,
+  SampleStatistics
+} from '../types/database';
+import {
+  createMonitoringScheduleSchema,
+  updateMonitoringScheduleSchema,
+  validateSchema
+} from './validation';
+
+interface UpdateMonitoringScheduleData {
+  name?: string;
+  cron_expression?: string;
+  timezone?: string;
+  query_types?: string[];
+  target_models?: string[];
+}
+
+export class MonitoringScheduleModel {
+  /**
+   * Create a new monitoring schedule
+   */
+  static async create(scheduleData: CreateMonitoringScheduleInput): Promise<MonitoringSchedule> {
+    const validatedData = validateSchema<CreateMonitoringScheduleInput>(
+      createMonitoringScheduleSchema,
+      scheduleData
+    );
+
+    const result = await query(`
+      INSERT INTO monitoring_schedules (
+        brand_id, name, cron_expression, timezone, query_types, target_models, created_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `, [
+      validatedData.brand_id,
+      validatedData.name,
+      validatedData.cron_expression,
+      validatedData.timezone || 'UTC',
+      validatedData.query_types,
+      validatedData.target_models || [],
+      validatedData.created_by || null
+    ]);
+
+    return result.rows[0] as MonitoringSchedule;
+  }
+
+  /**
+   * Find schedule by ID
+   */
+  static async findById(id: string): Promise<MonitoringSchedule | null> {
+    const result = await query(
+      'SELECT * FROM monitoring_schedules WHERE id = $1 AND is_active = true',
+      [id]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as MonitoringSchedule : null;
+  }
+
+  /**
+   * Get all schedules for a brand
+   */
+  static async getByBrand(brandId: string): Promise<MonitoringSchedule[]> {
+    const result = await query(`
+      SELECT * FROM monitoring_schedules
+      WHERE brand_id = $1 AND is_active = true
+      ORDER BY created_at DESC
+    `, [brandId]);
+
+    return result.rows as MonitoringSchedule[];
+  }
+
+  /**
+   * Get every schedule that should currently be registered with the scheduler
+   */
+  static async getRunnable(): Promise<MonitoringSchedule[]> {
+    const result = await query(`
+      SELECT ms.* FROM monitoring_schedules ms
+      JOIN brands b ON ms.brand_id = b.id
+      WHERE ms.is_active = true AND ms.status = 'active' AND b.is_active = true
+      ORDER BY ms.created_at
+    `);
+
+    return result.rows as MonitoringSchedule[];
+  }
+
+  /**
+   * Update schedule configuration
+   */
+  static async update(id: string, updateData: UpdateMonitoringScheduleData): Promise<MonitoringSchedule> {
+    const validatedData = validateSchema<UpdateMonitoringScheduleData>(
+      updateMonitoringScheduleSchema,
+      updateData
+    );
+
+    const fields = Object.keys(validatedData);
+    const values = Object.values(validatedData);
+
+    if (fields.length === 0) {
+      throw new Error('No valid fields to update');
+    }
+
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+
+    const result = await query(`
+      UPDATE monitoring_schedules
+      SET ${setClause}, updated_at = NOW()
+      WHERE id = $1 AND is_active = true
+      RETURNING *
+    `, [id, ...values]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Monitoring schedule not found');
+    }
+
+    return result.rows[0] as MonitoringSchedule;
+  }
+
+  /**
+   * Set schedule status (active/paused)
+   */
+  static async setStatus(id: string, status: 'active' | 'paused'): Promise<MonitoringSchedule> {
+    const result = await query(`
+      UPDATE monitoring_schedules
+      SET status = $2, paused_reason = NULL, updated_at = NOW()
+      WHERE id = $1 AND is_active = true
+      RETURNING *
+    `, [id, status]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Monitoring schedule not found');
+    }
+
+    return result.rows[0] as MonitoringSchedule;
+  }
+
+  /**
+   * Pause active schedules because a spend budget was exceeded. Without a
+   * brand, every brand's schedules are paused (organization budget).
+   */
+  static async pauseForBudget(brandId: string | null): Promise<MonitoringSchedule[]> {
+    const result = await query(`
+      UPDATE monitoring_schedules
+      SET status = 'paused', paused_reason = 'budget_exceeded', updated_at = NOW()
+      WHERE status = 'active' AND is_active = true
+        AND ($1::uuid IS NULL OR brand_id = $1)
+      RETURNING *
+    `, [brandId]);
+
+    return result.rows as MonitoringSchedule[];
+  }
+
+  /**
+   * Get schedules that are paused because of a spend budget
+   */
+  static async getBudgetPaused(): Promise<MonitoringSchedule[]> {
+    const result = await query(`
+      SELECT * FROM monitoring_schedules
+      WHERE status = 'paused' AND paused_reason = 'budget_exceeded' AND is_active = true
+      ORDER BY created_at ASC
+    `);
+
+    return result.rows as MonitoringSchedule[];
+  }
+
+  /**
+   * Soft delete a schedule
+   */
+  static async delete(id: string): Promise<void> {
+    const result = await query(`
+      UPDATE monitoring_schedules
+      SET is_active = false, updated_at = NOW()
+      WHERE id = $1 AND is_active = true
+    `, [id]);
+
+    if (result.rowCount === 0) {
+      throw new Error('Monitoring schedule not found');
+    }
+  }
+
+  /**
+   * Record a new run in queued state
+   */
+  static async createRun(runData: CreateMonitoringRunInput): Promise<MonitoringRun> {
+    const result = await query(`
+      INSERT INTO monitoring_runs (
+        schedule_id, brand_id, trigger_type, query_types, target_models, requested_by,
+        samples, sample_temperature
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `, [
+      runData.schedule_id || null,
+      runData.brand_id,
+      runData.trigger_type,
+      runData.query_types || null,
+      runData.target_models || null,
+      runData.requested_by || null,
+      runData.samples || 1,
+      runData.sample_temperature ?? null
+    ]);
+
+    return result.rows[0] as MonitoringRun;
+  }
+
+  /**
+   * Mark a run as started
+   */
+  static async markRunStarted(runId: string): Promise<MonitoringRun> {
+    const result = await query(`
+      UPDATE monitoring_runs
+      SET status = 'running', started_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [runId]);
+
+    if (result.rows.length === 0) {
+      throw new Error(`Monitoring run ${runId} not found`);
+    }
+
+    return result.rows[0] as MonitoringRun;
+  }
+
+  /**
+   * Record progress of a running run
+   */
+  static async updateRunProgress(
+    runId: string,
+    progress: {
+      queries_total: number;
+      queries_completed: number;
+      models_queried: string[];
+      failures: MonitoringRunFailure[];
+    }
+  ): Promise<MonitoringRun> {
+    const result = await query(`
+      UPDATE monitoring_runs
+      SET queries_total = $2,
+          queries_completed = $3,
+          models_queried = $4,
+          failures = $5
+      WHERE id = $1
+      RETURNING *
+    `, [
+      runId,
+      progress.queries_total,
+      progress.queries_completed,
+      progress.models_queried,
+      JSON.stringify(progress.failures)
+    ]);
+
+    if (result.rows.length === 0) {
+      throw new Error(`Monitoring run ${runId} not found`);
+    }
+
+    return result.rows[0] as MonitoringRun;
+  }
+
+  /**
+   * Mark a run as finished, successfully or not
+   */
+  static async markRunFinished(
+    runId: string,
+    outcome: {
+      status: 'completed' | 'failed';
+      responses_count?: number;
+      total_cost?: number;
+      error_message?: string;
+      sample_statistics?: SampleStatistics;
+    }
+  ): Promise<MonitoringRun> {
+    const result = await query(`
+      UPDATE monitoring_runs
+      SET status = $2,
+          responses_count = $3,
+          total_cost = $4,
+          error_message = $5,
+          sample_statistics = $6,
+          finished_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [
+      runId,
+      outcome.status,
+      outcome.responses_count || 0,
+      outcome.total_cost || 0,
+      outcome.error_message || null,
+      outcome.sample_statistics ? JSON.stringify(outcome.sample_statistics) : null
+    ]);
+
+    if (result.rows.length === 0) {
+      throw new Error(`Monitoring run ${runId} not found`);
+    }
+
+    const run = result.rows[0] as MonitoringRun;
+
+    if (run.schedule_id) {
+      await query(
+        'UPDATE monitoring_schedules SET last_run_at = NOW() WHERE id = $1',
+        [run.schedule_id]
+      );
+    }
+
+    return run;
+  }
+
+  /**
+   * Find run by ID
+   */
+  static async findRunById(runId: string): Promise<MonitoringRun | null> {
+    const result = await query(
+      'SELECT * FROM monitoring_runs WHERE id = $1',
+      [runId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as MonitoringRun : null;
+  }
+
+  /**
+   * Get run history for a brand, optionally limited to one schedule
+   */
+  static async getRuns(
+    brandId: string,
+    options: { scheduleId?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ runs: MonitoringRun[]; total: number }> {
+    const { scheduleId, limit = 50, offset = 0 } = options;
+    const params: any[] = [brandId];
+    let scheduleFilter = '';
+
+    if (scheduleId) {
+      scheduleFilter = 'AND schedule_id = $2';
+      params.push(scheduleId);
+    }
+
+    const [runsResult, countResult] = await Promise.all([
+      query(`
+        SELECT * FROM monitoring_runs
+        WHERE brand_id = $1 ${scheduleFilter}
+        ORDER BY created_at DESC
+        LIMIT ${Number(limit)} OFFSET ${Number(offset)}
+      `, params),
+      query(`
+        SELECT COUNT(*) FROM monitoring_runs
+        WHERE brand_id = $1 ${scheduleFilter}
+      `, params)
+    ]);
+
+    return {
+      runs: runsResult.rows as MonitoringRun[],
+      total: parseInt(countResult.rows[0].count)
+    };
+  }
+}
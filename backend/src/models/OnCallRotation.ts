@@ -0,0 +1,145 @@
+import { query } from '../config/database';
+import { CreateOnCallRotationInput, OnCallRotation } from '../types/database';
+import {
+  createOnCallRotationSchema,
+  updateOnCallRotationSchema,
+  validateSchema
+} from './validation';
+
+interface UpdateOnCallRotationData {
+  name?: string;
+  user_ids?: string[];
+  shift_hours?: number;
+  starts_at?: Date;
+}
+
+export class OnCallRotationModel {
+  /**
+   * Create a new on-call rotation
+   */
+  static async create(rotationData: CreateOnCallRotationInput): Promise<OnCallRotation> {
+    const validatedData = validateSchema<CreateOnCallRotationInput>(
+      createOnCallRotationSchema,
+      rotationData
+    );
+
+    const result = await query(`
+      INSERT INTO on_call_rotations (brand_id, name, user_ids, shift_hours, starts_at, created_by)
+      VALUES ($1, $2, $3, $4, COALESCE($5, NOW()), $6)
+      RETURNING *
+    `, [
+      validatedData.brand_id,
+      validatedData.name,
+      validatedData.user_ids,
+      validatedData.shift_hours,
+      validatedData.starts_at || null,
+      validatedData.created_by || null
+    ]);
+
+    return result.rows[0] as OnCallRotation;
+  }
+
+  /**
+   * Find rotation by ID
+   */
+  static async findById(id: string): Promise<OnCallRotation | null> {
+    const result = await query(
+      'SELECT * FROM on_call_rotations WHERE id = $1 AND is_active = true',
+      [id]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as OnCallRotation : null;
+  }
+
+  /**
+   * Get all rotations for a brand
+   */
+  static async getByBrand(brandId: string): Promise<OnCallRotation[]> {
+    const result = await query(`
+      SELECT * FROM on_call_rotations
+      WHERE brand_id = $1 AND is_active = true
+      ORDER BY created_at DESC
+    `, [brandId]);
+
+    return result.rows as OnCallRotation[];
+  }
+
+  /**
+   * Update rotation configuration
+   */
+  static async update(id: string, updateData: UpdateOnCallRotationData): Promise<OnCallRotation> {
+    const validatedData = validateSchema<UpdateOnCallRotationData>(
+      updateOnCallRotationSchema,
+      updateData
+    );
+
+    const fields = Object.keys(validatedData);
+    const values = Object.values(validatedData);
+
+    if (fields.length === 0) {
+      throw new Error('No valid fields to update');
+    }
+
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+
+    const result = await query(`
+      UPDATE on_call_rotations
+      SET ${setClause}, updated_at = NOW()
+      WHERE id = $1 AND is_active = true
+      RETURNING *
+    `, [id, ...values]);
+
+    if (result.rows.length === 0) {
+      throw new Error('On-call rotation not found');
+    }
+
+    return result.rows[0] as OnCallRotation;
+  }
+
+  /**
+   * Soft delete a rotation
+   */
+  static async delete(id: string): Promise<void> {
+    const result = await query(`
+      UPDATE on_call_rotations
+      SET is_active = false, updated_at = NOW()
+      WHERE id = $1 AND is_active = true
+    `, [id]);
+
+    if (result.rowCount === 0) {
+      throw new Error('On-call rotation not found');
+    }
+  }
+
+  /**
+   * The user on call at a given time. Shifts of shift_hours pass through
+   * user_ids in turn from starts_at; before that, the first user is on call.
+   */
+  static getOnCallUserId(rotation: OnCallRotation, at: Date = new Date()): string | undefined {
+    const elapsed = at.getTime() - new Date(rotation.starts_at).getTime();
+    if (elapsed < 0) {
+      return rotation.user_ids[0];
+    }
+
+    const shift = Math.floor(elapsed / (rotation.shift_hours * 60 * 60 * 1000));
+    return rotation.user_ids[shift % rotation.user_ids.length];
+  }
+
+  /**
+   * Of the given users, those who are not active users of the brand
+   */
+  static async getNonMembers(brandId: string, userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const result = await query(`
+      SELECT u.id FROM users u
+      JOIN user_brands ub ON u.id = ub.user_id
+      WHERE ub.brand_id = $1 AND u.is_active = true AND u.id = ANY($2)
+    `, [brandId, userIds]);
+
+    const members = new Set(result.rows.map((row: any) => row.id as string));
+    return userIds.filter(userId => !members.has(userId));
+  }
+}
@@ -0,0 +1,220 @@
+import { query } from '../config/database';
+import { BUILT_IN_PROMPT_VARIABLES } from '../types/ai';
+import {
+  PromptTemplate,
+  PromptTemplateVersion,
+  ResolvedPromptTemplate,
+  CreatePromptTemplateInput,
+  CreatePromptTemplateVersionInput,
+  UpdatePromptTemplateInput
+} from '../types/database';
+import {
+  createPromptTemplateSchema,
+  createPromptTemplateVersionSchema,
+  updatePromptTemplateSchema,
+  validateSchema
+} from './validation';
+
+// Templates joined with their latest version
+const TEMPLATE_WITH_CURRENT_VERSION = `
+  SELECT t.*, row_to_json(v) AS current_version
+  FROM prompt_templates t
+  LEFT JOIN LATERAL (
+    SELECT * FROM prompt_template_versions
+    WHERE template_id = t.id
+    ORDER BY version DESC
+    LIMIT 1
+  ) v ON true
+`;
+
+export class PromptTemplateModel {
+  /**
+   * Create a template together with its first version
+   */
+  static async create(templateData: CreatePromptTemplateInput): Promise<PromptTemplate> {
+    const validatedData = validateSchema<CreatePromptTemplateInput>(createPromptTemplateSchema, templateData);
+    PromptTemplateModel.assertVariablesDefined(validatedData.body, validatedData.variables || {});
+
+    const existingTemplate = await query(
+      'SELECT id FROM prompt_templates WHERE name = $1 AND brand_id IS NOT DISTINCT FROM $2',
+      [validatedData.name, validatedData.brand_id || null]
+    );
+    if (existingTemplate.rows.length > 0) {
+      throw new Error('Prompt template with this name already exists');
+    }
+
+    const result = await query(`
+      WITH template AS (
+        INSERT INTO prompt_templates (name, brand_id, description, created_by)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+      ), version AS (
+        INSERT INTO prompt_template_versions (template_id, version, body, variables, created_by)
+        SELECT id, 1, $5, $6, $4 FROM template
+        RETURNING *
+      )
+      SELECT template.*, row_to_json(version) AS current_version
+      FROM template, version
+    `, [
+      validatedData.name,
+      validatedData.brand_id || null,
+      validatedData.description || null,
+      validatedData.created_by || null,
+      validatedData.body,
+      JSON.stringify(validatedData.variables || {})
+    ]);
+
+    return result.rows[0] as PromptTemplate;
+  }
+
+  /**
+   * Find a template by ID, with its current version
+   */
+  static async findById(id: string): Promise<PromptTemplate | null> {
+    const result = await query(`${TEMPLATE_WITH_CURRENT_VERSION} WHERE t.id = $1`, [id]);
+
+    return result.rows.length > 0 ? result.rows[0] as PromptTemplate : null;
+  }
+
+  /**
+   * List the shared library, or the templates that apply to a brand: the
+   * library plus the brand's overrides
+   */
+  static async list(brandId?: string): Promise<PromptTemplate[]> {
+    const result = await query(`
+      ${TEMPLATE_WITH_CURRENT_VERSION}
+      WHERE t.brand_id IS NULL OR t.brand_id = $1
+      ORDER BY t.name ASC, t.brand_id NULLS FIRST
+    `, [brandId || null]);
+
+    return result.rows as PromptTemplate[];
+  }
+
+  /**
+   * Update a template's description or active flag. Bodies change only
+   * through new versions.
+   */
+  static async update(id: string, updateData: UpdatePromptTemplateInput): Promise<PromptTemplate> {
+    const validatedData = validateSchema<UpdatePromptTemplateInput>(updatePromptTemplateSchema, updateData);
+
+    const fields = Object.keys(validatedData);
+    if (fields.length === 0) {
+      throw new Error('Validation error: No fields to update');
+    }
+
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+    const result = await query(
+      `UPDATE prompt_templates SET ${setClause} WHERE id = $1 RETURNING id`,
+      [id, ...Object.values(validatedData)]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Prompt template not found');
+    }
+
+    return (await PromptTemplateModel.findById(id))!;
+  }
+
+  /**
+   * Delete a template and its version history. Responses keep their text but
+   * lose the link to the deleted version.
+   */
+  static async delete(id: string): Promise<void> {
+    const result = await query('DELETE FROM prompt_templates WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      throw new Error('Prompt template not found');
+    }
+  }
+
+  /**
+   * Publish a new version of a template; it becomes the current version
+   */
+  static async createVersion(
+    templateId: string,
+    versionData: CreatePromptTemplateVersionInput
+  ): Promise<PromptTemplateVersion> {
+    const validatedData = validateSchema<CreatePromptTemplateVersionInput>(createPromptTemplateVersionSchema, versionData);
+    PromptTemplateModel.assertVariablesDefined(validatedData.body, validatedData.variables || {});
+
+    const result = await query(`
+      INSERT INTO prompt_template_versions (template_id, version, body, variables, change_note, created_by)
+      SELECT t.id, COALESCE(MAX(v.version), 0) + 1, $2, $3, $4, $5
+      FROM prompt_templates t
+      LEFT JOIN prompt_template_versions v ON v.template_id = t.id
+      WHERE t.id = $1
+      GROUP BY t.id
+      RETURNING *
+    `, [
+      templateId,
+      validatedData.body,
+      JSON.stringify(validatedData.variables || {}),
+      validatedData.change_note || null,
+      validatedData.created_by || null
+    ]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Prompt template not found');
+    }
+
+    return result.rows[0] as PromptTemplateVersion;
+  }
+
+  /**
+   * Get a template's version history, newest first
+   */
+  static async getVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+    const result = await query(`
+      SELECT * FROM prompt_template_versions
+      WHERE template_id = $1
+      ORDER BY version DESC
+    `, [templateId]);
+
+    return result.rows as PromptTemplateVersion[];
+  }
+
+  /**
+   * Resolve the current template version for each named query type, preferring
+   * the brand's override to the shared library. Names without an active
+   * template are left out.
+   */
+  static async resolveForBrand(brandId: string, names: string[]): Promise<ResolvedPromptTemplate[]> {
+    const result = await query(`
+      SELECT DISTINCT ON (t.name)
+        t.name, t.id AS template_id, t.brand_id,
+        v.id AS version_id, v.version, v.body, v.variables
+      FROM prompt_templates t
+      JOIN LATERAL (
+        SELECT * FROM prompt_template_versions
+        WHERE template_id = t.id
+        ORDER BY version DESC
+        LIMIT 1
+      ) v ON true
+      WHERE t.is_active = true
+        AND t.name = ANY($2)
+        AND (t.brand_id = $1 OR t.brand_id IS NULL)
+      ORDER BY t.name, t.brand_id NULLS LAST
+    `, [brandId, names]);
+
+    return result.rows as ResolvedPromptTemplate[];
+  }
+
+  /**
+   * Placeholders in a template body that are neither filled from the brand
+   * nor given a default value
+   */
+  static getUndefinedVariables(body: string, variables: Record<string, string>): string[] {
+    const builtIn: readonly string[] = BUILT_IN_PROMPT_VARIABLES;
+    const placeholders = Array.from(body.matchAll(/{([a-z][a-z0-9_]*)}/g), match => match[1]!);
+
+    return Array.from(new Set(placeholders))
+      .filter(name => !builtIn.includes(name) && !(name in variables));
+  }
+
+  private static assertVariablesDefined(body: string, variables: Record<string, string>): void {
+    const undefinedVariables = PromptTemplateModel.getUndefinedVariables(body, variables);
+    if (undefinedVariables.length > 0) {
+      throw new Error(`Validation error: No value for template variables ${undefinedVariables.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { query } from '../config/database';
+import {
+  RecommendationPrompt,
+  RecommendationResult,
+  RecommendationSummary,
+  CreateRecommendationPromptInput,
+  UpdateRecommendationPromptInput,
+  CreateRecommendationResultInput
+} from '../types/database';
+import {
+  createRecommendationPromptSchema,
+  updateRecommendationPromptSchema,
+  validateSchema
+} from './validation';
+
+export class RecommendationPromptModel {
+  /**
+   * Create a prompt for an industry, or for a single brand
+   */
+  static async create(promptData: CreateRecommendationPromptInput): Promise<RecommendationPrompt> {
+    const validatedData = validateSchema<CreateRecommendationPromptInput>(createRecommendationPromptSchema, promptData);
+
+    const result = await query(`
+      INSERT INTO recommendation_prompts (industry, brand_id, prompt, category, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `, [
+      validatedData.industry || null,
+      validatedData.brand_id || null,
+      validatedData.prompt,
+      validatedData.category || null,
+      validatedData.created_by || null
+    ]);
+
+    return result.rows[0] as RecommendationPrompt;
+  }
+
+  /**
+   * Find a prompt by ID
+   */
+  static async findById(id: string): Promise<RecommendationPrompt | null> {
+    const result = await query('SELECT * FROM recommendation_prompts WHERE id = $1', [id]);
+
+    return result.rows.length > 0 ? result.rows[0] as RecommendationPrompt : null;
+  }
+
+  /**
+   * List industry prompts, optionally for one industry
+   */
+  static async listByIndustry(industry?: string): Promise<RecommendationPrompt[]> {
+    const result = await query(`
+      SELECT * FROM recommendation_prompts
+      WHERE brand_id IS NULL
+        AND ($1::text IS NULL OR LOWER(industry) = LOWER($1))
+      ORDER BY industry ASC, created_at ASC
+    `, [industry || null]);
+
+    return result.rows as RecommendationPrompt[];
+  }
+
+  /**
+   * Get the prompts that apply to a brand: its industry's and its own
+   */
+  static async getForBrand(brandId: string, industry?: string, activeOnly = true): Promise<RecommendationPrompt[]> {
+    const result = await query(`
+      SELECT * FROM recommendation_prompts
+      WHERE (brand_id = $1 OR (brand_id IS NULL AND LOWER(industry) = LOWER($2)))
+        AND ($3 = false OR is_active = true)
+      ORDER BY brand_id NULLS FIRST, created_at ASC
+    `, [brandId, industry || null, activeOnly]);
+
+    return result.rows as RecommendationPrompt[];
+  }
+
+  /**
+   * Update a prompt
+   */
+  static async update(id: string, updateData: UpdateRecommendationPromptInput): Promise<RecommendationPrompt> {
+    const validatedData = validateSchema<UpdateRecommendationPromptInput>(updateRecommendationPromptSchema, updateData);
+
+    const fields = Object.keys(validatedData);
+    if (fields.length === 0) {
+      throw new Error('Validation error: No fields to update');
+    }
+
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+    const result = await query(
+      `UPDATE recommendation_prompts SET ${setClause} WHERE id = $1 RETURNING *`,
+      [id, ...Object.values(validatedData)]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Recommendation prompt not found');
+    }
+
+    return result.rows[0] as RecommendationPrompt;
+  }
+
+  /**
+   * Delete a prompt. Its past results are kept without the link.
+   */
+  static async delete(id: string): Promise<void> {
+    const result = await query('DELETE FROM recommendation_prompts WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      throw new Error('Recommendation prompt not found');
+    }
+  }
+
+  /**
+   * Record how one answer treated the brand
+   */
+  static async recordResult(resultData: CreateRecommendationResultInput): Promise<RecommendationResult> {
+    const result = await query(`
+      INSERT INTO recommendation_results (
+        brand_id, prompt_id, ai_response_id, model_name, brand_mentioned,
+        brand_position, competitors_mentioned, listed_brands
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `, [
+      resultData.brand_id,
+      resultData.prompt_id || null,
+      resultData.ai_response_id || null,
+      resultData.model_name || null,
+      resultData.brand_mentioned,
+      resultData.brand_position ?? null,
+      resultData.competitors_mentioned,
+      resultData.listed_brands
+    ]);
+
+    return result.rows[0] as RecommendationResult;
+  }
+
+  /**
+   * Share of recommendation, average list position and competitor counts
+   * over recent answers
+   */
+  static async getSummary(brandId: string, days = 30): Promise<RecommendationSummary> {
+    const totals = await query(`
+      SELECT
+        COUNT(*) AS answers,
+        COUNT(*) FILTER (WHERE brand_mentioned) AS mentioned,
+        AVG(brand_position) AS average_position
+      FROM recommendation_results
+      WHERE brand_id = $1
+        AND created_at >= NOW() - INTERVAL '${days} days'
+    `, [brandId]);
+
+    const competitors = await query(`
+      SELECT competitor, COUNT(*) AS answers
+      FROM recommendation_results, unnest(competitors_mentioned) AS competitor
+      WHERE brand_id = $1
+        AND created_at >= NOW() - INTERVAL '${days} days'
+      GROUP BY competitor
+      ORDER BY answers DESC
+    `, [brandId]);
+
+    const answers = parseInt(totals.rows[0]?.answers) || 0;
+    const mentioned = parseInt(totals.rows[0]?.mentioned) || 0;
+    const averagePosition = totals.rows[0]?.average_position;
+
+    return {
+      answers,
+      share_of_recommendation: answers > 0 ? Math.round((mentioned / answers) * 10000) / 100 : 0,
+      average_position: averagePosition !== null && averagePosition !== undefined
+        ? Math.round(parseFloat(averagePosition) * 100) / 100
+        : null,
+      competitor_mentions: Object.fromEntries(
+        competitors.rows.map((row: any) => [row.competitor, parseInt(row.answers)])
+      )
+    };
+  }
+}
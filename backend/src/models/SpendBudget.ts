@@ -0,0 +1,117 @@
+import { query } from '../config/database';
+import { SpendBudget, UpsertSpendBudgetInput } from '../types/database';
+import { upsertSpendBudgetSchema, validateSchema } from './validation';
+
+export class SpendBudgetModel {
+  /**
+   * Create or replace the budget for a brand, or for the organization.
+   * Changing a budget clears its exceeded marker for the month.
+   */
+  static async upsert(budgetData: UpsertSpendBudgetInput): Promise<SpendBudget> {
+    const validatedData = validateSchema<UpsertSpendBudgetInput>(upsertSpendBudgetSchema, budgetData);
+
+    const conflictTarget = validatedData.scope === 'brand'
+      ? '(brand_id) WHERE scope = \'brand\''
+      : '(scope) WHERE scope = \'organization\'';
+
+    const result = await query(`
+      INSERT INTO spend_budgets (scope, brand_id, monthly_limit, is_active, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT ${conflictTarget} DO UPDATE SET
+        monthly_limit = EXCLUDED.monthly_limit,
+        is_active = EXCLUDED.is_active,
+        exceeded_at = NULL,
+        updated_at = NOW()
+      RETURNING *
+    `, [
+      validatedData.scope,
+      validatedData.brand_id || null,
+      validatedData.monthly_limit,
+      validatedData.is_active ?? true,
+      validatedData.created_by || null
+    ]);
+
+    return result.rows[0] as SpendBudget;
+  }
+
+  /**
+   * Find the budget for a brand
+   */
+  static async findByBrand(brandId: string): Promise<SpendBudget | null> {
+    const result = await query(
+      'SELECT * FROM spend_budgets WHERE scope = \'brand\' AND brand_id = $1',
+      [brandId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as SpendBudget : null;
+  }
+
+  /**
+   * Find the organization-wide budget
+   */
+  static async findOrganization(): Promise<SpendBudget | null> {
+    const result = await query(
+      'SELECT * FROM spend_budgets WHERE scope = \'organization\''
+    );
+
+    return result.rows.length > 0 ? result.rows[0] as SpendBudget : null;
+  }
+
+  /**
+   * Get the active budgets that apply to a brand: its own and the organization's
+   */
+  static async getActiveForBrand(brandId: string): Promise<SpendBudget[]> {
+    const result = await query(`
+      SELECT * FROM spend_budgets
+      WHERE is_active = true
+        AND (scope = 'organization' OR brand_id = $1)
+      ORDER BY scope ASC
+    `, [brandId]);
+
+    return result.rows as SpendBudget[];
+  }
+
+  /**
+   * Delete the budget for a brand, or the organization budget
+   */
+  static async delete(scope: 'brand' | 'organization', brandId?: string): Promise<void> {
+    const result = scope === 'brand'
+      ? await query('DELETE FROM spend_budgets WHERE scope = \'brand\' AND brand_id = $1', [brandId])
+      : await query('DELETE FROM spend_budgets WHERE scope = \'organization\'');
+
+    if (result.rowCount === 0) {
+      throw new Error('Spend budget not found');
+    }
+  }
+
+  /**
+   * Mark a budget as exceeded for the current month. Returns the budget only
+   * the first time it is exceeded in a month, so callers act on it once.
+   */
+  static async markExceeded(id: string): Promise<SpendBudget | null> {
+    const result = await query(`
+      UPDATE spend_budgets
+      SET exceeded_at = NOW()
+      WHERE id = $1
+        AND (exceeded_at IS NULL OR exceeded_at < date_trunc('month', NOW()))
+      RETURNING *
+    `, [id]);
+
+    return result.rows.length > 0 ? result.rows[0] as SpendBudget : null;
+  }
+
+  /**
+   * Get AI spend for the current calendar month, for one brand or across all
+   * brands when no brand is given
+   */
+  static async getMonthlySpend(brandId?: string): Promise<number> {
+    const result = await query(`
+      SELECT COALESCE(SUM(cost), 0) AS total_spend
+      FROM ai_responses
+      WHERE created_at >= date_trunc('month', NOW())
+        AND ($1::uuid IS NULL OR brand_id = $1)
+    `, [brandId || null]);
+
+    return parseFloat(result.rows[0]?.total_spend) || 0;
+  }
+}
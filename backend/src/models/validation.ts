@@ -1,10 +1,14 @@
 import Joi from 'joi';
+import { parseExpression } from 'cron-parser';
+import { RESPONSE_CONDITION_METRICS, VISIBILITY_CONDITION_METRICS } from '../services/AlertConditions';
 
 // Common validation patterns
 const uuidSchema = Joi.string().uuid();
 const emailSchema = Joi.string().email().max(255);
 const urlSchema = Joi.string().uri().max(500);
 const timestampSchema = Joi.date();
+// Prompt template names double as query types
+const queryTypeSchema = Joi.string().pattern(/^[a-z][a-z0-9_]{0,49}$/, 'query type');
 
 // User validation schemas
 export const createUserSchema = Joi.object({
@@ -51,6 +55,32 @@ export const updateBrandSchema = Joi.object({
   is_active: Joi.boolean()
 });
 
+export const brandFactSheetSchema = Joi.object({
+  key_facts: Joi.array().items(Joi.object({
+    attribute: Joi.string().valid('founded_year', 'headquarters', 'founder', 'other').required(),
+    value: Joi.when('attribute', {
+      is: 'founded_year',
+      then: Joi.string().pattern(/^\d{4}$/, 'year').required(),
+      otherwise: Joi.string().min(1).max(500).required()
+    }),
+    label: Joi.string().max(100)
+  })).max(50).default([]),
+  products: Joi.array().items(Joi.object({
+    name: Joi.string().min(1).max(255).required(),
+    description: Joi.string().max(1000),
+    price: Joi.string().max(100)
+  })).max(100).default([]),
+  executives: Joi.array().items(Joi.object({
+    name: Joi.string().min(1).max(255).required(),
+    title: Joi.string().min(1).max(100).required()
+  })).max(50).default([]),
+  discontinued_items: Joi.array().items(Joi.object({
+    name: Joi.string().min(1).max(255).required(),
+    discontinued_on: Joi.string().max(50),
+    replaced_by: Joi.string().max(255)
+  })).max(100).default([])
+});
+
 // AI Model validation schemas
 export const createAIModelSchema = Joi.object({
   name: Joi.string().min(1).max(100).required(),
@@ -81,7 +111,11 @@ export const createAIResponseSchema = Joi.object({
   confidence_score: Joi.number().min(0).max(1),
   processing_time_ms: Joi.number().integer().min(0),
   tokens_used: Joi.number().integer().min(0),
-  cost: Joi.number().precision(6).min(0)
+  prompt_tokens: Joi.number().integer().min(0),
+  completion_tokens: Joi.number().integer().min(0),
+  cost: Joi.number().precision(6).min(0),
+  prompt_template_version_id: uuidSchema,
+  grounded: Joi.boolean()
 });
 
 // Citation validation schemas
@@ -95,7 +129,15 @@ export const createCitationSchema = Joi.object({
   relevance_score: Joi.number().min(0).max(1),
   content_type: Joi.string().max(100),
   publish_date: timestampSchema,
-  last_crawled: timestampSchema
+  last_crawled: timestampSchema,
+  source: Joi.string().valid('text', 'search')
+});
+
+export const setDomainAuthoritySchema = Joi.object({
+  domain: Joi.string().hostname().max(255).required(),
+  authority_score: Joi.number().min(0).max(1).required(),
+  notes: Joi.string().max(500).allow(''),
+  updated_by: uuidSchema
 });
 
 // Brand Mention validation schemas
@@ -107,7 +149,8 @@ export const createBrandMentionSchema = Joi.object({
   position_in_response: Joi.number().integer().min(0),
   sentiment_score: Joi.number().min(-1).max(1),
   sentiment_label: Joi.string().valid('positive', 'negative', 'neutral'),
-  confidence: Joi.number().min(0).max(1)
+  confidence: Joi.number().min(0).max(1),
+  analyzer_version: Joi.string().max(100)
 });
 
 // Visibility Metrics validation schemas
@@ -127,21 +170,91 @@ export const createVisibilityMetricsSchema = Joi.object({
 });
 
 // Alert Threshold validation schemas
+// Visibility metrics a threshold can watch
+const alertMetricTypeSchema = Joi.string().valid(
+  'overall_score', 'ranking_position', 'mention_frequency', 'average_sentiment',
+  'citation_count', 'source_quality_score', 'inaccuracy_count'
+);
+
+// A composite rule condition: an {all: [...]} or {any: [...]} group, or one comparison.
+// Consecutive runs only apply to visibility metrics, and model scoping to response metrics
+const alertConditionSchema = Joi.object({
+  all: Joi.array().items(Joi.link('#alertCondition')).min(1).max(10),
+  any: Joi.array().items(Joi.link('#alertCondition')).min(1).max(10),
+  metric: Joi.string().valid(...VISIBILITY_CONDITION_METRICS, ...RESPONSE_CONDITION_METRICS),
+  operator: Joi.string().valid('>', '<', '>=', '<=', '=')
+    .when('metric', { is: Joi.exist(), then: Joi.required(), otherwise: Joi.forbidden() }),
+  value: Joi.number().when('metric', { is: Joi.exist(), then: Joi.required(), otherwise: Joi.forbidden() }),
+  change: Joi.string().valid('percent').when('metric', { not: Joi.exist(), then: Joi.forbidden() }),
+  window_hours: Joi.number().integer().min(1).max(720).when('metric', { not: Joi.exist(), then: Joi.forbidden() }),
+  consecutive_runs: Joi.number().integer().min(2).max(50)
+    .when('metric', { not: Joi.valid(...VISIBILITY_CONDITION_METRICS), then: Joi.forbidden() })
+    .when('change', { is: Joi.exist(), then: Joi.forbidden() }),
+  model: Joi.alternatives(Joi.string().valid('any', 'all'), uuidSchema)
+    .when('metric', { not: Joi.valid(...RESPONSE_CONDITION_METRICS), then: Joi.forbidden() })
+}).xor('all', 'any', 'metric').id('alertCondition');
+
+// A static rule compares against threshold_value; anomaly rules against a rolling
+// baseline, in the direction the operator gives; composite rules evaluate a condition
+const alertRuleKeys = {
+  detection_method: Joi.string()
+    .valid('static', 'z_score', 'percent_change', 'seasonal', 'composite')
+    .default('static'),
+  metric_type: Joi.when('detection_method', {
+    is: 'composite',
+    then: Joi.string().valid('composite').default('composite'),
+    otherwise: alertMetricTypeSchema.required()
+  }),
+  threshold_value: Joi.number().when('detection_method', {
+    is: 'static',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  comparison_operator: Joi.when('detection_method', {
+    switch: [
+      { is: 'static', then: Joi.string().valid('>', '<', '>=', '<=', '=').required() },
+      { is: 'composite', then: Joi.forbidden() }
+    ],
+    otherwise: Joi.string().valid('>', '<').required()
+  }),
+  sensitivity: Joi.number().positive().max(1000)
+    .when('detection_method', { is: Joi.valid('static', 'composite'), then: Joi.forbidden() }),
+  min_samples: Joi.number().integer().min(2).max(1000)
+    .when('detection_method', { is: Joi.valid('static', 'composite'), then: Joi.forbidden() }),
+  baseline_days: Joi.number().integer().min(1).max(365)
+    .when('detection_method', { is: Joi.valid('static', 'composite'), then: Joi.forbidden() }),
+  condition: Joi.when('detection_method', {
+    is: 'composite',
+    then: alertConditionSchema.required(),
+    otherwise: Joi.forbidden()
+  }),
+  severity: Joi.string().valid('low', 'medium', 'high', 'critical')
+    .when('detection_method', { not: 'composite', then: Joi.forbidden() })
+};
+
+// Shared so the condition's links resolve from inside the detection_method switch
+export const alertRuleSchema = Joi.object(alertRuleKeys).shared(alertConditionSchema);
+
 export const createAlertThresholdSchema = Joi.object({
   brand_id: uuidSchema.required(),
   user_id: uuidSchema.required(),
-  metric_type: Joi.string().min(1).max(50).required(),
-  threshold_value: Joi.number().required(),
-  comparison_operator: Joi.string().valid('>', '<', '>=', '<=', '=').required(),
+  ...alertRuleKeys,
   notification_channels: Joi.array().items(
     Joi.string().valid('email', 'sms', 'webhook', 'in_app')
   ).min(1).required()
-});
+}).shared(alertConditionSchema);
 
+// Checked again with alertRuleSchema once applied to the stored rule
 export const updateAlertThresholdSchema = Joi.object({
-  metric_type: Joi.string().min(1).max(50),
+  metric_type: alertMetricTypeSchema,
+  detection_method: Joi.string().valid('static', 'z_score', 'percent_change', 'seasonal', 'composite'),
   threshold_value: Joi.number(),
   comparison_operator: Joi.string().valid('>', '<', '>=', '<=', '='),
+  sensitivity: Joi.number().positive().max(1000),
+  min_samples: Joi.number().integer().min(2).max(1000),
+  baseline_days: Joi.number().integer().min(1).max(365),
+  condition: alertConditionSchema,
+  severity: Joi.string().valid('low', 'medium', 'high', 'critical'),
   is_active: Joi.boolean(),
   notification_channels: Joi.array().items(
     Joi.string().valid('email', 'sms', 'webhook', 'in_app')
@@ -160,6 +273,57 @@ export const createAlertSchema = Joi.object({
   threshold_value: Joi.number()
 });
 
+export const alertFiltersSchema = Joi.object({
+  severity: Joi.string().valid('low', 'medium', 'high', 'critical'),
+  acknowledged: Joi.boolean(),
+  resolved: Joi.boolean(),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+export const incidentFiltersSchema = Joi.object({
+  status: Joi.string().valid('open', 'resolved'),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+// Escalation validation schemas
+const onCallUsersSchema = Joi.array().items(uuidSchema).min(1).max(50).unique();
+
+export const upsertEscalationPolicySchema = Joi.object({
+  brand_id: uuidSchema.required(),
+  name: Joi.string().min(1).max(255).required(),
+  severities: Joi.array().items(
+    Joi.string().valid('low', 'medium', 'high', 'critical')
+  ).min(1).unique().default(['high', 'critical']),
+  steps: Joi.array().items(Joi.object({
+    delay_minutes: Joi.number().integer().min(1).max(1440).required(),
+    channels: Joi.array().items(
+      Joi.string().valid('email', 'sms', 'webhook', 'in_app')
+    ).min(1).unique().required(),
+    user_ids: onCallUsersSchema,
+    rotation_id: uuidSchema
+  })).min(1).max(10).required(),
+  repeat_limit: Joi.number().integer().min(0).max(20).default(3),
+  created_by: uuidSchema
+});
+
+export const createOnCallRotationSchema = Joi.object({
+  brand_id: uuidSchema.required(),
+  name: Joi.string().min(1).max(255).required(),
+  user_ids: onCallUsersSchema.required(),
+  shift_hours: Joi.number().integer().min(1).max(2160).default(168),
+  starts_at: timestampSchema,
+  created_by: uuidSchema
+});
+
+export const updateOnCallRotationSchema = Joi.object({
+  name: Joi.string().min(1).max(255),
+  user_ids: onCallUsersSchema,
+  shift_hours: Joi.number().integer().min(1).max(2160),
+  starts_at: timestampSchema
+});
+
 // Competitive Analysis validation schemas
 export const createCompetitiveAnalysisSchema = Joi.object({
   brand_id: uuidSchema.required(),
@@ -176,6 +340,96 @@ export const createCompetitiveAnalysisSchema = Joi.object({
   analysis_metadata: Joi.object()
 });
 
+// Monitoring schedule validation schemas
+// Parsed the way Bull parses repeat jobs, so a schedule that saves also runs
+const cronExpressionSchema = Joi.string()
+  .trim()
+  .max(100)
+  .pattern(/^(\S+\s+){4,5}\S+$/, 'cron expression')
+  .custom((value: string, helpers) => {
+    try {
+      parseExpression(value);
+    } catch (error) {
+      return helpers.message({ custom: `{{#label}} must be a valid cron expression (${(error as Error).message})` });
+    }
+    return value;
+  });
+const monitoringQueryTypesSchema = Joi.array().items(queryTypeSchema).min(1);
+
+export const createMonitoringScheduleSchema = Joi.object({
+  brand_id: uuidSchema.required(),
+  name: Joi.string().min(1).max(255).required(),
+  cron_expression: cronExpressionSchema.required(),
+  timezone: Joi.string().max(64),
+  query_types: monitoringQueryTypesSchema.default(['visibility', 'sentiment', 'reputation', 'news', 'recommendation']),
+  target_models: Joi.array().items(Joi.string().max(100)).default([]),
+  created_by: uuidSchema
+});
+
+export const updateMonitoringScheduleSchema = Joi.object({
+  name: Joi.string().min(1).max(255),
+  cron_expression: cronExpressionSchema,
+  timezone: Joi.string().max(64),
+  query_types: monitoringQueryTypesSchema,
+  target_models: Joi.array().items(Joi.string().max(100))
+});
+
+// Spend budget validation schemas
+export const upsertSpendBudgetSchema = Joi.object({
+  scope: Joi.string().valid('brand', 'organization').required(),
+  brand_id: uuidSchema.when('scope', {
+    is: 'brand',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  monthly_limit: Joi.number().precision(2).min(0).max(9999999999).required(),
+  is_active: Joi.boolean().default(true),
+  created_by: uuidSchema
+});
+
+// Prompt template validation schemas
+const promptTemplateBodySchema = Joi.string().trim().min(1).max(2000);
+const promptVariablesSchema = Joi.object().pattern(
+  Joi.string().pattern(/^[a-z][a-z0-9_]{0,49}$/, 'variable name'),
+  Joi.string().max(500)
+);
+
+export const createPromptTemplateSchema = Joi.object({
+  name: queryTypeSchema.required(),
+  brand_id: uuidSchema,
+  description: Joi.string().max(1000),
+  body: promptTemplateBodySchema.required(),
+  variables: promptVariablesSchema.default({}),
+  created_by: uuidSchema
+});
+
+export const createPromptTemplateVersionSchema = Joi.object({
+  body: promptTemplateBodySchema.required(),
+  variables: promptVariablesSchema.default({}),
+  change_note: Joi.string().max(500),
+  created_by: uuidSchema
+});
+
+export const updatePromptTemplateSchema = Joi.object({
+  description: Joi.string().max(1000),
+  is_active: Joi.boolean()
+});
+
+// Recommendation prompt validation schemas
+export const createRecommendationPromptSchema = Joi.object({
+  industry: Joi.string().trim().max(100),
+  brand_id: uuidSchema,
+  prompt: Joi.string().trim().min(1).max(2000).required(),
+  category: Joi.string().max(255),
+  created_by: uuidSchema
+}).xor('industry', 'brand_id');
+
+export const updateRecommendationPromptSchema = Joi.object({
+  prompt: Joi.string().trim().min(1).max(2000),
+  category: Joi.string().max(255),
+  is_active: Joi.boolean()
+});
+
 // Query parameter validation schemas
 export const paginationSchema = Joi.object({
   limit: Joi.number().integer().min(1).max(100).default(50),
@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { AlertsController } from '../controllers/alerts';
+import { EscalationController } from '../controllers/escalation';
+import { authenticate, authorizeBrandAccess, validateRequestBody } from '../middleware/auth';
+
+const router = Router();
+
+// All alert routes require authentication
+router.use(authenticate);
+
+// Alert threshold endpoints
+router.get('/brands/:brandId/thresholds',
+  authorizeBrandAccess('viewer'),
+  AlertsController.getThresholds
+);
+router.post('/brands/:brandId/thresholds',
+  authorizeBrandAccess('editor'),
+  // Which other fields a rule needs depends on its detection method, checked by the controller
+  validateRequestBody(['notification_channels']),
+  AlertsController.createThreshold
+);
+router.put('/brands/:brandId/thresholds/:thresholdId',
+  authorizeBrandAccess('editor'),
+  AlertsController.updateThreshold
+);
+router.delete('/brands/:brandId/thresholds/:thresholdId',
+  authorizeBrandAccess('editor'),
+  AlertsController.deleteThreshold
+);
+
+// Escalation policy and on-call rotation endpoints
+router.get('/brands/:brandId/escalation-policy',
+  authorizeBrandAccess('viewer'),
+  EscalationController.getPolicy
+);
+router.put('/brands/:brandId/escalation-policy',
+  authorizeBrandAccess('editor'),
+  validateRequestBody(['name', 'steps']),
+  EscalationController.setPolicy
+);
+router.delete('/brands/:brandId/escalation-policy',
+  authorizeBrandAccess('editor'),
+  EscalationController.deletePolicy
+);
+router.get('/brands/:brandId/on-call',
+  authorizeBrandAccess('viewer'),
+  EscalationController.getRotations
+);
+router.post('/brands/:brandId/on-call',
+  authorizeBrandAccess('editor'),
+  validateRequestBody(['name', 'user_ids']),
+  EscalationController.createRotation
+);
+router.put('/brands/:brandId/on-call/:rotationId',
+  authorizeBrandAccess('editor'),
+  EscalationController.updateRotation
+);
+router.delete('/brands/:brandId/on-call/:rotationId',
+  authorizeBrandAccess('editor'),
+  EscalationController.deleteRotation
+);
+
+// Incident endpoints, registered before the alert routes their paths would also match
+router.get('/brands/:brandId/incidents',
+  authorizeBrandAccess('viewer'),
+  AlertsController.getIncidents
+);
+router.get('/brands/:brandId/incidents/:incidentId',
+  authorizeBrandAccess('viewer'),
+  AlertsController.getIncident
+);
+router.post('/brands/:brandId/incidents/:incidentId/resolve',
+  authorizeBrandAccess('editor'),
+  AlertsController.resolveIncident
+);
+
+// Alert endpoints
+router.get('/brands/:brandId',
+  authorizeBrandAccess('viewer'),
+  AlertsController.getAlerts
+);
+router.get('/brands/:brandId/statistics',
+  authorizeBrandAccess('viewer'),
+  AlertsController.getStatistics
+);
+router.post('/brands/:brandId/:alertId/acknowledge',
+  authorizeBrandAccess('viewer'),
+  AlertsController.acknowledgeAlert
+);
+router.post('/brands/:brandId/:alertId/resolve',
+  authorizeBrandAccess('editor'),
+  AlertsController.resolveAlert
+);
+router.get('/brands/:brandId/:alertId/escalations',
+  authorizeBrandAccess('viewer'),
+  AlertsController.getEscalations
+);
+
+export const alertsRouter = router;
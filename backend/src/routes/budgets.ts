@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { BudgetsController } from '../controllers/budgets';
+import { authenticate, authorize, authorizeBrandAccess, validateRequestBody } from '../middleware/auth';
+
+const router = Router();
+
+// All budget routes require authentication
+router.use(authenticate);
+
+// Organization-wide budget endpoints
+router.get('/organization',
+  authorize(['admin']),
+  BudgetsController.getOrganizationBudget
+);
+router.put('/organization',
+  authorize(['admin']),
+  validateRequestBody(['monthly_limit']),
+  BudgetsController.setOrganizationBudget
+);
+router.delete('/organization',
+  authorize(['admin']),
+  BudgetsController.deleteOrganizationBudget
+);
+
+// Brand budget endpoints
+router.get('/brands/:brandId',
+  authorizeBrandAccess('viewer'),
+  BudgetsController.getBrandBudget
+);
+router.put('/brands/:brandId',
+  authorizeBrandAccess('owner'),
+  validateRequestBody(['monthly_limit']),
+  BudgetsController.setBrandBudget
+);
+router.delete('/brands/:brandId',
+  authorizeBrandAccess('owner'),
+  BudgetsController.deleteBrandBudget
+);
+
+export const budgetsRouter = router;
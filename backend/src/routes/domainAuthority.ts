@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { DomainAuthorityController } from '../controllers/domainAuthority';
+import { authenticate, authorize, validateRequestBody } from '../middleware/auth';
+
+const router = Router();
+
+// All domain authority routes require authentication
+router.use(authenticate);
+
+router.get('/', DomainAuthorityController.listDomains);
+router.post('/learn',
+  authorize(['admin']),
+  DomainAuthorityController.learn
+);
+router.get('/:domain', DomainAuthorityController.getDomain);
+router.put('/:domain',
+  authorize(['admin']),
+  validateRequestBody(['authority_score']),
+  DomainAuthorityController.setDomain
+);
+router.delete('/:domain',
+  authorize(['admin']),
+  DomainAuthorityController.clearDomain
+);
+
+export const domainAuthorityRouter = router;
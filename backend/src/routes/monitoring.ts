@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { MonitoringController } from '../controllers/monitoring';
+import { authenticate, authorizeBrandAccess, validateRequestBody } from '../middleware/auth';
+
+const router = Router();
+
+// All monitoring routes require authentication
+router.use(authenticate);
+
+// Monitoring run endpoints
+router.post('/brands/:brandId/runs',
+  authorizeBrandAccess('editor'),
+  MonitoringController.monitorBrand
+);
+router.get('/brands/:brandId/runs/:runId',
+  authorizeBrandAccess('viewer'),
+  MonitoringController.getRun
+);
+
+// Batch runs check access per brand in the controller
+router.post('/batch',
+  validateRequestBody(['brandIds']),
+  MonitoringController.batchMonitorBrands
+);
+
+// Monitoring data endpoints
+router.get('/brands/:brandId/trends',
+  authorizeBrandAccess('viewer'),
+  MonitoringController.getVisibilityTrends
+);
+router.post('/brands/:brandId/compare',
+  authorizeBrandAccess('viewer'),
+  validateRequestBody(['competitors']),
+  MonitoringController.compareWithCompetitors
+);
+router.get('/brands/:brandId/dashboard',
+  authorizeBrandAccess('viewer'),
+  MonitoringController.getDashboardData
+);
+
+// Response diff endpoints
+router.get('/brands/:brandId/responses/comparisons',
+  authorizeBrandAccess('viewer'),
+  MonitoringController.getResponseComparisons
+);
+router.get('/brands/:brandId/responses/:responseId/diff',
+  authorizeBrandAccess('viewer'),
+  MonitoringController.getResponseDiff
+);
+
+export const monitoringRouter = router;
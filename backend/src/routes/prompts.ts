@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { PromptsController } from '../controllers/prompts';
+import { authenticate, authorize, authorizeBrandAccess, validateRequestBody } from '../middleware/auth';
+
+const router = Router();
+
+// All prompt template routes require authentication
+router.use(authenticate);
+
+// Shared library endpoints
+router.get('/library', PromptsController.getTemplates);
+router.post('/library',
+  authorize(['admin']),
+  validateRequestBody(['name', 'body']),
+  PromptsController.createTemplate
+);
+router.get('/library/:templateId', PromptsController.getTemplate);
+router.put('/library/:templateId',
+  authorize(['admin']),
+  PromptsController.updateTemplate
+);
+router.delete('/library/:templateId',
+  authorize(['admin']),
+  PromptsController.deleteTemplate
+);
+router.get('/library/:templateId/versions', PromptsController.getVersions);
+router.post('/library/:templateId/versions',
+  authorize(['admin']),
+  validateRequestBody(['body']),
+  PromptsController.createVersion
+);
+
+// Brand override endpoints
+router.get('/brands/:brandId',
+  authorizeBrandAccess('viewer'),
+  PromptsController.getTemplates
+);
+router.post('/brands/:brandId',
+  authorizeBrandAccess('editor'),
+  validateRequestBody(['name', 'body']),
+  PromptsController.createTemplate
+);
+router.get('/brands/:brandId/:templateId',
+  authorizeBrandAccess('viewer'),
+  PromptsController.getTemplate
+);
+router.put('/brands/:brandId/:templateId',
+  authorizeBrandAccess('editor'),
+  PromptsController.updateTemplate
+);
+router.delete('/brands/:brandId/:templateId',
+  authorizeBrandAccess('editor'),
+  PromptsController.deleteTemplate
+);
+router.get('/brands/:brandId/:templateId/versions',
+  authorizeBrandAccess('viewer'),
+  PromptsController.getVersions
+);
+router.post('/brands/:brandId/:templateId/versions',
+  authorizeBrandAccess('editor'),
+  validateRequestBody(['body']),
+  PromptsController.createVersion
+);
+
+export const promptsRouter = router;
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { RecommendationsController } from '../controllers/recommendations';
+import { authenticate, authorize, authorizeBrandAccess, validateRequestBody } from '../middleware/auth';
+
+const router = Router();
+
+// All recommendation routes require authentication
+router.use(authenticate);
+
+// Industry prompt endpoints
+router.get('/prompts', RecommendationsController.getIndustryPrompts);
+router.post('/prompts',
+  authorize(['admin']),
+  validateRequestBody(['industry', 'prompt']),
+  RecommendationsController.createPrompt
+);
+router.put('/prompts/:promptId',
+  authorize(['admin']),
+  RecommendationsController.updatePrompt
+);
+router.delete('/prompts/:promptId',
+  authorize(['admin']),
+  RecommendationsController.deletePrompt
+);
+
+// Brand endpoints
+router.get('/brands/:brandId',
+  authorizeBrandAccess('viewer'),
+  RecommendationsController.getBrandRecommendations
+);
+router.post('/brands/:brandId/prompts',
+  authorizeBrandAccess('editor'),
+  validateRequestBody(['prompt']),
+  RecommendationsController.createPrompt
+);
+router.put('/brands/:brandId/prompts/:promptId',
+  authorizeBrandAccess('editor'),
+  RecommendationsController.updatePrompt
+);
+router.delete('/brands/:brandId/prompts/:promptId',
+  authorizeBrandAccess('editor'),
+  RecommendationsController.deletePrompt
+);
+
+export const recommendationsRouter = router;
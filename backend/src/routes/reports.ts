@@ -13,6 +13,16 @@ router.get('/brands/:brandId/metrics', ReportsController.getAggregatedMetrics);
 router.post('/brands/:brandId/export', ReportsController.exportReport);
 router.get('/brands/:brandId/summary', ReportsController.getReportSummary);
 
+// Aspect sentiment endpoints
+router.get('/brands/:brandId/aspects', ReportsController.getAspectSentimentTrends);
+router.get('/brands/:brandId/aspects/models', ReportsController.getAspectSentimentByModel);
+
+// Cited source endpoints
+router.get('/brands/:brandId/sources', ReportsController.getSourceLeaderboard);
+
+// Grounded vs ungrounded answers
+router.get('/brands/:brandId/grounding', ReportsController.getGroundingComparison);
+
 // Report configuration endpoints
 router.get('/options', ReportsController.getReportOptions);
 
@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { SchedulesController } from '../controllers/schedules';
+import { authenticate, authorizeBrandAccess, validateRequestBody } from '../middleware/auth';
+
+const router = Router();
+
+// All schedule routes require authentication
+router.use(authenticate);
+
+// Schedule management endpoints
+router.get('/brands/:brandId',
+  authorizeBrandAccess('viewer'),
+  SchedulesController.getSchedules
+);
+router.post('/brands/:brandId',
+  authorizeBrandAccess('editor'),
+  validateRequestBody(['name', 'cron_expression']),
+  SchedulesController.createSchedule
+);
+router.put('/brands/:brandId/:scheduleId',
+  authorizeBrandAccess('editor'),
+  SchedulesController.updateSchedule
+);
+router.delete('/brands/:brandId/:scheduleId',
+  authorizeBrandAccess('editor'),
+  SchedulesController.deleteSchedule
+);
+
+// Schedule lifecycle endpoints
+router.post('/brands/:brandId/:scheduleId/pause',
+  authorizeBrandAccess('editor'),
+  SchedulesController.pauseSchedule
+);
+router.post('/brands/:brandId/:scheduleId/resume',
+  authorizeBrandAccess('editor'),
+  SchedulesController.resumeSchedule
+);
+router.post('/brands/:brandId/:scheduleId/trigger',
+  authorizeBrandAccess('editor'),
+  SchedulesController.triggerSchedule
+);
+
+// Run history endpoints
+router.get('/brands/:brandId/runs',
+  authorizeBrandAccess('viewer'),
+  SchedulesController.getRuns
+);
+router.get('/brands/:brandId/:scheduleId/runs',
+  authorizeBrandAccess('viewer'),
+  SchedulesController.getRuns
+);
+
+export const schedulesRouter = router;
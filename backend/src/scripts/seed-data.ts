@@ -10,7 +10,9 @@ export const seedAIModels = async (): Promise<void> => {
       model_version: 'gpt-4-1106-preview',
       api_endpoint: 'https://api.openai.com/v1/chat/completions',
       rate_limit_per_minute: 500,
-      cost_per_request: 0.03
+      cost_per_request: 0.03,
+      input_cost_per_1k_tokens: 0.01,
+      output_cost_per_1k_tokens: 0.03
     },
     {
       name: 'GPT-3.5 Turbo',
@@ -18,7 +20,9 @@ export const seedAIModels = async (): Promise<void> => {
       model_version: 'gpt-3.5-turbo-1106',
       api_endpoint: 'https://api.openai.com/v1/chat/completions',
       rate_limit_per_minute: 3500,
-      cost_per_request: 0.002
+      cost_per_request: 0.002,
+      input_cost_per_1k_tokens: 0.001,
+      output_cost_per_1k_tokens: 0.002
     },
     {
       name: 'Claude 3 Opus',
@@ -26,7 +30,9 @@ export const seedAIModels = async (): Promise<void> => {
       model_version: 'claude-3-opus-20240229',
       api_endpoint: 'https://api.anthropic.com/v1/messages',
       rate_limit_per_minute: 1000,
-      cost_per_request: 0.015
+      cost_per_request: 0.015,
+      input_cost_per_1k_tokens: 0.015,
+      output_cost_per_1k_tokens: 0.075
     },
     {
       name: 'Claude 3 Sonnet',
@@ -34,7 +40,9 @@ export const seedAIModels = async (): Promise<void> => {
       model_version: 'claude-3-sonnet-20240229',
       api_endpoint: 'https://api.anthropic.com/v1/messages',
       rate_limit_per_minute: 1000,
-      cost_per_request: 0.003
+      cost_per_request: 0.003,
+      input_cost_per_1k_tokens: 0.003,
+      output_cost_per_1k_tokens: 0.015
     },
     {
       name: 'Claude 3 Haiku',
@@ -42,7 +50,9 @@ export const seedAIModels = async (): Promise<void> => {
       model_version: 'claude-3-haiku-20240307',
       api_endpoint: 'https://api.anthropic.com/v1/messages',
       rate_limit_per_minute: 1000,
-      cost_per_request: 0.00025
+      cost_per_request: 0.00025,
+      input_cost_per_1k_tokens: 0.00025,
+      output_cost_per_1k_tokens: 0.00125
     },
     {
       name: 'Gemini Pro',
@@ -50,7 +60,9 @@ export const seedAIModels = async (): Promise<void> => {
       model_version: 'gemini-1.5-pro-latest',
       api_endpoint: 'https://generativelanguage.googleapis.com',
       rate_limit_per_minute: 300,
-      cost_per_request: 0.0035
+      cost_per_request: 0.0035,
+      input_cost_per_1k_tokens: 0.0035,
+      output_cost_per_1k_tokens: 0.0105
     },
     {
       name: 'Gemini Pro Vision',
@@ -58,7 +70,9 @@ export const seedAIModels = async (): Promise<void> => {
       model_version: 'gemini-1.5-pro-vision-latest',
       api_endpoint: 'https://generativelanguage.googleapis.com',
       rate_limit_per_minute: 300,
-      cost_per_request: 0.0035
+      cost_per_request: 0.0035,
+      input_cost_per_1k_tokens: 0.0035,
+      output_cost_per_1k_tokens: 0.0105
     },
     {
       name: 'Gemini Flash',
@@ -66,23 +80,31 @@ export const seedAIModels = async (): Promise<void> => {
       model_version: 'gemini-1.5-flash-latest',
       api_endpoint: 'https://generativelanguage.googleapis.com',
       rate_limit_per_minute: 1000,
-      cost_per_request: 0.00035
+      cost_per_request: 0.00035,
+      input_cost_per_1k_tokens: 0.00035,
+      output_cost_per_1k_tokens: 0.00105
     }
   ];
 
   for (const model of aiModels) {
     try {
       await query(`
-        INSERT INTO ai_models (name, provider, model_version, api_endpoint, rate_limit_per_minute, cost_per_request)
-        VALUES ($1, $2, $3, $4, $5, $6)
+        INSERT INTO ai_models (
+          name, provider, model_version, api_endpoint, rate_limit_per_minute, cost_per_request,
+          input_cost_per_1k_tokens, output_cost_per_1k_tokens
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
         ON CONFLICT (name) DO UPDATE SET
           provider = EXCLUDED.provider,
           model_version = EXCLUDED.model_version,
           api_endpoint = EXCLUDED.api_endpoint,
           rate_limit_per_minute = EXCLUDED.rate_limit_per_minute,
           cost_per_request = EXCLUDED.cost_per_request,
+          input_cost_per_1k_tokens = EXCLUDED.input_cost_per_1k_tokens,
+          output_cost_per_1k_tokens = EXCLUDED.output_cost_per_1k_tokens,
           updated_at = NOW()
-      `, [model.name, model.provider, model.model_version, model.api_endpoint, model.rate_limit_per_minute, model.cost_per_request]);
+      `, [model.name, model.provider, model.model_version, model.api_endpoint, model.rate_limit_per_minute, model.cost_per_request,
+          model.input_cost_per_1k_tokens, model.output_cost_per_1k_tokens]);
       
       console.log(`✅ Seeded AI model: ${model.name}`);
     } catch (error) {
@@ -145,6 +167,24 @@ export const seedSampleData = async (): Promise<void> => {
       console.log('✅ Associated admin user with TechCorp brand');
     }
 
+    // Buyer-intent prompts for the sample brand's industry
+    const recommendationPrompts = [
+      ['What are the best AI platforms for enterprise automation?', 'Enterprise AI platforms'],
+      ['Which companies offer the most reliable machine learning tools for startups?', 'ML tools for startups'],
+      ['What software should a mid-sized company use to add AI to its customer support?', 'AI customer support']
+    ];
+    for (const [prompt, category] of recommendationPrompts) {
+      await query(`
+        INSERT INTO recommendation_prompts (industry, prompt, category, created_by)
+        SELECT $1, $2, $3, $4
+        WHERE NOT EXISTS (
+          SELECT 1 FROM recommendation_prompts WHERE brand_id IS NULL AND prompt = $2
+        )
+      `, ['Technology', prompt, category, adminUser.rows[0]?.id]);
+    }
+
+    console.log('✅ Seeded Technology recommendation prompts');
+
   } catch (error) {
     console.error('❌ Failed to seed sample data:', error);
   }
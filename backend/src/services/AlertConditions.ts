@@ -0,0 +1,98 @@
+import { AlertCondition, AlertConditionLeaf, AlertConditionResult } from '../types/database';
+
+// Read from the runs stored in visibility_metrics, for the brand as a whole
+export const VISIBILITY_CONDITION_METRICS = [
+  'overall_score', 'ranking_position', 'mention_frequency', 'average_sentiment',
+  'citation_count', 'source_quality_score', 'inaccuracy_count'
+] as const;
+
+// Counted from the stored answers, so they can be scoped to a model
+export const RESPONSE_CONDITION_METRICS = [
+  'mentions', 'negative_mentions', 'mention_rate', 'mention_sentiment', 'citations'
+] as const;
+
+export const DEFAULT_CONDITION_WINDOW_HOURS = 24;
+
+/**
+ * Walks the expression tree of a composite alert rule. Conditions are
+ * observed by AlertManagementService; this combines and describes them.
+ */
+export class AlertConditions {
+  /**
+   * Every condition in the expression, in reading order
+   */
+  static leaves(condition: AlertCondition): AlertConditionLeaf[] {
+    if ('all' in condition) {
+      return condition.all.flatMap(child => AlertConditions.leaves(child));
+    }
+    if ('any' in condition) {
+      return condition.any.flatMap(child => AlertConditions.leaves(child));
+    }
+    return [condition];
+  }
+
+  static isResponseMetric(metric: string): boolean {
+    return (RESPONSE_CONDITION_METRICS as readonly string[]).includes(metric);
+  }
+
+  /**
+   * Whether the expression holds, given what each of its conditions observed
+   */
+  static isMatched(
+    condition: AlertCondition,
+    results: Map<AlertConditionLeaf, AlertConditionResult>
+  ): boolean {
+    if ('all' in condition) {
+      return condition.all.every(child => AlertConditions.isMatched(child, results));
+    }
+    if ('any' in condition) {
+      return condition.any.some(child => AlertConditions.isMatched(child, results));
+    }
+    return results.get(condition)?.matched ?? false;
+  }
+
+  /**
+   * Percent change from the previous value. Null without a previous value,
+   * or from zero, which has no percentage.
+   */
+  static percentChange(current: number | null, previous: number | null): number | null {
+    if (current === null || previous === null || previous === 0) {
+      return null;
+    }
+    return Math.round(((current - previous) / Math.abs(previous)) * 10000) / 100;
+  }
+
+  /**
+   * The expression as text, e.g. "(overall_score change over 24h <= -10% AND
+   * negative_mentions change over 24h >= 100% on any model)"
+   */
+  static describe(condition: AlertCondition): string {
+    if ('all' in condition) {
+      return `(${condition.all.map(child => AlertConditions.describe(child)).join(' AND ')})`;
+    }
+    if ('any' in condition) {
+      return `(${condition.any.map(child => AlertConditions.describe(child)).join(' OR ')})`;
+    }
+    return AlertConditions.describeLeaf(condition);
+  }
+
+  static describeLeaf(leaf: AlertConditionLeaf): string {
+    const windowHours = leaf.window_hours ?? DEFAULT_CONDITION_WINDOW_HOURS;
+    const measured = leaf.change
+      ? `${leaf.metric} change over ${windowHours}h`
+      : AlertConditions.isResponseMetric(leaf.metric)
+        ? `${leaf.metric} over ${windowHours}h`
+        : leaf.metric;
+
+    let text = `${measured} ${leaf.operator} ${leaf.value}${leaf.change ? '%' : ''}`;
+    if (leaf.consecutive_runs) {
+      text += ` for ${leaf.consecutive_runs} consecutive runs`;
+    }
+    if (leaf.model === 'any' || leaf.model === 'all') {
+      text += ` on ${leaf.model === 'any' ? 'any model' : 'every model'}`;
+    } else if (leaf.model) {
+      text += ` on model ${leaf.model}`;
+    }
+    return text;
+  }
+}
@@ -1,5 +1,22 @@
 import { query } from '../config/database';
-import { Alert, AlertThreshold, VisibilityMetrics } from '../types/database';
+import {
+  Alert,
+  AlertAnomalyMethod,
+  AlertBaseline,
+  AlertComparisonOperator,
+  AlertCondition,
+  AlertConditionLeaf,
+  AlertConditionResult,
+  AlertDetectionMethod,
+  AlertThreshold,
+  EscalationPolicy,
+  EscalationStep,
+  VisibilityMetrics
+} from '../types/database';
+import { AlertIncidentModel } from '../models/AlertIncident';
+import { EscalationPolicyModel } from '../models/EscalationPolicy';
+import { OnCallRotationModel } from '../models/OnCallRotation';
+import { AlertConditions, DEFAULT_CONDITION_WINDOW_HOURS } from './AlertConditions';
 import Queue from 'bull';
 import Redis from 'ioredis';
 
@@ -7,8 +24,14 @@ export interface AlertConfig {
   brand_id: string;
   user_id: string;
   metric_type: string;
-  threshold_value: number;
-  comparison_operator: '>' | '<' | '>=' | '<=' | '=';
+  detection_method?: AlertDetectionMethod;
+  threshold_value?: number;
+  comparison_operator?: AlertComparisonOperator;
+  sensitivity?: number;
+  min_samples?: number;
+  baseline_days?: number;
+  condition?: AlertCondition;
+  severity?: 'low' | 'medium' | 'high' | 'critical';
   notification_channels: string[];
 }
 
@@ -16,8 +39,22 @@ export interface AlertEvaluationResult {
   triggered: boolean;
   alert?: Alert | undefined;
   threshold: AlertThreshold;
-  current_value: number;
+  current_value: number | null; // Null for composite rules, which watch several values
   severity: 'low' | 'medium' | 'high' | 'critical';
+  baseline?: AlertBaseline | undefined;
+  condition_results?: AlertConditionResult[] | undefined;
+}
+
+export interface SystemAlertInput {
+  brand_id: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  message: string;
+  metric_type: string;
+  current_value?: number;
+  threshold_value?: number;
+  ai_model_id?: string; // When the alert points to one model
+  visibility_metrics_id?: string;
 }
 
 export interface NotificationChannel {
@@ -44,6 +81,35 @@ export class AlertManagementService {
   private static readonly DEFAULT_NOTIFICATION_BATCH_SIZE = 100;
   private static readonly MAX_NOTIFICATION_BATCH_SIZE = 500;
 
+  // Used when an anomaly rule leaves its sensitivity, window or sample size unset
+  private static readonly ANOMALY_DEFAULTS: Record<AlertAnomalyMethod, { sensitivity: number; baseline_days: number }> = {
+    z_score: { sensitivity: 3, baseline_days: 14 },
+    percent_change: { sensitivity: 20, baseline_days: 7 },
+    seasonal: { sensitivity: 3, baseline_days: 56 },
+  };
+  private static readonly DEFAULT_MIN_SAMPLES = 5;
+
+  // The kinds of rule each setting belongs to; a rule that changes kind clears the rest
+  private static readonly RULE_SETTINGS: Record<string, AlertDetectionMethod[]> = {
+    threshold_value: ['static'],
+    comparison_operator: ['static', 'z_score', 'percent_change', 'seasonal'],
+    sensitivity: ['z_score', 'percent_change', 'seasonal'],
+    min_samples: ['z_score', 'percent_change', 'seasonal'],
+    baseline_days: ['z_score', 'percent_change', 'seasonal'],
+    condition: ['composite'],
+    severity: ['composite'],
+  };
+
+  // SQL for each response metric a composite rule can count, over ai_responses ar
+  // joined to the brand's mentions bm, or to citations c for citations
+  private static readonly RESPONSE_METRIC_SQL: Record<string, string> = {
+    mentions: 'COUNT(bm.id)',
+    negative_mentions: `COUNT(bm.id) FILTER (WHERE bm.sentiment_label = 'negative')`,
+    mention_rate: 'COUNT(DISTINCT bm.ai_response_id) * 100.0 / COUNT(DISTINCT ar.id)',
+    mention_sentiment: 'AVG(bm.sentiment_score)',
+    citations: 'COUNT(c.id)',
+  };
+
   constructor() {
     // Initialize Redis connection for Bull Queue
     this.redis = new Redis({
@@ -79,8 +145,9 @@ export class AlertManagementService {
     try {
       const result = await query(
         `INSERT INTO alert_thresholds 
-         (brand_id, user_id, metric_type, threshold_value, comparison_operator, notification_channels)
-         VALUES ($1, $2, $3, $4, $5, $6)
+         (brand_id, user_id, metric_type, threshold_value, comparison_operator, notification_channels,
+          detection_method, sensitivity, min_samples, baseline_days, condition, severity)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
          RETURNING *`,
         [
           config.brand_id,
@@ -89,10 +156,16 @@ export class AlertManagementService {
           config.threshold_value,
           config.comparison_operator,
           config.notification_channels,
+          config.detection_method ?? 'static',
+          config.sensitivity ?? null,
+          config.min_samples ?? null,
+          config.baseline_days ?? null,
+          config.condition ? JSON.stringify(config.condition) : null,
+          config.severity ?? null,
         ]
       );
 
-      return result.rows[0] as AlertThreshold;
+      return this.toAlertThreshold(result.rows[0]);
     } catch (error) {
       console.error('Failed to create alert threshold:', error);
       throw error;
@@ -111,9 +184,11 @@ export class AlertManagementService {
       const values: any[] = [];
       let paramIndex = 1;
 
-      if (updates.metric_type !== undefined) {
+      // Composite rules watch no single metric
+      const metricType = updates.detection_method === 'composite' ? 'composite' : updates.metric_type;
+      if (metricType !== undefined) {
         setParts.push(`metric_type = $${paramIndex++}`);
-        values.push(updates.metric_type);
+        values.push(metricType);
       }
       if (updates.threshold_value !== undefined) {
         setParts.push(`threshold_value = $${paramIndex++}`);
@@ -127,6 +202,36 @@ export class AlertManagementService {
         setParts.push(`notification_channels = $${paramIndex++}`);
         values.push(updates.notification_channels);
       }
+      if (updates.detection_method !== undefined) {
+        setParts.push(`detection_method = $${paramIndex++}`);
+        values.push(updates.detection_method);
+
+        for (const [setting, methods] of Object.entries(AlertManagementService.RULE_SETTINGS)) {
+          if (!methods.includes(updates.detection_method)) {
+            setParts.push(`${setting} = NULL`);
+          }
+        }
+      }
+      if (updates.condition !== undefined) {
+        setParts.push(`condition = $${paramIndex++}`);
+        values.push(JSON.stringify(updates.condition));
+      }
+      if (updates.severity !== undefined) {
+        setParts.push(`severity = $${paramIndex++}`);
+        values.push(updates.severity);
+      }
+      if (updates.sensitivity !== undefined) {
+        setParts.push(`sensitivity = $${paramIndex++}`);
+        values.push(updates.sensitivity);
+      }
+      if (updates.min_samples !== undefined) {
+        setParts.push(`min_samples = $${paramIndex++}`);
+        values.push(updates.min_samples);
+      }
+      if (updates.baseline_days !== undefined) {
+        setParts.push(`baseline_days = $${paramIndex++}`);
+        values.push(updates.baseline_days);
+      }
 
       setParts.push(`updated_at = NOW()`);
       values.push(thresholdId);
@@ -143,7 +248,7 @@ export class AlertManagementService {
         throw new Error(`Alert threshold with ID ${thresholdId} not found or inactive`);
       }
 
-      return result.rows[0] as AlertThreshold;
+      return this.toAlertThreshold(result.rows[0]);
     } catch (error) {
       console.error(`Failed to update alert threshold ${thresholdId}:`, error);
       throw error;
@@ -179,13 +284,46 @@ export class AlertManagementService {
         [brandId]
       );
 
-      return result.rows as AlertThreshold[];
+      return result.rows.map((row: any) => this.toAlertThreshold(row));
     } catch (error) {
       console.error(`Failed to get alert thresholds for brand ${brandId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Get an active alert threshold by ID
+   */
+  async getAlertThreshold(thresholdId: string): Promise<AlertThreshold | null> {
+    try {
+      const result = await query(
+        'SELECT * FROM alert_thresholds WHERE id = $1 AND is_active = true',
+        [thresholdId]
+      );
+
+      return result.rows[0] ? this.toAlertThreshold(result.rows[0]) : null;
+    } catch (error) {
+      console.error(`Failed to get alert threshold ${thresholdId}:`, error);
+      throw error;
+    }
+  }
+
+  private toAlertThreshold(row: any): AlertThreshold {
+    const {
+      threshold_value, comparison_operator, sensitivity, min_samples, baseline_days, condition, severity, ...threshold
+    } = row;
+    return {
+      ...threshold,
+      ...(threshold_value != null && { threshold_value: parseFloat(threshold_value) }),
+      ...(comparison_operator != null && { comparison_operator }),
+      ...(condition != null && { condition }),
+      ...(severity != null && { severity }),
+      ...(sensitivity != null && { sensitivity: parseFloat(sensitivity) }),
+      ...(min_samples != null && { min_samples }),
+      ...(baseline_days != null && { baseline_days })
+    };
+  }
+
   /**
    * Evaluate all thresholds for a brand against current metrics
    */
@@ -198,12 +336,24 @@ export class AlertManagementService {
       const results: AlertEvaluationResult[] = [];
 
       for (const threshold of thresholds) {
-        const result = await this.evaluateThreshold(threshold, metrics);
+        // Not compared when the run recorded no value, such as the list position of a brand no list named
+        if (this.isUnrecorded(threshold.metric_type, metrics)) {
+          continue;
+        }
+
+        const result = threshold.detection_method === 'composite'
+          ? await this.evaluateCompositeRule(threshold, metrics)
+          : await this.evaluateThreshold(threshold, metrics);
+        if (!result) {
+          continue;
+        }
         results.push(result);
 
         // If alert is triggered, queue it for processing
         if (result.triggered && result.alert) {
           await this.queueAlert(result.alert);
+        } else if (result.triggered) {
+          await this.recordRepeat(threshold);
         }
       }
 
@@ -215,43 +365,59 @@ export class AlertManagementService {
   }
 
   /**
-   * Evaluate a single threshold against metrics
+   * Evaluate a single threshold against metrics. Null when an anomaly rule
+   * does not yet have enough earlier metrics for a baseline.
    */
   private async evaluateThreshold(
     threshold: AlertThreshold,
     metrics: VisibilityMetrics
-  ): Promise<AlertEvaluationResult> {
+  ): Promise<AlertEvaluationResult | null> {
     try {
       const currentValue = this.extractMetricValue(threshold.metric_type, metrics);
-      const triggered = this.compareValues(
-        currentValue,
-        threshold.threshold_value,
-        threshold.comparison_operator
-      );
+      // Only composite rules, evaluated elsewhere, have no operator
+      const operator = threshold.comparison_operator!;
+
+      let triggered: boolean;
+      let thresholdValue: number;
+      let severity: AlertEvaluationResult['severity'];
+      let baseline: AlertBaseline | undefined;
+
+      if (threshold.detection_method && threshold.detection_method !== 'static') {
+        baseline = await this.getBaseline(threshold, threshold.detection_method as AlertAnomalyMethod, metrics) ?? undefined;
+        if (!baseline) {
+          return null;
+        }
+
+        thresholdValue = this.getBaselineBound(baseline, operator);
+        triggered = this.isAnomalous(baseline, currentValue, operator);
+        severity = this.calculateAnomalySeverity(baseline);
+      } else {
+        thresholdValue = threshold.threshold_value ?? 0;
+        triggered = this.compareValues(currentValue, thresholdValue, operator);
+        severity = this.calculateSeverity(threshold.metric_type, currentValue, thresholdValue, operator);
+      }
 
       let alert: Alert | undefined;
       if (triggered) {
         // Check if we should suppress duplicate alerts
-        const shouldSuppress = await this.shouldSuppressAlert(threshold, currentValue);
+        const shouldSuppress = await this.shouldSuppressAlert(threshold, currentValue, thresholdValue);
         
         if (!shouldSuppress) {
-          alert = await this.createAlert(threshold, currentValue, metrics);
+          alert = await this.createAlert(threshold, currentValue, metrics, {
+            threshold_value: thresholdValue,
+            severity,
+            baseline
+          });
         }
       }
 
-      const severity = this.calculateSeverity(
-        threshold.metric_type,
-        currentValue,
-        threshold.threshold_value,
-        threshold.comparison_operator
-      );
-
       return {
         triggered,
         alert,
         threshold,
         current_value: currentValue,
         severity,
+        baseline,
       };
     } catch (error) {
       console.error('Failed to evaluate threshold:', error);
@@ -259,28 +425,428 @@ export class AlertManagementService {
     }
   }
 
+  /**
+   * Build an anomaly rule's baseline from the brand's earlier metrics for the
+   * same model and query category, so drift in one does not mask another.
+   * Seasonal rules only look at earlier runs on the same weekday. Null until
+   * there are enough samples, or for a percent change from a median of zero.
+   */
+  private async getBaseline(
+    threshold: AlertThreshold,
+    method: AlertAnomalyMethod,
+    metrics: VisibilityMetrics
+  ): Promise<AlertBaseline | null> {
+    const defaults = AlertManagementService.ANOMALY_DEFAULTS[method];
+    const sensitivity = threshold.sensitivity ?? defaults.sensitivity;
+    const windowDays = threshold.baseline_days ?? defaults.baseline_days;
+    const minSamples = threshold.min_samples ?? AlertManagementService.DEFAULT_MIN_SAMPLES;
+
+    // metric_type has already been checked against the known metric columns by extractMetricValue
+    const column = threshold.metric_type;
+    const result = await query(
+      `SELECT ${column}::float AS value
+       FROM visibility_metrics
+       WHERE brand_id = $1
+         AND id <> $2
+         AND ai_model_id IS NOT DISTINCT FROM $3
+         AND query_category IS NOT DISTINCT FROM $4
+         AND metric_date BETWEEN $5::date - INTERVAL '${windowDays} days' AND $5::date
+         AND ${column} IS NOT NULL
+         ${method === 'seasonal' ? 'AND EXTRACT(DOW FROM metric_date) = EXTRACT(DOW FROM $5::date)' : ''}`,
+      [metrics.brand_id, metrics.id, metrics.ai_model_id ?? null, metrics.query_category ?? null, metrics.metric_date]
+    );
+
+    const samples: number[] = result.rows.map((row: any) => Number(row.value));
+    if (samples.length < minSamples) {
+      return null;
+    }
+
+    const currentValue = this.extractMetricValue(threshold.metric_type, metrics);
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    if (method === 'percent_change') {
+      const median = this.median(samples);
+      if (median === 0) {
+        return null;
+      }
+
+      return {
+        method,
+        value: round(median),
+        sample_size: samples.length,
+        window_days: windowDays,
+        sensitivity,
+        deviation: round(((currentValue - median) / Math.abs(median)) * 100),
+      };
+    }
+
+    const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+    const stdDev = Math.sqrt(
+      samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (samples.length - 1)
+    );
+
+    return {
+      method,
+      value: round(mean),
+      std_dev: round(stdDev),
+      sample_size: samples.length,
+      window_days: windowDays,
+      sensitivity,
+      deviation: stdDev > 0 ? round((currentValue - mean) / stdDev) : null,
+    };
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1]! + sorted[middle]!) / 2
+      : sorted[middle]!;
+  }
+
+  /**
+   * The value past which an anomaly rule triggers, in the rule's direction
+   */
+  private getBaselineBound(baseline: AlertBaseline, operator: string): number {
+    const direction = operator.startsWith('<') ? -1 : 1;
+    const spread = baseline.method === 'percent_change'
+      ? Math.abs(baseline.value) * baseline.sensitivity / 100
+      : (baseline.std_dev ?? 0) * baseline.sensitivity;
+
+    return Math.round((baseline.value + direction * spread) * 100) / 100;
+  }
+
+  /**
+   * Whether the value is past the baseline by at least the rule's sensitivity,
+   * in the rule's direction
+   */
+  private isAnomalous(baseline: AlertBaseline, currentValue: number, operator: string): boolean {
+    const below = operator.startsWith('<');
+
+    // A flat baseline has no spread, so any move away from it counts
+    if (baseline.deviation === null) {
+      return below ? currentValue < baseline.value : currentValue > baseline.value;
+    }
+
+    return below
+      ? baseline.deviation <= -baseline.sensitivity
+      : baseline.deviation >= baseline.sensitivity;
+  }
+
+  /**
+   * Grade an anomaly by how far past the sensitivity it went
+   */
+  private calculateAnomalySeverity(baseline: AlertBaseline): 'low' | 'medium' | 'high' | 'critical' {
+    if (baseline.deviation === null) {
+      return 'medium';
+    }
+
+    const ratio = Math.abs(baseline.deviation) / baseline.sensitivity;
+
+    if (ratio >= 2) {
+      return 'critical';
+    } else if (ratio >= 1.5) {
+      return 'high';
+    } else if (ratio >= 1.2) {
+      return 'medium';
+    } else {
+      return 'low';
+    }
+  }
+
+  /**
+   * Evaluate a composite rule. Every condition is observed, so the alert can
+   * show what each one saw, before the expression is combined.
+   */
+  private async evaluateCompositeRule(
+    threshold: AlertThreshold,
+    metrics: VisibilityMetrics
+  ): Promise<AlertEvaluationResult> {
+    try {
+      const condition = threshold.condition!;
+      const results = new Map<AlertConditionLeaf, AlertConditionResult>();
+      for (const leaf of AlertConditions.leaves(condition)) {
+        results.set(leaf, AlertConditions.isResponseMetric(leaf.metric)
+          ? await this.observeResponseCondition(leaf, metrics.brand_id)
+          : await this.observeVisibilityCondition(leaf, metrics));
+      }
+
+      const triggered = AlertConditions.isMatched(condition, results);
+      const severity = threshold.severity ?? 'medium';
+      const conditionResults = Array.from(results.values());
+
+      let alert: Alert | undefined;
+      if (triggered && !await this.hasOpenRuleAlert(threshold)) {
+        alert = await this.createCompositeAlert(threshold, severity, conditionResults, metrics);
+      }
+
+      return {
+        triggered,
+        alert,
+        threshold,
+        current_value: null,
+        severity,
+        condition_results: conditionResults,
+      };
+    } catch (error) {
+      console.error('Failed to evaluate composite rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Observe a visibility metric condition: the run just recorded, the last
+   * runs for consecutive counts, or the change from the average of the runs
+   * in the window before it. Runs are those of the same model and query
+   * category as the recorded one.
+   */
+  private async observeVisibilityCondition(
+    leaf: AlertConditionLeaf,
+    metrics: VisibilityMetrics
+  ): Promise<AlertConditionResult> {
+    const current = this.isUnrecorded(leaf.metric, metrics)
+      ? null
+      : this.extractMetricValue(leaf.metric, metrics);
+
+    // metric was checked against the visibility metric columns when the rule was saved
+    const column = leaf.metric;
+    const scope = [metrics.brand_id, metrics.ai_model_id ?? null, metrics.query_category ?? null];
+    const scopeSql = `brand_id = $1
+         AND ai_model_id IS NOT DISTINCT FROM $2
+         AND query_category IS NOT DISTINCT FROM $3`;
+
+    if (leaf.consecutive_runs) {
+      const result = await query(
+        `SELECT ${column}::float AS value
+         FROM visibility_metrics
+         WHERE ${scopeSql}
+         ORDER BY metric_date DESC, metric_hour DESC NULLS LAST, created_at DESC
+         LIMIT ${leaf.consecutive_runs}`,
+        scope
+      );
+
+      const runs: Array<number | null> = result.rows.map((row: any) => row.value);
+      return {
+        condition: leaf,
+        matched: runs.length === leaf.consecutive_runs &&
+          runs.every(value => value !== null && this.compareValues(value, leaf.value, leaf.operator)),
+        value: current,
+      };
+    }
+
+    if (leaf.change) {
+      const windowHours = leaf.window_hours ?? DEFAULT_CONDITION_WINDOW_HOURS;
+      const result = await query(
+        `SELECT AVG(${column})::float AS value
+         FROM visibility_metrics
+         WHERE ${scopeSql}
+           AND id <> $4
+           AND created_at >= NOW() - INTERVAL '${windowHours} hours'`,
+        [...scope, metrics.id]
+      );
+
+      return this.toConditionResult(leaf, AlertConditions.percentChange(current, result.rows[0]?.value ?? null));
+    }
+
+    return this.toConditionResult(leaf, current);
+  }
+
+  /**
+   * Observe a response metric condition over the brand's answers in the last
+   * window, and for changes the window before it. Conditions scoped to models
+   * are counted per model.
+   */
+  private async observeResponseCondition(
+    leaf: AlertConditionLeaf,
+    brandId: string
+  ): Promise<AlertConditionResult> {
+    const windowHours = leaf.window_hours ?? DEFAULT_CONDITION_WINDOW_HOURS;
+    const byModel = leaf.model !== undefined;
+    const values: any[] = [brandId];
+
+    let modelFilter = '';
+    if (leaf.model && leaf.model !== 'any' && leaf.model !== 'all') {
+      modelFilter = 'AND ar.ai_model_id = $2';
+      values.push(leaf.model);
+    }
+
+    const result = await query(
+      `SELECT ${byModel ? 'ar.ai_model_id, am.name AS model_name,' : ''}
+              ar.created_at >= NOW() - INTERVAL '${windowHours} hours' AS is_current,
+              (${AlertManagementService.RESPONSE_METRIC_SQL[leaf.metric]})::float AS value
+       FROM ai_responses ar
+       JOIN ai_models am ON am.id = ar.ai_model_id
+       ${leaf.metric === 'citations'
+         ? 'LEFT JOIN citations c ON c.ai_response_id = ar.id'
+         : 'LEFT JOIN brand_mentions bm ON bm.ai_response_id = ar.id AND bm.brand_id = ar.brand_id'}
+       WHERE ar.brand_id = $1
+         AND ar.created_at >= NOW() - INTERVAL '${leaf.change ? windowHours * 2 : windowHours} hours'
+         ${modelFilter}
+       GROUP BY ${byModel ? 'ar.ai_model_id, am.name, ' : ''}is_current`,
+      values
+    );
+
+    const windows = new Map<string, { model_name: string; current: number | null; previous: number | null }>();
+    for (const row of result.rows) {
+      const key = row.ai_model_id ?? '';
+      const window = windows.get(key) ?? { model_name: row.model_name, current: null, previous: null };
+      window[row.is_current ? 'current' : 'previous'] = row.value;
+      windows.set(key, window);
+    }
+
+    const observed = Array.from(windows, ([aiModelId, window]) => {
+      const value = leaf.change ? AlertConditions.percentChange(window.current, window.previous) : window.current;
+      return { ...this.toConditionResult(leaf, value), ai_model_id: aiModelId, model_name: window.model_name };
+    });
+
+    if (!byModel) {
+      return this.toConditionResult(leaf, observed[0]?.value ?? null);
+    }
+
+    const matched = leaf.model === 'all'
+      ? observed.length > 0 && observed.every(model => model.matched)
+      : observed.some(model => model.matched);
+    // Show the model that decided the outcome
+    const shown = observed.find(model => model.matched === matched) ?? observed[0];
+
+    return {
+      condition: leaf,
+      matched,
+      value: shown?.value ?? null,
+      models: observed.map(({ ai_model_id, model_name, value, matched: modelMatched }) => ({
+        ai_model_id,
+        model_name,
+        value,
+        matched: modelMatched,
+      })),
+    };
+  }
+
+  private toConditionResult(leaf: AlertConditionLeaf, value: number | null): AlertConditionResult {
+    return {
+      condition: leaf,
+      matched: value !== null && this.compareValues(value, leaf.value, leaf.operator),
+      value,
+    };
+  }
+
+  /**
+   * Whether the rule raised an alert in the last hour that is still open
+   */
+  private async hasOpenRuleAlert(threshold: AlertThreshold): Promise<boolean> {
+    try {
+      const result = await query(
+        `SELECT COUNT(*) as count FROM alerts 
+         WHERE alert_threshold_id = $1 
+           AND created_at > NOW() - INTERVAL '1 hour'
+           AND resolved_at IS NULL`,
+        [threshold.id]
+      );
+
+      return parseInt(result.rows[0].count) > 0;
+    } catch (error) {
+      console.error('Failed to check alert suppression:', error);
+      return false; // Don't suppress on error
+    }
+  }
+
+  /**
+   * Create the alert record for a matched composite rule, listing what each
+   * condition observed
+   */
+  private async createCompositeAlert(
+    threshold: AlertThreshold,
+    severity: 'low' | 'medium' | 'high' | 'critical',
+    conditionResults: AlertConditionResult[],
+    metrics: VisibilityMetrics
+  ): Promise<Alert> {
+    try {
+      // Points to a model when the conditions scoped to models matched on just one
+      const matchedModels = new Set(conditionResults.flatMap(result => (result.models || [])
+        .filter(model => model.matched)
+        .map(model => model.ai_model_id)));
+      const aiModelId = matchedModels.size === 1 ? [...matchedModels][0] : metrics.ai_model_id;
+
+      const severityLabel = severity.charAt(0).toUpperCase() + severity.slice(1);
+      const title = `${severityLabel} Alert: Composite Rule Matched`;
+
+      let message = `Your brand matched the alert rule ${AlertConditions.describe(threshold.condition!)}.\n\n`;
+      message += `Conditions:\n`;
+      for (const result of conditionResults) {
+        message += `- ${AlertConditions.describeLeaf(result.condition)}: ${this.describeObserved(result)}\n`;
+      }
+
+      const result = await query(
+        `INSERT INTO alerts 
+         (brand_id, alert_threshold_id, severity, title, message, metric_type, condition_results,
+          ai_model_id, visibility_metrics_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          threshold.brand_id,
+          threshold.id,
+          severity,
+          title,
+          message,
+          threshold.metric_type,
+          JSON.stringify(conditionResults),
+          aiModelId || null,
+          metrics.id,
+        ]
+      );
+
+      return await this.groupIntoIncident(result.rows[0] as Alert);
+    } catch (error) {
+      console.error('Failed to create alert:', error);
+      throw error;
+    }
+  }
+
+  private describeObserved(result: AlertConditionResult): string {
+    const format = (value: number | null) => (value === null
+      ? 'no data'
+      : `${value.toFixed(2)}${result.condition.change ? '%' : ''}`);
+
+    let text = `${format(result.value)} (${result.matched ? 'met' : 'not met'})`;
+    if (result.models) {
+      text += ` [${result.models.map(model => `${model.model_name}: ${format(model.value)}`).join(', ')}]`;
+    }
+    return text;
+  }
+
   /**
    * Extract metric value based on metric type
    */
   private extractMetricValue(metricType: string, metrics: VisibilityMetrics): number {
+    // Stored metrics hold DECIMAL columns, which come back as strings
     switch (metricType) {
       case 'overall_score':
-        return metrics.overall_score || 0;
+        return Number(metrics.overall_score) || 0;
       case 'ranking_position':
-        return metrics.ranking_position || 0;
+        return Number(metrics.ranking_position) || 0;
       case 'mention_frequency':
-        return metrics.mention_frequency || 0;
+        return Number(metrics.mention_frequency) || 0;
       case 'average_sentiment':
-        return metrics.average_sentiment || 0;
+        return Number(metrics.average_sentiment) || 0;
       case 'citation_count':
-        return metrics.citation_count || 0;
+        return Number(metrics.citation_count) || 0;
       case 'source_quality_score':
-        return metrics.source_quality_score || 0;
+        return Number(metrics.source_quality_score) || 0;
+      case 'inaccuracy_count':
+        return Number(metrics.inaccuracy_count) || 0;
       default:
         throw new Error(`Unknown metric type: ${metricType}`);
     }
   }
 
+  /**
+   * Whether the metrics carry the metric as a recorded empty value. Stored
+   * rows come back with every column, so a NULL column means not measured.
+   */
+  private isUnrecorded(metricType: string, metrics: VisibilityMetrics): boolean {
+    return metricType in metrics && (metrics as unknown as Record<string, unknown>)[metricType] == null;
+  }
+
   /**
    * Compare values based on operator
    */
@@ -348,6 +914,7 @@ export class AlertManagementService {
       average_sentiment: { medium: 10, high: 25, critical: 50 },
       citation_count: { medium: 20, high: 40, critical: 70 },
       source_quality_score: { medium: 10, high: 20, critical: 40 },
+      inaccuracy_count: { medium: 50, high: 100, critical: 300 },
     };
 
     return metricThresholds[metricType] || defaultThresholds;
@@ -358,22 +925,29 @@ export class AlertManagementService {
    */
   private async shouldSuppressAlert(
     threshold: AlertThreshold,
-    currentValue: number
+    currentValue: number,
+    thresholdValue: number
   ): Promise<boolean> {
     try {
-      // Check for recent similar alerts (within last hour)
+      // Check for recent similar alerts (within last hour), or an alert of the
+      // same rule still open in an incident, whatever its value
       const result = await query(
         `SELECT COUNT(*) as count FROM alerts 
          WHERE brand_id = $1 
-           AND metric_type = $2 
-           AND ABS(current_value - $3) < $4
-           AND created_at > NOW() - INTERVAL '1 hour'
-           AND resolved_at IS NULL`,
+           AND resolved_at IS NULL
+           AND (
+             (metric_type = $2
+               AND ABS(current_value - $3) < $4
+               AND created_at > NOW() - INTERVAL '1 hour')
+             OR (alert_threshold_id = $5
+               AND incident_id IN (SELECT id FROM alert_incidents WHERE status = 'open'))
+           )`,
         [
           threshold.brand_id,
           threshold.metric_type,
           currentValue,
-          Math.abs(threshold.threshold_value * 0.05), // 5% tolerance
+          Math.abs(thresholdValue * 0.05), // 5% tolerance
+          threshold.id,
         ]
       );
 
@@ -385,29 +959,63 @@ export class AlertManagementService {
     }
   }
 
+  /**
+   * Raise an alert that does not come from a user-defined threshold, such as
+   * an exceeded spend budget, and queue it for delivery
+   */
+  async raiseSystemAlert(input: SystemAlertInput): Promise<Alert> {
+    try {
+      const result = await query(
+        `INSERT INTO alerts 
+         (brand_id, severity, title, message, metric_type, current_value, threshold_value,
+          ai_model_id, visibility_metrics_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          input.brand_id,
+          input.severity,
+          input.title,
+          input.message,
+          input.metric_type,
+          input.current_value ?? null,
+          input.threshold_value ?? null,
+          input.ai_model_id || null,
+          input.visibility_metrics_id || null,
+        ]
+      );
+
+      const alert = await this.groupIntoIncident(result.rows[0] as Alert);
+      await this.queueAlert(alert);
+      return alert;
+    } catch (error) {
+      console.error('Failed to raise system alert:', error);
+      throw error;
+    }
+  }
+
   /**
    * Create a new alert record
    */
   private async createAlert(
     threshold: AlertThreshold,
     currentValue: number,
-    metrics: VisibilityMetrics
+    metrics: VisibilityMetrics,
+    comparison: {
+      threshold_value: number;
+      severity: 'low' | 'medium' | 'high' | 'critical';
+      baseline?: AlertBaseline | undefined;
+    }
   ): Promise<Alert> {
     try {
-      const severity = this.calculateSeverity(
-        threshold.metric_type,
-        currentValue,
-        threshold.threshold_value,
-        threshold.comparison_operator
-      );
-
-      const title = this.generateAlertTitle(threshold.metric_type, severity, currentValue, threshold.threshold_value);
-      const message = this.generateAlertMessage(threshold, currentValue, metrics);
+      const { threshold_value: thresholdValue, severity, baseline } = comparison;
+      const title = this.generateAlertTitle(threshold.metric_type, severity, currentValue, thresholdValue, baseline);
+      const message = this.generateAlertMessage(threshold, currentValue, metrics, thresholdValue, baseline);
 
       const result = await query(
         `INSERT INTO alerts 
-         (brand_id, alert_threshold_id, severity, title, message, metric_type, current_value, threshold_value)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         (brand_id, alert_threshold_id, severity, title, message, metric_type, current_value, threshold_value, baseline,
+          ai_model_id, visibility_metrics_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
          RETURNING *`,
         [
           threshold.brand_id,
@@ -417,17 +1025,46 @@ export class AlertManagementService {
           message,
           threshold.metric_type,
           currentValue,
-          threshold.threshold_value,
+          thresholdValue,
+          baseline ? JSON.stringify(baseline) : null,
+          metrics.ai_model_id || null,
+          metrics.id,
         ]
       );
 
-      return result.rows[0] as Alert;
+      return await this.groupIntoIncident(result.rows[0] as Alert);
     } catch (error) {
       console.error('Failed to create alert:', error);
       throw error;
     }
   }
 
+  /**
+   * Group a new alert into an incident. The alert is already stored, so a
+   * failure is logged and the alert left without an incident.
+   */
+  private async groupIntoIncident(alert: Alert): Promise<Alert> {
+    try {
+      const incident = await AlertIncidentModel.addAlert(alert);
+      return { ...alert, incident_id: incident.id };
+    } catch (error) {
+      console.error(`Failed to group alert ${alert.id} into an incident:`, error);
+      return alert;
+    }
+  }
+
+  /**
+   * Count a rule that triggered again while its alert was open against the
+   * alert's incident. Logged rather than thrown, as the evaluation stands.
+   */
+  private async recordRepeat(threshold: AlertThreshold): Promise<void> {
+    try {
+      await AlertIncidentModel.recordRepeat(threshold.id);
+    } catch (error) {
+      console.error(`Failed to record a repeat of alert threshold ${threshold.id}:`, error);
+    }
+  }
+
   /**
    * Generate alert title based on metric and severity
    */
@@ -435,7 +1072,8 @@ export class AlertManagementService {
     metricType: string,
     severity: string,
     currentValue: number,
-    thresholdValue: number
+    thresholdValue: number,
+    baseline?: AlertBaseline
   ): string {
     const metricNames: Record<string, string> = {
       overall_score: 'Overall Visibility Score',
@@ -444,12 +1082,15 @@ export class AlertManagementService {
       average_sentiment: 'Average Sentiment',
       citation_count: 'Citation Count',
       source_quality_score: 'Source Quality Score',
+      inaccuracy_count: 'Factual Inaccuracies',
     };
 
     const metricName = metricNames[metricType] || metricType;
     const severityLabel = severity.charAt(0).toUpperCase() + severity.slice(1);
 
-    return `${severityLabel} Alert: ${metricName} Threshold Exceeded`;
+    return baseline
+      ? `${severityLabel} Alert: ${metricName} Anomaly Detected`
+      : `${severityLabel} Alert: ${metricName} Threshold Exceeded`;
   }
 
   /**
@@ -458,7 +1099,9 @@ export class AlertManagementService {
   private generateAlertMessage(
     threshold: AlertThreshold,
     currentValue: number,
-    metrics: VisibilityMetrics
+    metrics: VisibilityMetrics,
+    thresholdValue: number,
+    baseline?: AlertBaseline
   ): string {
     const metricNames: Record<string, string> = {
       overall_score: 'overall visibility score',
@@ -467,31 +1110,65 @@ export class AlertManagementService {
       average_sentiment: 'average sentiment',
       citation_count: 'citation count',
       source_quality_score: 'source quality score',
+      inaccuracy_count: 'count of factual inaccuracies',
     };
 
     const metricName = metricNames[threshold.metric_type] || threshold.metric_type;
     const operatorText = this.getOperatorText(threshold.comparison_operator);
 
-    let message = `Your brand's ${metricName} has ${operatorText} the configured threshold.\n\n`;
-    message += `Current Value: ${currentValue.toFixed(2)}\n`;
-    message += `Threshold: ${threshold.threshold_value.toFixed(2)}\n`;
-    message += `Comparison: ${threshold.comparison_operator}\n\n`;
+    let message: string;
+    if (baseline) {
+      message = `Your brand's ${metricName} has ${operatorText} its usual range.\n\n`;
+      message += `Current Value: ${currentValue.toFixed(2)}\n`;
+      message += `Baseline: ${this.describeBaseline(baseline)}\n`;
+      message += `${this.describeDeviation(baseline)}\n`;
+      message += `Bound: ${thresholdValue.toFixed(2)}\n\n`;
+    } else {
+      message = `Your brand's ${metricName} has ${operatorText} the configured threshold.\n\n`;
+      message += `Current Value: ${currentValue.toFixed(2)}\n`;
+      message += `Threshold: ${thresholdValue.toFixed(2)}\n`;
+      message += `Comparison: ${threshold.comparison_operator}\n\n`;
+    }
 
-    // Add context from metrics
+    // Add context from metrics, whose DECIMAL columns come back from storage as strings
+    const format = (value: unknown) => (value == null ? 'N/A' : Number(value).toFixed(2));
     message += `Additional Context:\n`;
-    message += `- Overall Score: ${metrics.overall_score?.toFixed(2) || 'N/A'}\n`;
+    message += `- Overall Score: ${format(metrics.overall_score)}\n`;
     message += `- Ranking Position: ${metrics.ranking_position || 'N/A'}\n`;
     message += `- Mention Frequency: ${metrics.mention_frequency || 0}\n`;
-    message += `- Average Sentiment: ${metrics.average_sentiment?.toFixed(2) || 'N/A'}\n`;
+    message += `- Average Sentiment: ${format(metrics.average_sentiment)}\n`;
     message += `- Citation Count: ${metrics.citation_count || 0}\n`;
 
     return message;
   }
 
+  private describeBaseline(baseline: AlertBaseline): string {
+    const window = baseline.method === 'seasonal'
+      ? `on the same weekday over the last ${baseline.window_days} days`
+      : `over the last ${baseline.window_days} days`;
+
+    if (baseline.method === 'percent_change') {
+      return `${baseline.value.toFixed(2)} (median of ${baseline.sample_size} runs ${window})`;
+    }
+    return `${baseline.value.toFixed(2)} (mean of ${baseline.sample_size} runs ${window}, ` +
+      `standard deviation ${(baseline.std_dev ?? 0).toFixed(2)})`;
+  }
+
+  private describeDeviation(baseline: AlertBaseline): string {
+    if (baseline.method === 'percent_change') {
+      return `Change: ${baseline.deviation?.toFixed(1)}% (sensitivity ${baseline.sensitivity}%)`;
+    }
+    if (baseline.deviation === null) {
+      return `Deviation: the baseline did not vary (sensitivity ${baseline.sensitivity} standard deviations)`;
+    }
+    return `Deviation: ${baseline.deviation.toFixed(2)} standard deviations ` +
+      `(sensitivity ${baseline.sensitivity})`;
+  }
+
   /**
    * Get human-readable operator text
    */
-  private getOperatorText(operator: string): string {
+  private getOperatorText(operator?: string): string {
     const operatorTexts: Record<string, string> = {
       '>': 'exceeded',
       '<': 'fallen below',
@@ -500,7 +1177,7 @@ export class AlertManagementService {
       '=': 'matched',
     };
 
-    return operatorTexts[operator] || 'changed relative to';
+    return (operator && operatorTexts[operator]) || 'changed relative to';
   }
 
   /**
@@ -552,6 +1229,17 @@ export class AlertManagementService {
       }
     });
 
+    this.alertQueue.process('escalate-alert', async (job) => {
+      const { alertId, policyId, stepIndex, cycle } = job.data;
+
+      try {
+        await this.escalateAlert(alertId, policyId, stepIndex, cycle);
+      } catch (error) {
+        console.error(`Failed to escalate alert ${alertId}:`, error);
+        throw error;
+      }
+    });
+
     // Handle job completion
     this.alertQueue.on('completed', (job) => {
       console.log(`Alert processing job ${job.id} completed`);
@@ -591,8 +1279,13 @@ export class AlertManagementService {
             await this.sendNotification(alert, channel);
           }
         }
+      } else {
+        // System alerts have no threshold to choose channels; deliver them in-app
+        await this.sendNotification(alert, 'in_app');
       }
 
+      await this.startEscalation(alert);
+
       console.log(`Alert ${alertId} processed successfully`);
     } catch (error) {
       console.error(`Failed to process alert ${alertId}:`, error);
@@ -725,6 +1418,152 @@ export class AlertManagementService {
     }
   }
 
+  /**
+   * Start escalating an alert under its brand's escalation policy, when the
+   * policy covers the alert's severity
+   */
+  private async startEscalation(alert: Alert): Promise<void> {
+    const policy = await EscalationPolicyModel.findByBrand(alert.brand_id);
+    if (!policy || !policy.severities.includes(alert.severity)) {
+      return;
+    }
+
+    await this.scheduleEscalationStep(alert, policy, 0, 0);
+  }
+
+  /**
+   * Queue a tier of an escalation to run once its delay passes
+   */
+  private async scheduleEscalationStep(
+    alert: Alert,
+    policy: EscalationPolicy,
+    stepIndex: number,
+    cycle: number
+  ): Promise<void> {
+    const step = policy.steps[stepIndex] as EscalationStep;
+
+    const job = await this.alertQueue.add('escalate-alert', {
+      alertId: alert.id,
+      policyId: policy.id,
+      stepIndex,
+      cycle,
+    }, {
+      priority: this.getJobPriority(alert.severity),
+      delay: step.delay_minutes * 60 * 1000,
+    });
+
+    await EscalationPolicyModel.recordEvent({
+      alert_id: alert.id,
+      policy_id: policy.id,
+      step_index: stepIndex,
+      cycle,
+      action: 'scheduled',
+      channels: step.channels,
+      job_id: String(job.id)
+    });
+  }
+
+  /**
+   * Notify a tier of an alert that is still unacknowledged, then schedule the
+   * next tier, or the first tier again while repeats remain. Reads the policy
+   * afresh, so a policy changed or removed meanwhile applies from here on.
+   */
+  private async escalateAlert(
+    alertId: string,
+    policyId: string,
+    stepIndex: number,
+    cycle: number
+  ): Promise<void> {
+    const alert = await this.getAlert(alertId);
+    if (!alert) {
+      // Cleaned up since, along with its audit trail
+      return;
+    }
+
+    const stop = async (reason: string): Promise<void> => {
+      await EscalationPolicyModel.recordEvent({
+        alert_id: alertId,
+        policy_id: policyId,
+        step_index: stepIndex,
+        cycle,
+        action: 'stopped',
+        reason
+      });
+    };
+
+    if (alert.is_acknowledged) {
+      return stop('acknowledged');
+    }
+    if (alert.resolved_at) {
+      return stop('resolved');
+    }
+
+    const policy = await EscalationPolicyModel.findById(policyId);
+    const step = policy?.steps[stepIndex];
+    if (!policy || !step) {
+      return stop('policy_removed');
+    }
+
+    const userIds = await this.getEscalationRecipients(alert, step);
+    for (const channel of step.channels) {
+      await this.sendEscalationNotification(alert, channel, userIds);
+    }
+
+    await EscalationPolicyModel.recordEvent({
+      alert_id: alertId,
+      policy_id: policyId,
+      step_index: stepIndex,
+      cycle,
+      action: 'notified',
+      user_ids: userIds,
+      channels: step.channels
+    });
+
+    if (stepIndex + 1 < policy.steps.length) {
+      await this.scheduleEscalationStep(alert, policy, stepIndex + 1, cycle);
+    } else if (cycle < policy.repeat_limit) {
+      await this.scheduleEscalationStep(alert, policy, 0, cycle + 1);
+    } else {
+      await stop('repeat_limit_reached');
+    }
+  }
+
+  /**
+   * The users a tier notifies: its own users and whoever is on call in its
+   * rotation, less any who have since left the brand. Empty when that leaves
+   * nobody, meaning every user of the brand.
+   */
+  private async getEscalationRecipients(alert: Alert, step: EscalationStep): Promise<string[]> {
+    const userIds = new Set(step.user_ids || []);
+
+    if (step.rotation_id) {
+      const rotation = await OnCallRotationModel.findById(step.rotation_id);
+      const onCallUserId = rotation ? OnCallRotationModel.getOnCallUserId(rotation) : undefined;
+      if (onCallUserId) {
+        userIds.add(onCallUserId);
+      }
+    }
+
+    const candidates = [...userIds];
+    const nonMembers = await OnCallRotationModel.getNonMembers(alert.brand_id, candidates);
+    return candidates.filter(userId => !nonMembers.includes(userId));
+  }
+
+  /**
+   * Send an escalation notification to the given users, or to every user of
+   * the brand when none are given
+   */
+  private async sendEscalationNotification(alert: Alert, channel: string, userIds: string[]): Promise<void> {
+    const { NotificationService } = await import('./NotificationService');
+    const notificationService = new NotificationService();
+
+    if (userIds.length > 0) {
+      await this.processBatchUsers(userIds.map(id => ({ id })), alert, channel, notificationService);
+    } else {
+      await this.processUsersInBatches(alert, channel, notificationService);
+    }
+  }
+
   /**
    * Send notification with custom batch size (for testing or special cases)
    */
@@ -765,6 +1604,9 @@ export class AlertManagementService {
         throw new Error(`Alert with ID ${alertId} not found`);
       }
 
+      // Any pending escalation step stops when it runs
+      await EscalationPolicyModel.recordAcknowledgement(alertId, userId);
+
       return result.rows[0] as Alert;
     } catch (error) {
       console.error(`Failed to acknowledge alert ${alertId}:`, error);
@@ -796,6 +1638,20 @@ export class AlertManagementService {
     }
   }
 
+  /**
+   * Get an alert by ID
+   */
+  async getAlert(alertId: string): Promise<Alert | null> {
+    try {
+      const result = await query('SELECT * FROM alerts WHERE id = $1', [alertId]);
+
+      return (result.rows[0] as Alert) || null;
+    } catch (error) {
+      console.error(`Failed to get alert ${alertId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get alerts for a brand with optional filters
    */
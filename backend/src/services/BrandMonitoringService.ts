@@ -1,17 +1,47 @@
 import { AIModelManager } from './ai/AIModelManager';
 import { BrandModel } from '../models/Brand';
 import { AIResponseModel } from '../models/AIResponse';
+import { PromptTemplateModel } from '../models/PromptTemplate';
+import { RecommendationPromptModel } from '../models/RecommendationPrompt';
+import { MentionAspectModel } from '../models/MentionAspect';
+import { FactCheckFindingModel } from '../models/FactCheckFinding';
+import { BudgetService } from './BudgetService';
+import { AlertManagementService } from './AlertManagementService';
+import { ResponseStability, SampleGroup } from './ResponseStability';
+import { RecommendationAnalysis, RecommendationAnalysisResult } from './RecommendationAnalysis';
+import { RankingExtraction } from './RankingExtraction';
+import { FactChecking } from './FactChecking';
 import { query } from '../config/database';
-import { BrandMonitoringQuery, BRAND_QUERY_TEMPLATES } from '../types/ai';
-import { Brand, VisibilityMetrics, CreateVisibilityMetricsInput } from '../types/database';
+import {
+  AIQuery,
+  AIStreamOptions,
+  BrandMention as ParsedBrandMention,
+  Citation as ParsedCitation,
+  BrandMonitoringQuery,
+  BRAND_QUERY_TEMPLATES,
+  RECOMMENDATION_QUERY_TYPE
+} from '../types/ai';
+import {
+  AIResponse,
+  Brand,
+  VisibilityMetrics,
+  CreateVisibilityMetricsInput,
+  MonitoringRunFailure,
+  SampleStatistics,
+  RecommendationSummary,
+  FactCheckFinding
+} from '../types/database';
 
 export interface VisibilityScore {
   overall_score: number;
   mention_frequency: number;
   sentiment_score: number;
   citation_quality: number;
-  ranking_position: number;
+  ranking_position: number; // Mean list position of the brand; 0 when it was never listed
   confidence: number;
+  stability_score?: number; // Only for multi-sample runs
+  share_of_recommendation?: number; // Only when recommendation prompts ran
+  inaccuracy_count?: number; // Only when the brand has a fact sheet
 }
 
 export interface BrandMonitoringResult {
@@ -20,50 +50,143 @@ export interface BrandMonitoringResult {
   ai_responses: any[];
   citations: any[];
   mentions: any[];
+  errors: string[];
+  sample_statistics?: SampleStatistics;
+  recommendations?: RecommendationSummary;
+  fact_check_findings?: FactCheckFinding[]; // Only when the brand has a fact sheet
   timestamp: Date;
 }
 
+export interface MonitoringProgress {
+  queries_total: number;
+  queries_completed: number;
+  models_queried: string[];
+  failures: MonitoringRunFailure[];
+}
+
+export interface MonitorBrandOptions {
+  modelNames?: string[];
+  samples?: number; // Answers per prompt and model; above 1, stability is measured
+  temperature?: number;
+  onProgress?: (progress: MonitoringProgress) => Promise<void> | void;
+}
+
 export class BrandMonitoringService {
   private aiModelManager: AIModelManager;
+  private budgetService: BudgetService;
+  private alertService: AlertManagementService;
 
-  constructor() {
+  // The alert service owns Redis clients and Bull queues, so the app passes in
+  // the one instance it closes on shutdown rather than each service making its own
+  constructor(budgetService: BudgetService, alertService: AlertManagementService) {
     this.aiModelManager = new AIModelManager();
+    this.budgetService = budgetService;
+    this.alertService = alertService;
   }
 
   /**
    * Execute comprehensive brand monitoring for a specific brand
    */
-  async monitorBrand(brandId: string, queryTypes?: string[]): Promise<BrandMonitoringResult> {
+  async monitorBrand(
+    brandId: string,
+    queryTypes?: string[],
+    options: MonitorBrandOptions = {}
+  ): Promise<BrandMonitoringResult> {
     const brand = await BrandModel.findById(brandId);
     if (!brand) {
       throw new Error(`Brand with ID ${brandId} not found`);
     }
 
     // Default query types for comprehensive monitoring
-    const defaultQueryTypes = ['visibility', 'sentiment', 'reputation', 'news'];
+    const defaultQueryTypes = ['visibility', 'sentiment', 'reputation', 'news', RECOMMENDATION_QUERY_TYPE];
     const queries = queryTypes || defaultQueryTypes;
 
     // Generate monitoring queries for the brand
-    const brandQueries = this.generateBrandQueries(brand, queries);
+    const brandQueries = await this.generateBrandQueries(brand, queries);
 
     // Execute queries across multiple AI models
     const responses = [];
     const allCitations = [];
     const allMentions = [];
+    const errors: string[] = [];
+    const modelNames = options.modelNames && options.modelNames.length > 0
+      ? options.modelNames
+      : undefined;
+    const expectedModels = modelNames || this.aiModelManager.getAvailableModels() || [];
+    const samples = Math.max(1, Math.floor(options.samples || 1));
+    const sampleGroups: SampleGroup[] = [];
+    const recommendationResults: RecommendationAnalysisResult[] = [];
+    const brandPositions: number[] = []; // Across every response that listed the brand
+    const factCheckFindings: FactCheckFinding[] = [];
+
+    const progress: MonitoringProgress = {
+      queries_total: brandQueries.length,
+      queries_completed: 0,
+      models_queried: [],
+      failures: []
+    };
+    await this.reportProgress(options, progress);
+
+    for (const [index, brandQuery] of brandQueries.entries()) {
+      // Spend is checked before every query so a run stops as soon as a budget runs out
+      const budget = await this.budgetService.checkBudget(brandId);
+      if (!budget.within_budget) {
+        const message = BudgetService.describeExceeded(budget);
+        if (index === 0) {
+          throw new Error(message);
+        }
+
+        for (const skipped of brandQueries.slice(index)) {
+          errors.push(`${skipped.query_type}: ${message}`);
+          progress.failures.push({ query_type: skipped.query_type, error: message });
+        }
+        await this.reportProgress(options, progress);
+        break;
+      }
 
-    for (const brandQuery of brandQueries) {
       try {
-        const result = await this.aiModelManager.executeBrandMonitoring(brandQuery);
+        // Competitors are looked for even when the prompt leaves them out
+        const result = await this.aiModelManager.executeBrandMonitoring(brandQuery, modelNames, {
+          samples,
+          ...(options.temperature !== undefined && { temperature: options.temperature }),
+          targets: { brand_name: brand.name, competitors: brand.competitor_brands }
+        });
+
+        // Models that failed are dropped from the result rather than thrown
+        const respondedModels = new Set(result.responses.map(response => response.model_name));
+        const coveredModels = new Set(respondedModels);
+        for (const response of result.responses) {
+          // A model answered by its fallback is covered, not failed
+          if (response.metadata?.fallback_from) {
+            coveredModels.add(response.metadata.fallback_from);
+          }
+        }
+        for (const modelName of respondedModels) {
+          if (!progress.models_queried.includes(modelName)) {
+            progress.models_queried.push(modelName);
+          }
+        }
+        for (const modelName of expectedModels) {
+          if (!coveredModels.has(modelName)) {
+            progress.failures.push({
+              query_type: brandQuery.query_type,
+              model_name: modelName,
+              error: 'No response from model'
+            });
+          }
+        }
         
         // Store AI responses in database
         for (const response of result.responses) {
           const createData: any = {
             brand_id: brandId,
-            ai_model_id: response.model_name, // This should be the actual model ID
-            query: response.query_id,
+            ai_model_id: this.aiModelManager.getModel(response.model_name)?.config.id || response.model_name,
+            query: result.query.query, // The prompt text, so later answers to it can be compared
             response: response.response,
             processing_time_ms: response.processing_time_ms,
             tokens_used: response.usage.total_tokens,
+            prompt_tokens: response.usage.prompt_tokens,
+            completion_tokens: response.usage.completion_tokens,
             cost: response.cost
           };
 
@@ -74,10 +197,45 @@ export class BrandMonitoringService {
           if (response.confidence_score !== undefined) {
             createData.confidence_score = response.confidence_score;
           }
+          if (brandQuery.template_version_id) {
+            createData.prompt_template_version_id = brandQuery.template_version_id;
+          }
+          if (response.grounded) {
+            createData.grounded = true;
+          }
 
           const storedResponse = await AIResponseModel.create(createData);
 
           responses.push(storedResponse);
+
+          const parsed = result.parsed_responses.find(candidate => candidate.id === response.id);
+          await this.storeBrandMentions(storedResponse.id, brand, parsed?.brand_mentions || []);
+          await this.storeCitations(storedResponse.id, parsed?.citations || []);
+
+          const rankings = RankingExtraction.findRankings(
+            response.response,
+            [brand.name, ...brand.competitor_brands]
+          ).map(ranking => ({ ...ranking, is_brand: ranking.entity_name === brand.name }));
+          await AIResponseModel.addRankings(storedResponse.id, brandId, rankings);
+          brandPositions.push(...rankings.filter(ranking => ranking.is_brand).map(ranking => ranking.position));
+
+          const findings = FactChecking.check(response.response, brand);
+          if (findings.length > 0) {
+            const stored = await FactCheckFindingModel.addForResponse(storedResponse.id, brandId, findings);
+            factCheckFindings.push(...stored.map(finding => ({ ...finding, model_name: response.model_name })));
+          }
+
+          if (brandQuery.recommendation_prompt_id) {
+            const analysis = RecommendationAnalysis.analyze(response.response, brand.name, brand.competitor_brands);
+            recommendationResults.push(analysis);
+            await RecommendationPromptModel.recordResult({
+              brand_id: brandId,
+              prompt_id: brandQuery.recommendation_prompt_id,
+              ai_response_id: storedResponse.id,
+              model_name: response.model_name,
+              ...analysis
+            });
+          }
         }
 
         // Collect parsed data
@@ -85,9 +243,21 @@ export class BrandMonitoringService {
           allCitations.push(...parsed.citations);
           allMentions.push(...parsed.brand_mentions);
         }
+        if (samples > 1) {
+          const promptKey = brandQuery.recommendation_prompt_id
+            ? `${brandQuery.query_type}:${brandQuery.recommendation_prompt_id}`
+            : brandQuery.query_type;
+          sampleGroups.push(...ResponseStability.groupSamples(promptKey, result.parsed_responses));
+        }
       } catch (error) {
         console.error(`Failed to execute brand query for ${brand.name}:`, error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(`${brandQuery.query_type}: ${message}`);
+        progress.failures.push({ query_type: brandQuery.query_type, error: message });
       }
+
+      progress.queries_completed++;
+      await this.reportProgress(options, progress);
     }
 
     // Calculate visibility score
@@ -95,11 +265,44 @@ export class BrandMonitoringService {
       brand,
       responses,
       allCitations,
-      allMentions
+      allMentions,
+      brandPositions,
+      samples
     );
 
-    // Store visibility metrics
-    await this.storeVisibilityMetrics(brandId, visibilityScore);
+    let sampleStatistics: SampleStatistics | undefined;
+    if (samples > 1) {
+      sampleStatistics = ResponseStability.analyze(
+        [brand.name, ...brand.competitor_brands],
+        sampleGroups,
+        samples,
+        options.temperature
+      );
+      const brandStability = sampleStatistics.brands[0]?.stability_score;
+      if (brandStability !== null && brandStability !== undefined) {
+        visibilityScore.stability_score = brandStability;
+      }
+    }
+
+    let recommendations: RecommendationSummary | undefined;
+    if (recommendationResults.length > 0) {
+      recommendations = RecommendationAnalysis.summarize(recommendationResults);
+      visibilityScore.share_of_recommendation = recommendations.share_of_recommendation;
+    }
+
+    if (brand.fact_sheet) {
+      visibilityScore.inaccuracy_count = factCheckFindings.length;
+    }
+
+    // Store visibility metrics, then check them against the brand's alert thresholds
+    const storedMetrics = await this.storeVisibilityMetrics(brandId, visibilityScore);
+    if (storedMetrics) {
+      await this.evaluateAlertThresholds(storedMetrics);
+    }
+
+    if (factCheckFindings.length > 0) {
+      await this.raiseInaccuracyAlert(brand, factCheckFindings, responses, storedMetrics);
+    }
 
     return {
       brand_id: brandId,
@@ -107,23 +310,153 @@ export class BrandMonitoringService {
       ai_responses: responses,
       citations: allCitations,
       mentions: allMentions,
+      errors,
+      ...(sampleStatistics && { sample_statistics: sampleStatistics }),
+      ...(recommendations && { recommendations }),
+      ...(brand.fact_sheet && { fact_check_findings: factCheckFindings }),
       timestamp: new Date()
     };
   }
 
   /**
-   * Generate brand monitoring queries based on brand data and query types
+   * Stream one monitoring query for a brand from a single model. Streams are
+   * billed to the brand, so they need budget left like any other query; the
+   * caller stores the answer with recordStreamedResponse once it ends.
+   */
+  async streamBrandQuery(
+    brandId: string,
+    queryType: string,
+    modelName?: string,
+    options: AIStreamOptions = {}
+  ): Promise<{ model_name: string; query: AIQuery; tokens: AsyncGenerator<string, void, unknown> }> {
+    const brand = await BrandModel.findById(brandId);
+    if (!brand) {
+      throw new Error(`Brand with ID ${brandId} not found`);
+    }
+
+    const budget = await this.budgetService.checkBudget(brandId);
+    if (!budget.within_budget) {
+      throw new Error(BudgetService.describeExceeded(budget));
+    }
+
+    const [brandQuery] = await this.generateBrandQueries(brand, [queryType]);
+    if (!brandQuery) {
+      throw new Error(`Unknown query type: ${queryType}`);
+    }
+
+    const model = this.aiModelManager.getModel(modelName);
+    if (!model) {
+      throw new Error(`Model ${modelName || '(default)'} not found`);
+    }
+
+    const aiQuery = {
+      ...this.aiModelManager.generateBrandQuery(brandQuery),
+      brand_id: brandId
+    };
+    const tokens = await this.aiModelManager.streamQuery(model.config.name, aiQuery, options);
+
+    return { model_name: model.config.name, query: aiQuery, tokens };
+  }
+
+  /**
+   * Store a streamed answer so its spend counts against the brand's budget.
+   * Streams report no usage, so tokens and cost are estimated from the text.
+   * A cancelled stream is stored with what it produced, marked so it is not
+   * compared against full answers; one cancelled before any output is not.
+   */
+  async recordStreamedResponse(
+    brandId: string,
+    modelName: string,
+    aiQuery: AIQuery,
+    response: string,
+    options: { cancelled: boolean; processing_time_ms: number }
+  ): Promise<AIResponse | null> {
+    const model = this.aiModelManager.getModel(modelName);
+    if (!model || response.length === 0) {
+      return null;
+    }
+
+    const promptText = aiQuery.context ? `${aiQuery.context}\n${aiQuery.query}` : aiQuery.query;
+    const promptTokens = Math.ceil(promptText.length / 4);
+    const completionTokens = Math.ceil(response.length / 4);
+
+    return await AIResponseModel.create({
+      brand_id: brandId,
+      ai_model_id: model.config.id,
+      query: aiQuery.query,
+      response,
+      response_metadata: { streamed: true, ...(options.cancelled && { cancelled: true }) },
+      processing_time_ms: options.processing_time_ms,
+      tokens_used: promptTokens + completionTokens,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      cost: model.estimateCost({ ...aiQuery, max_tokens: completionTokens })
+    });
+  }
+
+  /**
+   * Notify the caller of run progress; a failing listener must not abort monitoring
    */
-  private generateBrandQueries(brand: Brand, queryTypes: string[]): BrandMonitoringQuery[] {
+  private async reportProgress(
+    options: MonitorBrandOptions,
+    progress: MonitoringProgress
+  ): Promise<void> {
+    if (!options.onProgress) {
+      return;
+    }
+
+    try {
+      await options.onProgress({
+        ...progress,
+        models_queried: [...progress.models_queried],
+        failures: [...progress.failures]
+      });
+    } catch (error) {
+      console.error('Failed to report monitoring progress:', error);
+    }
+  }
+
+  /**
+   * Generate brand monitoring queries based on brand data and query types.
+   * Templates come from the prompt library, preferring the brand's overrides,
+   * and fall back to the built-in templates. The recommendation type expands
+   * into one query per buyer-intent prompt for the brand.
+   */
+  private async generateBrandQueries(brand: Brand, queryTypes: string[]): Promise<BrandMonitoringQuery[]> {
     const queries: BrandMonitoringQuery[] = [];
+    const templates = await PromptTemplateModel.resolveForBrand(
+      brand.id,
+      queryTypes.filter(queryType => queryType !== RECOMMENDATION_QUERY_TYPE)
+    );
 
     for (const queryType of queryTypes) {
-      if (queryType in BRAND_QUERY_TEMPLATES) {
+      if (queryType === RECOMMENDATION_QUERY_TYPE) {
+        const prompts = await RecommendationPromptModel.getForBrand(brand.id, brand.industry);
+        // Industry context and competitors are left out so the brand is not hinted at
+        queries.push(...prompts.map(prompt => ({
+          brand_name: brand.name,
+          query_type: RECOMMENDATION_QUERY_TYPE,
+          query_template: prompt.prompt,
+          recommendation_prompt_id: prompt.id
+        })));
+        continue;
+      }
+
+      const template = templates.find(resolved => resolved.name === queryType);
+      if (template || queryType in BRAND_QUERY_TEMPLATES) {
         const query: BrandMonitoringQuery = {
           brand_name: brand.name,
-          query_type: queryType as any,
-          query_template: BRAND_QUERY_TEMPLATES[queryType as keyof typeof BRAND_QUERY_TEMPLATES]
+          query_type: queryType,
+          query_template: template
+            ? template.body
+            : BRAND_QUERY_TEMPLATES[queryType as keyof typeof BRAND_QUERY_TEMPLATES]
         };
+        const variables: Record<string, string> = { ...template?.variables };
+
+        if (template) {
+          query.template_version_id = template.version_id;
+          query.template_version = template.version;
+        }
 
         // Add optional properties only if they have values
         if (brand.industry) {
@@ -134,6 +467,14 @@ export class BrandMonitoringService {
         }
         if (brand.monitoring_keywords.length > 0) {
           query.products = brand.monitoring_keywords;
+          variables.products = brand.monitoring_keywords.join(', ');
+          variables.keywords = brand.monitoring_keywords.join(', ');
+        }
+        if (brand.domain) {
+          variables.domain = brand.domain;
+        }
+        if (Object.keys(variables).length > 0) {
+          query.variables = variables;
         }
 
         queries.push(query);
@@ -144,13 +485,16 @@ export class BrandMonitoringService {
   }
 
   /**
-   * Calculate comprehensive visibility score based on AI responses and analysis
+   * Calculate comprehensive visibility score based on AI responses and analysis.
+   * Mention counts are averaged per sample so sampling does not inflate them.
    */
   private async calculateVisibilityScore(
     brand: Brand,
     responses: any[],
     citations: any[],
-    mentions: any[]
+    mentions: any[],
+    brandPositions: number[],
+    samples: number = 1
   ): Promise<VisibilityScore> {
     if (responses.length === 0) {
       return {
@@ -163,11 +507,15 @@ export class BrandMonitoringService {
       };
     }
 
+    // Competitor mentions are parsed too; only the brand's own count here
+    const brandMentions = mentions.filter(m => m.brand_name === brand.name);
+
     // Calculate mention frequency (0-100)
-    const mentionFrequency = Math.min(mentions.length * 10, 100);
+    const mentionsPerSample = brandMentions.length / samples;
+    const mentionFrequency = Math.min(mentionsPerSample * 10, 100);
 
     // Calculate average sentiment (-1 to 1, normalized to 0-100)
-    const sentimentScores = mentions
+    const sentimentScores = brandMentions
       .filter(m => m.sentiment_score !== undefined)
       .map(m => m.sentiment_score);
     
@@ -186,11 +534,12 @@ export class BrandMonitoringService {
         }, 0) / citations.length * 100
       : 0;
 
-    // Calculate ranking position (simulated based on mentions and sentiment)
-    const rankingPosition = this.calculateRankingPosition(mentions, avgSentiment);
+    // Calculate ranking position from where the models listed the brand
+    const rankingPosition = this.calculateRankingPosition(brandPositions);
+    const rankingScore = rankingPosition > 0 ? Math.max(0, 100 - (rankingPosition - 1) * 10) : 0;
 
     // Calculate overall confidence based on data quality
-    const confidence = this.calculateConfidence(responses, mentions, citations);
+    const confidence = this.calculateConfidence(responses, brandMentions, citations);
 
     // Calculate overall score (weighted average)
     const weights = {
@@ -204,7 +553,7 @@ export class BrandMonitoringService {
       (mentionFrequency * weights.mention) +
       (normalizedSentiment * weights.sentiment) +
       (citationQuality * weights.citation) +
-      ((100 - rankingPosition) * weights.ranking); // Lower ranking position = higher score
+      (rankingScore * weights.ranking); // First place scores 100, each place below it 10 less
 
     return {
       overall_score: Math.round(overallScore * 100) / 100,
@@ -217,21 +566,15 @@ export class BrandMonitoringService {
   }
 
   /**
-   * Calculate simulated ranking position based on mentions and sentiment
+   * Average list position of the brand across responses, 0 if it was never listed
    */
-  private calculateRankingPosition(mentions: any[], avgSentiment: number): number {
-    // Simulated ranking algorithm
-    // In a real system, this would be based on actual search result positions
-    const mentionCount = mentions.length;
-    const sentimentBonus = avgSentiment > 0 ? avgSentiment * 10 : 0;
-    
-    // Base ranking (higher mentions = better ranking)
-    let position = Math.max(1, 20 - mentionCount - sentimentBonus);
-    
-    // Add some randomness to simulate real-world variability
-    position += Math.random() * 5;
-    
-    return Math.max(1, Math.min(100, Math.round(position)));
+  private calculateRankingPosition(brandPositions: number[]): number {
+    if (brandPositions.length === 0) {
+      return 0;
+    }
+
+    const average = brandPositions.reduce((sum, position) => sum + position, 0) / brandPositions.length;
+    return Math.round(average);
   }
 
   /**
@@ -252,31 +595,94 @@ export class BrandMonitoringService {
     return Math.min(100, confidence);
   }
 
+  /**
+   * Store the brand's own mentions in a response and their aspects, with the
+   * analyzer version that scored them. Competitor mentions only feed the
+   * run's statistics.
+   */
+  private async storeBrandMentions(aiResponseId: string, brand: Brand, mentions: ParsedBrandMention[]): Promise<void> {
+    for (const mention of mentions.filter(candidate => candidate.brand_name === brand.name)) {
+      const stored = await AIResponseModel.addBrandMention({
+        ai_response_id: aiResponseId,
+        brand_id: brand.id,
+        mention_text: mention.mention_text,
+        context: mention.context.slice(0, 2000),
+        position_in_response: mention.position_in_response,
+        sentiment_score: mention.sentiment_score,
+        sentiment_label: mention.sentiment_label,
+        confidence: mention.confidence,
+        ...(mention.analyzer_version && { analyzer_version: mention.analyzer_version })
+      });
+
+      if (mention.aspects) {
+        await MentionAspectModel.addForBrandMention(stored.id, brand.id, mention.aspects, mention.analyzer_version);
+      }
+    }
+  }
+
+  /**
+   * Store the URLs a response cited, once each, for the crawl worker to verify
+   */
+  private async storeCitations(aiResponseId: string, citations: ParsedCitation[]): Promise<void> {
+    const seen = new Set<string>();
+
+    for (const citation of citations) {
+      if (seen.has(citation.url) || citation.url.length > 1000) {
+        continue;
+      }
+      seen.add(citation.url);
+
+      try {
+        await AIResponseModel.addCitation({
+          ai_response_id: aiResponseId,
+          url: citation.url,
+          ...(citation.domain && { domain: citation.domain }),
+          ...(citation.title && { title: citation.title.slice(0, 500) }),
+          ...(citation.authority_score !== undefined && { authority_score: citation.authority_score }),
+          ...(citation.relevance_score !== undefined && { relevance_score: citation.relevance_score }),
+          ...(citation.content_type && { content_type: citation.content_type }),
+          ...(citation.source && { source: citation.source })
+        });
+      } catch (error) {
+        // A URL the model mangled is skipped, not allowed to fail the response
+        console.warn(`Skipped citation ${citation.url}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
   /**
    * Store visibility metrics in the database
    */
-  private async storeVisibilityMetrics(brandId: string, visibilityScore: VisibilityScore): Promise<void> {
+  private async storeVisibilityMetrics(
+    brandId: string,
+    visibilityScore: VisibilityScore
+  ): Promise<VisibilityMetrics | null> {
     const now = new Date();
     const metricsData: CreateVisibilityMetricsInput = {
       brand_id: brandId,
       metric_date: now,
       metric_hour: now.getHours(),
       overall_score: visibilityScore.overall_score,
-      ranking_position: visibilityScore.ranking_position,
+      ...(visibilityScore.ranking_position > 0 && { ranking_position: visibilityScore.ranking_position }),
       mention_frequency: visibilityScore.mention_frequency,
       average_sentiment: (visibilityScore.sentiment_score - 50) / 50, // Convert back to -1,1 range
       citation_count: 0, // Will be updated separately
       source_quality_score: visibilityScore.citation_quality / 100,
-      query_category: 'comprehensive'
+      query_category: 'comprehensive',
+      ...(visibilityScore.stability_score !== undefined && { stability_score: visibilityScore.stability_score }),
+      ...(visibilityScore.share_of_recommendation !== undefined && {
+        share_of_recommendation: visibilityScore.share_of_recommendation
+      }),
+      ...(visibilityScore.inaccuracy_count !== undefined && { inaccuracy_count: visibilityScore.inaccuracy_count })
     };
 
-    await query(`
+    const result = await query(`
       INSERT INTO visibility_metrics (
         brand_id, metric_date, metric_hour, overall_score, ranking_position,
         mention_frequency, average_sentiment, citation_count, source_quality_score,
-        query_category, created_at
+        query_category, stability_score, share_of_recommendation, inaccuracy_count, created_at
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW())
       ON CONFLICT (brand_id, ai_model_id, metric_date, metric_hour, geographic_region, query_category)
       DO UPDATE SET
         overall_score = EXCLUDED.overall_score,
@@ -284,19 +690,82 @@ export class BrandMonitoringService {
         mention_frequency = EXCLUDED.mention_frequency,
         average_sentiment = EXCLUDED.average_sentiment,
         source_quality_score = EXCLUDED.source_quality_score,
+        stability_score = EXCLUDED.stability_score,
+        share_of_recommendation = EXCLUDED.share_of_recommendation,
+        inaccuracy_count = EXCLUDED.inaccuracy_count,
         created_at = NOW()
+      RETURNING *
     `, [
       metricsData.brand_id,
       metricsData.metric_date,
       metricsData.metric_hour,
       metricsData.overall_score,
-      metricsData.ranking_position,
+      metricsData.ranking_position ?? null,
       metricsData.mention_frequency,
       metricsData.average_sentiment,
       metricsData.citation_count,
       metricsData.source_quality_score,
-      metricsData.query_category
+      metricsData.query_category,
+      metricsData.stability_score ?? null,
+      metricsData.share_of_recommendation ?? null,
+      metricsData.inaccuracy_count ?? null
     ]);
+
+    return (result.rows[0] as VisibilityMetrics) || null;
+  }
+
+  /**
+   * Raise alerts for the thresholds the new metrics cross. The metrics are
+   * already stored, so a failed evaluation is logged rather than failing the run.
+   */
+  private async evaluateAlertThresholds(metrics: VisibilityMetrics): Promise<void> {
+    try {
+      await this.alertService.evaluateThresholds(metrics.brand_id, metrics);
+    } catch (error) {
+      console.error('Failed to evaluate alert thresholds:', error);
+    }
+  }
+
+  /**
+   * Alert on the fact sheet contradictions found in a run. The findings are
+   * already stored, so a failed alert is logged rather than failing the run.
+   */
+  private async raiseInaccuracyAlert(
+    brand: Brand,
+    findings: FactCheckFinding[],
+    responses: AIResponse[],
+    metrics: VisibilityMetrics | null
+  ): Promise<void> {
+    try {
+      let message = `AI models made ${findings.length} claims about ${brand.name} that contradict its fact sheet.\n\n`;
+      for (const finding of findings.slice(0, 5)) {
+        message += `- ${finding.model_name || 'Unknown model'} (${finding.finding_type.replace(/_/g, ' ')}): `;
+        message += `said "${finding.claimed_value}", fact sheet says "${finding.expected_value}"\n`;
+        message += `  "${finding.sentence}"\n`;
+      }
+      if (findings.length > 5) {
+        message += `\n...and ${findings.length - 5} more.`;
+      }
+
+      const types = new Set(findings.map(finding => finding.finding_type));
+      // Points to a model when all the findings are in its answers
+      const modelIds = new Set(findings.map(finding =>
+        responses.find(response => response.id === finding.ai_response_id)?.ai_model_id));
+      const [aiModelId] = modelIds;
+      await this.alertService.raiseSystemAlert({
+        brand_id: brand.id,
+        severity: findings.length >= 5 || types.has('pricing') || types.has('discontinued_item') ? 'high' : 'medium',
+        title: `Factual Inaccuracies About ${brand.name} Detected`,
+        message,
+        metric_type: 'inaccuracy_count',
+        current_value: findings.length,
+        threshold_value: 0,
+        ...(modelIds.size === 1 && aiModelId && { ai_model_id: aiModelId }),
+        ...(metrics && { visibility_metrics_id: metrics.id })
+      });
+    } catch (error) {
+      console.error('Failed to raise factual inaccuracy alert:', error);
+    }
   }
 
   /**
@@ -336,8 +805,20 @@ export class BrandMonitoringService {
 
     // For competitors, we'll simulate monitoring (in a real system, you'd monitor them too)
     const competitorData = [];
+
+    // Competitor checks are billed to the brand; skip them once its budget is spent
+    const budget = await this.budgetService.checkBudget(brandId);
     
     for (const competitorName of competitorNames) {
+      if (!budget.within_budget) {
+        competitorData.push({
+          name: competitorName,
+          estimated_score: 0,
+          comparison: 'unknown'
+        });
+        continue;
+      }
+
       try {
         // Execute a quick visibility check for competitor
         const competitorQuery: BrandMonitoringQuery = {
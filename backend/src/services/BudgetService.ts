@@ -0,0 +1,165 @@
+import { AlertManagementService } from './AlertManagementService';
+import { SpendBudgetModel } from '../models/SpendBudget';
+import { MonitoringScheduleModel } from '../models/MonitoringSchedule';
+import { SpendBudget, UpsertSpendBudgetInput } from '../types/database';
+
+export interface BudgetStatus {
+  budget: SpendBudget;
+  spend: number;
+  remaining: number;
+  exceeded: boolean;
+}
+
+export interface BudgetCheckResult {
+  within_budget: boolean;
+  budgets: BudgetStatus[];
+}
+
+export class BudgetService {
+  private alertService: AlertManagementService;
+
+  constructor(alertService: AlertManagementService) {
+    this.alertService = alertService;
+  }
+
+  /**
+   * Get this month's spend against every budget that applies to a brand
+   */
+  async getBudgetStatus(brandId: string): Promise<BudgetCheckResult> {
+    const budgets = await SpendBudgetModel.getActiveForBrand(brandId);
+    const statuses: BudgetStatus[] = [];
+
+    for (const budget of budgets) {
+      const spend = await SpendBudgetModel.getMonthlySpend(
+        budget.scope === 'brand' ? brandId : undefined
+      );
+      statuses.push(this.buildStatus(budget, spend));
+    }
+
+    return {
+      within_budget: statuses.every(status => !status.exceeded),
+      budgets: statuses
+    };
+  }
+
+  /**
+   * Check a brand's budgets before spending on AI queries. The first time a
+   * budget is exceeded in a month, scheduled monitoring it covers is paused
+   * and an alert is raised.
+   */
+  async checkBudget(brandId: string): Promise<BudgetCheckResult> {
+    const result = await this.getBudgetStatus(brandId);
+
+    for (const status of result.budgets) {
+      if (status.exceeded) {
+        await this.handleExceeded(status, brandId);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the organization budget with this month's spend across all brands
+   */
+  async getOrganizationStatus(): Promise<BudgetStatus | null> {
+    const budget = await SpendBudgetModel.findOrganization();
+    if (!budget) {
+      return null;
+    }
+
+    return this.buildStatus(budget, await SpendBudgetModel.getMonthlySpend());
+  }
+
+  /**
+   * Get a brand's own budget with this month's spend
+   */
+  async getBrandStatus(brandId: string): Promise<BudgetStatus | null> {
+    const budget = await SpendBudgetModel.findByBrand(brandId);
+    if (!budget) {
+      return null;
+    }
+
+    return this.buildStatus(budget, await SpendBudgetModel.getMonthlySpend(brandId));
+  }
+
+  /**
+   * Create or replace a brand or organization budget
+   */
+  async setBudget(input: UpsertSpendBudgetInput): Promise<SpendBudget> {
+    return await SpendBudgetModel.upsert(input);
+  }
+
+  /**
+   * Remove a brand or organization budget
+   */
+  async deleteBudget(scope: 'brand' | 'organization', brandId?: string): Promise<void> {
+    await SpendBudgetModel.delete(scope, brandId);
+  }
+
+  /**
+   * Describe the exceeded budgets of a check, for run errors and logs
+   */
+  static describeExceeded(result: BudgetCheckResult): string {
+    const exceeded = result.budgets
+      .filter(status => status.exceeded)
+      .map(status =>
+        `${status.budget.scope} budget $${status.spend.toFixed(2)} of $${Number(status.budget.monthly_limit).toFixed(2)}`
+      );
+
+    return `Monthly AI spend budget exceeded (${exceeded.join(', ')})`;
+  }
+
+  private buildStatus(budget: SpendBudget, spend: number): BudgetStatus {
+    const limit = Number(budget.monthly_limit);
+
+    return {
+      budget,
+      spend,
+      remaining: Math.max(0, limit - spend),
+      exceeded: spend >= limit
+    };
+  }
+
+  /**
+   * Pause the schedules a budget covers and alert, once per budget per month
+   */
+  private async handleExceeded(status: BudgetStatus, brandId: string): Promise<void> {
+    const marked = await SpendBudgetModel.markExceeded(status.budget.id);
+    if (!marked) {
+      return;
+    }
+
+    const isOrganization = status.budget.scope === 'organization';
+    const paused = await MonitoringScheduleModel.pauseForBudget(isOrganization ? null : brandId);
+    const limit = Number(status.budget.monthly_limit);
+
+    console.warn(
+      `💸 ${isOrganization ? 'Organization' : `Brand ${brandId}`} spend budget exceeded; ` +
+      `paused ${paused.length} monitoring schedules`
+    );
+
+    try {
+      let message = isOrganization
+        ? 'AI spend across all brands has reached the organization\'s monthly budget.\n\n'
+        : 'AI spend for this brand has reached its monthly budget.\n\n';
+      message += `Spend this month: $${status.spend.toFixed(2)}\n`;
+      message += `Monthly budget: $${limit.toFixed(2)}\n\n`;
+      message += `${paused.length} scheduled monitoring runs have been paused. `;
+      message += 'They resume when the budget is raised or the next month starts.';
+
+      await this.alertService.raiseSystemAlert({
+        brand_id: status.budget.brand_id || brandId,
+        severity: 'high',
+        title: isOrganization ? 'Organization AI Spend Budget Exceeded' : 'AI Spend Budget Exceeded',
+        message,
+        metric_type: 'ai_spend',
+        current_value: status.spend,
+        threshold_value: limit
+      });
+    } catch (error) {
+      // The schedules are already paused; a failed alert must not undo that
+      console.error('Failed to raise spend budget alert:', error);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import Queue from 'bull';
+import { CitationModel } from '../models/Citation';
+import { CitationCrawler } from './CitationCrawler';
+import { DomainAuthorityService, domainAuthority } from './DomainAuthority';
+
+export interface CitationCrawlSummary {
+  crawled: number;
+  ok: number;
+  broken: number;
+  unreachable: number;
+  citations_updated: number;
+}
+
+/**
+ * Background worker that crawls cited URLs. A repeatable sweep picks up
+ * citations stored since the last one, and re-checks old ones once they
+ * fall out of the recrawl window. A daily job re-learns domain authority
+ * from the citations and what the crawls found.
+ */
+export class CitationCrawlService {
+  private crawlQueue: Queue.Queue;
+  private crawler: CitationCrawler;
+  private authority: DomainAuthorityService;
+
+  private static readonly SWEEP_JOB = 'crawl-sweep';
+  private static readonly SWEEP_CRON = '*/15 * * * *';
+  private static readonly BATCH_SIZE = 50;
+  private static readonly RECRAWL_AFTER_DAYS = 30;
+  private static readonly LEARN_JOB = 'learn-authority';
+  private static readonly LEARN_CRON = '0 4 * * *';
+
+  constructor(crawler?: CitationCrawler, authority: DomainAuthorityService = domainAuthority) {
+    this.crawler = crawler || new CitationCrawler();
+    this.authority = authority;
+
+    // Initialize Bull Queue for citation crawls (shares Redis with the other queues)
+    this.crawlQueue = new Queue('citation crawls', {
+      redis: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+      },
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 50,
+        attempts: 1, // The next sweep picks up whatever this one missed
+      },
+    });
+
+    this.setupQueueProcessors();
+  }
+
+  /**
+   * Register the repeatable sweep and authority job. Called on startup.
+   */
+  async scheduleSweeps(): Promise<void> {
+    await this.crawlQueue.add(
+      CitationCrawlService.SWEEP_JOB,
+      {},
+      {
+        repeat: { cron: CitationCrawlService.SWEEP_CRON, tz: 'UTC' },
+        jobId: CitationCrawlService.SWEEP_JOB,
+      }
+    );
+    await this.crawlQueue.add(
+      CitationCrawlService.LEARN_JOB,
+      {},
+      {
+        repeat: { cron: CitationCrawlService.LEARN_CRON, tz: 'UTC' },
+        jobId: CitationCrawlService.LEARN_JOB,
+      }
+    );
+  }
+
+  /**
+   * Crawl the citations that are due, one URL at a time, and record each result
+   */
+  async crawlDue(limit = CitationCrawlService.BATCH_SIZE): Promise<CitationCrawlSummary> {
+    const targets = await CitationModel.getDueForCrawl(limit, CitationCrawlService.RECRAWL_AFTER_DAYS);
+    const summary: CitationCrawlSummary = { crawled: 0, ok: 0, broken: 0, unreachable: 0, citations_updated: 0 };
+
+    for (const target of targets) {
+      const result = await this.crawler.crawl(target.url, target.brand_name);
+      summary.citations_updated += await CitationModel.recordCrawl(target.url, target.brand_id, result);
+      summary.crawled++;
+      if (result.crawl_status !== 'pending') {
+        summary[result.crawl_status]++;
+      }
+    }
+
+    if (summary.crawled > 0) {
+      console.log(
+        `🔗 Crawled ${summary.crawled} cited URLs: ${summary.ok} ok, ` +
+        `${summary.broken} broken, ${summary.unreachable} unreachable`
+      );
+    }
+    return summary;
+  }
+
+  private setupQueueProcessors(): void {
+    this.crawlQueue.process(CitationCrawlService.SWEEP_JOB, async () => {
+      try {
+        return await this.crawlDue();
+      } catch (error) {
+        console.error('Failed to crawl cited URLs:', error);
+        throw error;
+      }
+    });
+
+    this.crawlQueue.process(CitationCrawlService.LEARN_JOB, async () => {
+      try {
+        const summary = await this.authority.learn();
+        console.log(`📚 Learned authority for ${summary.scored} of ${summary.domains} cited domains`);
+        return summary;
+      } catch (error) {
+        console.error('Failed to learn domain authority:', error);
+        throw error;
+      }
+    });
+
+    // Handle job failures
+    this.crawlQueue.on('failed', (job, error) => {
+      console.error(`Citation crawl job ${job.id} failed:`, error);
+    });
+  }
+
+  /**
+   * Close queue connections
+   */
+  async close(): Promise<void> {
+    await this.crawlQueue.close();
+  }
+}
@@ -0,0 +1,318 @@
+import axios from 'axios';
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+import { Readable } from 'stream';
+import { CitationCrawlStatus } from '../types/database';
+import { RankingExtraction } from './RankingExtraction';
+
+export interface CitationCrawlerOptions {
+  timeoutMs?: number;
+  maxBytes?: number; // HTML beyond this is not read
+  maxRedirects?: number;
+  allowPrivateNetworks?: boolean; // Cited URLs come from model output, so internal hosts are refused by default
+  userAgent?: string;
+}
+
+export interface CitationCrawlResult {
+  url: string;
+  final_url: string; // After redirects
+  crawl_status: CitationCrawlStatus;
+  http_status?: number;
+  title?: string;
+  publish_date?: Date;
+  content_snippet?: string;
+  content_type?: string;
+  mentions_brand: boolean;
+  relevance_score: number;
+  error?: string;
+}
+
+interface FetchedPage {
+  finalUrl: string;
+  status: number;
+  contentType: string;
+  body: string; // Empty unless the page is HTML or text
+}
+
+// Meta tags that carry a publish date, most specific first
+const PUBLISH_DATE_META = [
+  'article:published_time', 'og:published_time', 'datepublished', 'publishdate', 'pubdate',
+  'parsely-pub-date', 'sailthru.date', 'dc.date.issued', 'dc.date', 'date'
+];
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ', mdash: '—', ndash: '–', rsquo: '’', lsquo: '‘'
+};
+
+const PRIVATE_IPV4 = [
+  /^0\./, /^10\./, /^127\./, /^169\.254\./, /^172\.(1[6-9]|2\d|3[01])\./, /^192\.168\./,
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./
+];
+
+/**
+ * Fetches a cited URL, records whether it resolves, and reads the page's
+ * title, publish date and whether it mentions the brand. Relevance is
+ * re-scored from what the page says rather than assumed.
+ */
+export class CitationCrawler {
+  private readonly options: Required<CitationCrawlerOptions>;
+
+  constructor(options: CitationCrawlerOptions = {}) {
+    this.options = {
+      timeoutMs: options.timeoutMs ?? 10000,
+      maxBytes: options.maxBytes ?? 2 * 1024 * 1024,
+      maxRedirects: options.maxRedirects ?? 5,
+      allowPrivateNetworks: options.allowPrivateNetworks ?? false,
+      userAgent: options.userAgent || 'BrandMonitorCitationBot/1.0'
+    };
+  }
+
+  /**
+   * Crawl one URL and check it for the brand. Never throws: a page that
+   * cannot be fetched is reported as broken (an HTTP error) or unreachable.
+   */
+  async crawl(url: string, brandName: string): Promise<CitationCrawlResult> {
+    let page: FetchedPage;
+    try {
+      page = await this.fetch(url);
+    } catch (error) {
+      return {
+        url,
+        final_url: url,
+        crawl_status: 'unreachable',
+        mentions_brand: false,
+        relevance_score: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+
+    const contentType = this.describeContentType(page.contentType);
+    if (page.status >= 400) {
+      return {
+        url,
+        final_url: page.finalUrl,
+        crawl_status: 'broken',
+        http_status: page.status,
+        mentions_brand: false,
+        relevance_score: 0,
+        error: `HTTP ${page.status}`
+      };
+    }
+
+    const isHtml = /html/i.test(page.contentType);
+    const meta = isHtml ? this.readMetaTags(page.body) : {};
+    const text = isHtml ? this.extractText(page.body) : page.body;
+    const title = meta['og:title'] || this.extractTitle(page.body);
+    const publishDate = isHtml ? this.extractPublishDate(page.body, meta) : undefined;
+    const mentionCount = this.countMentions(text, brandName);
+    const titleMentions = title ? RankingExtraction.mentions(title, brandName) : false;
+    const snippet = this.extractSnippet(text, brandName) || meta['og:description'] || meta['description'];
+
+    return {
+      url,
+      final_url: page.finalUrl,
+      crawl_status: 'ok',
+      http_status: page.status,
+      ...(title && { title: title.slice(0, 500) }),
+      ...(publishDate && { publish_date: publishDate }),
+      ...(snippet && { content_snippet: snippet.slice(0, 2000) }),
+      ...(contentType && { content_type: contentType }),
+      mentions_brand: mentionCount > 0 || titleMentions,
+      relevance_score: this.scoreRelevance(mentionCount, titleMentions)
+    };
+  }
+
+  /**
+   * A page that resolves scores 0.3; mentioning the brand adds 0.4, a few
+   * more mentions up to 0.1 and the brand in the title 0.2
+   */
+  private scoreRelevance(mentionCount: number, titleMentions: boolean): number {
+    let score = 0.3;
+    if (mentionCount > 0) {
+      score += 0.4 + Math.min(0.1, (mentionCount - 1) * 0.025);
+    }
+    if (titleMentions) {
+      score += 0.2;
+    }
+    return Math.round(Math.min(1, score) * 100) / 100;
+  }
+
+  /**
+   * GET with redirects followed by hand, so every hop is checked against
+   * private networks
+   */
+  private async fetch(url: string): Promise<FetchedPage> {
+    let current = url;
+
+    for (let hop = 0; hop <= this.options.maxRedirects; hop++) {
+      const parsed = new URL(current);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error(`Unsupported protocol ${parsed.protocol}`);
+      }
+      if (!this.options.allowPrivateNetworks) {
+        await this.assertPublicHost(parsed.hostname);
+      }
+
+      const response = await axios.get<Readable>(current, {
+        timeout: this.options.timeoutMs,
+        signal: AbortSignal.timeout(this.options.timeoutMs), // Also bounds a body that trickles in
+        maxRedirects: 0,
+        responseType: 'stream',
+        validateStatus: () => true,
+        headers: {
+          'User-Agent': this.options.userAgent,
+          Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5'
+        }
+      });
+
+      const location = response.headers['location'];
+      if (response.status >= 300 && response.status < 400 && location) {
+        response.data.destroy();
+        current = new URL(String(location), current).toString();
+        continue;
+      }
+
+      const contentType = String(response.headers['content-type'] || '');
+      const readable = response.status < 400 && /html|text\/plain/i.test(contentType);
+      const body = readable ? await this.readBody(response.data) : '';
+      if (!readable) {
+        response.data.destroy();
+      }
+
+      return { finalUrl: current, status: response.status, contentType, body };
+    }
+
+    throw new Error(`More than ${this.options.maxRedirects} redirects`);
+  }
+
+  private async readBody(stream: Readable): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of stream) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      chunks.push(buffer);
+      size += buffer.length;
+      if (size >= this.options.maxBytes) {
+        break; // Leaving the loop destroys the stream
+      }
+    }
+
+    return Buffer.concat(chunks).subarray(0, this.options.maxBytes).toString('utf8');
+  }
+
+  private async assertPublicHost(hostname: string): Promise<void> {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(host)
+      ? [host]
+      : (await dns.lookup(host, { all: true })).map(entry => entry.address);
+
+    for (const address of addresses) {
+      const ipv4 = address.replace(/^::ffff:/i, '');
+      const isPrivate = isIP(ipv4) === 4
+        ? PRIVATE_IPV4.some(range => range.test(ipv4))
+        : /^(::1?$|f[cd]|fe[89ab])/i.test(address);
+      if (isPrivate) {
+        throw new Error(`Refusing to crawl private network address ${address}`);
+      }
+    }
+  }
+
+  private describeContentType(contentType: string): string | undefined {
+    if (/html/i.test(contentType)) return 'web';
+    if (/pdf/i.test(contentType)) return 'pdf';
+    if (/^video\//i.test(contentType)) return 'video';
+    if (/^text\//i.test(contentType)) return 'text';
+    return undefined;
+  }
+
+  /**
+   * Meta tags by lower-cased name, property or itemprop
+   */
+  private readMetaTags(html: string): Record<string, string> {
+    const tags: Record<string, string> = {};
+
+    for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+      const attributes: Record<string, string> = {};
+      for (const match of tag.matchAll(/([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi)) {
+        attributes[match[1]!.toLowerCase()] = match[2] ?? match[3] ?? '';
+      }
+
+      const key = attributes['property'] || attributes['name'] || attributes['itemprop'];
+      const value = attributes['content'] ?? attributes['datetime'];
+      if (key && value && !(key.toLowerCase() in tags)) {
+        tags[key.toLowerCase()] = this.decodeEntities(value).trim();
+      }
+    }
+
+    return tags;
+  }
+
+  private extractTitle(html: string): string | undefined {
+    const match = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+    const title = match ? this.decodeEntities(match[1]!).replace(/\s+/g, ' ').trim() : '';
+    return title || undefined;
+  }
+
+  private extractPublishDate(html: string, meta: Record<string, string>): Date | undefined {
+    const candidates = PUBLISH_DATE_META.map(name => meta[name]);
+
+    const jsonLd = /"datePublished"\s*:\s*"([^"]+)"/.exec(html);
+    candidates.push(jsonLd?.[1]);
+
+    const time = /<time\b[^>]*\bdatetime\s*=\s*["']([^"']+)["']/i.exec(html);
+    candidates.push(time?.[1]);
+
+    for (const candidate of candidates) {
+      if (!candidate) continue;
+      const date = new Date(candidate);
+      if (!isNaN(date.getTime())) {
+        return date;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Readable text of the page body, without scripts, styles and markup
+   */
+  private extractText(html: string): string {
+    const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+
+    return this.decodeEntities(
+      body
+        .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<!--[\s\S]*?-->/g, ' ')
+        .replace(/<[^>]+>/g, ' ')
+    ).replace(/\s+/g, ' ').trim();
+  }
+
+  // The sentence around the first mention of the brand
+  private extractSnippet(text: string, brandName: string): string | undefined {
+    const index = RankingExtraction.indexOf(text, brandName);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const sentenceStart = text.lastIndexOf('. ', index);
+    const start = Math.max(sentenceStart === -1 ? 0 : sentenceStart + 2, index - 200);
+    const stop = text.indexOf('. ', index);
+    const end = stop === -1 ? Math.min(text.length, index + 300) : Math.min(stop + 1, index + 300);
+    return text.slice(start, end).trim();
+  }
+
+  private countMentions(text: string, brandName: string): number {
+    const escaped = brandName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return (text.match(new RegExp(`(^|[^\\w])${escaped}(?![\\w])`, 'gi')) || []).length;
+  }
+
+  private decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return isNaN(point) ? entity : String.fromCodePoint(point);
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+}
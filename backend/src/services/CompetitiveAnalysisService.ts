@@ -573,7 +573,7 @@ Provide a JSON response with these metrics (0-100 scale):
 }
 `;
 
-      const analysisResult = await aiModel.query({
+      const analysisResult = await this.aiModelManager.queryModel(aiModel.config.name, {
         id: `competitor-analysis-${Date.now()}`,
         brand_id: 'competitor',
         query: analysisPrompt
@@ -902,7 +902,7 @@ Provide recommendations as a JSON array of strings:
 ["recommendation 1", "recommendation 2", ...]
 `;
 
-      const result = await aiModel.query({
+      const result = await this.aiModelManager.queryModel(aiModel.config.name, {
         id: `competitive-recommendations-${Date.now()}`,
         brand_id: brandName,
         query: prompt
@@ -1146,7 +1146,7 @@ Provide recommendations as JSON:
 Focus on actionable, specific recommendations that address the identified gaps.
 `;
 
-      const result = await aiModel.query({
+      const result = await this.aiModelManager.queryModel(aiModel.config.name, {
         id: `improvement-recommendations-${Date.now()}`,
         brand_id: brandId,
         query: prompt
@@ -1275,7 +1275,7 @@ Provide insights as a JSON array of strings:
 ["insight 1", "insight 2", "insight 3", "insight 4", "insight 5"]
 `;
 
-      const result = await aiModel.query({
+      const result = await this.aiModelManager.queryModel(aiModel.config.name, {
         id: `benchmark-insights-${Date.now()}`,
         brand_id: brandName,
         query: prompt
@@ -1570,7 +1570,7 @@ Provide 3-5 vulnerability areas as a JSON array:
 Focus on areas like market gaps, customer pain points, or strategic weaknesses.
 `;
 
-      const result = await aiModel.query({
+      const result = await this.aiModelManager.queryModel(aiModel.config.name, {
         id: `competitor-vulnerabilities-${Date.now()}`,
         brand_id: competitorName,
         query: prompt
@@ -1622,7 +1622,7 @@ Provide 3-5 ethical competitive strategies as a JSON array:
 Focus on legitimate competitive advantages and market positioning.
 `;
 
-      const result = await aiModel.query({
+      const result = await this.aiModelManager.queryModel(aiModel.config.name, {
         id: `attack-strategies-${Date.now()}`,
         brand_id: brandName,
         query: prompt
@@ -1667,7 +1667,7 @@ Provide 3-5 defensive strategies as a JSON array:
 Focus on strengthening market position and customer loyalty.
 `;
 
-      const result = await aiModel.query({
+      const result = await this.aiModelManager.queryModel(aiModel.config.name, {
         id: `defensive-strategies-${Date.now()}`,
         brand_id: brandName,
         query: prompt
@@ -1731,7 +1731,7 @@ Provide recommendations as JSON:
 Short-term: 0-6 months, Medium-term: 6-18 months, Long-term: 18+ months
 `;
 
-      const result = await aiModel.query({
+      const result = await this.aiModelManager.queryModel(aiModel.config.name, {
         id: `strategic-recommendations-${Date.now()}`,
         brand_id: brandName,
         query: prompt
@@ -1815,7 +1815,7 @@ Provide a SWOT analysis as JSON:
 }
 `;
 
-      const result = await aiModel.query({
+      const result = await this.aiModelManager.queryModel(aiModel.config.name, {
         id: `swot-analysis-${Date.now()}`,
         brand_id: brandName,
         query: prompt
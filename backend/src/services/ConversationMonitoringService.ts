@@ -1,6 +1,9 @@
 import { ConversationModel } from '../models/Conversation';
 import { BrandModel } from '../models/Brand';
 import { AIResponseModel } from '../models/AIResponse';
+import { MentionAspectModel } from '../models/MentionAspect';
+import { lexiconAnalyzer } from './nlp/LexiconAnalyzer';
+import { MentionAspectScore } from '../types/ai';
 import {
   Conversation,
   ConversationTurn,
@@ -24,6 +27,7 @@ interface MentionDetectionResult {
     sentimentLabel?: 'positive' | 'negative' | 'neutral';
     relevance?: number;
     confidence?: number;
+    aspects?: MentionAspectScore[];
   }>;
 }
 
@@ -200,6 +204,7 @@ export class ConversationMonitoringService {
         const mentionContext = responseText.substring(mentionStart, mentionEnd);
         const mentionType = this.classifyMentionType(responseText, idx, responseText.substr(idx, term.length));
         const sentiment = this.analyzeSentiment(mentionContext);
+        const aspects = await lexiconAnalyzer.extractAspects(mentionContext, brand.name);
         mentions.push({
           brandId: brand.id,
           brandName: brand.name,
@@ -210,7 +215,8 @@ export class ConversationMonitoringService {
           sentiment: sentiment.score,
           sentimentLabel: sentiment.label,
           relevance: this.calculateRelevance(mentionContext, term),
-          confidence: 0.8
+          confidence: 0.8,
+          ...(aspects.length > 0 && { aspects })
         });
         fromIndex = idx + termLower.length;
       }
@@ -249,6 +255,15 @@ export class ConversationMonitoringService {
 
       const conversationMention = await ConversationModel.addMention(mentionData);
       mentions.push(conversationMention);
+
+      if (mention.aspects) {
+        await MentionAspectModel.addForConversationMention(
+          conversationMention.id,
+          mention.brandId,
+          mention.aspects,
+          lexiconAnalyzer.version
+        );
+      }
     }
 
     return mentions;
@@ -0,0 +1,100 @@
+import { DomainAuthorityModel, LearnedDomainAuthority } from '../models/DomainAuthority';
+import { DomainCitationStats } from '../types/database';
+
+export interface DomainAuthorityLearnSummary {
+  domains: number; // Domains with citations
+  scored: number; // ...with enough of them for a learned score
+}
+
+// Scores for domains the table does not know
+const TLD_SCORES: Array<[string, number]> = [['.gov', 0.9], ['.edu', 0.8], ['.org', 0.7]];
+const DEFAULT_SCORE = 0.5;
+
+/**
+ * Authority scores for cited domains, from the domain_authority table. The
+ * table is held in memory so citations can be scored while a response is
+ * parsed; it is reloaded after an admin edit and after each learning pass.
+ *
+ * Learned scores come from citation frequency across every brand: a domain
+ * cited often, and for many brands, is one the models lean on. Domains the
+ * crawler keeps finding broken lose up to half their score.
+ */
+export class DomainAuthorityService {
+  private scores = new Map<string, number>();
+
+  static readonly MIN_CITATIONS = 3; // Fewer than this and a domain keeps the default
+  private static readonly BRANDS_FOR_FULL_SPREAD = 5;
+
+  /**
+   * Reload scores from the table
+   */
+  async load(): Promise<void> {
+    const scores = await DomainAuthorityModel.getScores();
+    this.scores = new Map(Object.entries(scores));
+  }
+
+  /**
+   * Score a domain: its table entry, else its closest parent domain's
+   * ("en.wikipedia.org" takes "wikipedia.org"), else a guess from the TLD
+   */
+  score(domain: string): number {
+    const labels = DomainAuthorityService.normalize(domain).split('.');
+
+    for (let start = 0; start < labels.length - 1; start++) {
+      const score = this.scores.get(labels.slice(start).join('.'));
+      if (score !== undefined) {
+        return score;
+      }
+    }
+
+    const host = labels.join('.');
+    const tld = TLD_SCORES.find(([suffix]) => host.endsWith(suffix));
+    return tld ? tld[1] : DEFAULT_SCORE;
+  }
+
+  /**
+   * Re-learn every domain's score from the citations stored so far
+   */
+  async learn(): Promise<DomainAuthorityLearnSummary> {
+    const stats = await DomainAuthorityModel.getCitationStats();
+    const mostCited = Math.max(0, ...stats.map(entry => entry.citation_count));
+
+    const entries: LearnedDomainAuthority[] = stats.map(entry => ({
+      ...entry,
+      learned_score: DomainAuthorityService.learnedScore(entry, mostCited)
+    }));
+
+    await DomainAuthorityModel.saveLearned(entries);
+    await this.load();
+
+    return {
+      domains: entries.length,
+      scored: entries.filter(entry => entry.learned_score !== null).length
+    };
+  }
+
+  /**
+   * 0.3 for a domain cited at all, plus up to 0.35 for how often it is cited
+   * (log scale, against the most cited domain) and up to 0.25 for how many
+   * brands' answers cite it, less up to half for broken links
+   */
+  static learnedScore(stats: DomainCitationStats, mostCited: number): number | null {
+    if (stats.citation_count < DomainAuthorityService.MIN_CITATIONS) {
+      return null;
+    }
+
+    const frequency = mostCited > 0 ? Math.log(1 + stats.citation_count) / Math.log(1 + mostCited) : 0;
+    const spread = Math.min(1, (stats.brand_count - 1) / (DomainAuthorityService.BRANDS_FOR_FULL_SPREAD - 1));
+    const brokenShare = stats.crawled_count > 0 ? stats.broken_count / stats.crawled_count : 0;
+
+    const score = (0.3 + 0.35 * frequency + 0.25 * Math.max(0, spread)) * (1 - 0.5 * brokenShare);
+    return Math.round(score * 100) / 100;
+  }
+
+  static normalize(domain: string): string {
+    return domain.trim().toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+  }
+}
+
+// Shared by every model instance in the process
+export const domainAuthority = new DomainAuthorityService();
@@ -0,0 +1,256 @@
+import {
+  Brand,
+  BrandExecutive,
+  BrandFactSheet,
+  CreateFactCheckFindingInput,
+  FactCheckType
+} from '../types/database';
+import { RankingExtraction } from './RankingExtraction';
+
+// How sure a contradiction of each kind is, given how loosely it is matched
+const CONFIDENCE: Record<FactCheckType, number> = {
+  founded_year: 0.9,
+  founder: 0.8,
+  headquarters: 0.75,
+  executive: 0.75,
+  discontinued_item: 0.7,
+  pricing: 0.6
+};
+
+// Two or three capitalized words, optionally with a middle initial
+const PERSON_NAME = "\\b[A-Z][a-z'-]+(?:\\s+[A-Z]\\.)?(?:\\s+[A-Z][a-zA-Z'-]+){1,2}";
+
+const FOUNDED_YEAR = new RegExp(`\\b(?:[Ff]ounded|[Ee]stablished|[Ii]ncorporated)(?:\\s+by\\s+${PERSON_NAME}(?:\\s+and\\s+${PERSON_NAME})?)?,?\\s+(?:in\\s+)?((?:19|20)\\d{2})\\b`);
+const FOUNDER = new RegExp(`\\b[Ff]ounded\\s+(?:in\\s+\\d{4}\\s+)?by\\s+(${PERSON_NAME}(?:(?:,\\s*(?:and\\s+)?|\\s+and\\s+)${PERSON_NAME})*)`);
+const HEADQUARTERS = /\b(?:[Hh]eadquartered|[Bb]ased|[Hh]eadquarters (?:is|are)|HQ (?:is|are))\s+(?:in|out of)\s+([A-Z][\w.'-]*(?:(?:\s+|,\s*)[A-Z][\w.'-]*)*)/;
+const NAME_LIST_SEPARATOR = /,\s*(?:and\s+)?|\s+and\s+/;
+const PRICE = /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?/g;
+
+// Wording that puts a discontinued item in the past, so naming it is not a claim it is sold
+const RETIRED_CUE = /\b(?:discontinued|retired|deprecated|sunset(?:ted)?|no longer|formerly|former|previously|used to|legacy|end[- ]of[- ]life|replaced|was|were|had been)\b/i;
+
+const TITLE_EXPANSIONS: Record<string, string> = {
+  ceo: 'chief executive officer',
+  cto: 'chief technology officer',
+  cfo: 'chief financial officer',
+  coo: 'chief operating officer',
+  cmo: 'chief marketing officer',
+  cpo: 'chief product officer'
+};
+
+/**
+ * Checks what an answer says about a brand against the brand's fact sheet:
+ * founding year, headquarters, founders, who holds each executive title,
+ * product prices and whether discontinued items are still on sale. Only
+ * sentences that name the brand (or, for prices and discontinued items, the
+ * product) are read, and sentences that also name a competitor are skipped
+ * for brand-level facts since the claim may be about the competitor.
+ */
+export class FactChecking {
+  /**
+   * Sentences of an answer that contradict the fact sheet; none when the brand has no fact sheet
+   */
+  static check(
+    responseText: string,
+    brand: Pick<Brand, 'name' | 'competitor_brands' | 'fact_sheet'>
+  ): CreateFactCheckFindingInput[] {
+    const factSheet = brand.fact_sheet;
+    if (!factSheet) {
+      return [];
+    }
+
+    const findings: CreateFactCheckFindingInput[] = [];
+    for (const sentence of FactChecking.splitSentences(responseText)) {
+      const text = sentence.replace(/\*\*|__/g, '');
+      const namesCompetitor = (brand.competitor_brands || [])
+        .some(competitor => RankingExtraction.mentions(text, competitor));
+
+      if (RankingExtraction.mentions(text, brand.name) && !namesCompetitor) {
+        findings.push(
+          ...FactChecking.checkKeyFacts(sentence, text, factSheet),
+          ...FactChecking.checkExecutives(sentence, text, brand.name, factSheet.executives)
+        );
+      }
+      if (!namesCompetitor) {
+        findings.push(...FactChecking.checkPricing(sentence, text, factSheet));
+      }
+      findings.push(...FactChecking.checkDiscontinued(sentence, text, factSheet));
+    }
+
+    return findings;
+  }
+
+  private static checkKeyFacts(
+    sentence: string,
+    text: string,
+    factSheet: BrandFactSheet
+  ): CreateFactCheckFindingInput[] {
+    const findings: CreateFactCheckFindingInput[] = [];
+    const factValues = (attribute: string) => factSheet.key_facts
+      .filter(fact => fact.attribute === attribute)
+      .map(fact => fact.value);
+
+    const [foundedYear] = factValues('founded_year');
+    const claimedYear = FOUNDED_YEAR.exec(text)?.[1];
+    if (foundedYear && claimedYear && claimedYear !== foundedYear.trim()) {
+      findings.push(FactChecking.finding('founded_year', sentence, claimedYear, foundedYear));
+    }
+
+    const [headquarters] = factValues('headquarters');
+    const claimedPlace = HEADQUARTERS.exec(text)?.[1]?.replace(/[.,]+$/, ''); // Keeps "St. Louis", drops the full stop
+    if (headquarters && claimedPlace && !FactChecking.placesAgree(claimedPlace, headquarters)) {
+      findings.push(FactChecking.finding('headquarters', sentence, claimedPlace, headquarters));
+    }
+
+    const founders = factValues('founder').flatMap(value => value.split(NAME_LIST_SEPARATOR));
+    const claimedFounders = FOUNDER.exec(text)?.[1]?.split(NAME_LIST_SEPARATOR) || [];
+    const unknownFounders = claimedFounders.filter(name => !founders.some(founder => FactChecking.namesMatch(name, founder)));
+    if (founders.length > 0 && unknownFounders.length > 0) {
+      findings.push(FactChecking.finding('founder', sentence, claimedFounders.join(', '), founders.join(', ')));
+    }
+
+    return findings;
+  }
+
+  /**
+   * "CEO Jane Doe", "the CEO of TechCorp is Jane Doe" and "Jane Doe, TechCorp's
+   * CEO" all claim who holds a title; "former CEO" does not
+   */
+  private static checkExecutives(
+    sentence: string,
+    text: string,
+    brandName: string,
+    executives: BrandExecutive[]
+  ): CreateFactCheckFindingInput[] {
+    const findings: CreateFactCheckFindingInput[] = [];
+    const brand = FactChecking.escape(brandName);
+    const titles = Array.from(new Set(executives.map(executive => executive.title.trim().toLowerCase())));
+
+    for (const title of titles) {
+      const holders = executives.filter(executive => executive.title.trim().toLowerCase() === title);
+      const titleSource = FactChecking.titleVariants(title).map(FactChecking.caseInsensitive).join('|');
+      const patterns = [
+        new RegExp(`(?<!(?:[Ff]ormer|[Pp]revious|[Ee]x)[\\s-])\\b(?:${titleSource})(?:\\s+of\\s+${brand})?,?\\s+(?:is\\s+)?(${PERSON_NAME})`),
+        new RegExp(`(${PERSON_NAME}),?\\s+(?:is\\s+)?(?:the\\s+)?(?:${brand}(?:'s|’s)?\\s+)?(?:current\\s+)?(?:${titleSource})\\b`)
+      ];
+
+      for (const pattern of patterns) {
+        const claimed = pattern.exec(text)?.[1];
+        if (claimed && !holders.some(holder => FactChecking.namesMatch(claimed, holder.name))) {
+          findings.push(FactChecking.finding(
+            'executive',
+            sentence,
+            `${claimed} (${holders[0]!.title})`,
+            holders.map(holder => `${holder.name} (${holder.title})`).join(', ')
+          ));
+          break;
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Only sentences naming exactly one priced product are checked, so a
+   * comparison between plans is not read as a wrong price
+   */
+  private static checkPricing(
+    sentence: string,
+    text: string,
+    factSheet: BrandFactSheet
+  ): CreateFactCheckFindingInput[] {
+    const priced = factSheet.products.filter(product =>
+      product.price && FactChecking.amounts(product.price).length > 0 && RankingExtraction.mentions(text, product.name)
+    );
+    const claimed = FactChecking.amounts(text);
+    if (priced.length !== 1 || claimed.length === 0) {
+      return [];
+    }
+
+    const product = priced[0]!;
+    const expected = FactChecking.amounts(product.price!);
+    if (claimed.some(amount => expected.some(price => Math.abs(price - amount) < 0.005))) {
+      return [];
+    }
+
+    return [FactChecking.finding(
+      'pricing',
+      sentence,
+      claimed.map(amount => `$${amount}`).join(', '),
+      `${product.name}: ${product.price}`
+    )];
+  }
+
+  private static checkDiscontinued(
+    sentence: string,
+    text: string,
+    factSheet: BrandFactSheet
+  ): CreateFactCheckFindingInput[] {
+    if (RETIRED_CUE.test(text)) {
+      return [];
+    }
+
+    return factSheet.discontinued_items
+      .filter(item => RankingExtraction.mentions(text, item.name))
+      .map(item => {
+        let expected = 'Discontinued';
+        if (item.discontinued_on) expected += ` on ${item.discontinued_on}`;
+        if (item.replaced_by) expected += `, replaced by ${item.replaced_by}`;
+        return FactChecking.finding('discontinued_item', sentence, item.name, expected);
+      });
+  }
+
+  private static finding(
+    type: FactCheckType,
+    sentence: string,
+    claimed: string,
+    expected: string
+  ): CreateFactCheckFindingInput {
+    return {
+      finding_type: type,
+      sentence: sentence.slice(0, 2000),
+      claimed_value: claimed.slice(0, 500),
+      expected_value: expected.slice(0, 500),
+      confidence: CONFIDENCE[type]
+    };
+  }
+
+  // "Austin" agrees with "Austin, Texas"; the city decides
+  private static placesAgree(claimed: string, expected: string): boolean {
+    const city = (place: string) => (place.split(',')[0] || '').trim().toLowerCase();
+    return expected.toLowerCase().includes(city(claimed)) || claimed.toLowerCase().includes(city(expected));
+  }
+
+  // Full names match, or surnames do ("Ms. Doe" and "Jane Doe")
+  private static namesMatch(a: string, b: string): boolean {
+    const normalize = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+    const surname = (name: string) => normalize(name).split(' ').pop();
+    return normalize(a) === normalize(b) || surname(a) === surname(b);
+  }
+
+  private static amounts(text: string): number[] {
+    return Array.from(text.matchAll(PRICE), match => parseFloat(`${match[1]!.replace(/,/g, '')}.${match[2] || '0'}`));
+  }
+
+  private static titleVariants(title: string): string[] {
+    const expansion = TITLE_EXPANSIONS[title];
+    return expansion ? [title, expansion] : [title];
+  }
+
+  // Titles are written "CEO", "ceo" or "Chief Executive Officer"; names need their capitals, so no i flag
+  private static caseInsensitive(title: string): string {
+    return FactChecking.escape(title).replace(/[a-z]/g, letter => `[${letter.toUpperCase()}${letter}]`);
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private static splitSentences(text: string): string[] {
+    return text
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+}
@@ -0,0 +1,459 @@
+import Queue from 'bull';
+import { Server as SocketIOServer } from 'socket.io';
+import { BrandMonitoringService, MonitoringProgress } from './BrandMonitoringService';
+import { BudgetService } from './BudgetService';
+import { MonitoringScheduleModel } from '../models/MonitoringSchedule';
+import {
+  MonitoringSchedule,
+  MonitoringRun,
+  CreateMonitoringScheduleInput
+} from '../types/database';
+
+export interface ScheduleUpdate {
+  name?: string;
+  cron_expression?: string;
+  timezone?: string;
+  query_types?: string[];
+  target_models?: string[];
+}
+
+export interface StartRunOptions {
+  queryTypes?: string[];
+  modelNames?: string[];
+  requestedBy?: string;
+  samples?: number;
+  temperature?: number;
+}
+
+export class MonitoringSchedulerService {
+  private monitoringQueue: Queue.Queue;
+  private brandMonitoringService: BrandMonitoringService;
+  private budgetService: BudgetService;
+  private socketIO: SocketIOServer | null;
+
+  private static readonly SCHEDULED_JOB = 'scheduled-run';
+  private static readonly EXECUTE_JOB = 'execute-run';
+  private static readonly BUDGET_REVIEW_JOB = 'budget-review';
+
+  constructor(
+    brandMonitoringService: BrandMonitoringService,
+    budgetService: BudgetService,
+    socketIO?: SocketIOServer
+  ) {
+    this.brandMonitoringService = brandMonitoringService;
+    this.budgetService = budgetService;
+    this.socketIO = socketIO || null;
+
+    // Initialize Bull Queue for monitoring runs (shares Redis with the alert queue)
+    this.monitoringQueue = new Queue('monitoring runs', {
+      redis: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+      },
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 50,
+        attempts: 1, // A failed run is recorded, never silently re-billed
+      },
+    });
+
+    this.setupQueueProcessors();
+  }
+
+  /**
+   * Register repeatable jobs for every runnable schedule in the database.
+   * Called on startup so schedules survive restarts and deploys.
+   */
+  async syncSchedules(): Promise<number> {
+    try {
+      const repeatableJobs = await this.monitoringQueue.getRepeatableJobs();
+      for (const job of repeatableJobs) {
+        if (job.name === MonitoringSchedulerService.SCHEDULED_JOB) {
+          await this.monitoringQueue.removeRepeatableByKey(job.key);
+        }
+      }
+
+      const schedules = await MonitoringScheduleModel.getRunnable();
+      for (const schedule of schedules) {
+        await this.registerSchedule(schedule);
+      }
+
+      // Budgets reset monthly; give schedules paused by a budget a chance to resume
+      await this.monitoringQueue.add(
+        MonitoringSchedulerService.BUDGET_REVIEW_JOB,
+        {},
+        {
+          repeat: { cron: '5 0 1 * *', tz: 'UTC' },
+          jobId: MonitoringSchedulerService.BUDGET_REVIEW_JOB,
+        }
+      );
+
+      console.log(`⏰ Registered ${schedules.length} monitoring schedules`);
+      return schedules.length;
+    } catch (error) {
+      console.error('Failed to sync monitoring schedules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a schedule and register it with the queue. A schedule the queue
+   * rejects (an unknown timezone, say) is removed again rather than left
+   * stored without ever running.
+   */
+  async createSchedule(input: CreateMonitoringScheduleInput): Promise<MonitoringSchedule> {
+    const schedule = await MonitoringScheduleModel.create(input);
+
+    try {
+      await this.registerSchedule(schedule);
+    } catch (error) {
+      await MonitoringScheduleModel.delete(schedule.id);
+      throw error;
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Update a schedule, re-registering it if its timing changed
+   */
+  async updateSchedule(scheduleId: string, updates: ScheduleUpdate): Promise<MonitoringSchedule> {
+    const existing = await this.getScheduleOrThrow(scheduleId);
+    const updated = await MonitoringScheduleModel.update(scheduleId, updates);
+
+    if (existing.status === 'active') {
+      await this.unregisterSchedule(existing);
+      await this.registerSchedule(updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete a schedule and stop future runs
+   */
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    const schedule = await this.getScheduleOrThrow(scheduleId);
+    await this.unregisterSchedule(schedule);
+    await MonitoringScheduleModel.delete(scheduleId);
+  }
+
+  /**
+   * Pause a schedule without losing its configuration
+   */
+  async pauseSchedule(scheduleId: string): Promise<MonitoringSchedule> {
+    const schedule = await this.getScheduleOrThrow(scheduleId);
+    await this.unregisterSchedule(schedule);
+    return await MonitoringScheduleModel.setStatus(scheduleId, 'paused');
+  }
+
+  /**
+   * Resume a paused schedule
+   */
+  async resumeSchedule(scheduleId: string): Promise<MonitoringSchedule> {
+    await this.getScheduleOrThrow(scheduleId);
+    const schedule = await MonitoringScheduleModel.setStatus(scheduleId, 'active');
+    await this.registerSchedule(schedule);
+    return schedule;
+  }
+
+  /**
+   * Resume schedules paused by a spend budget whose brand is back within
+   * budget. Runs after budgets change and at the start of each month.
+   */
+  async resumeBudgetPausedSchedules(): Promise<MonitoringSchedule[]> {
+    const schedules = await MonitoringScheduleModel.getBudgetPaused();
+    const resumed: MonitoringSchedule[] = [];
+    const withinBudget = new Map<string, boolean>();
+
+    for (const schedule of schedules) {
+      if (!withinBudget.has(schedule.brand_id)) {
+        const status = await this.budgetService.getBudgetStatus(schedule.brand_id);
+        withinBudget.set(schedule.brand_id, status.within_budget);
+      }
+
+      if (withinBudget.get(schedule.brand_id)) {
+        resumed.push(await this.resumeSchedule(schedule.id));
+      }
+    }
+
+    if (resumed.length > 0) {
+      console.log(`⏰ Resumed ${resumed.length} monitoring schedules paused by spend budgets`);
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Trigger an immediate run of a schedule, outside its cron timing
+   */
+  async triggerSchedule(scheduleId: string, requestedBy?: string): Promise<MonitoringRun> {
+    const schedule = await this.getScheduleOrThrow(scheduleId);
+
+    const run = await MonitoringScheduleModel.createRun({
+      schedule_id: schedule.id,
+      brand_id: schedule.brand_id,
+      trigger_type: 'manual',
+      query_types: schedule.query_types,
+      target_models: schedule.target_models,
+      ...(requestedBy && { requested_by: requestedBy })
+    });
+
+    await this.monitoringQueue.add(MonitoringSchedulerService.EXECUTE_JOB, { runId: run.id });
+    return run;
+  }
+
+  /**
+   * Queue a one-off monitoring run for a brand and return it immediately
+   */
+  async startRun(brandId: string, options: StartRunOptions = {}): Promise<MonitoringRun> {
+    const run = await MonitoringScheduleModel.createRun({
+      brand_id: brandId,
+      trigger_type: 'manual',
+      ...(options.queryTypes && { query_types: options.queryTypes }),
+      ...(options.modelNames && { target_models: options.modelNames }),
+      ...(options.requestedBy && { requested_by: options.requestedBy }),
+      ...(options.samples && { samples: options.samples }),
+      ...(options.temperature !== undefined && { sample_temperature: options.temperature })
+    });
+
+    await this.monitoringQueue.add(MonitoringSchedulerService.EXECUTE_JOB, { runId: run.id });
+    return run;
+  }
+
+  /**
+   * Get a run by ID
+   */
+  async getRun(runId: string): Promise<MonitoringRun | null> {
+    return await MonitoringScheduleModel.findRunById(runId);
+  }
+
+  /**
+   * Get schedules for a brand
+   */
+  async getSchedules(brandId: string): Promise<MonitoringSchedule[]> {
+    return await MonitoringScheduleModel.getByBrand(brandId);
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  async getSchedule(scheduleId: string): Promise<MonitoringSchedule | null> {
+    return await MonitoringScheduleModel.findById(scheduleId);
+  }
+
+  /**
+   * Get run history for a brand
+   */
+  async getRuns(
+    brandId: string,
+    options: { scheduleId?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ runs: MonitoringRun[]; total: number }> {
+    return await MonitoringScheduleModel.getRuns(brandId, options);
+  }
+
+  /**
+   * Execute a queued run and record its outcome
+   */
+  async executeRun(runId: string): Promise<MonitoringRun> {
+    const run = await MonitoringScheduleModel.findRunById(runId);
+    if (!run) {
+      throw new Error(`Monitoring run ${runId} not found`);
+    }
+
+    this.emitRunUpdate(await MonitoringScheduleModel.markRunStarted(runId));
+
+    try {
+      const result = await this.brandMonitoringService.monitorBrand(
+        run.brand_id,
+        run.query_types && run.query_types.length > 0 ? run.query_types : undefined,
+        {
+          ...(run.target_models && run.target_models.length > 0 && { modelNames: run.target_models }),
+          ...(run.samples > 1 && { samples: run.samples }),
+          // DECIMAL columns come back from pg as strings
+          ...(run.sample_temperature != null && { temperature: Number(run.sample_temperature) }),
+          onProgress: (progress: MonitoringProgress) => this.recordProgress(runId, progress)
+        }
+      );
+
+      const totalCost = result.ai_responses.reduce(
+        (sum, response) => sum + (parseFloat(response.cost) || 0),
+        0
+      );
+
+      // A run where every query failed is a failed run, even though monitorBrand resolved
+      const failed = result.ai_responses.length === 0 && result.errors.length > 0;
+
+      const finished = await MonitoringScheduleModel.markRunFinished(runId, {
+        status: failed ? 'failed' : 'completed',
+        responses_count: result.ai_responses.length,
+        total_cost: totalCost,
+        ...(result.errors.length > 0 && { error_message: result.errors.join('\n') }),
+        ...(result.sample_statistics && { sample_statistics: result.sample_statistics })
+      });
+      this.emitRunUpdate(finished);
+      return finished;
+    } catch (error) {
+      console.error(`Monitoring run ${runId} failed:`, error);
+      const finished = await MonitoringScheduleModel.markRunFinished(runId, {
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error'
+      });
+      this.emitRunUpdate(finished);
+      return finished;
+    }
+  }
+
+  /**
+   * Persist run progress and push it to the requesting user
+   */
+  private async recordProgress(runId: string, progress: MonitoringProgress): Promise<void> {
+    const run = await MonitoringScheduleModel.updateRunProgress(runId, progress);
+    this.emitRunUpdate(run);
+  }
+
+  /**
+   * Send the current state of a run to the user who requested it
+   */
+  private emitRunUpdate(run: MonitoringRun): void {
+    if (this.socketIO && run.requested_by) {
+      this.socketIO.to(`user-${run.requested_by}`).emit('monitoring:progress', {
+        run_id: run.id,
+        brand_id: run.brand_id,
+        status: run.status,
+        queries_total: run.queries_total,
+        queries_completed: run.queries_completed,
+        models_queried: run.models_queried,
+        failures: run.failures,
+        responses_count: run.responses_count,
+        total_cost: run.total_cost,
+        error_message: run.error_message
+      });
+    }
+  }
+
+  /**
+   * Handle a cron tick for a schedule
+   */
+  private async runScheduledTick(scheduleId: string): Promise<MonitoringRun | null> {
+    const schedule = await MonitoringScheduleModel.findById(scheduleId);
+
+    // The schedule may have been paused or deleted since the tick was enqueued
+    if (!schedule || schedule.status !== 'active') {
+      console.log(`Skipping tick for inactive monitoring schedule ${scheduleId}`);
+      // Schedules paused by a budget are paused in the database only; drop their job here
+      if (schedule) {
+        await this.unregisterSchedule(schedule);
+      }
+      return null;
+    }
+
+    const run = await MonitoringScheduleModel.createRun({
+      schedule_id: schedule.id,
+      brand_id: schedule.brand_id,
+      trigger_type: 'scheduled',
+      query_types: schedule.query_types,
+      target_models: schedule.target_models
+    });
+
+    return await this.executeRun(run.id);
+  }
+
+  /**
+   * Add the repeatable job for a schedule
+   */
+  private async registerSchedule(schedule: MonitoringSchedule): Promise<void> {
+    if (schedule.status !== 'active') {
+      return;
+    }
+
+    await this.monitoringQueue.add(
+      MonitoringSchedulerService.SCHEDULED_JOB,
+      { scheduleId: schedule.id },
+      {
+        repeat: this.getRepeatOptions(schedule),
+        jobId: schedule.id,
+      }
+    );
+  }
+
+  /**
+   * Remove the repeatable job for a schedule
+   */
+  private async unregisterSchedule(schedule: MonitoringSchedule): Promise<void> {
+    try {
+      await this.monitoringQueue.removeRepeatable(MonitoringSchedulerService.SCHEDULED_JOB, {
+        ...this.getRepeatOptions(schedule),
+        jobId: schedule.id,
+      });
+    } catch (error) {
+      console.error(`Failed to unregister monitoring schedule ${schedule.id}:`, error);
+    }
+  }
+
+  /**
+   * Build Bull repeat options for a schedule
+   */
+  private getRepeatOptions(schedule: MonitoringSchedule): Queue.CronRepeatOptions {
+    return {
+      cron: schedule.cron_expression,
+      tz: schedule.timezone || 'UTC',
+    };
+  }
+
+  private async getScheduleOrThrow(scheduleId: string): Promise<MonitoringSchedule> {
+    const schedule = await MonitoringScheduleModel.findById(scheduleId);
+    if (!schedule) {
+      throw new Error(`Monitoring schedule ${scheduleId} not found`);
+    }
+    return schedule;
+  }
+
+  /**
+   * Setup queue processors
+   */
+  private setupQueueProcessors(): void {
+    this.monitoringQueue.process(MonitoringSchedulerService.SCHEDULED_JOB, async (job) => {
+      const { scheduleId } = job.data;
+
+      try {
+        await this.runScheduledTick(scheduleId);
+      } catch (error) {
+        console.error(`Failed to run monitoring schedule ${scheduleId}:`, error);
+        throw error;
+      }
+    });
+
+    this.monitoringQueue.process(MonitoringSchedulerService.EXECUTE_JOB, async (job) => {
+      const { runId } = job.data;
+
+      try {
+        await this.executeRun(runId);
+      } catch (error) {
+        console.error(`Failed to execute monitoring run ${runId}:`, error);
+        throw error;
+      }
+    });
+
+    this.monitoringQueue.process(MonitoringSchedulerService.BUDGET_REVIEW_JOB, async () => {
+      try {
+        await this.resumeBudgetPausedSchedules();
+      } catch (error) {
+        console.error('Failed to review budget-paused schedules:', error);
+        throw error;
+      }
+    });
+
+    // Handle job failures
+    this.monitoringQueue.on('failed', (job, error) => {
+      console.error(`Monitoring job ${job.id} failed:`, error);
+    });
+  }
+
+  /**
+   * Close queue connections
+   */
+  async close(): Promise<void> {
+    await this.monitoringQueue.close();
+  }
+}
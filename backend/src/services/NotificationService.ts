@@ -870,6 +870,9 @@ export class NotificationService {
         metric_type: alert.metric_type,
         current_value: alert.current_value,
         threshold_value: alert.threshold_value,
+        baseline: alert.baseline,
+        condition_results: alert.condition_results,
+        incident_id: alert.incident_id,
         created_at: alert.created_at
       }
     };
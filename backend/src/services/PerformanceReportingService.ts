@@ -1,4 +1,3 @@
-import { BrandMonitoringService } from './BrandMonitoringService';
 import { query } from '../config/database';
 import { VisibilityMetrics } from '../types/database';
 
@@ -62,12 +61,6 @@ export interface ExportOptions {
 }
 
 export class PerformanceReportingService {
-  private brandMonitoringService: BrandMonitoringService;
-
-  constructor() {
-    this.brandMonitoringService = new BrandMonitoringService();
-  }
-
   /**
    * Generate comprehensive performance report for a brand
    */
@@ -0,0 +1,187 @@
+import { randomUUID } from 'crypto';
+import { Socket } from 'socket.io';
+import { BrandMonitoringService } from './BrandMonitoringService';
+import { UserModel } from '../models/User';
+import { AIModelError, AIQuery } from '../types/ai';
+
+export interface StreamStartPayload {
+  brandId: string;
+  queryType: string;
+  modelName?: string;
+}
+
+interface ActiveStream {
+  socketId: string;
+  controller: AbortController;
+}
+
+/**
+ * Relays streamed model output to the browser over Socket.IO.
+ *
+ * Client events:  `stream:start` {brandId, queryType, modelName?}, `stream:cancel` {streamId}
+ * Server events:  `stream:started`, `stream:query`, `stream:token`, `stream:end`, `stream:error`
+ *
+ * `stream:started` carries the stream id as soon as the stream is registered,
+ * so the client can cancel while the request waits for a rate limit slot;
+ * `stream:query` follows with the model and prompt once the model accepts it.
+ *
+ * Sockets must have sent `authenticate` first. Streams query paid models, so
+ * they need editor access to the brand, like starting a monitoring run, and
+ * their answers are stored against the brand's spend when they end.
+ */
+export class QueryStreamService {
+  private activeStreams: Map<string, ActiveStream> = new Map();
+  private brandMonitoringService: BrandMonitoringService;
+
+  private static readonly MAX_STREAMS_PER_SOCKET = 3;
+
+  constructor(brandMonitoringService: BrandMonitoringService) {
+    this.brandMonitoringService = brandMonitoringService;
+  }
+
+  /**
+   * Attach stream handlers to a connected socket
+   */
+  registerSocket(socket: Socket): void {
+    socket.on('stream:start', (payload: StreamStartPayload) => {
+      this.startStream(socket, payload).catch(error => {
+        console.error('Failed to start query stream:', error);
+      });
+    });
+
+    socket.on('stream:cancel', (payload: { streamId?: string }) => {
+      if (payload?.streamId) {
+        this.cancelStream(socket.id, payload.streamId);
+      }
+    });
+
+    socket.on('disconnect', () => {
+      this.cancelSocketStreams(socket.id);
+    });
+  }
+
+  /**
+   * Start streaming a monitoring query to the socket. Resolves once the
+   * stream has finished, failed or been cancelled.
+   */
+  async startStream(socket: Socket, payload: StreamStartPayload): Promise<string | null> {
+    const userId: string | undefined = socket.data.userId;
+    if (!userId) {
+      socket.emit('stream:error', { error: 'Authentication required' });
+      return null;
+    }
+
+    if (!payload?.brandId || !payload.queryType) {
+      socket.emit('stream:error', { error: 'brandId and queryType are required' });
+      return null;
+    }
+
+    const hasAccess = socket.data.role === 'admin' ||
+      await UserModel.hasAccessToBrand(userId, payload.brandId, 'editor');
+    if (!hasAccess) {
+      socket.emit('stream:error', { error: 'Access denied' });
+      return null;
+    }
+
+    if (this.countSocketStreams(socket.id) >= QueryStreamService.MAX_STREAMS_PER_SOCKET) {
+      socket.emit('stream:error', { error: 'Too many concurrent streams' });
+      return null;
+    }
+
+    const streamId = randomUUID();
+    const controller = new AbortController();
+    this.activeStreams.set(streamId, { socketId: socket.id, controller });
+    socket.emit('stream:started', { stream_id: streamId, brand_id: payload.brandId });
+
+    const startedAt = Date.now();
+    let opened: { model_name: string; query: AIQuery } | null = null;
+    let response = '';
+    let completed = false;
+    try {
+      const { model_name, query, tokens } = await this.brandMonitoringService.streamBrandQuery(
+        payload.brandId,
+        payload.queryType,
+        payload.modelName,
+        { signal: controller.signal }
+      );
+      opened = { model_name, query };
+
+      socket.emit('stream:query', {
+        stream_id: streamId,
+        model_name,
+        query: query.query
+      });
+
+      for await (const token of tokens) {
+        response += token;
+        socket.emit('stream:token', { stream_id: streamId, token });
+      }
+
+      completed = !controller.signal.aborted;
+      socket.emit('stream:end', {
+        stream_id: streamId,
+        cancelled: controller.signal.aborted,
+        response
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        socket.emit('stream:end', { stream_id: streamId, cancelled: true, response });
+      } else {
+        socket.emit('stream:error', {
+          stream_id: streamId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          ...((error as AIModelError)?.code && { code: (error as AIModelError).code })
+        });
+      }
+    } finally {
+      this.activeStreams.delete(streamId);
+    }
+
+    // Whatever the model produced has been paid for, finished or not
+    if (opened) {
+      await this.brandMonitoringService.recordStreamedResponse(
+        payload.brandId,
+        opened.model_name,
+        opened.query,
+        response,
+        { cancelled: !completed, processing_time_ms: Date.now() - startedAt }
+      ).catch(error => {
+        console.error('Failed to record streamed response:', error);
+      });
+    }
+
+    return streamId;
+  }
+
+  /**
+   * Cancel a stream owned by the socket
+   */
+  cancelStream(socketId: string, streamId: string): boolean {
+    const stream = this.activeStreams.get(streamId);
+    if (!stream || stream.socketId !== socketId) {
+      return false;
+    }
+
+    stream.controller.abort();
+    return true;
+  }
+
+  /**
+   * Cancel every stream a socket still has open
+   */
+  cancelSocketStreams(socketId: string): void {
+    for (const [streamId, stream] of this.activeStreams) {
+      if (stream.socketId === socketId) {
+        this.cancelStream(socketId, streamId);
+      }
+    }
+  }
+
+  private countSocketStreams(socketId: string): number {
+    let count = 0;
+    for (const stream of this.activeStreams.values()) {
+      if (stream.socketId === socketId) count++;
+    }
+    return count;
+  }
+}
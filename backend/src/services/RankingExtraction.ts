@@ -0,0 +1,179 @@
+export type ListStyle = 'numbered' | 'bulleted' | 'table';
+
+export interface RankedList {
+  style: ListStyle;
+  items: string[]; // Entry names, in order
+}
+
+export interface EntityRanking {
+  entity_name: string;
+  position: number; // 1-based ordinal within its list
+  list_size: number;
+  list_index: number; // 0-based; answers can hold several lists
+  list_style: ListStyle;
+}
+
+const NUMBERED_ITEM = /^(\s*)(#{1,6}\s*)?(\d{1,2})[.)]\s+(.+)$/;
+const BULLETED_ITEM = /^(\s*)[-*•+]\s+(.+)$/;
+const TABLE_ROW = /^\s*\|(.+)\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+/**
+ * Reads the ordered lists in an answer (numbered, bulleted and markdown
+ * tables) and where named entities appear in them
+ */
+export class RankingExtraction {
+  /**
+   * Top-level lists in the order they appear. Indented entries are treated as
+   * details of the entry above them, and a table's header row is skipped. A
+   * numbered list survives prose between its entries when the numbering carries
+   * on, as in "### 1. Name" headings each followed by a paragraph.
+   */
+  static extractLists(responseText: string): RankedList[] {
+    const lists: RankedList[] = [];
+    const lines = responseText.split('\n');
+    let current: (RankedList & { indent: number; headings?: boolean; interrupted?: boolean }) | null = null;
+
+    const close = () => {
+      if (current && current.items.length > 0) {
+        lists.push({ style: current.style, items: current.items });
+      }
+      current = null;
+    };
+
+    for (const [index, line] of lines.entries()) {
+      if (line.trim().length === 0) {
+        // Tables end at a blank line; other lists may space out their entries
+        if (current?.style === 'table') {
+          close();
+        }
+        continue;
+      }
+
+      if (TABLE_ROW.test(line)) {
+        if (TABLE_SEPARATOR.test(line)) {
+          continue;
+        }
+        // A row directly above a separator is the header
+        if (TABLE_SEPARATOR.test(lines[index + 1] || '')) {
+          close();
+          current = { style: 'table', items: [], indent: 0 };
+          continue;
+        }
+        if (current?.style !== 'table') {
+          close();
+          current = { style: 'table', items: [], indent: 0 };
+        }
+        const name = RankingExtraction.tableRowName(line);
+        if (name) {
+          current!.items.push(name);
+        }
+        continue;
+      }
+
+      const numbered = NUMBERED_ITEM.exec(line);
+      if (numbered) {
+        const indent = numbered[1]!.length;
+        if (current && current.style !== 'table' && indent > current.indent) {
+          continue; // Detail under the previous entry
+        }
+        const continues = current?.style === 'numbered' && indent === current.indent &&
+          (!current.interrupted || Number(numbered[3]) === current.items.length + 1);
+        if (!continues) {
+          close();
+          current = { style: 'numbered', items: [], indent, headings: Boolean(numbered[2]) };
+        }
+        current!.interrupted = false;
+        current!.items.push(RankingExtraction.itemName(numbered[4]!));
+        continue;
+      }
+
+      const bulleted = BULLETED_ITEM.exec(line);
+      if (bulleted) {
+        const indent = bulleted[1]!.length;
+        if (current && current.style !== 'table' && (indent > current.indent || current.headings)) {
+          continue; // Detail under the previous entry
+        }
+        if (!current || current.style !== 'bulleted' || indent !== current.indent) {
+          close();
+          current = { style: 'bulleted', items: [], indent };
+        }
+        current.items.push(RankingExtraction.itemName(bulleted[2]!));
+        continue;
+      }
+
+      // Indented text continues the previous entry. Other prose ends the list,
+      // unless a numbered list picks up again after it; a new heading always does.
+      if (/^\s*#{1,6}\s/.test(line)) {
+        close();
+      } else if (current?.style === 'numbered') {
+        current.interrupted = current.interrupted || !/^\s+/.test(line);
+      } else if (!/^\s+/.test(line) || current?.style === 'table') {
+        close();
+      }
+    }
+    close();
+
+    return lists;
+  }
+
+  /**
+   * The first list position of each name that appears as a list entry. Names
+   * that are only mentioned in prose are left out.
+   */
+  static findRankings(responseText: string, names: string[]): EntityRanking[] {
+    const lists = RankingExtraction.extractLists(responseText);
+    const rankings: EntityRanking[] = [];
+
+    for (const name of names) {
+      for (const [listIndex, list] of lists.entries()) {
+        const itemIndex = list.items.findIndex(item => RankingExtraction.mentions(item, name));
+        if (itemIndex !== -1) {
+          rankings.push({
+            entity_name: name,
+            position: itemIndex + 1,
+            list_size: list.items.length,
+            list_index: listIndex,
+            list_style: list.style
+          });
+          break;
+        }
+      }
+    }
+
+    return rankings;
+  }
+
+  /**
+   * Whole-word, case-insensitive, so "Zoho" does not match "Zohology"
+   */
+  static mentions(text: string, name: string): boolean {
+    return RankingExtraction.indexOf(text, name) !== -1;
+  }
+
+  static indexOf(text: string, name: string): number {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return text.search(new RegExp(`(^|[^\\w])${escaped}(?![\\w])`, 'i'));
+  }
+
+  /**
+   * The name an entry leads with: "**HubSpot CRM** - free tier" gives "HubSpot CRM"
+   */
+  private static itemName(item: string): string {
+    const bold = /^(?:\*\*|__)(.+?)(?:\*\*|__)/.exec(item.trim());
+    const name = bold
+      ? bold[1]!
+      : item.replace(/\*\*|__/g, '').split(/:|\s[-–—]\s/)[0]!;
+    return name.trim().slice(0, 100);
+  }
+
+  // The first cell that is not just a rank number
+  private static tableRowName(line: string): string | null {
+    const cells = TABLE_ROW.exec(line)![1]!
+      .split('|')
+      .map(cell => cell.trim())
+      .filter(cell => cell.length > 0);
+    const cell = cells.find(value => !/^#?\d+\.?$/.test(value));
+    return cell ? RankingExtraction.itemName(cell) : null;
+  }
+}
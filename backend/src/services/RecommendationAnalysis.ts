@@ -0,0 +1,67 @@
+import { RecommendationSummary } from '../types/database';
+import { RankingExtraction } from './RankingExtraction';
+
+export interface RecommendationAnalysisResult {
+  brand_mentioned: boolean;
+  brand_position?: number; // 1-based position in the first list naming the brand
+  competitors_mentioned: string[]; // In order of first appearance
+  listed_brands: string[];
+}
+
+/**
+ * Reads answers to buyer-intent prompts, which never name the brand, for
+ * whether the brand was recommended and how highly
+ */
+export class RecommendationAnalysis {
+  /**
+   * Analyze one answer for the brand and its known competitors
+   */
+  static analyze(
+    responseText: string,
+    brandName: string,
+    competitors: string[]
+  ): RecommendationAnalysisResult {
+    const [brandRanking] = RankingExtraction.findRankings(responseText, [brandName]);
+
+    const competitorsMentioned = competitors
+      .map(competitor => ({ competitor, index: RankingExtraction.indexOf(responseText, competitor) }))
+      .filter(({ index }) => index !== -1)
+      .sort((a, b) => a.index - b.index)
+      .map(({ competitor }) => competitor);
+
+    return {
+      brand_mentioned: RankingExtraction.mentions(responseText, brandName),
+      ...(brandRanking && { brand_position: brandRanking.position }),
+      competitors_mentioned: competitorsMentioned,
+      listed_brands: RankingExtraction.extractLists(responseText).flatMap(list => list.items)
+    };
+  }
+
+  /**
+   * Share of recommendation and average list position over a set of answers
+   */
+  static summarize(results: Array<Pick<RecommendationAnalysisResult, 'brand_mentioned' | 'brand_position' | 'competitors_mentioned'>>): RecommendationSummary {
+    const mentioned = results.filter(result => result.brand_mentioned).length;
+    const positions = results
+      .map(result => result.brand_position)
+      .filter((position): position is number => position !== undefined && position !== null);
+
+    const competitorMentions: Record<string, number> = {};
+    for (const result of results) {
+      for (const competitor of result.competitors_mentioned) {
+        competitorMentions[competitor] = (competitorMentions[competitor] || 0) + 1;
+      }
+    }
+
+    return {
+      answers: results.length,
+      share_of_recommendation: results.length > 0
+        ? Math.round((mentioned / results.length) * 10000) / 100
+        : 0,
+      average_position: positions.length > 0
+        ? Math.round((positions.reduce((sum, position) => sum + position, 0) / positions.length) * 100) / 100
+        : null,
+      competitor_mentions: competitorMentions
+    };
+  }
+}
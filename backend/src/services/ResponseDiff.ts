@@ -0,0 +1,183 @@
+import { Brand } from '../types/database';
+import { RankingExtraction } from './RankingExtraction';
+
+export type ClaimStatus = 'added' | 'removed' | 'unchanged';
+
+export interface DiffedClaim {
+  text: string;
+  status: ClaimStatus;
+}
+
+export interface SetDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export interface ResponseDiffSide {
+  response: string;
+  citation_urls: string[];
+  brand_sentiment_scores: number[]; // Of the brand's stored mentions
+}
+
+export interface ResponseDiffResult {
+  similarity: number; // Share of claims, across both answers, that both make
+  previous_claims: DiffedClaim[]; // In answer order, for a side-by-side view
+  latest_claims: DiffedClaim[];
+  claims: { added: string[]; removed: string[]; unchanged: number };
+  mentions: {
+    previous_count: number;
+    latest_count: number;
+    previous_sentiment: number | null;
+    latest_sentiment: number | null;
+    previous_position: number | null; // In the first list naming the brand
+    latest_position: number | null;
+  };
+  competitors: SetDiff;
+  citations: SetDiff;
+}
+
+// Two claims are the same claim when this share of their content words match
+const SAME_CLAIM_SIMILARITY = 0.5;
+const MIN_CLAIM_WORDS = 2;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'there', 'these', 'they', 'this',
+  'to', 'was', 'were', 'which', 'while', 'with', 'also', 'very', 'more', 'most', 'some', 'such', 'than'
+]);
+
+/**
+ * Compares two answers to the same prompt from the same model: which claims
+ * were added or dropped, how the brand was mentioned, and which competitors
+ * and citations came and went. Claims are sentences, matched by their
+ * content words so rewording does not read as a change.
+ */
+export class ResponseDiff {
+  static compare(
+    previous: ResponseDiffSide,
+    latest: ResponseDiffSide,
+    brand: Pick<Brand, 'name' | 'competitor_brands'>
+  ): ResponseDiffResult {
+    const previousClaims = ResponseDiff.splitClaims(previous.response);
+    const latestClaims = ResponseDiff.splitClaims(latest.response);
+    const matchedPrevious = ResponseDiff.matchClaims(previousClaims, latestClaims);
+    const matchedLatest = new Set(matchedPrevious.values());
+
+    const previousDiffed = previousClaims.map((text, index): DiffedClaim => ({
+      text,
+      status: matchedPrevious.has(index) ? 'unchanged' : 'removed'
+    }));
+    const latestDiffed = latestClaims.map((text, index): DiffedClaim => ({
+      text,
+      status: matchedLatest.has(index) ? 'unchanged' : 'added'
+    }));
+
+    const totalClaims = previousClaims.length + latestClaims.length;
+    const competitorsIn = (text: string) => (brand.competitor_brands || [])
+      .filter(competitor => RankingExtraction.mentions(text, competitor));
+
+    return {
+      similarity: totalClaims > 0 ? Math.round((2 * matchedPrevious.size / totalClaims) * 100) / 100 : 1,
+      previous_claims: previousDiffed,
+      latest_claims: latestDiffed,
+      claims: {
+        added: latestDiffed.filter(claim => claim.status === 'added').map(claim => claim.text),
+        removed: previousDiffed.filter(claim => claim.status === 'removed').map(claim => claim.text),
+        unchanged: matchedPrevious.size
+      },
+      mentions: {
+        previous_count: previous.brand_sentiment_scores.length,
+        latest_count: latest.brand_sentiment_scores.length,
+        previous_sentiment: ResponseDiff.average(previous.brand_sentiment_scores),
+        latest_sentiment: ResponseDiff.average(latest.brand_sentiment_scores),
+        previous_position: RankingExtraction.findRankings(previous.response, [brand.name])[0]?.position ?? null,
+        latest_position: RankingExtraction.findRankings(latest.response, [brand.name])[0]?.position ?? null
+      },
+      competitors: ResponseDiff.diffSets(competitorsIn(previous.response), competitorsIn(latest.response)),
+      citations: ResponseDiff.diffSets(
+        previous.citation_urls.map(ResponseDiff.normalizeUrl),
+        latest.citation_urls.map(ResponseDiff.normalizeUrl)
+      )
+    };
+  }
+
+  /**
+   * Pair each previous claim with its closest unpaired latest claim, best
+   * pairs first. Returns previous index => latest index.
+   */
+  private static matchClaims(previousClaims: string[], latestClaims: string[]): Map<number, number> {
+    const previousWords = previousClaims.map(ResponseDiff.contentWords);
+    const latestWords = latestClaims.map(ResponseDiff.contentWords);
+
+    const candidates: Array<{ previous: number; latest: number; similarity: number }> = [];
+    previousWords.forEach((words, previous) => {
+      latestWords.forEach((other, latest) => {
+        const similarity = ResponseDiff.jaccard(words, other);
+        if (similarity >= SAME_CLAIM_SIMILARITY) {
+          candidates.push({ previous, latest, similarity });
+        }
+      });
+    });
+    candidates.sort((a, b) => b.similarity - a.similarity || a.previous - b.previous);
+
+    const matches = new Map<number, number>();
+    const usedLatest = new Set<number>();
+    for (const candidate of candidates) {
+      if (!matches.has(candidate.previous) && !usedLatest.has(candidate.latest)) {
+        matches.set(candidate.previous, candidate.latest);
+        usedLatest.add(candidate.latest);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Sentences and list items, without markdown, that say enough to be a claim
+   */
+  private static splitClaims(text: string): string[] {
+    return text
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence
+        .replace(/^\s*(?:#{1,6}\s+|[-*•]\s+|\d+[.)]\s+)/, '')
+        .replace(/\*\*|__|`/g, '')
+        .trim())
+      .filter(sentence => ResponseDiff.contentWords(sentence).size >= MIN_CLAIM_WORDS);
+  }
+
+  private static contentWords(text: string): Set<string> {
+    const words = text.toLowerCase().match(/[a-z0-9$%.']+/g) || [];
+    return new Set(words
+      .map(word => word.replace(/^[.']+|[.']+$/g, '').replace(/'s$/, ''))
+      .filter(word => word.length > 1 && !STOPWORDS.has(word))
+      .map(word => (word.length > 3 ? word.replace(/(?:es|s)$/, '') : word)));
+  }
+
+  private static jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1;
+    let shared = 0;
+    for (const word of a) {
+      if (b.has(word)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+  }
+
+  private static diffSets(previous: string[], latest: string[]): SetDiff {
+    const before = new Set(previous);
+    const after = new Set(latest);
+    return {
+      added: [...after].filter(item => !before.has(item)),
+      removed: [...before].filter(item => !after.has(item)),
+      unchanged: [...after].filter(item => before.has(item))
+    };
+  }
+
+  private static normalizeUrl(url: string): string {
+    return url.trim().replace(/#.*$/, '').replace(/\/+$/, '');
+  }
+
+  private static average(values: number[]): number | null {
+    if (values.length === 0) return null;
+    return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 100) / 100;
+  }
+}
@@ -0,0 +1,150 @@
+import { ParsedAIResponse } from '../types/ai';
+import { BrandSampleStatistics, SampleStatistics } from '../types/database';
+import { RankingExtraction } from './RankingExtraction';
+
+/**
+ * Repeat answers to one prompt from one model. Only answers within a group
+ * are compared; different prompts are expected to differ.
+ */
+export interface SampleGroup {
+  key: string; // e.g. "visibility:GPT-4"
+  responses: ParsedAIResponse[];
+}
+
+interface BrandObservation {
+  mentioned: boolean;
+  sentiment: number | null;
+  position: number | null;
+}
+
+/**
+ * Measures how consistently brands appear across repeated samples of the
+ * same prompts.
+ */
+export class ResponseStability {
+  /**
+   * Group parsed responses by prompt and answering model
+   */
+  static groupSamples(queryType: string, responses: ParsedAIResponse[]): SampleGroup[] {
+    const groups = new Map<string, ParsedAIResponse[]>();
+    for (const response of responses) {
+      const key = `${queryType}:${response.model_name}`;
+      groups.set(key, [...(groups.get(key) || []), response]);
+    }
+
+    return Array.from(groups, ([key, grouped]) => ({ key, responses: grouped }));
+  }
+
+  /**
+   * Per-brand mention rate, sentiment spread and ranked list position variance
+   * across samples. Spread and variance are averaged over groups with at least two
+   * observations, and are null when no group has two.
+   */
+  static analyze(
+    brandNames: string[],
+    groups: SampleGroup[],
+    samplesPerQuery: number,
+    temperature?: number
+  ): SampleStatistics {
+    const brands = brandNames.map(brandName => ResponseStability.analyzeBrand(brandName, groups));
+
+    return {
+      samples_per_query: samplesPerQuery,
+      ...(temperature !== undefined && { temperature }),
+      brands
+    };
+  }
+
+  private static analyzeBrand(brandName: string, groups: SampleGroup[]): BrandSampleStatistics {
+    let samples = 0;
+    let mentionedSamples = 0;
+    const sentimentSpreads: number[] = [];
+    const positionVariances: number[] = [];
+    const groupScores: number[] = [];
+
+    for (const group of groups) {
+      const observations = group.responses.map(response => ResponseStability.observe(brandName, response));
+      samples += observations.length;
+      mentionedSamples += observations.filter(observation => observation.mentioned).length;
+
+      if (observations.length < 2) {
+        continue;
+      }
+
+      const mentionRate = observations.filter(observation => observation.mentioned).length / observations.length;
+      const sentiments = observations
+        .map(observation => observation.sentiment)
+        .filter((sentiment): sentiment is number => sentiment !== null);
+      const positions = observations
+        .map(observation => observation.position)
+        .filter((position): position is number => position !== null);
+
+      // Each component is 1 for identical samples and falls towards 0 as they diverge
+      const components = [Math.abs(2 * mentionRate - 1)];
+      if (sentiments.length >= 2) {
+        const spread = Math.sqrt(ResponseStability.variance(sentiments));
+        sentimentSpreads.push(spread);
+        components.push(1 - Math.min(1, spread));
+      }
+      if (positions.length >= 2) {
+        const variance = ResponseStability.variance(positions);
+        positionVariances.push(variance);
+        components.push(1 / (1 + Math.sqrt(variance)));
+      }
+
+      groupScores.push(ResponseStability.mean(components) * 100);
+    }
+
+    return {
+      brand_name: brandName,
+      samples,
+      mention_rate: samples > 0 ? ResponseStability.round(mentionedSamples / samples, 4) : 0,
+      sentiment_spread: ResponseStability.roundOrNull(sentimentSpreads, 4),
+      position_variance: ResponseStability.roundOrNull(positionVariances, 4),
+      stability_score: ResponseStability.roundOrNull(groupScores, 2)
+    };
+  }
+
+  /**
+   * Whether a response mentions the brand, the average sentiment of the
+   * analyzer's mentions of it, and its ranked list position, which is null when the
+   * brand is only mentioned in prose
+   */
+  private static observe(brandName: string, response: ParsedAIResponse): BrandObservation {
+    // Whole-word match on the whole answer, so names like "Node.js" survive
+    // and "Arc" does not match inside "search"
+    if (!RankingExtraction.mentions(response.response, brandName)) {
+      return { mentioned: false, sentiment: null, position: null };
+    }
+
+    const name = brandName.toLowerCase();
+    const sentiments = response.brand_mentions
+      .filter(mention => mention.brand_name.toLowerCase() === name)
+      .map(mention => mention.sentiment_score);
+
+    return {
+      mentioned: true,
+      sentiment: sentiments.length > 0 ? ResponseStability.mean(sentiments) : null,
+      position: RankingExtraction.findRankings(response.response, [brandName])[0]?.position ?? null
+    };
+  }
+
+  private static mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  // Population variance; samples are the whole population being described
+  private static variance(values: number[]): number {
+    const mean = ResponseStability.mean(values);
+    return ResponseStability.mean(values.map(value => (value - mean) ** 2));
+  }
+
+  private static round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+
+  private static roundOrNull(values: number[], decimals: number): number | null {
+    return values.length > 0 ? ResponseStability.round(ResponseStability.mean(values), decimals) : null;
+  }
+}
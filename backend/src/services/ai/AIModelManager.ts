@@ -1,14 +1,43 @@
-import { IAIModel, AIModelConfig, AIQuery, AIResponse, ParsedAIResponse, BrandMonitoringQuery, BRAND_QUERY_TEMPLATES, QueryTemplateType } from '../../types/ai';
-import { OpenAIModel } from './OpenAIModel';
-import { AnthropicModel } from './AnthropicModel';
-import { GeminiModel } from './GeminiModel';
+import { IAIModel, AIModelConfig, AIQuery, AIResponse, ParsedAIResponse, BrandMonitoringQuery, BRAND_QUERY_TEMPLATES, QueryTemplateType, AIStreamOptions, AnalysisTargets } from '../../types/ai';
+import { ProviderRegistry, providerRegistry } from './ProviderRegistry';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitBreakerSnapshot,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS
+} from './CircuitBreaker';
+import { ResponseCache, ResponseCacheStats, aiResponseCache } from './ResponseCache';
+import {
+  AIFixtureOptions,
+  AIFixtureStore,
+  DEFAULT_AI_FIXTURE_OPTIONS,
+  RecordingModel,
+  ReplayModel
+} from './ReplayModel';
+import {
+  AnalysisPipeline,
+  DEFAULT_RESPONSE_ANALYSIS_OPTIONS,
+  ResponseAnalysisOptions,
+  createAnalysisPipeline
+} from '../nlp/AnalysisPipeline';
 import { query } from '../../config/database';
 
 export class AIModelManager {
   private models: Map<string, IAIModel> = new Map();
   private defaultModel: string | undefined;
-
-  constructor() {
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private fallbackChains: Map<string, string[]> = new Map();
+  private fixtures: AIFixtureStore;
+
+  constructor(
+    private registry: ProviderRegistry = providerRegistry,
+    private breakerOptions: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    private responseCache: ResponseCache = aiResponseCache,
+    private fixtureOptions: AIFixtureOptions = DEFAULT_AI_FIXTURE_OPTIONS,
+    private analysisOptions: ResponseAnalysisOptions = DEFAULT_RESPONSE_ANALYSIS_OPTIONS
+  ) {
+    this.fixtures = new AIFixtureStore(fixtureOptions.fixturesDir);
+    this.loadFallbackChains();
     this.initializeModels();
   }
 
@@ -24,18 +53,34 @@ export class AIModelManager {
       `);
 
       for (const modelConfig of result.rows) {
-        await this.addModel({
-          id: modelConfig.id,
-          name: modelConfig.name,
-          provider: modelConfig.provider,
-          model_version: modelConfig.model_version,
-          api_endpoint: modelConfig.api_endpoint,
-          api_key: this.getApiKey(modelConfig.provider),
-          rate_limit_per_minute: modelConfig.rate_limit_per_minute,
-          cost_per_request: modelConfig.cost_per_request,
-          max_tokens: 4000,
-          temperature: 0.7
-        });
+        // One misconfigured provider should not keep the others from loading
+        try {
+          await this.addModel({
+            id: modelConfig.id,
+            name: modelConfig.name,
+            provider: modelConfig.provider,
+            model_version: modelConfig.model_version,
+            api_endpoint: modelConfig.api_endpoint,
+            api_key: this.getApiKey(modelConfig.provider),
+            rate_limit_per_minute: modelConfig.rate_limit_per_minute,
+            ...(modelConfig.tokens_per_minute != null && {
+              tokens_per_minute: modelConfig.tokens_per_minute
+            }),
+            cost_per_request: Number(modelConfig.cost_per_request) || 0,
+            ...(modelConfig.input_cost_per_1k_tokens != null && {
+              input_cost_per_1k_tokens: Number(modelConfig.input_cost_per_1k_tokens)
+            }),
+            ...(modelConfig.output_cost_per_1k_tokens != null && {
+              output_cost_per_1k_tokens: Number(modelConfig.output_cost_per_1k_tokens)
+            }),
+            ...(modelConfig.grounded && { grounded: true }),
+            max_tokens: 4000,
+            temperature: 0.7
+          });
+        } catch (error) {
+          // addModel has already logged the failure
+          continue;
+        }
       }
 
       // Set default model (prefer GPT-4 if available, otherwise first available)
@@ -43,6 +88,9 @@ export class AIModelManager {
       this.defaultModel = gpt4Model || Array.from(this.models.keys())[0] || undefined;
 
       console.log(`✅ Initialized ${this.models.size} AI models`);
+      if (this.fixtureOptions.mode !== 'live') {
+        console.log(`📼 AI provider mode: ${this.fixtureOptions.mode} (fixtures in ${this.fixtureOptions.fixturesDir})`);
+      }
       if (this.defaultModel) {
         console.log(`🎯 Default model: ${this.defaultModel}`);
       }
@@ -56,21 +104,7 @@ export class AIModelManager {
    */
   async addModel(config: AIModelConfig): Promise<void> {
     try {
-      let model: IAIModel;
-
-      switch (config.provider) {
-        case 'openai':
-          model = new OpenAIModel(config);
-          break;
-        case 'anthropic':
-          model = new AnthropicModel(config);
-          break;
-        case 'gemini':
-          model = new GeminiModel(config);
-          break;
-        default:
-          throw new Error(`Unsupported AI provider: ${config.provider}`);
-      }
+      const model = this.createModel(config);
 
       // Test the model
       const isHealthy = await model.healthCheck();
@@ -114,15 +148,145 @@ export class AIModelManager {
   }
 
   /**
-   * Execute a query on a specific model
+   * Set the ordered list of equivalent models to fail over to when a model is unavailable
+   */
+  setFallbackChain(modelName: string, fallbacks: string[]): void {
+    const chain = fallbacks.filter(name => name !== modelName);
+    if (chain.length > 0) {
+      this.fallbackChains.set(modelName, chain);
+    } else {
+      this.fallbackChains.delete(modelName);
+    }
+  }
+
+  /**
+   * Get the fallback chain configured for a model
+   */
+  getFallbackChain(modelName: string): string[] {
+    return this.fallbackChains.get(modelName) || [];
+  }
+
+  /**
+   * Get circuit breaker state for a model
+   */
+  getCircuitState(modelName: string): CircuitBreakerSnapshot {
+    return this.getBreaker(modelName).getSnapshot();
+  }
+
+  /**
+   * Get response cache hit and miss counts
+   */
+  getCacheStatistics(): ResponseCacheStats {
+    return this.responseCache.getStats();
+  }
+
+  /**
+   * Execute a query on a specific model, answering identical recent or
+   * in-flight requests from the response cache
+   */
+  async queryModel(
+    modelName: string,
+    request: AIQuery,
+    options: { excludeFallbacks?: string[] } = {}
+  ): Promise<AIResponse> {
+    return this.responseCache.getOrFetch(
+      modelName,
+      request,
+      () => this.queryWithFallbacks(modelName, request, options)
+    );
+  }
+
+  /**
+   * Execute a query on a specific model, failing over along its fallback
+   * chain when the model errors or its circuit is open
    */
-  async queryModel(modelName: string, request: AIQuery): Promise<AIResponse> {
+  private async queryWithFallbacks(
+    modelName: string,
+    request: AIQuery,
+    options: { excludeFallbacks?: string[] }
+  ): Promise<AIResponse> {
+    const excluded = new Set(options.excludeFallbacks || []);
+    const candidates = [
+      modelName,
+      ...this.getFallbackChain(modelName).filter(name => !excluded.has(name))
+    ];
+
+    let lastError: unknown = null;
+    let attempted = false;
+
+    for (const candidate of candidates) {
+      const model = this.getModel(candidate);
+      if (!model) {
+        continue;
+      }
+
+      const breaker = this.getBreaker(candidate);
+      if (!breaker.tryAcquire()) {
+        console.warn(`⚡ Circuit open for ${candidate}, skipping`);
+        continue;
+      }
+
+      attempted = true;
+      try {
+        const response = await model.query(request);
+        breaker.recordSuccess();
+
+        if (candidate !== modelName) {
+          console.warn(`↪️  ${modelName} unavailable, answered by fallback ${candidate}`);
+          response.metadata = { ...response.metadata, fallback_from: modelName };
+        }
+        return response;
+      } catch (error) {
+        lastError = error;
+        const counted = breaker.recordFailure(error);
+
+        // A bad request fails the same way on every model, so do not fail over
+        if (!counted) {
+          throw error;
+        }
+        console.error(`Model ${candidate} failed:`, error);
+      }
+    }
+
+    if (lastError) {
+      throw lastError;
+    }
+    if (!attempted && !this.getModel(modelName)) {
+      throw new Error(`Model ${modelName} not found`);
+    }
+    throw new Error(`No available model for ${modelName}: circuit open for all candidates`);
+  }
+
+  /**
+   * Stream a query from a specific model, token by token
+   */
+  async streamQuery(
+    modelName: string,
+    request: AIQuery,
+    options: AIStreamOptions = {}
+  ): Promise<AsyncGenerator<string, void, unknown>> {
     const model = this.getModel(modelName);
     if (!model) {
       throw new Error(`Model ${modelName} not found`);
     }
+    if (!model.streamQuery) {
+      throw new Error(`Model ${modelName} does not support streaming`);
+    }
+
+    // Streams do not fail over mid-response, but still respect and feed the breaker
+    const breaker = this.getBreaker(modelName);
+    if (!breaker.tryAcquire()) {
+      throw new Error(`Model ${modelName} is temporarily unavailable (circuit open)`);
+    }
 
-    return await model.query(request);
+    try {
+      const stream = await model.streamQuery(request, options);
+      breaker.recordSuccess();
+      return stream;
+    } catch (error) {
+      breaker.recordFailure(error);
+      throw error;
+    }
   }
 
   /**
@@ -142,10 +306,11 @@ export class AIModelManager {
   async queryMultipleModels(modelNames: string[], request: AIQuery): Promise<AIResponse[]> {
     const promises = modelNames.map(async (modelName) => {
       try {
+        // Never fall back to a model that is already being compared
         return await this.queryModel(modelName, {
           ...request,
           id: `${request.id}-${modelName}`
-        });
+        }, { excludeFallbacks: modelNames });
       } catch (error) {
         console.error(`Failed to query model ${modelName}:`, error);
         return null;
@@ -157,22 +322,40 @@ export class AIModelManager {
   }
 
   /**
-   * Parse AI response with citations and analysis
+   * Parse AI response with citations and analysis. Mentions are only reported
+   * for the target names.
    */
-  async parseResponse(response: AIResponse): Promise<ParsedAIResponse> {
+  async parseResponse(
+    response: AIResponse,
+    targets: AnalysisTargets = {},
+    pipeline: AnalysisPipeline = this.getAnalysisPipeline()
+  ): Promise<ParsedAIResponse> {
     const model = this.getModel(response.model_name);
     if (!model) {
       throw new Error(`Model ${response.model_name} not found for parsing`);
     }
 
-    return await model.parseResponse(response);
+    return await model.parseResponse(response, { targets, analyzer: pipeline });
   }
 
   /**
-   * Generate brand monitoring query from template
+   * The configured response analyzers. Built on demand because the judge
+   * model may load after this manager is created.
+   */
+  getAnalysisPipeline(): AnalysisPipeline {
+    return createAnalysisPipeline(this.analysisOptions, modelName => this.models.get(modelName));
+  }
+
+  /**
+   * Generate brand monitoring query from its template, or from the built-in
+   * template for its query type
    */
   generateBrandQuery(brandMonitoringQuery: BrandMonitoringQuery): AIQuery {
-    const template = BRAND_QUERY_TEMPLATES[brandMonitoringQuery.query_type];
+    const template = brandMonitoringQuery.query_template
+      || BRAND_QUERY_TEMPLATES[brandMonitoringQuery.query_type as QueryTemplateType];
+    if (!template) {
+      throw new Error(`No prompt template for query type ${brandMonitoringQuery.query_type}`);
+    }
     let processedQuery: string = template;
 
     // Replace placeholders
@@ -191,6 +374,10 @@ export class AIModelManager {
       processedQuery = processedQuery.replace(/{industry}/g, brandMonitoringQuery.context);
     }
 
+    for (const [name, value] of Object.entries(brandMonitoringQuery.variables || {})) {
+      processedQuery = processedQuery.split(`{${name}}`).join(value);
+    }
+
     const result: AIQuery = {
       id: `brand-query-${Date.now()}`,
       brand_id: brandMonitoringQuery.brand_name,
@@ -199,7 +386,11 @@ export class AIModelManager {
         query_type: brandMonitoringQuery.query_type,
         brand_name: brandMonitoringQuery.brand_name,
         competitors: brandMonitoringQuery.competitors,
-        products: brandMonitoringQuery.products
+        products: brandMonitoringQuery.products,
+        ...(brandMonitoringQuery.template_version_id && {
+          prompt_template_version_id: brandMonitoringQuery.template_version_id,
+          prompt_template_version: brandMonitoringQuery.template_version
+        })
       }
     };
 
@@ -211,25 +402,46 @@ export class AIModelManager {
   }
 
   /**
-   * Execute brand monitoring across multiple models
+   * Execute brand monitoring across multiple models. With `samples` above 1
+   * each model answers the prompt that many times; every response carries its
+   * `sample_index` in metadata.
    */
   async executeBrandMonitoring(
     brandMonitoringQuery: BrandMonitoringQuery,
-    modelNames?: string[]
+    modelNames?: string[],
+    options: { samples?: number; temperature?: number; targets?: AnalysisTargets } = {}
   ): Promise<{
     query: AIQuery;
     responses: AIResponse[];
     parsed_responses: ParsedAIResponse[];
   }> {
     const aiQuery = this.generateBrandQuery(brandMonitoringQuery);
+    if (options.temperature !== undefined) {
+      aiQuery.temperature = options.temperature;
+    }
     const targetModels = modelNames || this.getAvailableModels();
+    const samples = Math.max(1, Math.floor(options.samples || 1));
+
+    // Execute queries; samples run one after another to spread provider load
+    const responses: AIResponse[] = [];
+    for (let sampleIndex = 0; sampleIndex < samples; sampleIndex++) {
+      const sampleQuery: AIQuery = samples === 1 ? aiQuery : {
+        ...aiQuery,
+        id: `${aiQuery.id}-sample-${sampleIndex}`,
+        sample_index: sampleIndex,
+        metadata: { ...aiQuery.metadata, sample_index: sampleIndex }
+      };
+      responses.push(...await this.queryMultipleModels(targetModels, sampleQuery));
+    }
 
-    // Execute queries
-    const responses = await this.queryMultipleModels(targetModels, aiQuery);
-
-    // Parse responses
+    // Parse responses for mentions of the brand and its competitors
+    const targets = options.targets || {
+      brand_name: brandMonitoringQuery.brand_name,
+      ...(brandMonitoringQuery.competitors && { competitors: brandMonitoringQuery.competitors })
+    };
+    const pipeline = this.getAnalysisPipeline();
     const parsedResponses = await Promise.all(
-      responses.map(response => this.parseResponse(response))
+      responses.map(response => this.parseResponse(response, targets, pipeline))
     );
 
     return {
@@ -248,6 +460,8 @@ export class AIModelManager {
     is_healthy: boolean;
     rate_limit_info: any;
     estimated_cost_per_query: number;
+    circuit_breaker: CircuitBreakerSnapshot;
+    fallbacks: string[];
   }>> {
     const stats = [];
 
@@ -266,7 +480,9 @@ export class AIModelManager {
           provider: model.config.provider,
           is_healthy: isHealthy,
           rate_limit_info: rateLimitInfo,
-          estimated_cost_per_query: estimatedCost
+          estimated_cost_per_query: estimatedCost,
+          circuit_breaker: this.getCircuitState(modelName),
+          fallbacks: this.getFallbackChain(modelName)
         });
       } catch (error) {
         stats.push({
@@ -274,7 +490,9 @@ export class AIModelManager {
           provider: model.config.provider,
           is_healthy: false,
           rate_limit_info: null,
-          estimated_cost_per_query: 0
+          estimated_cost_per_query: 0,
+          circuit_breaker: this.getCircuitState(modelName),
+          fallbacks: this.getFallbackChain(modelName)
         });
       }
     }
@@ -337,18 +555,58 @@ export class AIModelManager {
   }
 
   /**
-   * Get API key for provider from environment
+   * Create a model for the configured provider mode: live, recording
+   * fixtures, or replaying them offline
    */
-  private getApiKey(provider: string): string {
-    switch (provider) {
-      case 'openai':
-        return process.env.OPENAI_API_KEY || '';
-      case 'anthropic':
-        return process.env.ANTHROPIC_API_KEY || '';
-      case 'gemini':
-        return process.env.GEMINI_API_KEY || '';
+  private createModel(config: AIModelConfig): IAIModel {
+    switch (this.fixtureOptions.mode) {
+      case 'replay':
+        return new ReplayModel(config, this.fixtures);
+      case 'record':
+        return new RecordingModel(this.registry.create(config), this.fixtures);
       default:
-        throw new Error(`Unknown provider: ${provider}`);
+        return this.registry.create(config);
+    }
+  }
+
+  /**
+   * Get or create the circuit breaker for a model
+   */
+  private getBreaker(modelName: string): CircuitBreaker {
+    let breaker = this.breakers.get(modelName);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.breakerOptions);
+      this.breakers.set(modelName, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Read fallback chains from AI_MODEL_FALLBACKS, a JSON object mapping a
+   * model name to its ordered fallbacks, e.g. {"GPT-4": ["Claude 3 Opus", "Gemini Pro"]}
+   */
+  private loadFallbackChains(): void {
+    const raw = process.env.AI_MODEL_FALLBACKS;
+    if (!raw) return;
+
+    try {
+      const chains = JSON.parse(raw) as Record<string, unknown>;
+      for (const [modelName, fallbacks] of Object.entries(chains)) {
+        if (Array.isArray(fallbacks)) {
+          this.setFallbackChain(modelName, fallbacks.filter((name): name is string => typeof name === 'string'));
+        }
+      }
+    } catch (error) {
+      console.error('❌ Invalid AI_MODEL_FALLBACKS configuration:', error);
     }
   }
+
+  /**
+   * Get API key for provider from environment
+   */
+  private getApiKey(provider: string): string {
+    // e.g. openai -> OPENAI_API_KEY, openai_compatible -> OPENAI_COMPATIBLE_API_KEY
+    const envPrefix = provider.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+    return process.env[`${envPrefix}_API_KEY`] || '';
+  }
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import axios, { AxiosResponse } from 'axios';
-import { BaseAIModel } from './BaseAIModel';
-import { AIQuery, AIResponse, AIModelConfig, AIModelError } from '../../types/ai';
+import { BaseAIModel, SSEEventResult } from './BaseAIModel';
+import { SSEEvent } from './sse';
+import { AIQuery, AIResponse, AIModelConfig, AIModelError, AIStreamOptions } from '../../types/ai';
 
 interface AnthropicMessage {
   role: 'user' | 'assistant';
@@ -17,16 +18,29 @@ interface AnthropicRequest {
   stop_sequences?: string[];
   stream?: boolean;
   system?: string;
+  tools?: Array<{ type: 'web_search_20250305'; name: 'web_search'; max_uses?: number }>;
+}
+
+interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+  citations?: Array<{
+    type: string; // web_search_result_location for search results
+    url?: string;
+    title?: string;
+  }>;
+}
+
+// Grounded answers also carry the search call and its results
+interface AnthropicToolBlock {
+  type: 'server_tool_use' | 'web_search_tool_result';
 }
 
 interface AnthropicResponse {
   id: string;
   type: 'message';
   role: 'assistant';
-  content: Array<{
-    type: 'text';
-    text: string;
-  }>;
+  content: Array<AnthropicTextBlock | AnthropicToolBlock>;
   model: string;
   stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence';
   stop_sequence?: string;
@@ -36,6 +50,19 @@ interface AnthropicResponse {
   };
 }
 
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: {
+    type?: string;
+    text?: string;
+    stop_reason?: string;
+  };
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
 interface AnthropicError {
   type: string;
   error: {
@@ -61,20 +88,6 @@ export class AnthropicModel extends BaseAIModel {
       timeout: 60000 // 60 second timeout
     });
 
-    // Add request interceptor for rate limiting
-    this.axiosInstance.interceptors.request.use(async (config) => {
-      const rateLimitInfo = await this.checkRateLimit();
-      if (rateLimitInfo.requests_remaining === 0) {
-        throw this.createError(
-          'Rate limit exceeded',
-          'RATE_LIMIT_EXCEEDED',
-          429,
-          rateLimitInfo
-        );
-      }
-      return config;
-    });
-
     // Add response interceptor for error handling
     this.axiosInstance.interceptors.response.use(
       (response) => response,
@@ -90,8 +103,6 @@ export class AnthropicModel extends BaseAIModel {
     const startTime = Date.now();
     
     try {
-      this.incrementRequestCount();
-      
       const anthropicRequest: AnthropicRequest = {
         model: this.config.model_version,
         max_tokens: request.max_tokens || this.config.max_tokens || 1000,
@@ -101,14 +112,14 @@ export class AnthropicModel extends BaseAIModel {
             content: request.context ? `${request.context}\n\n${request.query}` : request.query
           }
         ],
-        temperature: request.temperature || this.config.temperature || 0.7,
+        temperature: request.temperature ?? this.config.temperature ?? 0.7,
         top_p: 1,
-        system: 'You are a helpful assistant that provides accurate information about brands, companies, and products. Please provide detailed, factual responses and cite sources when possible.'
+        system: 'You are a helpful assistant that provides accurate information about brands, companies, and products. Please provide detailed, factual responses and cite sources when possible.',
+        ...this.groundingTools()
       };
 
-      const response: AxiosResponse<AnthropicResponse> = await this.axiosInstance.post(
-        '/messages',
-        anthropicRequest
+      const response: AxiosResponse<AnthropicResponse> = await this.withRateLimit(request, () =>
+        this.axiosInstance.post('/messages', anthropicRequest)
       );
 
       const processingTime = Date.now() - startTime;
@@ -118,12 +129,21 @@ export class AnthropicModel extends BaseAIModel {
         throw this.createError('No response generated', 'NO_RESPONSE', 500);
       }
 
-      const textContent = anthropicResponse.content
-        .filter(content => content.type === 'text')
+      const textBlocks = anthropicResponse.content
+        .filter((content): content is AnthropicTextBlock => content.type === 'text');
+      // With search on, the answer is split into a text block per cited passage
+      const textContent = textBlocks
         .map(content => content.text)
-        .join('\n');
+        .join(this.isGrounded() ? '' : '\n');
 
-      const cost = this.calculateActualCost(anthropicResponse.usage);
+      await this.recordTokenUsage(
+        request,
+        anthropicResponse.usage.input_tokens + anthropicResponse.usage.output_tokens
+      );
+      const cost = this.calculateCost(
+        anthropicResponse.usage.input_tokens,
+        anthropicResponse.usage.output_tokens
+      );
 
       return {
         id: anthropicResponse.id,
@@ -139,6 +159,12 @@ export class AnthropicModel extends BaseAIModel {
         cost,
         processing_time_ms: processingTime,
         confidence_score: this.calculateConfidenceScore(anthropicResponse),
+        ...(this.isGrounded() && {
+          grounded: true,
+          sources: this.collectSources(textBlocks
+            .flatMap(block => block.citations || [])
+            .filter(citation => citation.type === 'web_search_result_location'))
+        }),
         metadata: {
           stop_reason: anthropicResponse.stop_reason,
           stop_sequence: anthropicResponse.stop_sequence,
@@ -181,8 +207,10 @@ export class AnthropicModel extends BaseAIModel {
     }
   }
 
-  // Anthropic-specific methods
-  async streamQuery(request: AIQuery): Promise<AsyncGenerator<string, void, unknown>> {
+  async streamQuery(
+    request: AIQuery,
+    options: AIStreamOptions = {}
+  ): Promise<AsyncGenerator<string, void, unknown>> {
     if (!this.validateQuery(request)) {
       throw this.createError('Invalid query parameters', 'INVALID_QUERY', 400);
     }
@@ -196,20 +224,32 @@ export class AnthropicModel extends BaseAIModel {
           content: request.context ? `${request.context}\n\n${request.query}` : request.query
         }
       ],
-      temperature: request.temperature || this.config.temperature || 0.7,
+      temperature: request.temperature ?? this.config.temperature ?? 0.7,
       stream: true,
-      system: 'You are a helpful assistant that provides accurate information about brands, companies, and products.'
+      system: 'You are a helpful assistant that provides accurate information about brands, companies, and products. Please provide detailed, factual responses and cite sources when possible.',
+      ...this.groundingTools()
     };
 
     try {
-      this.incrementRequestCount();
-      
-      const response = await this.axiosInstance.post('/messages', anthropicRequest, {
-        responseType: 'stream'
-      });
+      const response = await this.withRateLimit(
+        request,
+        () => this.axiosInstance.post('/messages', anthropicRequest, {
+          responseType: 'stream',
+          ...(options.signal && { signal: options.signal })
+        }),
+        options.signal
+      );
 
-      return this.parseStreamResponse(response.data);
+      return this.readSSETokens(
+        response.data,
+        (event) => this.handleStreamEvent(event),
+        options.signal
+      );
     } catch (error) {
+      if (this.isAIModelError(error)) {
+        throw error;
+      }
+
       throw this.createError(
         `Anthropic streaming error: ${error instanceof Error ? error.message : 'Unknown error'}`,
         'STREAM_ERROR',
@@ -218,44 +258,48 @@ export class AnthropicModel extends BaseAIModel {
     }
   }
 
+  protected override supportsGrounding(): boolean {
+    return true;
+  }
+
   // Private helper methods
-  private async* parseStreamResponse(stream: any): AsyncGenerator<string, void, unknown> {
-    // This is a simplified stream parser
-    // In production, you'd want more robust SSE parsing
-    let buffer = '';
-    
-    for await (const chunk of stream) {
-      buffer += chunk.toString();
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-      
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') {
-            return;
-          }
-          
-          try {
-            const parsed = JSON.parse(data);
-            if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
-              yield parsed.delta.text;
-            }
-          } catch (error) {
-            // Skip invalid JSON
-            continue;
-          }
-        }
-      }
-    }
+
+  /**
+   * The server-side web search tool, for grounded models
+   */
+  private groundingTools(): Pick<AnthropicRequest, 'tools'> {
+    return this.isGrounded()
+      ? { tools: [{ type: 'web_search_20250305', name: 'web_search', max_uses: 5 }] }
+      : {};
   }
 
-  private calculateActualCost(usage: AnthropicResponse['usage']): number {
-    // Anthropic pricing is typically per 1000 tokens
-    // Input and output tokens may have different pricing
-    const totalTokens = usage.input_tokens + usage.output_tokens;
-    const costPer1000Tokens = this.config.cost_per_request;
-    return (totalTokens / 1000) * costPer1000Tokens;
+  private handleStreamEvent(event: SSEEvent): SSEEventResult {
+    let parsed: AnthropicStreamEvent;
+    try {
+      parsed = JSON.parse(event.data);
+    } catch (error) {
+      // Skip invalid JSON
+      return {};
+    }
+
+    // The `type` field mirrors the SSE event name: message_start, content_block_delta, ping, ...
+    switch (parsed.type) {
+      case 'content_block_delta':
+        // input_json_delta and other non-text deltas carry no visible text
+        return parsed.delta?.type === 'text_delta' && parsed.delta.text
+          ? { token: parsed.delta.text }
+          : {};
+      case 'message_stop':
+        return { done: true };
+      case 'error':
+        throw this.createError(
+          parsed.error?.message || 'Stream error',
+          parsed.error?.type === 'overloaded_error' ? 'SERVICE_UNAVAILABLE' : 'STREAM_ERROR',
+          parsed.error?.type === 'overloaded_error' ? 529 : 502
+        );
+      default:
+        return {};
+    }
   }
 
   private calculateConfidenceScore(response: AnthropicResponse): number {
@@ -273,6 +317,10 @@ export class AnthropicModel extends BaseAIModel {
   }
 
   private handleAxiosError(error: any): never {
+    if (this.isCancellation(error)) {
+      throw this.createError('Request cancelled', 'REQUEST_CANCELLED', 499);
+    }
+
     if (error.response) {
       const status = error.response.status;
       const data = error.response.data as AnthropicError;
@@ -285,15 +333,15 @@ export class AnthropicModel extends BaseAIModel {
             401
           );
         case 429:
-          const retryAfter = error.response.headers['retry-after'];
+          const retryAfter = this.parseRetryAfter(error.response.headers['retry-after']);
           throw this.createError(
             'Rate limit exceeded',
             'RATE_LIMIT_EXCEEDED',
             429,
             {
               requests_remaining: 0,
-              reset_time: new Date(Date.now() + (retryAfter ? parseInt(retryAfter) * 1000 : 60000)),
-              retry_after: retryAfter ? parseInt(retryAfter) : 60
+              reset_time: new Date(Date.now() + retryAfter * 1000),
+              retry_after: retryAfter
             }
           );
         case 400:
@@ -331,15 +379,4 @@ export class AnthropicModel extends BaseAIModel {
       );
     }
   }
-
-  // Override base class methods for Anthropic-specific behavior
-  override estimateCost(query: AIQuery): number {
-    // More accurate estimation for Anthropic
-    const promptTokens = Math.ceil(query.query.length / 4); // Rough estimation
-    const maxTokens = query.max_tokens || this.config.max_tokens || 1000;
-    const totalTokens = promptTokens + maxTokens;
-    
-    // Anthropic pricing per 1000 tokens
-    return (totalTokens / 1000) * this.config.cost_per_request;
-  }
-}
\ No newline at end of file
+}
@@ -4,16 +4,25 @@ import {
   AIQuery, 
   AIResponse, 
   ParsedAIResponse,
+  ParseResponseOptions,
   RateLimitInfo,
   AIModelError,
-  Citation,
-  BrandMention
+  Citation
 } from '../../types/ai';
+import { parseSSEStream, SSEEvent } from './sse';
+import { RateLimiter, RateLimits, aiRateLimiter } from './RateLimiter';
+import { lexiconAnalyzer } from '../nlp/LexiconAnalyzer';
+import { domainAuthority } from '../DomainAuthority';
+
+export interface SSEEventResult {
+  token?: string;
+  done?: boolean;
+}
 
 export abstract class BaseAIModel implements IAIModel {
   public config: AIModelConfig;
-  private requestCount: number = 0;
-  private lastResetTime: Date = new Date();
+  // Shared so every instance of a model draws on the same request and token budget
+  protected rateLimiter: RateLimiter = aiRateLimiter;
 
   constructor(config: AIModelConfig) {
     this.config = config;
@@ -43,57 +52,67 @@ export abstract class BaseAIModel implements IAIModel {
   }
 
   estimateCost(query: AIQuery): number {
-    // Simple estimation based on character count
-    // More sophisticated implementations would use tokenization
-    const estimatedTokens = Math.ceil(query.query.length / 4);
-    const responseTokens = query.max_tokens || 1000;
-    const totalTokens = estimatedTokens + responseTokens;
-    
-    // Cost per 1000 tokens
-    return (totalTokens / 1000) * this.config.cost_per_request;
+    const { promptTokens, completionTokens } = this.estimateTokens(query);
+    return this.calculateCost(promptTokens, completionTokens);
   }
 
   async checkRateLimit(): Promise<RateLimitInfo> {
-    const now = new Date();
-    const timeSinceReset = now.getTime() - this.lastResetTime.getTime();
-    const minutesSinceReset = timeSinceReset / (1000 * 60);
-
-    // Reset counter if more than a minute has passed
-    if (minutesSinceReset >= 1) {
-      this.requestCount = 0;
-      this.lastResetTime = now;
-    }
+    const limits = this.getRateLimits();
+    const usage = await this.rateLimiter.getUsage(this.getRateLimitKey());
 
-    const requestsRemaining = Math.max(0, this.config.rate_limit_per_minute - this.requestCount);
-    const resetTime = new Date(this.lastResetTime.getTime() + 60 * 1000);
+    const requestsRemaining = usage.blocked_ms > 0
+      ? 0
+      : Math.max(0, limits.requests_per_minute - usage.requests);
+    const tokensRemaining = limits.tokens_per_minute
+      ? Math.max(0, limits.tokens_per_minute - usage.tokens)
+      : undefined;
+    const waitMs = usage.blocked_ms > 0
+      ? usage.blocked_ms
+      : requestsRemaining === 0 || tokensRemaining === 0 ? usage.reset_ms : 0;
 
-    const retryAfter = requestsRemaining === 0 ? Math.ceil(60 - minutesSinceReset) : undefined;
-    
     return {
       requests_remaining: requestsRemaining,
-      reset_time: resetTime,
-      ...(retryAfter !== undefined && { retry_after: retryAfter })
+      ...(tokensRemaining !== undefined && { tokens_remaining: tokensRemaining }),
+      reset_time: new Date(Date.now() + Math.max(usage.reset_ms, usage.blocked_ms)),
+      ...(waitMs > 0 && { retry_after: Math.ceil(waitMs / 1000) })
     };
   }
 
-  async parseResponse(response: AIResponse): Promise<ParsedAIResponse> {
-    const citations = await this.extractCitations(response.response);
-    const brandMentions = await this.extractBrandMentions(response.response);
-    const sentimentAnalysis = await this.analyzeSentiment(response.response);
-    const topics = await this.extractTopics(response.response);
-    const entities = await this.extractEntities(response.response);
+  /**
+   * Extract citations, then hand the text to the analyzer for mentions of the
+   * target names, sentiment, topics and entities. Pages a search tool
+   * returned come first; a URL the answer also repeats is kept once.
+   */
+  async parseResponse(response: AIResponse, options: ParseResponseOptions = {}): Promise<ParsedAIResponse> {
+    const sources = response.sources || [];
+    const sourceUrls = new Set(sources.map(source => source.url));
+    const citations = [
+      ...sources,
+      ...(await this.extractCitations(response.response)).filter(citation => !sourceUrls.has(citation.url))
+    ];
+    const analyzer = options.analyzer || lexiconAnalyzer;
+    const analysis = await analyzer.analyze(response.response, options.targets || {});
 
     return {
       ...response,
       citations,
-      brand_mentions: brandMentions,
-      sentiment_analysis: sentimentAnalysis,
-      topics,
-      entities
+      ...analysis
     };
   }
 
   // Protected helper methods
+
+  /**
+   * Price a request from its token usage. Input and output tokens are priced
+   * separately; cost_per_request stands in for either price when it is unset.
+   */
+  protected calculateCost(promptTokens: number, completionTokens: number): number {
+    const inputPrice = this.config.input_cost_per_1k_tokens ?? this.config.cost_per_request;
+    const outputPrice = this.config.output_cost_per_1k_tokens ?? this.config.cost_per_request;
+
+    return (promptTokens / 1000) * inputPrice + (completionTokens / 1000) * outputPrice;
+  }
+
   protected async extractCitations(text: string): Promise<Citation[]> {
     const citations: Citation[] = [];
     
@@ -112,7 +131,8 @@ export abstract class BaseAIModel implements IAIModel {
           domain,
           authority_score: this.calculateAuthorityScore(domain),
           relevance_score: 0.8, // Default relevance
-          content_type: 'web'
+          content_type: 'web',
+          source: 'text'
         });
       } catch (error) {
         // Invalid URL, skip
@@ -123,150 +143,202 @@ export abstract class BaseAIModel implements IAIModel {
     return citations;
   }
 
-  protected async extractBrandMentions(text: string): Promise<BrandMention[]> {
-    const mentions: BrandMention[] = [];
-    
-    // This is a simplified implementation
-    // In production, you'd use NLP libraries or AI models for better extraction
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    
-    sentences.forEach((sentence, index) => {
-      const trimmedSentence = sentence.trim();
-      if (trimmedSentence.length === 0) return;
-
-      // Simple brand detection (you'd want more sophisticated NER here)
-      const brandPattern = /\b[A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)*\b/g;
-      const potentialBrands = trimmedSentence.match(brandPattern) || [];
-      
-      potentialBrands.forEach(brand => {
-        if (brand.length > 2 && brand.length < 50) { // Filter reasonable brand names
-          const sentiment = this.calculateSentimentScore(trimmedSentence);
-          mentions.push({
-            brand_name: brand,
-            mention_text: brand,
-            context: trimmedSentence,
-            position_in_response: index,
-            sentiment_score: sentiment.score,
-            sentiment_label: sentiment.label,
-            confidence: 0.7 // Default confidence
-          });
-        }
-      });
-    });
+  protected calculateAuthorityScore(domain: string): number {
+    return domainAuthority.score(domain);
+  }
+
+  /**
+   * A citation for a page the provider's search tool returned. Some providers
+   * link through a redirect and name the real site in the title, so a title
+   * that is a hostname is used as the domain.
+   */
+  protected searchCitation(url: string, title?: string): Citation | null {
+    let domain: string;
+    try {
+      domain = new URL(url).hostname;
+    } catch (error) {
+      return null;
+    }
+    if (title && /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(title.trim())) {
+      domain = title.trim().toLowerCase();
+    }
 
-    return mentions;
+    return {
+      url,
+      ...(title && { title }),
+      domain,
+      authority_score: this.calculateAuthorityScore(domain),
+      relevance_score: 0.8, // Default relevance
+      content_type: 'web',
+      source: 'search'
+    };
   }
 
-  protected async analyzeSentiment(text: string): Promise<{
-    overall_sentiment: number;
-    sentiment_label: 'positive' | 'negative' | 'neutral';
-    confidence: number;
-  }> {
-    // Simple sentiment analysis - in production, use proper NLP libraries
-    const positiveWords = ['good', 'great', 'excellent', 'amazing', 'wonderful', 'fantastic', 'outstanding', 'impressive', 'successful', 'innovative'];
-    const negativeWords = ['bad', 'terrible', 'awful', 'horrible', 'disappointing', 'failed', 'poor', 'worst', 'problematic', 'concerning'];
-    
-    const words = text.toLowerCase().split(/\W+/);
-    let positiveCount = 0;
-    let negativeCount = 0;
-    
-    words.forEach(word => {
-      if (positiveWords.includes(word)) positiveCount++;
-      if (negativeWords.includes(word)) negativeCount++;
-    });
-    
-    const totalSentimentWords = positiveCount + negativeCount;
-    let sentiment = 0;
-    let label: 'positive' | 'negative' | 'neutral' = 'neutral';
-    
-    if (totalSentimentWords > 0) {
-      sentiment = (positiveCount - negativeCount) / totalSentimentWords;
-      if (sentiment > 0.1) label = 'positive';
-      else if (sentiment < -0.1) label = 'negative';
+  /**
+   * Search tool citations, once per URL
+   */
+  protected collectSources(pages: Array<{ url?: string | undefined; title?: string | undefined }>): Citation[] {
+    const sources = new Map<string, Citation>();
+    for (const page of pages) {
+      if (!page.url || sources.has(page.url)) continue;
+      const citation = this.searchCitation(page.url, page.title);
+      if (citation) {
+        sources.set(page.url, citation);
+      }
     }
-    
+    return [...sources.values()];
+  }
+
+  /**
+   * Rough token counts for a request: characters / 4 for the prompt, and the
+   * max_tokens ceiling for the completion
+   */
+  protected estimateTokens(query: AIQuery): { promptTokens: number; completionTokens: number } {
+    // More sophisticated implementations would use tokenization
+    const promptText = query.context ? `${query.context}\n${query.query}` : query.query;
+
     return {
-      overall_sentiment: sentiment,
-      sentiment_label: label,
-      confidence: Math.min(totalSentimentWords / 10, 1) // Higher confidence with more sentiment words
+      promptTokens: Math.ceil(promptText.length / 4),
+      completionTokens: query.max_tokens || this.config.max_tokens || 1000
     };
   }
 
-  protected async extractTopics(text: string): Promise<string[]> {
-    // Simple topic extraction - in production, use proper topic modeling
-    const commonTopics = [
-      'technology', 'business', 'finance', 'marketing', 'innovation', 
-      'product', 'service', 'customer', 'market', 'industry',
-      'growth', 'revenue', 'profit', 'investment', 'partnership',
-      'leadership', 'strategy', 'competition', 'brand', 'reputation'
-    ];
-    
-    const words = text.toLowerCase().split(/\W+/);
-    const foundTopics = commonTopics.filter(topic => 
-      words.some(word => word.includes(topic) || topic.includes(word))
-    );
-    
-    return foundTopics.slice(0, 5); // Return top 5 topics
+  /**
+   * Send a provider request once the model's rate limit has room for it.
+   * Callers queue rather than fail; a provider 429 holds every caller for the
+   * model until its retry-after has passed, then the request is retried.
+   */
+  protected async withRateLimit<T>(
+    request: AIQuery,
+    send: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const key = this.getRateLimitKey();
+    const { promptTokens, completionTokens } = this.estimateTokens(request);
+
+    for (let attempt = 0; ; attempt++) {
+      const slot = await this.rateLimiter.acquire(
+        key,
+        this.getRateLimits(),
+        promptTokens + completionTokens,
+        signal
+      );
+
+      if (!slot.acquired) {
+        if (signal?.aborted) {
+          throw this.createError('Request cancelled', 'REQUEST_CANCELLED', 499);
+        }
+        // Our own queue is full; the provider has not refused anything
+        throw this.createError('Rate limit queue timed out', 'RATE_LIMIT_QUEUE_TIMEOUT', 429, {
+          requests_remaining: 0,
+          reset_time: new Date(Date.now() + slot.wait_ms),
+          retry_after: Math.ceil(slot.wait_ms / 1000)
+        });
+      }
+
+      try {
+        return await send();
+      } catch (error) {
+        const retryAfter = this.isAIModelError(error) && error.status === 429
+          ? error.rate_limit_info?.retry_after
+          : undefined;
+        if (retryAfter === undefined) {
+          throw error;
+        }
+
+        await this.rateLimiter.block(key, retryAfter);
+        // Give up now rather than queue for longer than any caller would wait
+        if (attempt >= this.rateLimiter.maxRetries || retryAfter * 1000 > this.rateLimiter.maxWaitMs) {
+          throw error;
+        }
+      }
+    }
   }
 
-  protected async extractEntities(text: string): Promise<Array<{
-    name: string;
-    type: string;
-    confidence: number;
-  }>> {
-    const entities: Array<{ name: string; type: string; confidence: number }> = [];
-    
-    // Simple entity extraction - in production, use proper NER
-    const organizationPattern = /\b[A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)*(?:\s+(?:Inc|Corp|LLC|Ltd|Company|Corporation))\b/g;
-    const organizations = text.match(organizationPattern) || [];
-    
-    organizations.forEach(org => {
-      entities.push({
-        name: org,
-        type: 'ORGANIZATION',
-        confidence: 0.8
-      });
-    });
-    
-    return entities;
+  /**
+   * Replace a request's estimated tokens with what the provider reported
+   */
+  protected async recordTokenUsage(request: AIQuery, totalTokens: number): Promise<void> {
+    const { promptTokens, completionTokens } = this.estimateTokens(request);
+    await this.rateLimiter.recordUsage(this.getRateLimitKey(), promptTokens + completionTokens, totalTokens);
   }
 
-  protected calculateAuthorityScore(domain: string): number {
-    // Simple domain authority calculation
-    const highAuthorityDomains = [
-      'wikipedia.org', 'reuters.com', 'bbc.com', 'cnn.com', 'nytimes.com',
-      'wsj.com', 'forbes.com', 'bloomberg.com', 'techcrunch.com', 'wired.com'
-    ];
-    
-    if (highAuthorityDomains.includes(domain)) return 0.9;
-    if (domain.endsWith('.edu')) return 0.8;
-    if (domain.endsWith('.gov')) return 0.9;
-    if (domain.endsWith('.org')) return 0.7;
-    
-    return 0.5; // Default authority
+  /**
+   * Seconds to wait from a retry-after header, which may be a delay in
+   * seconds or an HTTP date. Providers that send none get a minute.
+   */
+  protected parseRetryAfter(header: string | undefined): number {
+    if (header) {
+      const seconds = Number(header);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        return Math.ceil(seconds);
+      }
+
+      const date = Date.parse(header);
+      if (!Number.isNaN(date)) {
+        return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+      }
+    }
+
+    return 60;
   }
 
-  protected calculateSentimentScore(text: string): { score: number; label: 'positive' | 'negative' | 'neutral' } {
-    const positiveWords = ['good', 'great', 'excellent', 'amazing', 'wonderful'];
-    const negativeWords = ['bad', 'terrible', 'awful', 'horrible', 'disappointing'];
-    
-    const words = text.toLowerCase().split(/\W+/);
-    let score = 0;
-    
-    words.forEach(word => {
-      if (positiveWords.includes(word)) score += 0.5;
-      if (negativeWords.includes(word)) score -= 0.5;
-    });
-    
-    let label: 'positive' | 'negative' | 'neutral' = 'neutral';
-    if (score > 0.1) label = 'positive';
-    else if (score < -0.1) label = 'negative';
-    
-    return { score: Math.max(-1, Math.min(1, score)), label };
+  protected getRateLimitKey(): string {
+    return `${this.config.provider}:${this.config.name}`;
+  }
+
+  protected getRateLimits(): RateLimits {
+    return {
+      requests_per_minute: this.config.rate_limit_per_minute > 0
+        ? this.config.rate_limit_per_minute
+        : Number.MAX_SAFE_INTEGER,
+      ...(this.config.tokens_per_minute && { tokens_per_minute: this.config.tokens_per_minute })
+    };
   }
 
-  protected incrementRequestCount(): void {
-    this.requestCount++;
+  /**
+   * Turn a provider's SSE response body into a token stream. `handleEvent`
+   * maps each event to a token and/or end-of-stream, and may throw an
+   * AIModelError for provider-reported errors. Aborting the signal ends the
+   * stream quietly; any other transport failure becomes a STREAM_ERROR.
+   */
+  protected async* readSSETokens(
+    stream: AsyncIterable<Buffer | string>,
+    handleEvent: (event: SSEEvent) => SSEEventResult,
+    signal?: AbortSignal
+  ): AsyncGenerator<string, void, unknown> {
+    try {
+      for await (const event of parseSSEStream(stream)) {
+        if (signal?.aborted) return;
+
+        const result = handleEvent(event);
+        if (result.token) {
+          yield result.token;
+        }
+        if (result.done) return;
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      if (this.isAIModelError(error)) {
+        throw error;
+      }
+      throw this.createError(
+        `${this.config.provider} stream interrupted: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'STREAM_ERROR',
+        502
+      );
+    }
+  }
+
+  /**
+   * Whether an axios error came from aborting the request rather than a network failure
+   */
+  protected isCancellation(error: any): boolean {
+    return error?.code === 'ERR_CANCELED' || error?.name === 'CanceledError';
+  }
+
+  protected isAIModelError(error: unknown): error is AIModelError {
+    return error instanceof Error && 'code' in error && 'status' in error;
   }
 
   protected createError(message: string, code: string, status?: number, rateLimitInfo?: RateLimitInfo): AIModelError {
@@ -281,8 +353,30 @@ export abstract class BaseAIModel implements IAIModel {
     return error;
   }
 
+  /**
+   * Whether the provider rejects unauthenticated requests. Self-hosted
+   * endpoints (Ollama, llama.cpp) usually run without a key.
+   */
+  protected requiresApiKey(): boolean {
+    return true;
+  }
+
+  /**
+   * Whether the provider has a web search tool for grounded mode
+   */
+  protected supportsGrounding(): boolean {
+    return false;
+  }
+
+  /**
+   * Whether queries go out with the provider's search tool turned on
+   */
+  protected isGrounded(): boolean {
+    return this.config.grounded === true;
+  }
+
   private validateConfig(): void {
-    if (!this.config.api_key) {
+    if (this.requiresApiKey() && !this.config.api_key) {
       throw new Error(`API key is required for ${this.config.provider} model`);
     }
     
@@ -293,5 +387,9 @@ export abstract class BaseAIModel implements IAIModel {
     if (this.config.rate_limit_per_minute <= 0) {
       throw new Error('Rate limit must be greater than 0');
     }
+
+    if (this.config.grounded && !this.supportsGrounding()) {
+      throw new Error(`Grounded mode is not supported for ${this.config.provider} models`);
+    }
   }
 }
\ No newline at end of file
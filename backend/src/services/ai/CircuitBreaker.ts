@@ -0,0 +1,150 @@
+import { AIModelError } from '../../types/ai';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  cooldownMs: number; // How long an open circuit rejects requests
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutive_failures: number;
+  total_failures: number;
+  last_error_code?: string;
+  last_error_status?: number;
+  last_failure_at?: Date;
+  open_until?: Date;
+}
+
+// Errors caused by the request itself, or by our own rate limiter's backpressure;
+// none of them say anything about the model's health
+const CALLER_ERROR_CODES = new Set(['INVALID_QUERY', 'BAD_REQUEST', 'REQUEST_CANCELLED', 'RATE_LIMIT_QUEUE_TIMEOUT']);
+
+// Errors no amount of retrying fixes until someone intervenes
+const FATAL_ERROR_CODES = new Set(['INVALID_API_KEY']);
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: parseInt(process.env.AI_BREAKER_FAILURE_THRESHOLD || '5'),
+  cooldownMs: parseInt(process.env.AI_BREAKER_COOLDOWN_MS || '60000')
+};
+
+/**
+ * Per-model circuit breaker. Closed circuits pass requests through; after
+ * `failureThreshold` consecutive provider failures the circuit opens and the
+ * model is taken out of rotation for `cooldownMs`. The first request after the
+ * cooldown is a half-open trial: success closes the circuit, failure reopens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+  private lastError: { code?: string; status?: number; at: Date } | null = null;
+
+  constructor(private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS) {}
+
+  /**
+   * Whether an error should count against the model. Caller errors
+   * (bad queries, cancellations) say nothing about the model's health.
+   */
+  static isModelFailure(error: unknown): boolean {
+    const code = (error as AIModelError)?.code;
+    const status = (error as AIModelError)?.status;
+
+    if (code && CALLER_ERROR_CODES.has(code)) {
+      return false;
+    }
+    if (status !== undefined && status >= 400 && status < 500 && status !== 401 && status !== 408 && status !== 429) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check whether a request may be sent, reserving the half-open trial slot if so
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open') {
+      if (Date.now() < this.openUntil) {
+        return false;
+      }
+      this.state = 'half_open';
+    }
+
+    // Half-open: let exactly one trial request through
+    if (this.trialInFlight) {
+      return false;
+    }
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.openUntil = 0;
+  }
+
+  /**
+   * Record a failed request. Returns true if the failure counted against the model.
+   */
+  recordFailure(error: unknown): boolean {
+    this.trialInFlight = false;
+
+    if (!CircuitBreaker.isModelFailure(error)) {
+      // The trial told us nothing about the model; let the next request retry it
+      return false;
+    }
+
+    const modelError = error as AIModelError;
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastError = {
+      ...(modelError?.code && { code: modelError.code }),
+      ...(modelError?.status !== undefined && { status: modelError.status }),
+      at: new Date()
+    };
+
+    const retryAfterMs = (modelError?.rate_limit_info?.retry_after ?? modelError?.retry_after ?? 0) * 1000;
+    const fatal = modelError?.code !== undefined && FATAL_ERROR_CODES.has(modelError.code);
+
+    if (
+      this.state === 'half_open' ||
+      fatal ||
+      retryAfterMs > 0 ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      // A provider-supplied retry-after wins over the default cooldown when longer
+      this.open(Math.max(this.options.cooldownMs, retryAfterMs));
+    }
+
+    return true;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    // Report an expired open circuit as half-open so callers see it is retryable
+    const state = this.state === 'open' && Date.now() >= this.openUntil ? 'half_open' : this.state;
+
+    return {
+      state,
+      consecutive_failures: this.consecutiveFailures,
+      total_failures: this.totalFailures,
+      ...(this.lastError?.code && { last_error_code: this.lastError.code }),
+      ...(this.lastError?.status !== undefined && { last_error_status: this.lastError.status }),
+      ...(this.lastError && { last_failure_at: this.lastError.at }),
+      ...(this.state === 'open' && { open_until: new Date(this.openUntil) })
+    };
+  }
+
+  private open(durationMs: number): void {
+    this.state = 'open';
+    this.openUntil = Date.now() + durationMs;
+  }
+}
@@ -1,6 +1,6 @@
 import axios, { AxiosResponse } from 'axios';
-import { BaseAIModel } from './BaseAIModel';
-import { AIQuery, AIResponse, AIModelConfig } from '../../types/ai';
+import { BaseAIModel, SSEEventResult } from './BaseAIModel';
+import { AIQuery, AIResponse, AIModelConfig, AIStreamOptions } from '../../types/ai';
 
 interface GeminiPart {
   text: string;
@@ -26,6 +26,17 @@ interface GeminiRequest {
     topP?: number;
     topK?: number;
   };
+  tools?: Array<{ google_search: Record<string, never> }>;
+}
+
+interface GeminiGroundingMetadata {
+  webSearchQueries?: string[];
+  groundingChunks?: Array<{
+    web?: {
+      uri: string;
+      title?: string; // The site's domain; uri is a Google redirect
+    };
+  }>;
 }
 
 interface GeminiResponse {
@@ -40,6 +51,7 @@ interface GeminiResponse {
       category: string;
       probability: string;
     }>;
+    groundingMetadata?: GeminiGroundingMetadata; // Grounded requests only
   }>;
   promptFeedback?: {
     safetyRatings: Array<{
@@ -82,20 +94,6 @@ export class GeminiModel extends BaseAIModel {
       timeout: 60000 // 60 second timeout
     });
 
-    // Add request interceptor for rate limiting
-    this.axiosInstance.interceptors.request.use(async (config) => {
-      const rateLimitInfo = await this.checkRateLimit();
-      if (rateLimitInfo.requests_remaining === 0) {
-        throw this.createError(
-          'Rate limit exceeded',
-          'RATE_LIMIT_EXCEEDED',
-          429,
-          rateLimitInfo
-        );
-      }
-      return config;
-    });
-
     // Add response interceptor for error handling
     this.axiosInstance.interceptors.response.use(
       (response) => response,
@@ -110,8 +108,6 @@ export class GeminiModel extends BaseAIModel {
 
     const startTime = Date.now();
     try {
-      this.incrementRequestCount();
-
       const geminiRequest: GeminiRequest = {
         contents: [
           {
@@ -127,18 +123,18 @@ export class GeminiModel extends BaseAIModel {
         ],
         generationConfig: {
           maxOutputTokens: request.max_tokens || this.config.max_tokens || 1000,
-          temperature: request.temperature || this.config.temperature || 0.7,
+          temperature: request.temperature ?? this.config.temperature ?? 0.7,
           topP: 1,
           topK: 40
-        }
+        },
+        ...this.groundingTools()
       };
 
       // For Gemini, we need to append the API key as a query parameter
       const endpoint = `/v1beta/models/${this.config.model_version}:generateContent?key=${this.config.api_key}`;
 
-      const response: AxiosResponse<GeminiResponse> = await this.axiosInstance.post(
-        endpoint,
-        geminiRequest
+      const response: AxiosResponse<GeminiResponse> = await this.withRateLimit(request, () =>
+        this.axiosInstance.post(endpoint, geminiRequest)
       );
 
       const processingTime = Date.now() - startTime;
@@ -158,7 +154,11 @@ export class GeminiModel extends BaseAIModel {
         .map(part => part.text)
         .join('\n');
 
-      const cost = this.calculateActualCost(geminiResponse.usageMetadata);
+      await this.recordTokenUsage(request, geminiResponse.usageMetadata.totalTokenCount);
+      const cost = this.calculateCost(
+        geminiResponse.usageMetadata.promptTokenCount,
+        geminiResponse.usageMetadata.candidatesTokenCount
+      );
 
       return {
         id: `gemini-${Date.now()}`,
@@ -174,9 +174,17 @@ export class GeminiModel extends BaseAIModel {
         cost,
         processing_time_ms: processingTime,
         confidence_score: this.calculateConfidenceScore(candidate),
+        ...(this.isGrounded() && {
+          grounded: true,
+          sources: this.collectSources((candidate.groundingMetadata?.groundingChunks || [])
+            .map(chunk => ({ url: chunk.web?.uri, title: chunk.web?.title })))
+        }),
         metadata: {
           finish_reason: candidate.finishReason,
           safety_ratings: candidate.safetyRatings,
+          ...(candidate.groundingMetadata?.webSearchQueries && {
+            web_search_queries: candidate.groundingMetadata.webSearchQueries
+          }),
           ...request.metadata
         },
         created_at: new Date()
@@ -202,8 +210,6 @@ export class GeminiModel extends BaseAIModel {
 
     const startTime = Date.now();
     try {
-      this.incrementRequestCount();
-
       const parts: (GeminiPart | GeminiImagePart)[] = [
         {
           text: request.context 
@@ -231,7 +237,7 @@ export class GeminiModel extends BaseAIModel {
         ],
         generationConfig: {
           maxOutputTokens: request.max_tokens || this.config.max_tokens || 1000,
-          temperature: request.temperature || this.config.temperature || 0.7,
+          temperature: request.temperature ?? this.config.temperature ?? 0.7,
           topP: 1,
           topK: 40
         }
@@ -239,9 +245,8 @@ export class GeminiModel extends BaseAIModel {
 
       const endpoint = `/v1beta/models/${this.config.model_version}:generateContent?key=${this.config.api_key}`;
 
-      const response: AxiosResponse<GeminiResponse> = await this.axiosInstance.post(
-        endpoint,
-        geminiRequest
+      const response: AxiosResponse<GeminiResponse> = await this.withRateLimit(request, () =>
+        this.axiosInstance.post(endpoint, geminiRequest)
       );
 
       const processingTime = Date.now() - startTime;
@@ -261,7 +266,11 @@ export class GeminiModel extends BaseAIModel {
         .map(part => part.text)
         .join('\n');
 
-      const cost = this.calculateActualCost(geminiResponse.usageMetadata);
+      await this.recordTokenUsage(request, geminiResponse.usageMetadata.totalTokenCount);
+      const cost = this.calculateCost(
+        geminiResponse.usageMetadata.promptTokenCount,
+        geminiResponse.usageMetadata.candidatesTokenCount
+      );
 
       return {
         id: `gemini-vision-${Date.now()}`,
@@ -297,6 +306,66 @@ export class GeminiModel extends BaseAIModel {
     }
   }
 
+  async streamQuery(
+    request: AIQuery,
+    options: AIStreamOptions = {}
+  ): Promise<AsyncGenerator<string, void, unknown>> {
+    if (!this.validateQuery(request)) {
+      throw this.createError('Invalid query parameters', 'INVALID_QUERY', 400);
+    }
+
+    const geminiRequest: GeminiRequest = {
+      contents: [
+        {
+          parts: [
+            {
+              text: request.context
+                ? `${request.context}\n\n${request.query}`
+                : request.query
+            }
+          ],
+          role: 'user'
+        }
+      ],
+      generationConfig: {
+        maxOutputTokens: request.max_tokens || this.config.max_tokens || 1000,
+        temperature: request.temperature ?? this.config.temperature ?? 0.7,
+        topP: 1,
+        topK: 40
+      },
+      ...this.groundingTools()
+    };
+
+    try {
+      // alt=sse switches streamGenerateContent from a JSON array to an event stream
+      const endpoint = `/v1beta/models/${this.config.model_version}:streamGenerateContent?alt=sse&key=${this.config.api_key}`;
+
+      const response = await this.withRateLimit(
+        request,
+        () => this.axiosInstance.post(endpoint, geminiRequest, {
+          responseType: 'stream',
+          ...(options.signal && { signal: options.signal })
+        }),
+        options.signal
+      );
+
+      return this.readSSETokens(
+        response.data,
+        (event) => this.handleStreamEvent(event.data),
+        options.signal
+      );
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) {
+        throw error;
+      }
+      throw this.createError(
+        `Gemini streaming error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'STREAM_ERROR',
+        500
+      );
+    }
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       const testQuery: AIQuery = {
@@ -314,10 +383,41 @@ export class GeminiModel extends BaseAIModel {
   }
 
   // Private helper methods
-  private calculateActualCost(usage: GeminiResponse['usageMetadata']): number {
-    // Gemini pricing is typically per 1000 tokens
-    const costPer1000Tokens = this.config.cost_per_request;
-    return (usage.totalTokenCount / 1000) * costPer1000Tokens;
+  protected override supportsGrounding(): boolean {
+    return true;
+  }
+
+  /**
+   * The Google Search tool, for grounded models
+   */
+  private groundingTools(): Pick<GeminiRequest, 'tools'> {
+    return this.isGrounded() ? { tools: [{ google_search: {} }] } : {};
+  }
+
+  private handleStreamEvent(data: string): SSEEventResult {
+    let chunk: Partial<GeminiResponse> & { error?: GeminiError['error'] };
+    try {
+      chunk = JSON.parse(data);
+    } catch (error) {
+      // Skip invalid JSON
+      return {};
+    }
+
+    if (chunk.error) {
+      throw this.createError(chunk.error.message || 'Stream error', 'STREAM_ERROR', chunk.error.code || 502);
+    }
+
+    const candidate = chunk.candidates?.[0];
+    const text = (candidate?.content?.parts || [])
+      .filter(part => 'text' in part)
+      .map(part => part.text)
+      .join('');
+
+    // Gemini has no terminator event; a finish reason marks the last chunk
+    return {
+      ...(text && { token: text }),
+      ...(candidate?.finishReason && { done: true })
+    };
   }
 
   private calculateConfidenceScore(candidate: GeminiResponse['candidates'][0]): number {
@@ -337,6 +437,10 @@ export class GeminiModel extends BaseAIModel {
   }
 
   private handleAxiosError(error: any): never {
+    if (this.isCancellation(error)) {
+      throw this.createError('Request cancelled', 'REQUEST_CANCELLED', 499);
+    }
+
     if (error.response) {
       const status = error.response.status;
       const data = error.response.data as GeminiError;
@@ -361,15 +465,15 @@ export class GeminiModel extends BaseAIModel {
             403
           );
         case 429:
-          const retryAfter = error.response.headers['retry-after'];
+          const retryAfter = this.parseRetryAfter(error.response.headers['retry-after']);
           throw this.createError(
             'Rate limit exceeded',
             'RATE_LIMIT_EXCEEDED',
             429,
             {
               requests_remaining: 0,
-              reset_time: new Date(Date.now() + (retryAfter ? parseInt(retryAfter) * 1000 : 60000)),
-              retry_after: retryAfter ? parseInt(retryAfter) : 60
+              reset_time: new Date(Date.now() + retryAfter * 1000),
+              retry_after: retryAfter
             }
           );
         case 500:
@@ -401,15 +505,4 @@ export class GeminiModel extends BaseAIModel {
       );
     }
   }
-
-  // Override base class methods for Gemini-specific behavior
-  override estimateCost(query: AIQuery): number {
-    // More accurate estimation for Gemini
-    const promptTokens = Math.ceil(query.query.length / 4); // Rough estimation
-    const maxTokens = query.max_tokens || this.config.max_tokens || 1000;
-    const totalTokens = promptTokens + maxTokens;
-    
-    // Gemini pricing per 1000 tokens
-    return (totalTokens / 1000) * this.config.cost_per_request;
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,22 @@
+import { OpenAIModel } from './OpenAIModel';
+
+/**
+ * Adapter for any server exposing the OpenAI `/chat/completions` API:
+ * Perplexity, Mistral, Ollama, llama.cpp, vLLM and similar. The base URL
+ * comes from the `ai_models.api_endpoint` column and the API key is optional,
+ * so self-hosted servers can be monitored without credentials.
+ */
+export class OpenAICompatibleModel extends OpenAIModel {
+  protected override requiresApiKey(): boolean {
+    return false;
+  }
+
+  // web_search_options is OpenAI's own; other servers reject or ignore it
+  protected override supportsGrounding(): boolean {
+    return false;
+  }
+
+  protected override getProviderLabel(): string {
+    return `${this.config.name} (${this.config.provider})`;
+  }
+}
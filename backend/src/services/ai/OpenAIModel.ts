@@ -1,6 +1,6 @@
 import axios, { AxiosResponse } from 'axios';
-import { BaseAIModel } from './BaseAIModel';
-import { AIQuery, AIResponse, AIModelConfig, AIModelError } from '../../types/ai';
+import { BaseAIModel, SSEEventResult } from './BaseAIModel';
+import { AIQuery, AIResponse, AIModelConfig, AIModelError, AIStreamOptions } from '../../types/ai';
 
 interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant';
@@ -16,6 +16,17 @@ interface OpenAIRequest {
   frequency_penalty?: number;
   presence_penalty?: number;
   stream?: boolean;
+  web_search_options?: Record<string, unknown>; // Search models only
+}
+
+interface OpenAIURLCitation {
+  type: 'url_citation';
+  url_citation: {
+    url: string;
+    title?: string;
+    start_index: number;
+    end_index: number;
+  };
 }
 
 interface OpenAIResponse {
@@ -28,6 +39,7 @@ interface OpenAIResponse {
     message: {
       role: string;
       content: string;
+      annotations?: OpenAIURLCitation[]; // Pages the web search tool returned
     };
     finish_reason: string;
   }>;
@@ -38,6 +50,19 @@ interface OpenAIResponse {
   };
 }
 
+interface OpenAIStreamChunk {
+  id: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason: string | null;
+  }>;
+  error?: OpenAIError['error'];
+}
+
 interface OpenAIError {
   error: {
     message: string;
@@ -56,27 +81,13 @@ export class OpenAIModel extends BaseAIModel {
     this.axiosInstance = axios.create({
       baseURL: config.api_endpoint,
       headers: {
-        'Authorization': `Bearer ${config.api_key}`,
+        ...(config.api_key && { 'Authorization': `Bearer ${config.api_key}` }),
         'Content-Type': 'application/json',
         'User-Agent': 'LLM-Brand-Monitoring/1.0'
       },
       timeout: 60000 // 60 second timeout
     });
 
-    // Add request interceptor for rate limiting
-    this.axiosInstance.interceptors.request.use(async (config) => {
-      const rateLimitInfo = await this.checkRateLimit();
-      if (rateLimitInfo.requests_remaining === 0) {
-        throw this.createError(
-          'Rate limit exceeded',
-          'RATE_LIMIT_EXCEEDED',
-          429,
-          rateLimitInfo
-        );
-      }
-      return config;
-    });
-
     // Add response interceptor for error handling
     this.axiosInstance.interceptors.response.use(
       (response) => response,
@@ -92,30 +103,10 @@ export class OpenAIModel extends BaseAIModel {
     const startTime = Date.now();
     
     try {
-      this.incrementRequestCount();
-      
-      const openAIRequest: OpenAIRequest = {
-        model: this.config.model_version,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful assistant that provides accurate information about brands, companies, and products. Please provide detailed, factual responses and cite sources when possible.'
-          },
-          {
-            role: 'user',
-            content: request.context ? `${request.context}\n\n${request.query}` : request.query
-          }
-        ],
-        max_tokens: request.max_tokens || this.config.max_tokens || 1000,
-        temperature: request.temperature || this.config.temperature || 0.7,
-        top_p: 1,
-        frequency_penalty: 0,
-        presence_penalty: 0
-      };
+      const openAIRequest = this.buildRequest(request);
 
-      const response: AxiosResponse<OpenAIResponse> = await this.axiosInstance.post(
-        '/chat/completions',
-        openAIRequest
+      const response: AxiosResponse<OpenAIResponse> = await this.withRateLimit(request, () =>
+        this.axiosInstance.post('/chat/completions', openAIRequest)
       );
 
       const processingTime = Date.now() - startTime;
@@ -130,7 +121,13 @@ export class OpenAIModel extends BaseAIModel {
         throw this.createError('No choice response found', 'NO_CHOICE', 500);
       }
 
-      const cost = this.calculateActualCost(openAIResponse.usage);
+      // Some OpenAI-compatible servers omit usage
+      const usage = openAIResponse.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+      if (openAIResponse.usage) {
+        await this.recordTokenUsage(request, usage.total_tokens);
+      }
+      const cost = this.calculateCost(usage.prompt_tokens, usage.completion_tokens);
+      const grounded = this.isGrounded();
 
       return {
         id: openAIResponse.id,
@@ -138,10 +135,16 @@ export class OpenAIModel extends BaseAIModel {
         model_name: this.config.name,
         provider: this.config.provider,
         response: choice.message.content,
-        usage: openAIResponse.usage,
+        usage,
         cost,
         processing_time_ms: processingTime,
         confidence_score: this.calculateConfidenceScore(choice),
+        ...(grounded && {
+          grounded,
+          sources: this.collectSources((choice.message.annotations || [])
+            .filter(annotation => annotation.type === 'url_citation')
+            .map(annotation => annotation.url_citation))
+        }),
         metadata: {
           finish_reason: choice.finish_reason,
           model_version: openAIResponse.model,
@@ -160,7 +163,7 @@ export class OpenAIModel extends BaseAIModel {
       }
       
       throw this.createError(
-        `OpenAI API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `${this.getProviderLabel()} API error: ${error instanceof Error ? error.message : 'Unknown error'}`,
         'API_ERROR',
         500
       );
@@ -179,11 +182,51 @@ export class OpenAIModel extends BaseAIModel {
       await this.query(testQuery);
       return true;
     } catch (error) {
-      console.error('OpenAI health check failed:', error);
+      console.error(`${this.getProviderLabel()} health check failed:`, error);
       return false;
     }
   }
 
+  async streamQuery(
+    request: AIQuery,
+    options: AIStreamOptions = {}
+  ): Promise<AsyncGenerator<string, void, unknown>> {
+    if (!this.validateQuery(request)) {
+      throw this.createError('Invalid query parameters', 'INVALID_QUERY', 400);
+    }
+
+    try {
+      const response = await this.withRateLimit(
+        request,
+        () => this.axiosInstance.post(
+          '/chat/completions',
+          { ...this.buildRequest(request), stream: true },
+          {
+            responseType: 'stream',
+            ...(options.signal && { signal: options.signal })
+          }
+        ),
+        options.signal
+      );
+
+      return this.readSSETokens(
+        response.data,
+        (event) => this.handleStreamEvent(event.data),
+        options.signal
+      );
+    } catch (error) {
+      if (this.isAIModelError(error)) {
+        throw error;
+      }
+
+      throw this.createError(
+        `${this.getProviderLabel()} streaming error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'STREAM_ERROR',
+        500
+      );
+    }
+  }
+
   // OpenAI-specific methods
   async listModels(): Promise<string[]> {
     try {
@@ -211,12 +254,70 @@ export class OpenAIModel extends BaseAIModel {
     }
   }
 
+  /**
+   * Name used in error messages and logs
+   */
+  protected getProviderLabel(): string {
+    return 'OpenAI';
+  }
+
+  protected override supportsGrounding(): boolean {
+    return true;
+  }
+
   // Private helper methods
-  private calculateActualCost(usage: OpenAIResponse['usage']): number {
-    // OpenAI pricing is typically per 1000 tokens
-    // This is a simplified calculation - actual pricing may vary by model
-    const costPer1000Tokens = this.config.cost_per_request;
-    return (usage.total_tokens / 1000) * costPer1000Tokens;
+  private buildRequest(request: AIQuery): OpenAIRequest {
+    const messages: OpenAIMessage[] = [
+      {
+        role: 'system',
+        content: 'You are a helpful assistant that provides accurate information about brands, companies, and products. Please provide detailed, factual responses and cite sources when possible.'
+      },
+      {
+        role: 'user',
+        content: request.context ? `${request.context}\n\n${request.query}` : request.query
+      }
+    ];
+
+    // Search models (gpt-4o-search-preview and the like) reject the sampling parameters
+    if (this.isGrounded()) {
+      return {
+        model: this.config.model_version,
+        messages,
+        max_tokens: request.max_tokens || this.config.max_tokens || 1000,
+        web_search_options: {}
+      };
+    }
+
+    return {
+      model: this.config.model_version,
+      messages,
+      max_tokens: request.max_tokens || this.config.max_tokens || 1000,
+      temperature: request.temperature ?? this.config.temperature ?? 0.7,
+      top_p: 1,
+      frequency_penalty: 0,
+      presence_penalty: 0
+    };
+  }
+
+  private handleStreamEvent(data: string): SSEEventResult {
+    if (data === '[DONE]') {
+      return { done: true };
+    }
+
+    let chunk: OpenAIStreamChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch (error) {
+      // Skip keep-alive or malformed payloads
+      return {};
+    }
+
+    if (chunk.error) {
+      throw this.createError(chunk.error.message || 'Stream error', 'STREAM_ERROR', 502);
+    }
+
+    const content = chunk.choices?.[0]?.delta?.content;
+    return content ? { token: content } : {};
   }
 
   private calculateConfidenceScore(choice: OpenAIResponse['choices'][0]): number {
@@ -234,6 +335,10 @@ export class OpenAIModel extends BaseAIModel {
   }
 
   private handleAxiosError(error: any): never {
+    if (this.isCancellation(error)) {
+      throw this.createError('Request cancelled', 'REQUEST_CANCELLED', 499);
+    }
+
     if (error.response) {
       const status = error.response.status;
       const data = error.response.data as OpenAIError;
@@ -246,15 +351,15 @@ export class OpenAIModel extends BaseAIModel {
             401
           );
         case 429:
-          const retryAfter = error.response.headers['retry-after'];
+          const retryAfter = this.parseRetryAfter(error.response.headers['retry-after']);
           throw this.createError(
             'Rate limit exceeded',
             'RATE_LIMIT_EXCEEDED',
             429,
             {
               requests_remaining: 0,
-              reset_time: new Date(Date.now() + (retryAfter ? parseInt(retryAfter) * 1000 : 60000)),
-              retry_after: retryAfter ? parseInt(retryAfter) : 60
+              reset_time: new Date(Date.now() + retryAfter * 1000),
+              retry_after: retryAfter
             }
           );
         case 400:
@@ -267,7 +372,7 @@ export class OpenAIModel extends BaseAIModel {
         case 502:
         case 503:
           throw this.createError(
-            'OpenAI service unavailable',
+            `${this.getProviderLabel()} service unavailable`,
             'SERVICE_UNAVAILABLE',
             status
           );
@@ -280,7 +385,7 @@ export class OpenAIModel extends BaseAIModel {
       }
     } else if (error.request) {
       throw this.createError(
-        'Network error - unable to reach OpenAI API',
+        `Network error - unable to reach ${this.getProviderLabel()} API`,
         'NETWORK_ERROR',
         0
       );
@@ -292,15 +397,4 @@ export class OpenAIModel extends BaseAIModel {
       );
     }
   }
-
-  // Override base class methods for OpenAI-specific behavior
-  override estimateCost(query: AIQuery): number {
-    // More accurate estimation for OpenAI
-    const promptTokens = Math.ceil(query.query.length / 4); // Rough estimation
-    const maxTokens = query.max_tokens || this.config.max_tokens || 1000;
-    const totalTokens = promptTokens + maxTokens;
-    
-    // OpenAI pricing per 1000 tokens
-    return (totalTokens / 1000) * this.config.cost_per_request;
-  }
-}
\ No newline at end of file
+}
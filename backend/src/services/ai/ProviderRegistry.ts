@@ -0,0 +1,82 @@
+import { IAIModel, AIModelConfig } from '../../types/ai';
+import { OpenAIModel } from './OpenAIModel';
+import { AnthropicModel } from './AnthropicModel';
+import { GeminiModel } from './GeminiModel';
+import { OpenAICompatibleModel } from './OpenAICompatibleModel';
+
+export type AIModelFactory = (config: AIModelConfig) => IAIModel;
+
+/**
+ * Maps provider names (the `ai_models.provider` column) to model factories.
+ * New BaseAIModel subclasses register here instead of being hard-coded in
+ * AIModelManager.
+ */
+export class ProviderRegistry {
+  private factories: Map<string, AIModelFactory> = new Map();
+
+  /**
+   * Register a provider; names are case-insensitive and later registrations win
+   */
+  register(provider: string, factory: AIModelFactory): void {
+    this.factories.set(this.normalize(provider), factory);
+  }
+
+  /**
+   * Remove a provider registration
+   */
+  unregister(provider: string): boolean {
+    return this.factories.delete(this.normalize(provider));
+  }
+
+  /**
+   * Check whether a provider is registered
+   */
+  has(provider: string): boolean {
+    return this.factories.has(this.normalize(provider));
+  }
+
+  /**
+   * Get registered provider names
+   */
+  getProviders(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Instantiate a model for the provider named in its config
+   */
+  create(config: AIModelConfig): IAIModel {
+    const factory = this.factories.get(this.normalize(config.provider));
+    if (!factory) {
+      throw new Error(`Unsupported AI provider: ${config.provider}`);
+    }
+
+    return factory(config);
+  }
+
+  private normalize(provider: string): string {
+    return provider.trim().toLowerCase();
+  }
+}
+
+/**
+ * Create a registry with the built-in providers
+ */
+export function createDefaultProviderRegistry(): ProviderRegistry {
+  const registry = new ProviderRegistry();
+
+  registry.register('openai', (config) => new OpenAIModel(config));
+  registry.register('anthropic', (config) => new AnthropicModel(config));
+  registry.register('gemini', (config) => new GeminiModel(config));
+
+  // Providers that speak the OpenAI chat completions API
+  const openAICompatible: AIModelFactory = (config) => new OpenAICompatibleModel(config);
+  for (const provider of ['openai_compatible', 'perplexity', 'mistral', 'ollama', 'llamacpp', 'vllm']) {
+    registry.register(provider, openAICompatible);
+  }
+
+  return registry;
+}
+
+// Shared registry used by AIModelManager unless one is injected
+export const providerRegistry = createDefaultProviderRegistry();
@@ -0,0 +1,391 @@
+import Redis from 'ioredis';
+import { createAIRedisClient, RedisFallback } from './redis';
+
+export interface RateLimits {
+  requests_per_minute: number;
+  tokens_per_minute?: number; // Unset or 0 means no token limit
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  wait_ms: number; // How long until another attempt could succeed
+}
+
+export interface RateLimitUsage {
+  requests: number;
+  tokens: number;
+  reset_ms: number; // Time left in the current window
+  blocked_ms: number; // Time left on a provider retry-after
+}
+
+export interface RateLimitAcquireResult {
+  acquired: boolean;
+  wait_ms: number;
+}
+
+export interface RateLimiterOptions {
+  maxWaitMs: number; // Longest a caller waits for capacity before giving up
+  maxRetries: number; // Provider 429 retries per request
+}
+
+/**
+ * Storage for per-model request and token counters. Counters live in a
+ * one-minute window that starts with the first request after the last one
+ * expired. A single request larger than the token limit is let through when
+ * the window is empty, so it is not starved forever.
+ */
+export interface RateLimitStore {
+  tryAcquire(key: string, limits: RateLimits, tokens: number): Promise<RateLimitDecision>;
+  adjustTokens(key: string, delta: number): Promise<void>;
+  block(key: string, durationMs: number): Promise<void>;
+  getUsage(key: string): Promise<RateLimitUsage>;
+}
+
+export const RATE_LIMIT_WINDOW_MS = 60000;
+
+export const DEFAULT_RATE_LIMITER_OPTIONS: RateLimiterOptions = {
+  maxWaitMs: parseInt(process.env.AI_RATE_LIMIT_MAX_WAIT_MS || '120000'),
+  maxRetries: parseInt(process.env.AI_RATE_LIMIT_MAX_RETRIES || '2')
+};
+
+/**
+ * In-process counters. Used when no Redis is configured, and as the fallback
+ * while Redis is unreachable; limits then only hold within one process.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows: Map<string, { requests: number; tokens: number; resetAt: number }> = new Map();
+  private blockedUntil: Map<string, number> = new Map();
+
+  async tryAcquire(key: string, limits: RateLimits, tokens: number): Promise<RateLimitDecision> {
+    const now = Date.now();
+
+    const blockedUntil = this.blockedUntil.get(key) || 0;
+    if (blockedUntil > now) {
+      return { allowed: false, wait_ms: blockedUntil - now };
+    }
+
+    const window = this.getWindow(key, now);
+    if (!window) {
+      this.windows.set(key, { requests: 1, tokens, resetAt: now + RATE_LIMIT_WINDOW_MS });
+      return { allowed: true, wait_ms: 0 };
+    }
+
+    const tokenLimit = limits.tokens_per_minute || 0;
+    const overTokens = tokenLimit > 0 && window.tokens > 0 && window.tokens + tokens > tokenLimit;
+    if (window.requests + 1 > limits.requests_per_minute || overTokens) {
+      return { allowed: false, wait_ms: window.resetAt - now };
+    }
+
+    window.requests++;
+    window.tokens += tokens;
+    return { allowed: true, wait_ms: 0 };
+  }
+
+  async adjustTokens(key: string, delta: number): Promise<void> {
+    const window = this.getWindow(key, Date.now());
+    if (window) {
+      window.tokens = Math.max(0, window.tokens + delta);
+    }
+  }
+
+  async block(key: string, durationMs: number): Promise<void> {
+    const until = Date.now() + durationMs;
+    this.blockedUntil.set(key, Math.max(until, this.blockedUntil.get(key) || 0));
+  }
+
+  async getUsage(key: string): Promise<RateLimitUsage> {
+    const now = Date.now();
+    const window = this.getWindow(key, now);
+
+    return {
+      requests: window?.requests || 0,
+      tokens: window?.tokens || 0,
+      reset_ms: window ? window.resetAt - now : 0,
+      blocked_ms: Math.max(0, (this.blockedUntil.get(key) || 0) - now)
+    };
+  }
+
+  private getWindow(key: string, now: number) {
+    const window = this.windows.get(key);
+    if (window && window.resetAt <= now) {
+      this.windows.delete(key);
+      return undefined;
+    }
+    return window;
+  }
+}
+
+// Atomically check both limits and consume from them. Window and block
+// expiry is left to Redis TTLs, so replicas never compare clocks.
+const ACQUIRE_SCRIPT = `
+local blockedFor = redis.call('PTTL', KEYS[2])
+if blockedFor > 0 then
+  return {0, blockedFor}
+end
+
+local maxRequests = tonumber(ARGV[1])
+local maxTokens = tonumber(ARGV[2])
+local tokens = tonumber(ARGV[3])
+local windowMs = tonumber(ARGV[4])
+
+local requests = tonumber(redis.call('HGET', KEYS[1], 'requests') or '0')
+local used = tonumber(redis.call('HGET', KEYS[1], 'tokens') or '0')
+
+if requests + 1 > maxRequests or (maxTokens > 0 and used > 0 and used + tokens > maxTokens) then
+  local ttl = redis.call('PTTL', KEYS[1])
+  if ttl < 0 then
+    ttl = windowMs
+  end
+  return {0, ttl}
+end
+
+redis.call('HINCRBY', KEYS[1], 'requests', 1)
+redis.call('HINCRBY', KEYS[1], 'tokens', tokens)
+if redis.call('PTTL', KEYS[1]) < 0 then
+  redis.call('PEXPIRE', KEYS[1], windowMs)
+end
+return {1, 0}
+`;
+
+// Only adjust a live window; usage reported after it expired belongs to no one
+const ADJUST_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  local tokens = redis.call('HINCRBY', KEYS[1], 'tokens', tonumber(ARGV[1]))
+  if tokens < 0 then
+    redis.call('HSET', KEYS[1], 'tokens', 0)
+  end
+end
+return 1
+`;
+
+interface RateLimitRedis extends Redis {
+  aiRateLimitAcquire(windowKey: string, blockKey: string, ...args: Array<string | number>): Promise<[number, number]>;
+  aiRateLimitAdjust(windowKey: string, delta: number): Promise<number>;
+}
+
+/**
+ * Counters shared by every backend replica through Redis. If Redis cannot be
+ * reached, calls fall back to in-process counters until it recovers.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private redis: RateLimitRedis;
+  private fallback = new MemoryRateLimitStore();
+  private redisFallback = new RedisFallback({
+    unavailable: 'Redis unavailable for AI rate limiting; limiting per process',
+    recovered: 'Redis reachable again; AI rate limits are shared across replicas'
+  });
+
+  constructor(redis: Redis, private prefix: string = 'ai-rate-limit') {
+    redis.defineCommand('aiRateLimitAcquire', { numberOfKeys: 2, lua: ACQUIRE_SCRIPT });
+    redis.defineCommand('aiRateLimitAdjust', { numberOfKeys: 1, lua: ADJUST_SCRIPT });
+    this.redis = redis as RateLimitRedis;
+  }
+
+  async tryAcquire(key: string, limits: RateLimits, tokens: number): Promise<RateLimitDecision> {
+    return this.redisFallback.run(
+      async () => {
+        const [allowed, waitMs] = await this.redis.aiRateLimitAcquire(
+          this.windowKey(key),
+          this.blockKey(key),
+          limits.requests_per_minute,
+          limits.tokens_per_minute || 0,
+          tokens,
+          RATE_LIMIT_WINDOW_MS
+        );
+        return { allowed: allowed === 1, wait_ms: waitMs };
+      },
+      () => this.fallback.tryAcquire(key, limits, tokens)
+    );
+  }
+
+  async adjustTokens(key: string, delta: number): Promise<void> {
+    await this.redisFallback.run(
+      async () => { await this.redis.aiRateLimitAdjust(this.windowKey(key), delta); },
+      () => this.fallback.adjustTokens(key, delta)
+    );
+  }
+
+  async block(key: string, durationMs: number): Promise<void> {
+    await this.redisFallback.run(
+      async () => {
+        // Never shorten a longer block another replica already set
+        const current = await this.redis.pttl(this.blockKey(key));
+        if (current < durationMs) {
+          await this.redis.set(this.blockKey(key), '1', 'PX', durationMs);
+        }
+      },
+      () => this.fallback.block(key, durationMs)
+    );
+  }
+
+  async getUsage(key: string): Promise<RateLimitUsage> {
+    return this.redisFallback.run(
+      async () => {
+        const [counters, resetMs, blockedMs] = await Promise.all([
+          this.redis.hgetall(this.windowKey(key)),
+          this.redis.pttl(this.windowKey(key)),
+          this.redis.pttl(this.blockKey(key))
+        ]);
+
+        return {
+          requests: parseInt(counters.requests || '0'),
+          tokens: parseInt(counters.tokens || '0'),
+          reset_ms: Math.max(0, resetMs),
+          blocked_ms: Math.max(0, blockedMs)
+        };
+      },
+      () => this.fallback.getUsage(key)
+    );
+  }
+
+  private windowKey(key: string): string {
+    return `${this.prefix}:${key}:window`;
+  }
+
+  private blockKey(key: string): string {
+    return `${this.prefix}:${key}:blocked`;
+  }
+}
+
+/**
+ * Waits for rate limit capacity on behalf of AI models. Callers for the same
+ * model are served first come, first served: a caller only competes for
+ * capacity once everyone ahead of it in this process has been let through.
+ */
+export class RateLimiter {
+  private queueTails: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    private store: RateLimitStore,
+    private options: RateLimiterOptions = DEFAULT_RATE_LIMITER_OPTIONS
+  ) {}
+
+  get maxRetries(): number {
+    return this.options.maxRetries;
+  }
+
+  get maxWaitMs(): number {
+    return this.options.maxWaitMs;
+  }
+
+  /**
+   * Wait for capacity for one request of roughly `tokens` tokens. Resolves
+   * unacquired if the wait would exceed maxWaitMs or the signal is aborted.
+   */
+  async acquire(
+    key: string,
+    limits: RateLimits,
+    tokens: number,
+    signal?: AbortSignal
+  ): Promise<RateLimitAcquireResult> {
+    const deadline = Date.now() + this.options.maxWaitMs;
+
+    // Join the back of the queue for this key
+    const ahead = this.queueTails.get(key) || Promise.resolve();
+    let leaveQueue!: () => void;
+    const turn = new Promise<void>(resolve => { leaveQueue = resolve; });
+    const tail = ahead.then(() => turn);
+    this.queueTails.set(key, tail);
+
+    try {
+      if (!await this.waitUntil(ahead, deadline, signal)) {
+        return { acquired: false, wait_ms: Math.max(0, deadline - Date.now()) };
+      }
+
+      for (;;) {
+        const decision = await this.store.tryAcquire(key, limits, tokens);
+        if (decision.allowed) {
+          return { acquired: true, wait_ms: 0 };
+        }
+
+        const waitMs = Math.max(decision.wait_ms, 50);
+        if (Date.now() + waitMs > deadline) {
+          return { acquired: false, wait_ms: waitMs };
+        }
+        if (!await this.pause(waitMs, signal)) {
+          return { acquired: false, wait_ms: waitMs };
+        }
+      }
+    } finally {
+      leaveQueue();
+      if (this.queueTails.get(key) === tail) {
+        this.queueTails.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Correct the token count once the provider reports actual usage
+   */
+  async recordUsage(key: string, estimatedTokens: number, actualTokens: number): Promise<void> {
+    if (actualTokens !== estimatedTokens) {
+      await this.store.adjustTokens(key, actualTokens - estimatedTokens);
+    }
+  }
+
+  /**
+   * Hold every caller for a model until a provider retry-after has passed
+   */
+  async block(key: string, retryAfterSeconds: number): Promise<void> {
+    await this.store.block(key, retryAfterSeconds * 1000);
+  }
+
+  async getUsage(key: string): Promise<RateLimitUsage> {
+    return this.store.getUsage(key);
+  }
+
+  /**
+   * Resolve true once `promise` settles, or false at the deadline or on abort
+   */
+  private waitUntil(promise: Promise<unknown>, deadline: number, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => finish(false), Math.max(0, deadline - Date.now()));
+      const onAbort = () => finish(false);
+      const finish = (result: boolean) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      promise.then(() => finish(true), () => finish(true));
+    });
+  }
+
+  /**
+   * Sleep for `ms`, resolving false early if the signal is aborted
+   */
+  private pause(ms: number, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve(false);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(true);
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * Share limits through Redis when it is configured, otherwise per process
+ */
+export function createDefaultRateLimiter(): RateLimiter {
+  const redis = createAIRedisClient();
+  return new RateLimiter(redis ? new RedisRateLimitStore(redis) : new MemoryRateLimitStore());
+}
+
+// Shared limiter used by every AI model, so limits hold across model instances
+export const aiRateLimiter = createDefaultRateLimiter();
@@ -0,0 +1,254 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BaseAIModel } from './BaseAIModel';
+import { hashPrompt } from './ResponseCache';
+import {
+  IAIModel,
+  AIModelConfig,
+  AIQuery,
+  AIResponse,
+  AIStreamOptions,
+  ParsedAIResponse,
+  ParseResponseOptions,
+  RateLimitInfo
+} from '../../types/ai';
+
+/**
+ * live: call providers. record: call providers and save each answer as a
+ * fixture. replay: answer from fixtures only, without API keys or network.
+ */
+export type AIProviderMode = 'live' | 'record' | 'replay';
+
+export interface AIFixtureOptions {
+  mode: AIProviderMode;
+  fixturesDir: string;
+}
+
+export interface AIFixture {
+  model_name: string;
+  provider: string;
+  prompt_hash: string;
+  request: Pick<AIQuery, 'query' | 'context' | 'temperature' | 'max_tokens'>;
+  response: AIResponse;
+  recorded_at: string;
+}
+
+function parseProviderMode(raw: string | undefined): AIProviderMode {
+  const mode = (raw || 'live').trim().toLowerCase();
+  if (mode === 'live' || mode === 'record' || mode === 'replay') {
+    return mode;
+  }
+
+  console.error(`❌ Invalid AI_PROVIDER_MODE "${raw}", using live providers`);
+  return 'live';
+}
+
+export const DEFAULT_AI_FIXTURE_OPTIONS: AIFixtureOptions = {
+  mode: parseProviderMode(process.env.AI_PROVIDER_MODE),
+  fixturesDir: path.resolve(process.env.AI_FIXTURES_DIR || 'fixtures/ai')
+};
+
+/**
+ * Recorded request/response pairs, one JSON file per model and prompt hash:
+ * `<fixturesDir>/<model>/<hash>.json`. Files are plain JSON so they can be
+ * reviewed and committed alongside the tests that use them.
+ */
+export class AIFixtureStore {
+  constructor(private fixturesDir: string) {}
+
+  getPath(modelName: string, request: AIQuery): string {
+    const modelDir = modelName.trim().toLowerCase().replace(/[^a-z0-9.-]+/g, '-');
+    return path.join(this.fixturesDir, modelDir, `${hashPrompt(modelName, request)}.json`);
+  }
+
+  async load(modelName: string, request: AIQuery): Promise<AIFixture | null> {
+    try {
+      const raw = await fs.readFile(this.getPath(modelName, request), 'utf8');
+      return JSON.parse(raw) as AIFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(modelName: string, request: AIQuery, response: AIResponse): Promise<AIFixture> {
+    const fixture: AIFixture = {
+      model_name: modelName,
+      provider: response.provider,
+      prompt_hash: hashPrompt(modelName, request),
+      request: {
+        query: request.query,
+        ...(request.context !== undefined && { context: request.context }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.max_tokens !== undefined && { max_tokens: request.max_tokens })
+      },
+      response,
+      recorded_at: new Date().toISOString()
+    };
+
+    const filePath = this.getPath(modelName, request);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+    return fixture;
+  }
+}
+
+/**
+ * Answers queries from recorded fixtures. A prompt that was never recorded
+ * fails with FIXTURE_NOT_FOUND, naming the file it looked for.
+ */
+export class ReplayModel extends BaseAIModel {
+  constructor(config: AIModelConfig, private fixtures: AIFixtureStore) {
+    super(config);
+  }
+
+  async query(request: AIQuery): Promise<AIResponse> {
+    if (!this.validateQuery(request)) {
+      throw this.createError('Invalid query parameters', 'INVALID_QUERY', 400);
+    }
+
+    const fixture = await this.fixtures.load(this.config.name, request);
+    if (!fixture) {
+      throw this.createError(
+        `No recorded response for ${this.config.name} (expected ${this.fixtures.getPath(this.config.name, request)}); ` +
+          'run with AI_PROVIDER_MODE=record to capture it',
+        'FIXTURE_NOT_FOUND',
+        404
+      );
+    }
+
+    return {
+      ...fixture.response,
+      query_id: request.id,
+      metadata: {
+        ...fixture.response.metadata,
+        ...request.metadata,
+        replayed: true
+      },
+      created_at: new Date()
+    };
+  }
+
+  async streamQuery(
+    request: AIQuery,
+    _options: AIStreamOptions = {}
+  ): Promise<AsyncGenerator<string, void, unknown>> {
+    const response = await this.query(request);
+    return this.replayTokens(response.response);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  override async checkRateLimit(): Promise<RateLimitInfo> {
+    return { requests_remaining: this.config.rate_limit_per_minute, reset_time: new Date() };
+  }
+
+  protected override requiresApiKey(): boolean {
+    return false;
+  }
+
+  // Recorded grounded answers replay with the sources they were recorded with
+  protected override supportsGrounding(): boolean {
+    return true;
+  }
+
+  // Word-sized chunks, keeping the whitespace so the joined stream matches the text
+  private async* replayTokens(text: string): AsyncGenerator<string, void, unknown> {
+    for (const token of text.match(/\S+\s*|\s+/g) || []) {
+      yield token;
+    }
+  }
+}
+
+/**
+ * Passes queries through to a live model and saves every successful answer
+ * as a fixture for ReplayModel.
+ */
+export class RecordingModel implements IAIModel {
+  constructor(private model: IAIModel, private fixtures: AIFixtureStore) {}
+
+  get config(): AIModelConfig {
+    return this.model.config;
+  }
+
+  async query(request: AIQuery): Promise<AIResponse> {
+    const response = await this.model.query(request);
+    await this.record(request, response);
+    return response;
+  }
+
+  /**
+   * Streams are recorded once they finish. Providers report no usage on
+   * streams, so these fixtures replay with zero tokens and cost.
+   */
+  async streamQuery(
+    request: AIQuery,
+    options: AIStreamOptions = {}
+  ): Promise<AsyncGenerator<string, void, unknown>> {
+    if (!this.model.streamQuery) {
+      throw new Error(`Model ${this.config.name} does not support streaming`);
+    }
+
+    const stream = await this.model.streamQuery(request, options);
+    return this.recordStream(request, stream);
+  }
+
+  parseResponse(response: AIResponse, options?: ParseResponseOptions): Promise<ParsedAIResponse> {
+    return this.model.parseResponse(response, options);
+  }
+
+  validateQuery(query: AIQuery): boolean {
+    return this.model.validateQuery(query);
+  }
+
+  estimateCost(query: AIQuery): number {
+    return this.model.estimateCost(query);
+  }
+
+  checkRateLimit(): Promise<RateLimitInfo> {
+    return this.model.checkRateLimit();
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.model.healthCheck();
+  }
+
+  private async* recordStream(
+    request: AIQuery,
+    stream: AsyncGenerator<string, void, unknown>
+  ): AsyncGenerator<string, void, unknown> {
+    const startTime = Date.now();
+    let text = '';
+
+    for await (const token of stream) {
+      text += token;
+      yield token;
+    }
+
+    await this.record(request, {
+      id: `stream-${Date.now()}`,
+      query_id: request.id,
+      model_name: this.config.name,
+      provider: this.config.provider,
+      response: text,
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      cost: 0,
+      processing_time_ms: Date.now() - startTime,
+      ...(request.metadata && { metadata: request.metadata }),
+      created_at: new Date()
+    });
+  }
+
+  // A failed write must not fail the live request it was recording
+  private async record(request: AIQuery, response: AIResponse): Promise<void> {
+    try {
+      await this.fixtures.save(this.config.name, request, response);
+    } catch (error) {
+      console.error(`❌ Failed to record fixture for ${this.config.name}:`, error);
+    }
+  }
+}
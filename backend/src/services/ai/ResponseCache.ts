@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import Redis from 'ioredis';
+import { createAIRedisClient, RedisFallback } from './redis';
+import { AIQuery, AIResponse } from '../../types/ai';
+
+export interface ResponseCacheOptions {
+  defaultTtlSeconds: number; // 0 disables caching
+  ttlByQueryType: Record<string, number>; // Overrides keyed by metadata.query_type
+}
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  deduplicated: number; // Callers that shared another caller's in-flight request
+  saved_cost: number;
+}
+
+export interface ResponseCacheStats extends CacheCounters {
+  hit_rate: number;
+  by_query_type: Record<string, CacheCounters>;
+}
+
+/**
+ * Storage for cached responses. Entries expire on their own after the TTL
+ * they were stored with.
+ */
+export interface ResponseCacheStore {
+  get(key: string): Promise<AIResponse | null>;
+  set(key: string, response: AIResponse, ttlMs: number): Promise<void>;
+}
+
+/**
+ * Hash of everything that determines a model's answer: the model, the prompt,
+ * temperature and max_tokens, plus the sample slot for repeat samples. Request
+ * ids and metadata are left out.
+ */
+export function hashPrompt(modelName: string, request: AIQuery): string {
+  const parts: unknown[] = [
+    modelName,
+    request.context ?? null,
+    request.query,
+    request.temperature ?? null,
+    request.max_tokens ?? null
+  ];
+  // The first sample shares its key with single-sample runs
+  if (request.sample_index) {
+    parts.push(request.sample_index);
+  }
+  return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+/**
+ * Parse AI_CACHE_TTLS, a JSON object mapping a query type to a TTL in
+ * seconds, e.g. {"news": 900, "financial": 86400}
+ */
+function parseTtlOverrides(raw: string | undefined): Record<string, number> {
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const ttls: Record<string, number> = {};
+    for (const [queryType, ttl] of Object.entries(parsed)) {
+      if (typeof ttl === 'number' && ttl >= 0) {
+        ttls[queryType] = ttl;
+      }
+    }
+    return ttls;
+  } catch (error) {
+    console.error('❌ Invalid AI_CACHE_TTLS configuration:', error);
+    return {};
+  }
+}
+
+export const DEFAULT_RESPONSE_CACHE_OPTIONS: ResponseCacheOptions = {
+  defaultTtlSeconds: parseInt(process.env.AI_CACHE_TTL_SECONDS || '3600'),
+  ttlByQueryType: parseTtlOverrides(process.env.AI_CACHE_TTLS)
+};
+
+/**
+ * In-process cache. Used when no Redis is configured, and as the fallback
+ * while Redis is unreachable. The oldest entries are evicted past `maxEntries`.
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  private entries: Map<string, { response: AIResponse; expiresAt: number }> = new Map();
+
+  constructor(private maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<AIResponse | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.response;
+  }
+
+  async set(key: string, response: AIResponse, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { response, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Responses shared by every backend replica through Redis. If Redis cannot be
+ * reached, calls fall back to an in-process cache until it recovers.
+ */
+export class RedisResponseCacheStore implements ResponseCacheStore {
+  private fallback = new MemoryResponseCacheStore();
+  private redisFallback = new RedisFallback({
+    unavailable: 'Redis unavailable for AI response caching; caching per process',
+    recovered: 'Redis reachable again; AI responses are cached across replicas'
+  });
+
+  constructor(private redis: Redis, private prefix: string = 'ai-response-cache') {}
+
+  async get(key: string): Promise<AIResponse | null> {
+    return this.redisFallback.run(
+      async () => {
+        const raw = await this.redis.get(`${this.prefix}:${key}`);
+        if (!raw) {
+          return null;
+        }
+
+        const response = JSON.parse(raw) as AIResponse;
+        return { ...response, created_at: new Date(response.created_at) };
+      },
+      () => this.fallback.get(key)
+    );
+  }
+
+  async set(key: string, response: AIResponse, ttlMs: number): Promise<void> {
+    await this.redisFallback.run(
+      async () => { await this.redis.set(`${this.prefix}:${key}`, JSON.stringify(response), 'PX', ttlMs); },
+      () => this.fallback.set(key, response, ttlMs)
+    );
+  }
+}
+
+/**
+ * Content-addressed cache of AI responses, keyed on model, prompt,
+ * temperature and max_tokens. Concurrent identical requests share one
+ * provider call. Hit and miss counts are kept per process.
+ */
+export class ResponseCache {
+  private inFlight: Map<string, Promise<{ response: AIResponse; cached: boolean }>> = new Map();
+  private counters: Map<string, CacheCounters> = new Map();
+
+  constructor(
+    private store: ResponseCacheStore,
+    private options: ResponseCacheOptions = DEFAULT_RESPONSE_CACHE_OPTIONS
+  ) {}
+
+  /**
+   * TTL in seconds for a query type; 0 means responses are not cached
+   */
+  getTtlSeconds(queryType?: string): number {
+    if (queryType && queryType in this.options.ttlByQueryType) {
+      return this.options.ttlByQueryType[queryType] || 0;
+    }
+    return this.options.defaultTtlSeconds;
+  }
+
+  buildKey(modelName: string, request: AIQuery): string {
+    return hashPrompt(modelName, request);
+  }
+
+  /**
+   * Return a cached or in-flight response for an identical request, or call
+   * `fetch` and cache its result. Hits are returned with a zero cost, since
+   * no provider call was made for them.
+   */
+  async getOrFetch(
+    modelName: string,
+    request: AIQuery,
+    fetch: () => Promise<AIResponse>
+  ): Promise<AIResponse> {
+    const queryType = typeof request.metadata?.query_type === 'string'
+      ? request.metadata.query_type
+      : 'other';
+    const ttlSeconds = this.getTtlSeconds(queryType);
+    if (ttlSeconds <= 0) {
+      return fetch();
+    }
+
+    const key = this.buildKey(modelName, request);
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      const shared = await pending;
+      this.count(queryType, shared.cached ? 'hits' : 'deduplicated', shared.response.cost);
+      return this.asHit(shared.response, request);
+    }
+
+    // Registered before the store lookup so concurrent callers share it too
+    const lookup = this.lookupOrFetch(key, ttlSeconds, fetch);
+    this.inFlight.set(key, lookup);
+
+    try {
+      const { response, cached } = await lookup;
+      this.count(queryType, cached ? 'hits' : 'misses', cached ? response.cost : 0);
+      return cached ? this.asHit(response, request) : response;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  getStats(): ResponseCacheStats {
+    const totals: CacheCounters = { hits: 0, misses: 0, deduplicated: 0, saved_cost: 0 };
+    const byQueryType: Record<string, CacheCounters> = {};
+
+    for (const [queryType, counters] of this.counters) {
+      byQueryType[queryType] = { ...counters };
+      totals.hits += counters.hits;
+      totals.misses += counters.misses;
+      totals.deduplicated += counters.deduplicated;
+      totals.saved_cost += counters.saved_cost;
+    }
+
+    const served = totals.hits + totals.deduplicated;
+    const requests = served + totals.misses;
+
+    return {
+      ...totals,
+      hit_rate: requests > 0 ? served / requests : 0,
+      by_query_type: byQueryType
+    };
+  }
+
+  resetStats(): void {
+    this.counters.clear();
+  }
+
+  private async lookupOrFetch(
+    key: string,
+    ttlSeconds: number,
+    fetch: () => Promise<AIResponse>
+  ): Promise<{ response: AIResponse; cached: boolean }> {
+    const cached = await this.store.get(key);
+    if (cached) {
+      return { response: cached, cached: true };
+    }
+
+    const response = await fetch();
+    // A fallback model's answer must not be served as the requested model's
+    if (!response.metadata?.fallback_from) {
+      await this.store.set(key, response, ttlSeconds * 1000);
+    }
+    return { response, cached: false };
+  }
+
+  private count(queryType: string, outcome: 'hits' | 'misses' | 'deduplicated', savedCost: number): void {
+    let counters = this.counters.get(queryType);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, deduplicated: 0, saved_cost: 0 };
+      this.counters.set(queryType, counters);
+    }
+
+    counters[outcome]++;
+    counters.saved_cost += savedCost;
+  }
+
+  private asHit(response: AIResponse, request: AIQuery): AIResponse {
+    return {
+      ...response,
+      query_id: request.id,
+      cost: 0,
+      metadata: {
+        ...response.metadata,
+        ...request.metadata,
+        cached: true,
+        cached_response_id: response.id
+      }
+    };
+  }
+}
+
+/**
+ * Share cached responses through Redis when it is configured, otherwise per process
+ */
+export function createDefaultResponseCache(): ResponseCache {
+  const redis = createAIRedisClient();
+  return new ResponseCache(redis ? new RedisResponseCacheStore(redis) : new MemoryResponseCacheStore());
+}
+
+// Shared cache used by every AIModelManager, so identical prompts from
+// monitoring and competitive analysis are answered once
+export const aiResponseCache = createDefaultResponseCache();
@@ -0,0 +1,53 @@
+import Redis from 'ioredis';
+
+export interface RedisFallbackMessages {
+  unavailable: string; // Logged once when Redis stops answering
+  recovered: string; // Logged once when it answers again
+}
+
+/**
+ * Redis client for the AI stores, or null when no Redis is configured. It
+ * connects on first use and gives up on a command after one retry, so an
+ * unreachable Redis sends callers to their fallback quickly.
+ */
+export function createAIRedisClient(): Redis | null {
+  if (!process.env.REDIS_URL && !process.env.REDIS_HOST) {
+    return null;
+  }
+
+  const redisOptions = { lazyConnect: true, maxRetriesPerRequest: 1 };
+  return process.env.REDIS_URL
+    ? new Redis(process.env.REDIS_URL, redisOptions)
+    : new Redis({
+        host: process.env.REDIS_HOST,
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        ...redisOptions
+      });
+}
+
+/**
+ * Runs Redis operations, answering from an in-process fallback while Redis
+ * is unreachable. Each outage and recovery is logged once, not per call.
+ */
+export class RedisFallback {
+  private usingFallback = false;
+
+  constructor(private messages: RedisFallbackMessages) {}
+
+  async run<T>(operation: () => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+    try {
+      const result = await operation();
+      if (this.usingFallback) {
+        console.log(`✅ ${this.messages.recovered}`);
+        this.usingFallback = false;
+      }
+      return result;
+    } catch (error) {
+      if (!this.usingFallback) {
+        console.warn(`⚠️  ${this.messages.unavailable}:`, error);
+        this.usingFallback = true;
+      }
+      return fallback();
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { StringDecoder } from 'string_decoder';
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parse a Server-Sent Events byte stream into events.
+ *
+ * Follows the WHATWG event-stream rules the providers rely on: events end at a
+ * blank line, multiple `data:` lines are joined with newlines, lines may end in
+ * LF, CRLF or CR, comment lines start with `:`, and one leading space after the
+ * field colon is dropped. Chunk boundaries may fall anywhere, including inside
+ * a multi-byte UTF-8 character or between the CR and LF of a line ending.
+ * Unlike a browser, a final event without its closing blank line is still
+ * delivered, since some proxies drop the trailing newline.
+ */
+export async function* parseSSEStream(
+  stream: AsyncIterable<Buffer | string>
+): AsyncGenerator<SSEEvent, void, unknown> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+
+  const dispatch = (): SSEEvent | null => {
+    if (dataLines.length === 0) {
+      eventType = '';
+      return null;
+    }
+
+    const event: SSEEvent = {
+      event: eventType || 'message',
+      data: dataLines.join('\n'),
+      ...(lastEventId !== undefined && { id: lastEventId })
+    };
+    eventType = '';
+    dataLines = [];
+    return event;
+  };
+
+  const processLine = (line: string): SSEEvent | null => {
+    if (line === '') {
+      return dispatch();
+    }
+    if (line.startsWith(':')) {
+      return null; // Comment / keep-alive
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        lastEventId = value;
+        break;
+      default:
+        // retry and unknown fields are ignored
+        break;
+    }
+    return null;
+  };
+
+  for await (const chunk of stream) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+    let lineEnd: number;
+    while ((lineEnd = buffer.search(/\r\n|\r|\n/)) !== -1) {
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (buffer[lineEnd] === '\r' && lineEnd === buffer.length - 1) {
+        break;
+      }
+
+      const line = buffer.slice(0, lineEnd);
+      const separatorLength = buffer.startsWith('\r\n', lineEnd) ? 2 : 1;
+      buffer = buffer.slice(lineEnd + separatorLength);
+
+      const event = processLine(line);
+      if (event) {
+        yield event;
+      }
+    }
+  }
+
+  // Flush whatever the server sent without a closing blank line
+  buffer += decoder.end();
+  for (const line of buffer.split(/\r\n|\r|\n/)) {
+    const event = processLine(line);
+    if (event) {
+      yield event;
+    }
+  }
+  const trailing = dispatch();
+  if (trailing) {
+    yield trailing;
+  }
+}
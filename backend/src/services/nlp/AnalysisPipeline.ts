@@ -0,0 +1,107 @@
+import { IAIModel, IResponseAnalyzer, AnalysisTargets, ResponseAnalysis } from '../../types/ai';
+import { lexiconAnalyzer } from './LexiconAnalyzer';
+import { LLMJudgeAnalyzer } from './LLMJudgeAnalyzer';
+import { LocalModelAnalyzer } from './LocalModelAnalyzer';
+
+/**
+ * lexicon: word lists with negation handling. llm_judge: a configured model
+ * grades sentiment. local: a self-hosted sentiment classifier.
+ */
+export type ResponseAnalyzerKind = 'lexicon' | 'llm_judge' | 'local';
+
+export interface ResponseAnalysisOptions {
+  analyzer: ResponseAnalyzerKind;
+  judgeModel?: string; // Model name for llm_judge
+  localModelUrl?: string;
+  localModelName?: string;
+}
+
+function parseAnalyzerKind(raw: string | undefined): ResponseAnalyzerKind {
+  const kind = (raw || 'lexicon').trim().toLowerCase();
+  if (kind === 'lexicon' || kind === 'llm_judge' || kind === 'local') {
+    return kind;
+  }
+
+  console.error(`❌ Invalid NLP_ANALYZER "${raw}", using the lexicon analyzer`);
+  return 'lexicon';
+}
+
+export const DEFAULT_RESPONSE_ANALYSIS_OPTIONS: ResponseAnalysisOptions = {
+  analyzer: parseAnalyzerKind(process.env.NLP_ANALYZER),
+  ...(process.env.NLP_JUDGE_MODEL && { judgeModel: process.env.NLP_JUDGE_MODEL }),
+  ...(process.env.NLP_LOCAL_MODEL_URL && { localModelUrl: process.env.NLP_LOCAL_MODEL_URL }),
+  localModelName: process.env.NLP_LOCAL_MODEL_NAME || 'local-sentiment'
+};
+
+/**
+ * Runs analyzers in order until one succeeds, so a judge model outage or a
+ * malformed verdict degrades to the next analyzer instead of failing the
+ * parse. The result carries the version of the analyzer that produced it.
+ */
+export class AnalysisPipeline implements IResponseAnalyzer {
+  readonly name = 'pipeline';
+
+  constructor(private analyzers: IResponseAnalyzer[]) {
+    if (analyzers.length === 0) {
+      throw new Error('An analysis pipeline needs at least one analyzer');
+    }
+  }
+
+  get version(): string {
+    return this.analyzers[0]!.version;
+  }
+
+  getAnalyzers(): IResponseAnalyzer[] {
+    return [...this.analyzers];
+  }
+
+  async analyze(text: string, targets: AnalysisTargets): Promise<ResponseAnalysis> {
+    let lastError: unknown;
+
+    for (const analyzer of this.analyzers) {
+      try {
+        return await analyzer.analyze(text, targets);
+      } catch (error) {
+        lastError = error;
+        console.error(`${analyzer.name} analyzer failed, trying the next one:`, error);
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+/**
+ * Build the configured pipeline, always ending with the lexicon analyzer.
+ * `getModel` looks up the judge among the loaded models; a judge or local
+ * model that is not available leaves the lexicon analyzer on its own.
+ */
+export function createAnalysisPipeline(
+  options: ResponseAnalysisOptions,
+  getModel: (modelName: string) => IAIModel | undefined
+): AnalysisPipeline {
+  const analyzers: IResponseAnalyzer[] = [];
+
+  if (options.analyzer === 'llm_judge') {
+    const judge = options.judgeModel ? getModel(options.judgeModel) : undefined;
+    if (judge) {
+      analyzers.push(new LLMJudgeAnalyzer(judge));
+    } else {
+      console.warn(`Sentiment judge model ${options.judgeModel || '(unset)'} is not available, using the lexicon analyzer`);
+    }
+  }
+
+  if (options.analyzer === 'local') {
+    if (options.localModelUrl) {
+      analyzers.push(new LocalModelAnalyzer({
+        endpoint: options.localModelUrl,
+        modelName: options.localModelName || 'local-sentiment'
+      }));
+    } else {
+      console.warn('NLP_LOCAL_MODEL_URL is not set, using the lexicon analyzer');
+    }
+  }
+
+  analyzers.push(lexiconAnalyzer);
+  return new AnalysisPipeline(analyzers);
+}
@@ -0,0 +1,38 @@
+import { MentionAspect } from '../../types/ai';
+
+// Whole-word cues for each aspect, case-insensitive
+const ASPECT_PATTERNS: Record<MentionAspect, RegExp> = {
+  pricing: /\b(?:price[sd]?|pricing|costs?|costly|expensive|cheap(?:er)?|affordable|overpriced|subscriptions?|fees?|licen[cs]ing|free tier|value for money)\b/i,
+  support: /\b(?:support|customer service|help ?desk|documentation|docs|onboarding|account managers?|response times?)\b/i,
+  reliability: /\b(?:reliable|reliability|unreliable|uptime|outages?|downtime|stable|stability|unstable|crash(?:es|ing)?|bugs?|buggy)\b/i,
+  security: /\b(?:secure|security|insecure|breach(?:es)?|privacy|encryption|encrypted|compliance|compliant|vulnerabilit(?:y|ies)|soc ?2|gdpr|hipaa|sso)\b/i,
+  features: /\b(?:features?|functionality|integrations?|integrates|automation|reporting|dashboards?|api|customi[sz]ation|workflows?)\b/i,
+  performance: /\b(?:fast(?:er)?|slow(?:er)?|speed|performance|latency|scalab(?:le|ility)|laggy|lag)\b/i,
+  usability: /\b(?:easy to use|ease of use|intuitive|user-friendly|learning curve|interface|ui|ux|usability|complicated|clunky)\b/i
+};
+
+// Clause boundaries, so "cheap but unreliable" gives each aspect its own text
+const CLAUSE_BOUNDARY = /[;,]|\s+(?:but|however|although|though|while|whereas)\s+/i;
+
+/**
+ * Finds which aspects (pricing, support, ...) a piece of text discusses, and
+ * the clauses that discuss each one
+ */
+export class AspectExtraction {
+  static findAspects(text: string): Array<{ aspect: MentionAspect; evidence: string }> {
+    const clauses = text
+      .split(CLAUSE_BOUNDARY)
+      .map(clause => clause.trim())
+      .filter(clause => clause.length > 0);
+
+    const aspects: Array<{ aspect: MentionAspect; evidence: string }> = [];
+    for (const [aspect, pattern] of Object.entries(ASPECT_PATTERNS) as Array<[MentionAspect, RegExp]>) {
+      const evidence = clauses.filter(clause => pattern.test(clause));
+      if (evidence.length > 0) {
+        aspects.push({ aspect, evidence: evidence.join('; ') });
+      }
+    }
+
+    return aspects;
+  }
+}
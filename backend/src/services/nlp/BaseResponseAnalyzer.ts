@@ -0,0 +1,194 @@
+import {
+  IResponseAnalyzer,
+  AnalysisTargets,
+  ResponseAnalysis,
+  BrandMention,
+  MentionAspectScore,
+  SentimentScore
+} from '../../types/ai';
+import { RankingExtraction } from '../RankingExtraction';
+import { AspectExtraction } from './AspectExtraction';
+
+export interface AnalysisPassage {
+  text: string;
+  entity?: string; // Score the sentiment toward this name rather than the passage overall
+}
+
+const TOPICS = [
+  'technology', 'business', 'finance', 'marketing', 'innovation',
+  'product', 'service', 'customer', 'market', 'industry',
+  'growth', 'revenue', 'profit', 'investment', 'partnership',
+  'leadership', 'strategy', 'competition', 'brand', 'reputation'
+];
+
+const ORGANIZATION_PATTERN = /\b[A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)*\s+(?:Inc|Corp|LLC|Ltd|Company|Corporation)\b/g;
+
+/**
+ * Shared analysis flow: mentions are found by name, then each mention's
+ * sentence, the clauses about each of its aspects and the whole answer are
+ * scored in one batch by the subclass. Topics and entities are the same for
+ * every analyzer.
+ */
+export abstract class BaseResponseAnalyzer implements IResponseAnalyzer {
+  abstract readonly name: string;
+  abstract readonly version: string;
+
+  async analyze(text: string, targets: AnalysisTargets): Promise<ResponseAnalysis> {
+    const mentions = this.locateMentions(text, this.targetNames(targets));
+    const mentionAspects = mentions.map(mention => AspectExtraction.findAspects(mention.context));
+
+    // Mentions, then each mention's aspects, then the whole answer, in one batch
+    const passages: AnalysisPassage[] = [
+      ...mentions.map(mention => ({ text: mention.context, entity: mention.brand_name })),
+      ...mentions.flatMap((mention, index) => mentionAspects[index]!.map(aspect => ({
+        text: aspect.evidence,
+        entity: mention.brand_name
+      }))),
+      { text }
+    ];
+
+    const scores = await this.scorePassages(passages);
+    if (scores.length !== passages.length) {
+      throw new Error(`${this.name} analyzer scored ${scores.length} of ${passages.length} passages`);
+    }
+    const overall = scores[scores.length - 1]!;
+    let aspectOffset = mentions.length;
+
+    return {
+      brand_mentions: mentions.map((mention, index) => {
+        const aspects = mentionAspects[index]!.map(aspect => this.toAspectScore(aspect, scores[aspectOffset++]!));
+        return {
+          ...mention,
+          sentiment_score: scores[index]!.score,
+          sentiment_label: scores[index]!.label,
+          confidence: scores[index]!.confidence,
+          analyzer_version: this.version,
+          ...(aspects.length > 0 && { aspects })
+        };
+      }),
+      sentiment_analysis: {
+        overall_sentiment: overall.score,
+        sentiment_label: overall.label,
+        confidence: overall.confidence
+      },
+      topics: this.extractTopics(text),
+      entities: this.extractEntities(text, targets),
+      analyzer_version: this.version
+    };
+  }
+
+  /**
+   * Aspects discussed in a piece of text, each scored on its own clauses.
+   * For mentions found outside a parsed response, such as in conversations.
+   */
+  async extractAspects(text: string, entity?: string): Promise<MentionAspectScore[]> {
+    const aspects = AspectExtraction.findAspects(text);
+    if (aspects.length === 0) {
+      return [];
+    }
+
+    const scores = await this.scorePassages(aspects.map(aspect => ({
+      text: aspect.evidence,
+      ...(entity && { entity })
+    })));
+    if (scores.length !== aspects.length) {
+      throw new Error(`${this.name} analyzer scored ${scores.length} of ${aspects.length} aspects`);
+    }
+
+    return aspects.map((aspect, index) => this.toAspectScore(aspect, scores[index]!));
+  }
+
+  /**
+   * Score every passage, in order
+   */
+  protected abstract scorePassages(passages: AnalysisPassage[]): Promise<SentimentScore[]>;
+
+  /**
+   * Clamp a raw score and label it
+   */
+  protected toSentimentScore(score: number, confidence: number): SentimentScore {
+    const clamped = Math.max(-1, Math.min(1, score));
+    let label: SentimentScore['label'] = 'neutral';
+    if (clamped > 0.05) label = 'positive';
+    else if (clamped < -0.05) label = 'negative';
+
+    return {
+      score: Math.round(clamped * 100) / 100,
+      label,
+      confidence: Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100
+    };
+  }
+
+  protected splitSentences(text: string): string[] {
+    return text
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private toAspectScore(aspect: Pick<MentionAspectScore, 'aspect' | 'evidence'>, score: SentimentScore): MentionAspectScore {
+    return {
+      aspect: aspect.aspect,
+      evidence: aspect.evidence,
+      sentiment_score: score.score,
+      sentiment_label: score.label,
+      confidence: score.confidence
+    };
+  }
+
+  /**
+   * One mention per target name per sentence, whole-word and case-insensitive
+   */
+  private locateMentions(
+    text: string,
+    names: string[]
+  ): Array<Pick<BrandMention, 'brand_name' | 'mention_text' | 'context' | 'position_in_response'>> {
+    const mentions: Array<Pick<BrandMention, 'brand_name' | 'mention_text' | 'context' | 'position_in_response'>> = [];
+
+    this.splitSentences(text).forEach((sentence, index) => {
+      for (const name of names) {
+        if (RankingExtraction.mentions(sentence, name)) {
+          mentions.push({
+            brand_name: name,
+            mention_text: name,
+            context: sentence,
+            position_in_response: index
+          });
+        }
+      }
+    });
+
+    return mentions;
+  }
+
+  private targetNames(targets: AnalysisTargets): string[] {
+    const names = [targets.brand_name, ...(targets.competitors || [])]
+      .filter((name): name is string => Boolean(name && name.trim()));
+    return Array.from(new Set(names));
+  }
+
+  private extractTopics(text: string): string[] {
+    const words = text.toLowerCase().split(/\W+/).filter(word => word.length > 0);
+
+    return TOPICS
+      .map(topic => ({ topic, count: words.filter(word => word.startsWith(topic)).length }))
+      .filter(({ count }) => count > 0)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5)
+      .map(({ topic }) => topic);
+  }
+
+  private extractEntities(text: string, targets: AnalysisTargets): ResponseAnalysis['entities'] {
+    const entities: ResponseAnalysis['entities'] = this.targetNames(targets)
+      .filter(name => RankingExtraction.mentions(text, name))
+      .map(name => ({ name, type: 'BRAND', confidence: 0.95 }));
+
+    for (const organization of text.match(ORGANIZATION_PATTERN) || []) {
+      if (!entities.some(entity => entity.name === organization)) {
+        entities.push({ name: organization, type: 'ORGANIZATION', confidence: 0.8 });
+      }
+    }
+
+    return entities;
+  }
+}
@@ -0,0 +1,70 @@
+import { IAIModel, SentimentScore } from '../../types/ai';
+import { AnalysisPassage, BaseResponseAnalyzer } from './BaseResponseAnalyzer';
+
+const MAX_PASSAGE_LENGTH = 600;
+const MAX_ANSWER_LENGTH = 4000; // The whole answer is the last passage
+
+/**
+ * Asks a configured model to grade sentiment, one batched request per answer.
+ * The judge is called directly, so it is rate limited but not cached.
+ */
+export class LLMJudgeAnalyzer extends BaseResponseAnalyzer {
+  readonly name = 'llm_judge';
+  readonly version: string;
+
+  constructor(private model: IAIModel) {
+    super();
+    this.version = `llm-judge-1.0:${model.config.name}`;
+  }
+
+  protected async scorePassages(passages: AnalysisPassage[]): Promise<SentimentScore[]> {
+    const response = await this.model.query({
+      id: `sentiment-judge-${Date.now()}`,
+      brand_id: 'sentiment-judge',
+      query: this.buildPrompt(passages),
+      temperature: 0,
+      max_tokens: 200 + passages.length * 40
+    });
+
+    return this.parseScores(response.response, passages.length);
+  }
+
+  private buildPrompt(passages: AnalysisPassage[]): string {
+    const lines = passages.map((passage, index) => {
+      const limit = index === passages.length - 1 ? MAX_ANSWER_LENGTH : MAX_PASSAGE_LENGTH;
+      const target = passage.entity ? `toward "${passage.entity}"` : 'overall';
+      return `[${index + 1}] (sentiment ${target}) ${passage.text.slice(0, limit).replace(/\s+/g, ' ')}`;
+    });
+
+    return [
+      'Rate the sentiment of each numbered passage. Where a name is given, rate the',
+      'sentiment toward that name only. Negation and sarcasm count; facts with no',
+      'opinion are neutral.',
+      '',
+      ...lines,
+      '',
+      'Reply with JSON only, one entry per passage:',
+      '{"scores": [{"id": 1, "score": <-1 to 1>, "confidence": <0 to 1>}]}'
+    ].join('\n');
+  }
+
+  private parseScores(text: string, expected: number): SentimentScore[] {
+    const json = /\{[\s\S]*\}/.exec(text);
+    if (!json) {
+      throw new Error('Sentiment judge did not return JSON');
+    }
+
+    const parsed = JSON.parse(json[0]) as { scores?: Array<{ id?: number; score?: number; confidence?: number }> };
+    const scores: SentimentScore[] = [];
+    for (let id = 1; id <= expected; id++) {
+      const entry = (parsed.scores || []).find(candidate => Number(candidate.id) === id);
+      if (!entry || !Number.isFinite(Number(entry.score))) {
+        throw new Error(`Sentiment judge returned no score for passage ${id}`);
+      }
+      const confidence = Number(entry.confidence);
+      scores.push(this.toSentimentScore(Number(entry.score), Number.isFinite(confidence) ? confidence : 0.7));
+    }
+
+    return scores;
+  }
+}
@@ -0,0 +1,107 @@
+import { SentimentScore } from '../../types/ai';
+import { AnalysisPassage, BaseResponseAnalyzer } from './BaseResponseAnalyzer';
+
+// Word valences from -3 (most negative) to 3 (most positive)
+const LEXICON: Record<string, number> = {
+  // Positive
+  excellent: 3, great: 3, best: 3, amazing: 2.8, outstanding: 2.8, love: 2.9,
+  wonderful: 2.7, perfect: 2.7, fantastic: 2.6, impressive: 2.4, successful: 2.1,
+  innovative: 2, reliable: 2, good: 1.9, trusted: 1.8, helpful: 1.8, satisfied: 1.8,
+  easy: 1.5, intuitive: 1.6, powerful: 1.6, efficient: 1.6, recommend: 1.5,
+  recommended: 1.5, robust: 1.5, strong: 1.5, secure: 1.5, affordable: 1.5,
+  responsive: 1.5, solid: 1.4, popular: 1.3, flexible: 1.3, fast: 1.2, leading: 1.2,
+  // Negative
+  terrible: -3, awful: -3, horrible: -3, worst: -3, hate: -2.7, bad: -2.5,
+  breach: -2.5, scandal: -2.5, unreliable: -2.2, disappointing: -2.2, poor: -2,
+  failed: -2, failure: -2, overpriced: -2, buggy: -2, insecure: -2, outage: -2,
+  lawsuit: -2, problematic: -1.8, complaints: -1.8, criticized: -1.8, outdated: -1.5,
+  problem: -1.5, problems: -1.5, lacking: -1.5, concerning: -1.5, difficult: -1.4,
+  slow: -1.3, complicated: -1.3, expensive: -1.2, issues: -1.2, concerns: -1.2,
+  limited: -1
+};
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor',
+  'without', 'hardly', 'barely', 'cannot', 'lack', 'lacks'
+]);
+
+// How much a preceding modifier scales the next word's valence
+const MODIFIERS: Record<string, number> = {
+  extremely: 0.4, incredibly: 0.4, very: 0.3, really: 0.3, highly: 0.3, so: 0.2,
+  slightly: -0.3, somewhat: -0.2, fairly: -0.15
+};
+
+const NEGATION_SCOPE = 3; // Words after a negator that it flips
+const NEGATION_FACTOR = -0.74;
+const NORMALIZATION_ALPHA = 15;
+
+/**
+ * Word-list sentiment that reads negation ("not reliable"), intensifiers
+ * ("very slow") and contrast ("good UI, but slow support" leans on the part
+ * after "but"). Runs locally with no model or network.
+ */
+export class LexiconAnalyzer extends BaseResponseAnalyzer {
+  readonly name = 'lexicon';
+  readonly version = 'lexicon-1.0';
+
+  /**
+   * Score one piece of text
+   */
+  scoreText(text: string): SentimentScore {
+    let sum = 0;
+    let hits = 0;
+
+    for (const sentence of this.splitSentences(text)) {
+      const tokens: string[] = sentence.toLowerCase().replace(/’/g, '\'').match(/[a-z']+|[,;:]/g) || [];
+      const butAt = tokens.indexOf('but');
+
+      tokens.forEach((token, index) => {
+        let valence = LEXICON[token];
+        if (valence === undefined) {
+          return;
+        }
+        hits++;
+
+        const modifier = MODIFIERS[tokens[index - 1] || ''];
+        if (modifier !== undefined) {
+          valence *= 1 + modifier;
+        }
+        if (this.isNegated(tokens, index)) {
+          valence *= NEGATION_FACTOR;
+        }
+        if (butAt !== -1) {
+          valence *= index < butAt ? 0.5 : 1.5;
+        }
+
+        sum += valence;
+      });
+    }
+
+    const score = sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+    // No sentiment words is weak evidence of neutrality, not certainty
+    const confidence = hits === 0 ? 0.5 : Math.min(0.95, 0.55 + hits * 0.1);
+
+    return this.toSentimentScore(score, confidence);
+  }
+
+  protected async scorePassages(passages: AnalysisPassage[]): Promise<SentimentScore[]> {
+    return passages.map(passage => this.scoreText(passage.text));
+  }
+
+  // A negator within the few words before, without punctuation in between
+  private isNegated(tokens: string[], index: number): boolean {
+    for (let back = 1; back <= NEGATION_SCOPE && index - back >= 0; back++) {
+      const token = tokens[index - back]!;
+      if (/^[,;:]$/.test(token)) {
+        return false;
+      }
+      if (NEGATORS.has(token) || token.endsWith('n\'t')) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+// Shared default for parsing when no other analyzer is configured
+export const lexiconAnalyzer = new LexiconAnalyzer();
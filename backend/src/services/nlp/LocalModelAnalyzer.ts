@@ -0,0 +1,60 @@
+import axios from 'axios';
+import { SentimentScore } from '../../types/ai';
+import { AnalysisPassage, BaseResponseAnalyzer } from './BaseResponseAnalyzer';
+
+export interface LocalModelOptions {
+  endpoint: string; // Text-classification server, e.g. a self-hosted Hugging Face model
+  modelName: string;
+  timeoutMs?: number;
+}
+
+interface ClassifierLabel {
+  label: string;
+  score: number;
+}
+
+/**
+ * Scores passages with a sentiment classifier served on our own hardware,
+ * using the Hugging Face text-classification request format
+ * (`{"inputs": [...]}` in, label probabilities out). Works with two-label
+ * (POSITIVE/NEGATIVE) and three-label models, including LABEL_0..2 output.
+ */
+export class LocalModelAnalyzer extends BaseResponseAnalyzer {
+  readonly name = 'local';
+  readonly version: string;
+
+  constructor(private options: LocalModelOptions) {
+    super();
+    this.version = `local-1.0:${options.modelName}`;
+  }
+
+  protected async scorePassages(passages: AnalysisPassage[]): Promise<SentimentScore[]> {
+    const response = await axios.post(
+      this.options.endpoint,
+      { inputs: passages.map(passage => passage.text), options: { wait_for_model: true } },
+      { timeout: this.options.timeoutMs || 30000 }
+    );
+
+    const results = response.data;
+    if (!Array.isArray(results) || results.length !== passages.length) {
+      throw new Error(`Local sentiment model returned ${Array.isArray(results) ? results.length : 0} results for ${passages.length} passages`);
+    }
+
+    return results.map((result: ClassifierLabel | ClassifierLabel[]) => this.toScore(Array.isArray(result) ? result : [result]));
+  }
+
+  private toScore(labels: ClassifierLabel[]): SentimentScore {
+    let positive = 0;
+    let negative = 0;
+    for (const { label, score } of labels) {
+      const name = label.toLowerCase();
+      // LABEL_1 is positive for two-label models and neutral for three-label ones
+      if (name.startsWith('pos') || name === 'label_2' || (name === 'label_1' && labels.length === 2)) positive = score;
+      else if (name.startsWith('neg') || name === 'label_0') negative = score;
+    }
+
+    // Top-1 output only carries the winning label, which is still the confidence
+    const confidence = Math.max(...labels.map(label => label.score));
+    return this.toSentimentScore(positive - negative, confidence);
+  }
+}
@@ -3,14 +3,18 @@
 export interface AIModelConfig {
   id: string;
   name: string;
-  provider: 'openai' | 'anthropic' | 'gemini';
+  provider: string; // Any name registered with the ProviderRegistry
   model_version: string;
   api_endpoint: string;
   api_key: string;
   rate_limit_per_minute: number;
-  cost_per_request: number;
+  tokens_per_minute?: number;
+  cost_per_request: number; // Blended price per 1k tokens, used when no split pricing is set
+  input_cost_per_1k_tokens?: number;
+  output_cost_per_1k_tokens?: number;
   max_tokens?: number;
   temperature?: number;
+  grounded?: boolean; // Query with the provider's web search tool turned on
 }
 
 export interface AIQuery {
@@ -20,6 +24,7 @@ export interface AIQuery {
   context?: string;
   max_tokens?: number;
   temperature?: number;
+  sample_index?: number; // Repeat samples of one prompt are cached and recorded separately
   metadata?: Record<string, any>;
 }
 
@@ -37,10 +42,15 @@ export interface AIResponse {
   cost: number;
   processing_time_ms: number;
   confidence_score?: number;
+  grounded?: boolean; // Answered with web search turned on
+  sources?: Citation[]; // Pages the search tool returned
   metadata?: Record<string, any>;
   created_at: Date;
 }
 
+// Where a citation came from: a URL in the answer, or the provider's search tool
+export type CitationSource = 'text' | 'search';
+
 export interface Citation {
   url: string;
   title?: string;
@@ -50,6 +60,7 @@ export interface Citation {
   relevance_score?: number;
   content_type?: string;
   publish_date?: Date;
+  source?: CitationSource;
 }
 
 export interface BrandMention {
@@ -60,6 +71,29 @@ export interface BrandMention {
   sentiment_score: number;
   sentiment_label: 'positive' | 'negative' | 'neutral';
   confidence: number;
+  analyzer_version?: string; // Analyzer that produced the scores
+  aspects?: MentionAspectScore[];
+}
+
+// What a mention's sentiment is about
+export const MENTION_ASPECTS = [
+  'pricing',
+  'support',
+  'reliability',
+  'security',
+  'features',
+  'performance',
+  'usability'
+] as const;
+
+export type MentionAspect = typeof MENTION_ASPECTS[number];
+
+export interface MentionAspectScore {
+  aspect: MentionAspect;
+  evidence: string; // The clauses of the mention's sentence that discuss the aspect
+  sentiment_score: number;
+  sentiment_label: 'positive' | 'negative' | 'neutral';
+  confidence: number;
 }
 
 export interface ParsedAIResponse extends AIResponse {
@@ -76,10 +110,43 @@ export interface ParsedAIResponse extends AIResponse {
     type: string;
     confidence: number;
   }>;
+  analyzer_version?: string;
+}
+
+// Response analysis
+
+export interface SentimentScore {
+  score: number; // -1 (negative) to 1 (positive)
+  label: 'positive' | 'negative' | 'neutral';
+  confidence: number; // 0 to 1
+}
+
+// Names to report mentions for; other capitalised words are not mentions
+export interface AnalysisTargets {
+  brand_name?: string;
+  competitors?: string[];
+}
+
+export type ResponseAnalysis = Pick<
+  ParsedAIResponse,
+  'brand_mentions' | 'sentiment_analysis' | 'topics' | 'entities'
+> & { analyzer_version: string };
+
+export interface IResponseAnalyzer {
+  readonly name: string;
+  readonly version: string; // Recorded with every score the analyzer produces
+
+  analyze(text: string, targets: AnalysisTargets): Promise<ResponseAnalysis>;
+}
+
+export interface ParseResponseOptions {
+  targets?: AnalysisTargets;
+  analyzer?: IResponseAnalyzer; // The lexicon analyzer when not given
 }
 
 export interface RateLimitInfo {
   requests_remaining: number;
+  tokens_remaining?: number;
   reset_time: Date;
   retry_after?: number;
 }
@@ -91,13 +158,23 @@ export interface AIModelError extends Error {
   retry_after?: number;
 }
 
+export interface AIStreamOptions {
+  signal?: AbortSignal; // Aborting stops the upstream request and ends the stream
+}
+
 // Abstract AI Model Interface
 export interface IAIModel {
   config: AIModelConfig;
   
   // Core methods
   query(request: AIQuery): Promise<AIResponse>;
-  parseResponse(response: AIResponse): Promise<ParsedAIResponse>;
+  parseResponse(response: AIResponse, options?: ParseResponseOptions): Promise<ParsedAIResponse>;
+
+  // Streaming is optional; providers without it are queried with query()
+  streamQuery?(
+    request: AIQuery,
+    options?: AIStreamOptions
+  ): Promise<AsyncGenerator<string, void, unknown>>;
   
   // Utility methods
   validateQuery(query: AIQuery): boolean;
@@ -111,11 +188,15 @@ export interface IAIModel {
 // Query templates for brand monitoring
 export interface BrandMonitoringQuery {
   brand_name: string;
-  query_type: 'visibility' | 'sentiment' | 'comparison' | 'reputation' | 'product';
-  query_template: string;
+  query_type: string; // A built-in template type or a prompt library template name
+  query_template: string; // Falls back to the built-in template when empty
   context?: string;
   competitors?: string[];
   products?: string[];
+  variables?: Record<string, string>; // Values for any other {placeholders}
+  template_version_id?: string; // Prompt library version the template came from
+  template_version?: number;
+  recommendation_prompt_id?: string; // Set for buyer-intent prompts, which never name the brand
 }
 
 export const BRAND_QUERY_TEMPLATES = {
@@ -131,4 +212,12 @@ export const BRAND_QUERY_TEMPLATES = {
   partnerships: "What partnerships and collaborations does {brand_name} have?"
 } as const;
 
-export type QueryTemplateType = keyof typeof BRAND_QUERY_TEMPLATES;
\ No newline at end of file
+export type QueryTemplateType = keyof typeof BRAND_QUERY_TEMPLATES;
+
+// Expands into the brand's buyer-intent recommendation prompts rather than a template
+export const RECOMMENDATION_QUERY_TYPE = 'recommendation';
+
+// Placeholders filled from the brand; prompt templates may define defaults for any others
+export const BUILT_IN_PROMPT_VARIABLES = [
+  'brand_name', 'competitors', 'product', 'products', 'industry', 'domain', 'keywords'
+] as const;
\ No newline at end of file
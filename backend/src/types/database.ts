@@ -1,5 +1,7 @@
 // Database model interfaces based on our schema
 
+import { CitationSource, MentionAspect } from './ai';
+
 export interface User {
   id: string;
   email: string;
@@ -24,12 +26,43 @@ export interface Brand {
   website_url?: string;
   monitoring_keywords: string[];
   competitor_brands: string[];
+  fact_sheet?: BrandFactSheet | null; // What AI answers about the brand are checked against
   is_active: boolean;
   created_by?: string;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface BrandFactSheet {
+  key_facts: BrandKeyFact[];
+  products: BrandProduct[]; // Currently offered
+  executives: BrandExecutive[];
+  discontinued_items: BrandDiscontinuedItem[];
+}
+
+export interface BrandKeyFact {
+  attribute: 'founded_year' | 'headquarters' | 'founder' | 'other'; // 'other' facts are not checked
+  value: string;
+  label?: string; // Names an 'other' fact, e.g. "Customers"
+}
+
+export interface BrandProduct {
+  name: string;
+  description?: string;
+  price?: string; // e.g. "$49 per user per month"; checked when it names an amount
+}
+
+export interface BrandExecutive {
+  name: string;
+  title: string; // e.g. "CEO"
+}
+
+export interface BrandDiscontinuedItem {
+  name: string;
+  discontinued_on?: string;
+  replaced_by?: string;
+}
+
 export interface UserBrand {
   id: string;
   user_id: string;
@@ -46,7 +79,11 @@ export interface AIModel {
   api_endpoint?: string;
   is_active: boolean;
   rate_limit_per_minute: number;
+  tokens_per_minute?: number;
   cost_per_request?: number;
+  input_cost_per_1k_tokens?: number;
+  output_cost_per_1k_tokens?: number;
+  grounded: boolean; // Queried with the provider's web search tool
   created_at: Date;
   updated_at: Date;
 }
@@ -61,7 +98,11 @@ export interface AIResponse {
   confidence_score?: number;
   processing_time_ms?: number;
   tokens_used?: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
   cost?: number;
+  prompt_template_version_id?: string;
+  grounded: boolean;
   created_at: Date;
 }
 
@@ -77,9 +118,17 @@ export interface Citation {
   content_type?: string;
   publish_date?: Date;
   last_crawled?: Date;
+  crawl_status: CitationCrawlStatus;
+  http_status?: number;
+  final_url?: string; // Where the URL redirected to
+  mentions_brand?: boolean; // Whether the page names the brand, once crawled
+  crawl_error?: string;
+  source: CitationSource;
   created_at: Date;
 }
 
+export type CitationCrawlStatus = 'pending' | 'ok' | 'broken' | 'unreachable';
+
 export interface BrandMention {
   id: string;
   ai_response_id: string;
@@ -90,6 +139,7 @@ export interface BrandMention {
   sentiment_score?: number;
   sentiment_label?: 'positive' | 'negative' | 'neutral';
   confidence?: number;
+  analyzer_version?: string; // Analyzer that produced the scores
   created_at: Date;
 }
 
@@ -107,22 +157,79 @@ export interface VisibilityMetrics {
   source_quality_score?: number;
   geographic_region?: string;
   query_category?: string;
+  stability_score?: number; // 0-100, only for multi-sample runs
+  share_of_recommendation?: number; // 0-100, only when recommendation prompts ran
+  inaccuracy_count?: number; // Only when the brand has a fact sheet
   created_at: Date;
 }
 
+export type AlertAnomalyMethod = 'z_score' | 'percent_change' | 'seasonal';
+export type AlertDetectionMethod = 'static' | AlertAnomalyMethod | 'composite';
+export type AlertComparisonOperator = '>' | '<' | '>=' | '<=' | '=';
+
+/**
+ * One condition of a composite rule. Visibility metrics are read from the
+ * runs in visibility_metrics; response metrics are counted from the answers
+ * of the last window_hours, overall or per model.
+ */
+export interface AlertConditionLeaf {
+  metric: string;
+  operator: AlertComparisonOperator;
+  value: number;
+  change?: 'percent'; // Compare the percent change from the previous window instead of the level
+  window_hours?: number; // Default 24; a visibility metric's level is the latest run's
+  consecutive_runs?: number; // Visibility metrics only: the last N runs must all match
+  model?: 'any' | 'all' | string; // Response metrics only: any model, every model, or one model's ID
+}
+
+export type AlertCondition =
+  | { all: AlertCondition[] }
+  | { any: AlertCondition[] }
+  | AlertConditionLeaf;
+
+// What one condition of a composite rule observed
+export interface AlertConditionResult {
+  condition: AlertConditionLeaf;
+  matched: boolean;
+  value: number | null; // Null when there was nothing to measure
+  models?: Array<{
+    ai_model_id: string;
+    model_name: string;
+    value: number | null;
+    matched: boolean;
+  }>;
+}
+
 export interface AlertThreshold {
   id: string;
   brand_id: string;
   user_id: string;
-  metric_type: string;
-  threshold_value: number;
-  comparison_operator: '>' | '<' | '>=' | '<=' | '=';
+  metric_type: string; // 'composite' for composite rules
+  detection_method: AlertDetectionMethod;
+  threshold_value?: number; // Only for static rules
+  comparison_operator?: AlertComparisonOperator; // Not for composite rules
+  sensitivity?: number; // Standard deviations, or percent for percent_change
+  min_samples?: number;
+  baseline_days?: number;
+  condition?: AlertCondition; // Only for composite rules
+  severity?: 'low' | 'medium' | 'high' | 'critical'; // Composite rules raise alerts at a set severity
   is_active: boolean;
   notification_channels: string[];
   created_at: Date;
   updated_at: Date;
 }
 
+// What an anomaly rule compared the current value against
+export interface AlertBaseline {
+  method: AlertAnomalyMethod;
+  value: number; // Mean, or median for percent_change
+  std_dev?: number;
+  sample_size: number;
+  window_days: number;
+  sensitivity: number;
+  deviation: number | null; // Z-score, or percent change from the median; null for a flat baseline
+}
+
 export interface Alert {
   id: string;
   brand_id: string;
@@ -132,7 +239,12 @@ export interface Alert {
   message: string;
   metric_type: string;
   current_value?: number;
-  threshold_value?: number;
+  threshold_value?: number; // For anomaly rules, the bound the baseline set
+  baseline?: AlertBaseline;
+  condition_results?: AlertConditionResult[]; // For composite rules, every condition as observed
+  incident_id?: string;
+  ai_model_id?: string; // When the alert points to one model
+  visibility_metrics_id?: string; // The metrics run that triggered it
   is_acknowledged: boolean;
   acknowledged_by?: string;
   acknowledged_at?: Date;
@@ -186,7 +298,11 @@ export interface CreateAIResponseInput {
   confidence_score?: number;
   processing_time_ms?: number;
   tokens_used?: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
   cost?: number;
+  prompt_template_version_id?: string;
+  grounded?: boolean;
 }
 
 export interface CreateBrandInput {
@@ -214,6 +330,279 @@ export interface CreateVisibilityMetricsInput {
   source_quality_score?: number;
   geographic_region?: string;
   query_category?: string;
+  stability_score?: number;
+  share_of_recommendation?: number;
+  inaccuracy_count?: number;
+}
+
+export interface MonitoringSchedule {
+  id: string;
+  brand_id: string;
+  name: string;
+  cron_expression: string;
+  timezone?: string;
+  query_types: string[];
+  target_models: string[];
+  status: 'active' | 'paused';
+  paused_reason?: 'budget_exceeded';
+  is_active: boolean;
+  last_run_at?: Date;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface MonitoringRun {
+  id: string;
+  schedule_id?: string;
+  brand_id: string;
+  trigger_type: 'scheduled' | 'manual';
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  query_types?: string[];
+  target_models?: string[];
+  responses_count: number;
+  total_cost: number;
+  error_message?: string;
+  requested_by?: string;
+  queries_total: number;
+  queries_completed: number;
+  models_queried: string[];
+  failures: MonitoringRunFailure[];
+  samples: number;
+  sample_temperature?: number;
+  sample_statistics?: SampleStatistics;
+  started_at?: Date;
+  finished_at?: Date;
+  created_at: Date;
+}
+
+export interface MonitoringRunFailure {
+  query_type: string;
+  model_name?: string;
+  error: string;
+}
+
+// How consistently a brand showed up across repeated samples of the same prompts
+export interface BrandSampleStatistics {
+  brand_name: string;
+  samples: number;
+  mention_rate: number; // 0-1, share of samples that mention the brand
+  sentiment_spread: number | null; // Standard deviation of sentiment (-1 to 1) across samples
+  position_variance: number | null; // Variance of the ranked list position, over samples that list the brand
+  stability_score: number | null; // 0-100, higher is more consistent
+}
+
+export interface SampleStatistics {
+  samples_per_query: number;
+  temperature?: number;
+  brands: BrandSampleStatistics[];
+}
+
+export interface SpendBudget {
+  id: string;
+  scope: 'brand' | 'organization';
+  brand_id?: string;
+  monthly_limit: number;
+  is_active: boolean;
+  exceeded_at?: Date;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UpsertSpendBudgetInput {
+  scope: 'brand' | 'organization';
+  brand_id?: string;
+  monthly_limit: number;
+  is_active?: boolean;
+  created_by?: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string; // The query type this template answers
+  brand_id?: string; // Set for brand overrides, unset for the shared library
+  description?: string;
+  is_active: boolean;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+  current_version?: PromptTemplateVersion;
+}
+
+export interface PromptTemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  body: string;
+  variables: Record<string, string>;
+  change_note?: string;
+  created_by?: string;
+  created_at: Date;
+}
+
+// The template version a brand's query of one type is generated from
+export interface ResolvedPromptTemplate {
+  name: string;
+  template_id: string;
+  brand_id?: string;
+  version_id: string;
+  version: number;
+  body: string;
+  variables: Record<string, string>;
+}
+
+export interface CreatePromptTemplateInput {
+  name: string;
+  brand_id?: string;
+  description?: string;
+  body: string;
+  variables?: Record<string, string>;
+  created_by?: string;
+}
+
+export interface CreatePromptTemplateVersionInput {
+  body: string;
+  variables?: Record<string, string>;
+  change_note?: string;
+  created_by?: string;
+}
+
+export interface UpdatePromptTemplateInput {
+  description?: string;
+  is_active?: boolean;
+}
+
+export interface RecommendationPrompt {
+  id: string;
+  industry?: string; // Set for industry prompts
+  brand_id?: string; // Set for brand prompts
+  prompt: string;
+  category?: string;
+  is_active: boolean;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateRecommendationPromptInput {
+  industry?: string;
+  brand_id?: string;
+  prompt: string;
+  category?: string;
+  created_by?: string;
+}
+
+export interface UpdateRecommendationPromptInput {
+  prompt?: string;
+  category?: string;
+  is_active?: boolean;
+}
+
+export interface RecommendationResult {
+  id: string;
+  brand_id: string;
+  prompt_id?: string;
+  ai_response_id?: string;
+  model_name?: string;
+  brand_mentioned: boolean;
+  brand_position?: number;
+  competitors_mentioned: string[];
+  listed_brands: string[];
+  created_at: Date;
+}
+
+export interface CreateRecommendationResultInput {
+  brand_id: string;
+  prompt_id?: string;
+  ai_response_id?: string;
+  model_name?: string;
+  brand_mentioned: boolean;
+  brand_position?: number;
+  competitors_mentioned: string[];
+  listed_brands: string[];
+}
+
+export interface RecommendationSummary {
+  answers: number;
+  share_of_recommendation: number; // Percentage of answers naming the brand
+  average_position: number | null; // Over answers that listed the brand
+  competitor_mentions: Record<string, number>; // Answers naming each competitor
+}
+
+export interface ResponseRanking {
+  id: string;
+  ai_response_id: string;
+  brand_id: string;
+  entity_name: string;
+  is_brand: boolean; // false for competitors
+  position: number; // 1-based
+  list_size: number;
+  list_index: number;
+  list_style: 'numbered' | 'bulleted' | 'table';
+  created_at: Date;
+}
+
+export interface CreateResponseRankingInput {
+  entity_name: string;
+  is_brand: boolean;
+  position: number;
+  list_size: number;
+  list_index: number;
+  list_style: 'numbered' | 'bulleted' | 'table';
+}
+
+export interface MentionAspectRecord {
+  id: string;
+  brand_mention_id?: string; // Set for AI response mentions
+  conversation_mention_id?: string; // Set for conversation mentions
+  brand_id: string;
+  aspect: MentionAspect;
+  evidence: string;
+  sentiment_score?: number;
+  sentiment_label?: 'positive' | 'negative' | 'neutral';
+  confidence?: number;
+  analyzer_version?: string;
+  created_at: Date;
+}
+
+export interface AspectSentimentTrend {
+  period_start: Date;
+  aspect: MentionAspect;
+  mentions: number;
+  average_sentiment: number;
+  positive: number;
+  negative: number;
+}
+
+export interface AspectSentimentByModel {
+  model_name: string;
+  aspect: MentionAspect;
+  mentions: number;
+  average_sentiment: number;
+  positive: number;
+  negative: number;
+}
+
+export interface CreateMonitoringScheduleInput {
+  brand_id: string;
+  name: string;
+  cron_expression: string;
+  timezone?: string;
+  query_types?: string[];
+  target_models?: string[];
+  created_by?: string;
+}
+
+export interface CreateMonitoringRunInput {
+  schedule_id?: string;
+  brand_id: string;
+  trigger_type: 'scheduled' | 'manual';
+  query_types?: string[];
+  target_models?: string[];
+  requested_by?: string;
+  samples?: number;
+  sample_temperature?: number;
 }
 
 // Query result types
@@ -350,4 +739,217 @@ export interface ConversationFilter extends PaginationOptions, DateRangeFilter {
   conversation_type?: string;
   is_active?: boolean;
   has_mentions?: boolean;
-}
\ No newline at end of file
+}
+
+export type FactCheckType =
+  | 'founded_year'
+  | 'headquarters'
+  | 'founder'
+  | 'executive'
+  | 'pricing'
+  | 'discontinued_item';
+
+export interface FactCheckFinding {
+  id: string;
+  ai_response_id: string;
+  brand_id: string;
+  finding_type: FactCheckType;
+  sentence: string; // The offending sentence
+  claimed_value: string; // What the model said
+  expected_value: string; // What the fact sheet says
+  confidence: number;
+  model_name?: string; // When listed for a brand
+  created_at: Date;
+}
+
+export type CreateFactCheckFindingInput = Pick<
+  FactCheckFinding,
+  'finding_type' | 'sentence' | 'claimed_value' | 'expected_value' | 'confidence'
+>;
+
+export interface DomainAuthority {
+  domain: string; // Lower case, without "www."
+  authority_score: number | null; // The manual score if set, else the learned one
+  manual_score: number | null;
+  learned_score: number | null;
+  citation_count: number;
+  brand_count: number;
+  broken_count: number;
+  notes?: string;
+  updated_by?: string;
+  learned_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SetDomainAuthorityInput {
+  domain: string;
+  authority_score: number;
+  notes?: string;
+  updated_by?: string;
+}
+
+// How often a domain was cited across all brands, the input to a learned score
+export interface DomainCitationStats {
+  domain: string;
+  citation_count: number;
+  brand_count: number;
+  crawled_count: number;
+  broken_count: number;
+}
+
+export interface SourceLeaderboardEntry {
+  domain: string;
+  authority_score: number;
+  responses: number; // Responses that cited the domain
+  praised: number; // ...and spoke of the brand positively on average
+  criticised: number;
+  average_sentiment: number | null;
+}
+
+export interface SourceTrend {
+  period_start: Date;
+  domain: string;
+  responses: number;
+  praised: number;
+  criticised: number;
+}
+
+// The latest answer to a prompt from a model, and the answer before it
+export interface ResponseComparisonPair {
+  response_id: string;
+  previous_response_id: string;
+  query: string;
+  ai_model_id: string;
+  model_name: string;
+  created_at: Date;
+  previous_created_at: Date;
+}
+
+// How a brand fared in answers from one grounding mode, overall or for one model
+export interface GroundingStats {
+  responses: number;
+  mention_rate: number; // Share of responses naming the brand
+  average_sentiment: number | null;
+  average_position: number | null; // In the lists naming the brand
+  citations_per_response: number;
+  search_citations: number; // Returned by the provider's search tool
+}
+
+export interface ModelGroundingStats extends GroundingStats {
+  ai_model_id: string;
+  model_name: string;
+}
+
+export interface GroundingModeReport {
+  totals: GroundingStats | null; // null when no response was answered in this mode
+  models: ModelGroundingStats[];
+}
+
+export interface GroundingComparison {
+  grounded: GroundingModeReport;
+  ungrounded: GroundingModeReport;
+}
+
+export interface OnCallRotation {
+  id: string;
+  brand_id: string;
+  name: string;
+  user_ids: string[]; // In turn order
+  shift_hours: number;
+  starts_at: Date; // Start of the first user's first shift
+  is_active: boolean;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateOnCallRotationInput {
+  brand_id: string;
+  name: string;
+  user_ids: string[];
+  shift_hours?: number;
+  starts_at?: Date;
+  created_by?: string;
+}
+
+/**
+ * One tier of an escalation policy. Its users, and whoever is on call in its
+ * rotation, are notified on its channels; with neither, every user of the brand is.
+ */
+export interface EscalationStep {
+  delay_minutes: number; // After the alert, or the previous tier, without an acknowledgement
+  channels: Array<'email' | 'sms' | 'webhook' | 'in_app'>;
+  user_ids?: string[];
+  rotation_id?: string;
+}
+
+export interface EscalationPolicy {
+  id: string;
+  brand_id: string;
+  name: string;
+  severities: Array<'low' | 'medium' | 'high' | 'critical'>;
+  steps: EscalationStep[];
+  repeat_limit: number; // Times the steps run again after the last, until acknowledged
+  is_active: boolean;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UpsertEscalationPolicyInput {
+  brand_id: string;
+  name: string;
+  severities?: EscalationPolicy['severities'];
+  steps: EscalationStep[];
+  repeat_limit?: number;
+  created_by?: string;
+}
+
+// Audit trail entry for an alert's escalation
+export interface AlertEscalationEvent {
+  id: string;
+  alert_id: string;
+  policy_id?: string;
+  step_index?: number;
+  cycle?: number; // 0 for the first pass through the steps
+  action: 'scheduled' | 'notified' | 'acknowledged' | 'stopped';
+  user_ids: string[]; // Notified users, or the user who acknowledged
+  channels: string[];
+  job_id?: string;
+  reason?: string;
+  created_at: Date;
+}
+
+export interface AlertIncident {
+  id: string;
+  brand_id: string;
+  ai_model_id?: string; // None while its alerts are brand-wide
+  status: 'open' | 'resolved';
+  severity: 'low' | 'medium' | 'high' | 'critical'; // Highest of its alerts
+  title: string;
+  alert_count: number;
+  repeat_count: number; // Repeats of its alerts' rules, suppressed as duplicates
+  first_alert_at: Date;
+  last_alert_at: Date;
+  resolved_at?: Date;
+  resolved_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AlertIncidentResponse {
+  id: string;
+  ai_model_id: string;
+  model_name: string;
+  query: string;
+  excerpt: string; // Start of the answer
+}
+
+// What happened in an incident, in time order
+export type AlertIncidentTimelineEvent =
+  | { kind: 'metrics'; at: Date; metrics: VisibilityMetrics }
+  | { kind: 'response'; at: Date; response: AlertIncidentResponse }
+  | { kind: 'mention'; at: Date; mention: BrandMention }
+  | { kind: 'alert'; at: Date; alert: Alert }
+  | { kind: 'resolved'; at: Date; resolved_by?: string };
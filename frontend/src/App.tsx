@@ -9,6 +9,8 @@ import { AuthPage } from './components/auth/AuthPage';
 import { DashboardLayout } from './components/layout/DashboardLayout';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { Dashboard } from './pages/Dashboard';
+import { ResponseDiffPage } from './pages/ResponseDiff';
+import { LiveQueryPage } from './pages/LiveQuery';
 
 const theme = createTheme({
   palette: {
@@ -51,6 +53,8 @@ const AppRoutes: React.FC = () => {
       >
         <Route index element={<Navigate to="/dashboard" replace />} />
         <Route path="dashboard" element={<Dashboard />} />
+        <Route path="brands/:brandId/response-diff" element={<ResponseDiffPage />} />
+        <Route path="brands/:brandId/live-query" element={<LiveQueryPage />} />
         
         {/* Placeholder routes for navigation items */}
         <Route path="monitoring" element={<div>Brand Monitoring (Coming Soon)</div>} />
@@ -0,0 +1,76 @@
+import { act, renderHook } from '@testing-library/react';
+import { vi } from 'vitest';
+import { useQueryStream } from '../useQueryStream';
+
+// A socket whose server events the test raises by hand
+const handlers: Record<string, (data?: any) => void> = {};
+const mockSocket = {
+  on: vi.fn((event: string, listener: (data?: any) => void) => {
+    handlers[event] = listener;
+  }),
+  emit: vi.fn(),
+  close: vi.fn(),
+};
+
+vi.mock('socket.io-client', () => ({
+  io: () => mockSocket,
+}));
+
+const serverSends = (event: string, data?: any) => {
+  act(() => handlers[event]!(data));
+};
+
+describe('useQueryStream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const connect = () => {
+    const hook = renderHook(() => useQueryStream('token-1'));
+    serverSends('connect');
+    serverSends('authenticated');
+    return hook;
+  };
+
+  it('follows a stream from start to finish', () => {
+    const { result } = connect();
+
+    act(() => result.current.start({ brandId: 'brand-1', queryType: 'visibility' }));
+    expect(mockSocket.emit).toHaveBeenCalledWith('stream:start', { brandId: 'brand-1', queryType: 'visibility' });
+    expect(result.current.status).toBe('connecting');
+
+    serverSends('stream:started', { stream_id: 'stream-1', brand_id: 'brand-1' });
+    serverSends('stream:query', { stream_id: 'stream-1', model_name: 'GPT-4', query: 'What do you know about TechCorp?' });
+    serverSends('stream:token', { stream_id: 'stream-1', token: 'Tech' });
+    serverSends('stream:token', { stream_id: 'stream-1', token: 'Corp' });
+
+    expect(result.current).toMatchObject({ status: 'streaming', modelName: 'GPT-4', response: 'TechCorp' });
+
+    serverSends('stream:end', { stream_id: 'stream-1', cancelled: false, response: 'TechCorp' });
+    expect(result.current.status).toBe('completed');
+  });
+
+  it('cancels a stream that is still waiting for the model', () => {
+    const { result } = connect();
+
+    act(() => result.current.start({ brandId: 'brand-1', queryType: 'visibility' }));
+    serverSends('stream:started', { stream_id: 'stream-1', brand_id: 'brand-1' });
+    act(() => result.current.cancel());
+
+    expect(mockSocket.emit).toHaveBeenLastCalledWith('stream:cancel', { streamId: 'stream-1' });
+
+    serverSends('stream:end', { stream_id: 'stream-1', cancelled: true, response: '' });
+    expect(result.current.status).toBe('cancelled');
+  });
+
+  it('cancels as soon as the id arrives when asked before it', () => {
+    const { result } = connect();
+
+    act(() => result.current.start({ brandId: 'brand-1', queryType: 'visibility' }));
+    act(() => result.current.cancel());
+    expect(mockSocket.emit).not.toHaveBeenCalledWith('stream:cancel', expect.anything());
+
+    serverSends('stream:started', { stream_id: 'stream-1', brand_id: 'brand-1' });
+    expect(mockSocket.emit).toHaveBeenLastCalledWith('stream:cancel', { streamId: 'stream-1' });
+  });
+});
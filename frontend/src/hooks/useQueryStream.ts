@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
+
+export type QueryStreamStatus = 'idle' | 'connecting' | 'streaming' | 'completed' | 'cancelled' | 'error';
+
+export interface QueryStreamState {
+  status: QueryStreamStatus;
+  streamId: string | null;
+  modelName: string | null;
+  query: string | null;
+  response: string;
+  error: string | null;
+}
+
+export interface StartQueryStreamOptions {
+  brandId: string;
+  queryType: string;
+  modelName?: string;
+}
+
+const initialState: QueryStreamState = {
+  status: 'idle',
+  streamId: null,
+  modelName: null,
+  query: null,
+  response: '',
+  error: null,
+};
+
+/**
+ * Watch a live monitoring query as the model writes it, with the option to
+ * cancel partway through. Tokens are relayed by the backend over Socket.IO.
+ */
+export const useQueryStream = (authToken?: string | null) => {
+  const socketRef = useRef<Socket | null>(null);
+  const streamIdRef = useRef<string | null>(null);
+  const cancelRequestedRef = useRef(false);
+  const [state, setState] = useState<QueryStreamState>(initialState);
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!authToken) return;
+
+    const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+    const socket = io(backendUrl);
+
+    socket.on('connect', () => {
+      socket.emit('authenticate', authToken);
+    });
+
+    socket.on('authenticated', () => {
+      setIsConnected(true);
+    });
+
+    socket.on('disconnect', () => {
+      setIsConnected(false);
+    });
+
+    // The id arrives before the model takes the query, so a stream can be
+    // cancelled while it waits for a rate limit slot
+    socket.on('stream:started', (data: { stream_id: string }) => {
+      streamIdRef.current = data.stream_id;
+      setState(prev => ({ ...prev, streamId: data.stream_id }));
+
+      if (cancelRequestedRef.current) {
+        cancelRequestedRef.current = false;
+        socket.emit('stream:cancel', { streamId: data.stream_id });
+      }
+    });
+
+    socket.on('stream:query', (data: { stream_id: string; model_name: string; query: string }) => {
+      if (data.stream_id !== streamIdRef.current) return;
+      setState(prev => ({
+        ...prev,
+        status: 'streaming',
+        modelName: data.model_name,
+        query: data.query,
+      }));
+    });
+
+    socket.on('stream:token', (data: { stream_id: string; token: string }) => {
+      if (data.stream_id !== streamIdRef.current) return;
+      setState(prev => ({ ...prev, response: prev.response + data.token }));
+    });
+
+    socket.on('stream:end', (data: { stream_id: string; cancelled: boolean; response: string }) => {
+      if (data.stream_id !== streamIdRef.current) return;
+      streamIdRef.current = null;
+      setState(prev => ({
+        ...prev,
+        status: data.cancelled ? 'cancelled' : 'completed',
+        response: data.response,
+      }));
+    });
+
+    socket.on('stream:error', (data: { stream_id?: string; error: string }) => {
+      if (data.stream_id && data.stream_id !== streamIdRef.current) return;
+      streamIdRef.current = null;
+      setState(prev => ({ ...prev, status: 'error', error: data.error }));
+    });
+
+    socketRef.current = socket;
+
+    return () => {
+      socket.close();
+      socketRef.current = null;
+      streamIdRef.current = null;
+      cancelRequestedRef.current = false;
+    };
+  }, [authToken]);
+
+  const start = useCallback((options: StartQueryStreamOptions) => {
+    const socket = socketRef.current;
+    if (!socket) return;
+
+    // Only one live stream per hook; starting again cancels the previous one
+    if (streamIdRef.current) {
+      socket.emit('stream:cancel', { streamId: streamIdRef.current });
+    }
+
+    streamIdRef.current = null;
+    cancelRequestedRef.current = false;
+    setState({ ...initialState, status: 'connecting' });
+    socket.emit('stream:start', options);
+  }, []);
+
+  const cancel = useCallback(() => {
+    if (!socketRef.current) return;
+
+    if (streamIdRef.current) {
+      socketRef.current.emit('stream:cancel', { streamId: streamIdRef.current });
+    } else {
+      // Started but not yet given an id; cancel as soon as it arrives
+      cancelRequestedRef.current = true;
+    }
+  }, []);
+
+  return { ...state, isConnected, start, cancel };
+};
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { PlayArrow, Stop } from '@mui/icons-material';
+import { useParams } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  QueryStreamState,
+  QueryStreamStatus,
+  StartQueryStreamOptions,
+  useQueryStream,
+} from '../hooks/useQueryStream';
+
+const queryTypes: { value: string; label: string }[] = [
+  { value: 'visibility', label: 'Visibility' },
+  { value: 'sentiment', label: 'Sentiment' },
+  { value: 'comparison', label: 'Comparison' },
+  { value: 'reputation', label: 'Reputation' },
+  { value: 'news', label: 'News' },
+];
+
+const statusLabels: Record<QueryStreamStatus, string> = {
+  idle: 'Idle',
+  connecting: 'Waiting for the model',
+  streaming: 'Streaming',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  error: 'Failed',
+};
+
+const statusColors: Record<QueryStreamStatus, 'default' | 'info' | 'primary' | 'success' | 'warning' | 'error'> = {
+  idle: 'default',
+  connecting: 'info',
+  streaming: 'primary',
+  completed: 'success',
+  cancelled: 'warning',
+  error: 'error',
+};
+
+/**
+ * Runs one monitoring query and shows the answer as the model writes it.
+ * A running query can be cancelled, including while it waits for the model.
+ */
+export const LiveQueryPanel: React.FC<{
+  brandId: string;
+  stream: QueryStreamState;
+  isConnected: boolean;
+  onStart: (options: StartQueryStreamOptions) => void;
+  onCancel: () => void;
+}> = ({ brandId, stream, isConnected, onStart, onCancel }) => {
+  const [queryType, setQueryType] = useState('visibility');
+  const [modelName, setModelName] = useState('');
+  const isRunning = stream.status === 'connecting' || stream.status === 'streaming';
+
+  const start = () => {
+    onStart({
+      brandId,
+      queryType,
+      ...(modelName.trim() && { modelName: modelName.trim() }),
+    });
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }} sx={{ mb: 2 }}>
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel id="live-query-type-label">Query type</InputLabel>
+          <Select
+            labelId="live-query-type-label"
+            label="Query type"
+            value={queryType}
+            onChange={event => setQueryType(event.target.value)}
+            disabled={isRunning}
+          >
+            {queryTypes.map(type => (
+              <MenuItem key={type.value} value={type.value}>
+                {type.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          size="small"
+          label="Model (optional)"
+          value={modelName}
+          onChange={event => setModelName(event.target.value)}
+          disabled={isRunning}
+        />
+        {isRunning ? (
+          <Button variant="outlined" color="error" startIcon={<Stop />} onClick={onCancel}>
+            Cancel
+          </Button>
+        ) : (
+          <Button variant="contained" startIcon={<PlayArrow />} onClick={start} disabled={!isConnected}>
+            Run query
+          </Button>
+        )}
+        <Chip label={statusLabels[stream.status]} color={statusColors[stream.status]} size="small" />
+      </Stack>
+
+      {!isConnected && (
+        <Alert severity="info" sx={{ mb: 2 }}>Connecting to the live query service…</Alert>
+      )}
+      {stream.status === 'error' && stream.error && (
+        <Alert severity="error" sx={{ mb: 2 }}>{stream.error}</Alert>
+      )}
+      {isRunning && <LinearProgress sx={{ mb: 2 }} />}
+
+      {stream.query && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="subtitle2">{stream.modelName}</Typography>
+          <Typography variant="body2" color="textSecondary">
+            {stream.query}
+          </Typography>
+        </Box>
+      )}
+      {stream.response && (
+        <Typography variant="body2" data-testid="live-query-response" sx={{ whiteSpace: 'pre-wrap' }}>
+          {stream.response}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export const LiveQueryPage: React.FC = () => {
+  const { brandId } = useParams<{ brandId: string }>();
+  const { token } = useAuth();
+  const { isConnected, start, cancel, ...stream } = useQueryStream(token);
+
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom>
+        Live Query
+      </Typography>
+
+      {brandId && (
+        <LiveQueryPanel
+          brandId={brandId}
+          stream={stream}
+          isConnected={isConnected}
+          onStart={start}
+          onCancel={cancel}
+        />
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  DiffedClaim,
+  ResponseComparison,
+  ResponseDiff,
+  ResponseDiffResult,
+  SetDiff,
+} from '../types/responseDiff';
+
+const claimColors: Record<DiffedClaim['status'], string | undefined> = {
+  added: 'success.light',
+  removed: 'error.light',
+  unchanged: undefined,
+};
+
+const fetchJson = async <T,>(url: string, token: string | null): Promise<T> => {
+  const response = await fetch(url, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+const formatDate = (value: string) => format(new Date(value), 'MMM d, yyyy HH:mm');
+
+const formatChange = (previous: number | null, latest: number | null) =>
+  `${previous ?? '–'} → ${latest ?? '–'}`;
+
+const SetChanges: React.FC<{ title: string; changes: SetDiff }> = ({ title, changes }) => (
+  <Box>
+    <Typography variant="subtitle2" gutterBottom>
+      {title}
+    </Typography>
+    {changes.added.length === 0 && changes.removed.length === 0 ? (
+      <Typography variant="body2" color="textSecondary">
+        No change
+      </Typography>
+    ) : (
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+        {changes.added.map(item => (
+          <Chip key={`added-${item}`} label={`+ ${item}`} color="success" size="small" variant="outlined" />
+        ))}
+        {changes.removed.map(item => (
+          <Chip key={`removed-${item}`} label={`− ${item}`} color="error" size="small" variant="outlined" />
+        ))}
+      </Stack>
+    )}
+  </Box>
+);
+
+const ClaimColumn: React.FC<{ title: string; date: string; claims: DiffedClaim[] }> = ({ title, date, claims }) => (
+  <Paper sx={{ p: 3, height: '100%' }}>
+    <Typography variant="h6">{title}</Typography>
+    <Typography variant="body2" color="textSecondary" gutterBottom>
+      {formatDate(date)}
+    </Typography>
+    {claims.map((claim, index) => (
+      <Typography
+        key={index}
+        variant="body2"
+        data-status={claim.status}
+        sx={{ p: 0.5, mb: 0.5, borderRadius: 1, bgcolor: claimColors[claim.status] }}
+      >
+        {claim.text}
+      </Typography>
+    ))}
+  </Paper>
+);
+
+/**
+ * Side-by-side view of two answers to the same prompt: dropped claims are
+ * marked on the left, new ones on the right
+ */
+export const ResponseDiffView: React.FC<{
+  diff: ResponseDiff;
+  previousDate: string;
+  latestDate: string;
+}> = ({ diff, previousDate, latestDate }) => (
+  <Grid container spacing={3}>
+    <Grid item xs={12}>
+      <Paper sx={{ p: 3 }}>
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={3}>
+            <Typography variant="subtitle2" gutterBottom>
+              Claims
+            </Typography>
+            <Typography variant="body2">
+              {diff.claims.added.length} added, {diff.claims.removed.length} removed, {diff.claims.unchanged} unchanged
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              {Math.round(diff.similarity * 100)}% similar
+            </Typography>
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <Typography variant="subtitle2" gutterBottom>
+              Brand mentions
+            </Typography>
+            <Typography variant="body2">
+              Mentions: {formatChange(diff.mentions.previous_count, diff.mentions.latest_count)}
+            </Typography>
+            <Typography variant="body2">
+              Sentiment: {formatChange(diff.mentions.previous_sentiment, diff.mentions.latest_sentiment)}
+            </Typography>
+            <Typography variant="body2">
+              List position: {formatChange(diff.mentions.previous_position, diff.mentions.latest_position)}
+            </Typography>
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <SetChanges title="Competitors" changes={diff.competitors} />
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <SetChanges title="Citations" changes={diff.citations} />
+          </Grid>
+        </Grid>
+      </Paper>
+    </Grid>
+
+    <Grid item xs={12} md={6}>
+      <ClaimColumn title="Previous answer" date={previousDate} claims={diff.previous_claims} />
+    </Grid>
+    <Grid item xs={12} md={6}>
+      <ClaimColumn title="Latest answer" date={latestDate} claims={diff.latest_claims} />
+    </Grid>
+  </Grid>
+);
+
+export const ResponseDiffPage: React.FC = () => {
+  const { brandId } = useParams<{ brandId: string }>();
+  const { token } = useAuth();
+  const [selected, setSelected] = useState<string>('');
+
+  const comparisons = useQuery({
+    queryKey: ['response-comparisons', brandId],
+    queryFn: () => fetchJson<{ comparisons: ResponseComparison[] }>(
+      `/api/monitoring/brands/${brandId}/responses/comparisons`,
+      token
+    ),
+    enabled: Boolean(brandId),
+  });
+
+  // Start on the most recent change
+  useEffect(() => {
+    const [latest] = comparisons.data?.comparisons || [];
+    if (!selected && latest) {
+      setSelected(latest.response_id);
+    }
+  }, [comparisons.data, selected]);
+
+  const diff = useQuery({
+    queryKey: ['response-diff', brandId, selected],
+    queryFn: () => fetchJson<ResponseDiffResult>(
+      `/api/monitoring/brands/${brandId}/responses/${selected}/diff`,
+      token
+    ),
+    enabled: Boolean(brandId && selected),
+  });
+
+  const result = diff.data;
+
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom>
+        Response Changes
+      </Typography>
+
+      {comparisons.isError && <Alert severity="error">Failed to load responses.</Alert>}
+      {comparisons.data && comparisons.data.comparisons.length === 0 && (
+        <Alert severity="info">No prompt has been answered twice by the same model yet.</Alert>
+      )}
+
+      {comparisons.data && comparisons.data.comparisons.length > 0 && (
+        <FormControl fullWidth size="small" sx={{ mb: 3 }}>
+          <InputLabel id="response-comparison-label">Prompt and model</InputLabel>
+          <Select
+            labelId="response-comparison-label"
+            label="Prompt and model"
+            value={selected}
+            onChange={event => setSelected(event.target.value)}
+          >
+            {comparisons.data.comparisons.map(comparison => (
+              <MenuItem key={comparison.response_id} value={comparison.response_id}>
+                {comparison.model_name}: {comparison.query.length > 90 ? `${comparison.query.slice(0, 90)}…` : comparison.query}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      {(comparisons.isLoading || diff.isLoading) && <CircularProgress />}
+      {diff.isError && <Alert severity="error">Failed to compare the answers.</Alert>}
+      {result && result.previous && result.diff && (
+        <ResponseDiffView
+          diff={result.diff}
+          previousDate={result.previous.created_at}
+          latestDate={result.response.created_at}
+        />
+      )}
+    </Box>
+  );
+};
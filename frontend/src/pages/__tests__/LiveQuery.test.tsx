@@ -0,0 +1,83 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ThemeProvider, createTheme } from '@mui/material/styles';
+import { vi } from 'vitest';
+import { LiveQueryPanel } from '../LiveQuery';
+import { QueryStreamState } from '../../hooks/useQueryStream';
+
+const theme = createTheme();
+
+const idle: QueryStreamState = {
+  status: 'idle',
+  streamId: null,
+  modelName: null,
+  query: null,
+  response: '',
+  error: null,
+};
+
+const renderPanel = (stream: QueryStreamState, isConnected = true) => {
+  const onStart = vi.fn();
+  const onCancel = vi.fn();
+  render(
+    <ThemeProvider theme={theme}>
+      <LiveQueryPanel
+        brandId="brand-1"
+        stream={stream}
+        isConnected={isConnected}
+        onStart={onStart}
+        onCancel={onCancel}
+      />
+    </ThemeProvider>
+  );
+  return { onStart, onCancel };
+};
+
+describe('LiveQueryPanel', () => {
+  it('starts a query for the brand', () => {
+    const { onStart } = renderPanel(idle);
+
+    fireEvent.change(screen.getByLabelText('Model (optional)'), { target: { value: 'GPT-4' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Run query' }));
+
+    expect(onStart).toHaveBeenCalledWith({ brandId: 'brand-1', queryType: 'visibility', modelName: 'GPT-4' });
+  });
+
+  it('waits for the connection before starting', () => {
+    renderPanel(idle, false);
+
+    expect(screen.getByRole('button', { name: 'Run query' })).toBeDisabled();
+    expect(screen.getByText('Connecting to the live query service…')).toBeInTheDocument();
+  });
+
+  it('can cancel while the query waits for the model', () => {
+    const { onCancel } = renderPanel({ ...idle, status: 'connecting', streamId: 'stream-1' });
+
+    expect(screen.getByText('Waiting for the model')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('shows the answer as it streams in', () => {
+    renderPanel({
+      ...idle,
+      status: 'streaming',
+      streamId: 'stream-1',
+      modelName: 'GPT-4',
+      query: 'What do you know about TechCorp?',
+      response: 'TechCorp makes',
+    });
+
+    expect(screen.getByText('GPT-4')).toBeInTheDocument();
+    expect(screen.getByText('What do you know about TechCorp?')).toBeInTheDocument();
+    expect(screen.getByTestId('live-query-response')).toHaveTextContent('TechCorp makes');
+    expect(screen.getByRole('button', { name: 'Cancel' })).toBeInTheDocument();
+  });
+
+  it('reports a failed query', () => {
+    renderPanel({ ...idle, status: 'error', error: 'Model Llama does not support streaming' });
+
+    expect(screen.getByText('Model Llama does not support streaming')).toBeInTheDocument();
+    expect(screen.getByText('Failed')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,64 @@
+import { render, screen } from '@testing-library/react';
+import { ThemeProvider, createTheme } from '@mui/material/styles';
+import { ResponseDiffView } from '../ResponseDiff';
+import { ResponseDiff } from '../../types/responseDiff';
+
+const theme = createTheme();
+
+const diff: ResponseDiff = {
+  similarity: 0.5,
+  previous_claims: [
+    { text: 'TechCorp offers a free plan.', status: 'removed' },
+    { text: 'TechCorp integrates with Gmail.', status: 'unchanged' },
+  ],
+  latest_claims: [
+    { text: 'TechCorp integrates with Gmail and Outlook.', status: 'unchanged' },
+    { text: 'HubSpot is a cheaper alternative.', status: 'added' },
+  ],
+  claims: {
+    added: ['HubSpot is a cheaper alternative.'],
+    removed: ['TechCorp offers a free plan.'],
+    unchanged: 1,
+  },
+  mentions: {
+    previous_count: 2,
+    latest_count: 1,
+    previous_sentiment: 0.6,
+    latest_sentiment: 0.2,
+    previous_position: 1,
+    latest_position: null,
+  },
+  competitors: { added: ['HubSpot'], removed: [], unchanged: [] },
+  citations: { added: [], removed: [], unchanged: ['https://example.com/review'] },
+};
+
+const renderView = () => render(
+  <ThemeProvider theme={theme}>
+    <ResponseDiffView
+      diff={diff}
+      previousDate="2024-03-01T09:00:00Z"
+      latestDate="2024-03-08T09:00:00Z"
+    />
+  </ThemeProvider>
+);
+
+describe('ResponseDiffView', () => {
+  it('shows both answers side by side with changed claims marked', () => {
+    renderView();
+
+    expect(screen.getByText('Previous answer')).toBeInTheDocument();
+    expect(screen.getByText('Latest answer')).toBeInTheDocument();
+    expect(screen.getByText('TechCorp offers a free plan.')).toHaveAttribute('data-status', 'removed');
+    expect(screen.getByText('HubSpot is a cheaper alternative.')).toHaveAttribute('data-status', 'added');
+  });
+
+  it('summarizes mention, competitor and citation changes', () => {
+    renderView();
+
+    expect(screen.getByText('1 added, 1 removed, 1 unchanged')).toBeInTheDocument();
+    expect(screen.getByText('Mentions: 2 → 1')).toBeInTheDocument();
+    expect(screen.getByText('List position: 1 → –')).toBeInTheDocument();
+    expect(screen.getByText('+ HubSpot')).toBeInTheDocument();
+    expect(screen.getByText('No change')).toBeInTheDocument();
+  });
+});
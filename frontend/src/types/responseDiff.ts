@@ -0,0 +1,53 @@
+export type ClaimStatus = 'added' | 'removed' | 'unchanged';
+
+export interface DiffedClaim {
+  text: string;
+  status: ClaimStatus;
+}
+
+export interface SetDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export interface ResponseDiff {
+  similarity: number;
+  previous_claims: DiffedClaim[];
+  latest_claims: DiffedClaim[];
+  claims: { added: string[]; removed: string[]; unchanged: number };
+  mentions: {
+    previous_count: number;
+    latest_count: number;
+    previous_sentiment: number | null;
+    latest_sentiment: number | null;
+    previous_position: number | null;
+    latest_position: number | null;
+  };
+  competitors: SetDiff;
+  citations: SetDiff;
+}
+
+export interface StoredResponse {
+  id: string;
+  query: string;
+  response: string;
+  created_at: string;
+}
+
+export interface ResponseDiffResult {
+  brand_id: string;
+  response: StoredResponse;
+  previous: StoredResponse | null;
+  diff: ResponseDiff | null;
+}
+
+export interface ResponseComparison {
+  response_id: string;
+  previous_response_id: string;
+  query: string;
+  ai_model_id: string;
+  model_name: string;
+  created_at: string;
+  previous_created_at: string;
+}